@@ -55,6 +55,7 @@ export default defineConfig({
 						{ text: "Exit Strategies", link: "/guides/exit-strategies" },
 						{ text: "Position Tracking", link: "/guides/position-tracking" },
 						{ text: "Order Management", link: "/guides/order-management" },
+						{ text: "Market Making", link: "/guides/market-making" },
 					],
 				},
 				{
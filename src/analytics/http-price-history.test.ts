@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { startMockServer } from "../lib/http/http-test-helpers.js";
+import type { MockServer } from "../lib/http/http-test-helpers.js";
+import { conditionId } from "../shared/identifiers.js";
+import { HttpPriceHistoryProvider } from "./http-price-history.js";
+import { PriceHistoryClient } from "./price-history.js";
+
+const CID = conditionId("0xcond");
+
+describe("HttpPriceHistoryProvider", () => {
+	let server: MockServer | undefined;
+
+	afterEach(async () => {
+		await server?.close();
+		server = undefined;
+	});
+
+	it("fetches the token's history oldest first, keeping the latest points", async () => {
+		server = await startMockServer(() => ({
+			body: {
+				history: [
+					{ t: 300, p: 0.53 },
+					{ t: 100, p: 0.5 },
+					{ t: 200, p: 0.52 },
+				],
+			},
+		}));
+		const provider = HttpPriceHistoryProvider.create({
+			host: server.url,
+			tokenFor: (cid) => `${cid}-yes`,
+		});
+
+		const points = await provider.getPriceHistory(CID, "1d", 2);
+
+		expect(points.map((p) => [p.timestampMs, p.price.toString()])).toEqual([
+			[200_000, "0.52"],
+			[300_000, "0.53"],
+		]);
+		const [req] = server.requests;
+		expect(req?.path).toBe("/prices-history");
+		expect(req?.query.get("market")).toBe("0xcond-yes");
+		expect(req?.query.get("interval")).toBe("1d");
+		expect(req?.headers.poly_signature).toBeUndefined();
+	});
+
+	it("surfaces HTTP errors through PriceHistoryClient", async () => {
+		server = await startMockServer(() => ({ status: 500 }));
+		const client = new PriceHistoryClient(HttpPriceHistoryProvider.create({ host: server.url }));
+
+		const result = await client.getPriceHistory(CID, "1h");
+
+		expect(result.ok).toBe(false);
+	});
+});
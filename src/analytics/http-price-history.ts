@@ -0,0 +1,80 @@
+/**
+ * HttpPriceHistoryProvider — PriceHistoryProvider over the CLOB `/prices-history` endpoint.
+ *
+ * Price history is public, so requests are unsigned; they draw from the
+ * "data" rate limiter.
+ */
+
+import { POLYMARKET_CLOB_URL } from "../lib/clob/http-providers.js";
+import { HttpClient } from "../lib/http/http-client.js";
+import type { HttpClientConfig } from "../lib/http/http-client.js";
+import { z } from "../lib/validation/index.js";
+import { Decimal } from "../shared/decimal.js";
+import type { ConditionId } from "../shared/identifiers.js";
+import type { PriceHistoryProvider, PriceInterval, PricePoint } from "./price-history.js";
+
+/** Configuration for HttpPriceHistoryProvider. */
+export interface HttpPriceHistoryConfig extends Omit<HttpClientConfig, "baseUrl"> {
+	/** Default: POLYMARKET_CLOB_URL */
+	readonly host?: string | undefined;
+	/**
+	 * The CLOB keys price history by token. Maps a market to the token whose
+	 * prices to fetch, typically its YES token. Default: the condition id as is.
+	 */
+	readonly tokenFor?: ((conditionId: ConditionId) => string) | undefined;
+}
+
+const historySchema = z.object({
+	history: z.array(z.object({ t: z.number(), p: z.number() })),
+});
+
+/**
+ * PriceHistoryProvider backed by the CLOB API.
+ *
+ * @example
+ * ```ts
+ * const history = new PriceHistoryClient(
+ *   HttpPriceHistoryProvider.create({ tokenFor: (cid) => yesTokens.get(cid) ?? cid }),
+ * );
+ * ```
+ */
+export class HttpPriceHistoryProvider implements PriceHistoryProvider {
+	private readonly http: HttpClient;
+	private readonly tokenFor: (conditionId: ConditionId) => string;
+
+	private constructor(http: HttpClient, tokenFor: (conditionId: ConditionId) => string) {
+		this.http = http;
+		this.tokenFor = tokenFor;
+	}
+
+	/**
+	 * Creates a price history provider.
+	 * @throws ConfigError if the host or timeout is invalid
+	 */
+	static create(config: HttpPriceHistoryConfig = {}): HttpPriceHistoryProvider {
+		const { host, tokenFor, ...rest } = config;
+		const http = HttpClient.create({ ...rest, baseUrl: host ?? POLYMARKET_CLOB_URL });
+		return new HttpPriceHistoryProvider(http, tokenFor ?? ((cid) => cid));
+	}
+
+	/** Points oldest first; `limit` keeps the most recent ones. */
+	async getPriceHistory(
+		conditionId: ConditionId,
+		interval: PriceInterval,
+		limit?: number,
+	): Promise<PricePoint[]> {
+		const res = await this.http.request(
+			{
+				method: "GET",
+				path: "/prices-history",
+				query: { market: this.tokenFor(conditionId), interval },
+				limiter: "data",
+			},
+			historySchema,
+		);
+		const points = res.history
+			.map((point) => ({ timestampMs: point.t * 1000, price: Decimal.from(point.p) }))
+			.sort((a, b) => a.timestampMs - b.timestampMs);
+		return limit === undefined ? points : points.slice(-limit);
+	}
+}
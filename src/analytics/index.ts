@@ -44,6 +44,7 @@ export {
 } from "./orderbook-analytics.js";
 export type { PricePoint, PriceInterval, PriceHistoryProvider } from "./price-history.js";
 export { PriceHistoryClient, VALID_INTERVALS } from "./price-history.js";
+export { HttpPriceHistoryProvider, type HttpPriceHistoryConfig } from "./http-price-history.js";
 export type { VpinConfig, TradeUpdate } from "./vpin.js";
 export { VpinTracker } from "./vpin.js";
 export type { BookLevel, OfiSnapshot } from "./ofi.js";
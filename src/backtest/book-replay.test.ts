@@ -0,0 +1,261 @@
+import { describe, expect, it } from "vitest";
+import type { OrderbookSnapshot } from "../market/types.js";
+import { Decimal } from "../shared/decimal.js";
+import { ConfigError } from "../shared/errors.js";
+import { OrderDirection } from "../signal/types.js";
+import type { BookReplayContext, BookReplayEvent, ReplayOrderRequest } from "./book-replay.js";
+import { runBookReplay } from "./book-replay.js";
+import { CommissionModel } from "./slippage-model.js";
+
+const d = (v: string | number) => Decimal.from(v);
+
+const snapshot = (
+	timestampMs: number,
+	bids: [string, string][],
+	asks: [string, string][],
+): BookReplayEvent => ({
+	type: "snapshot",
+	book: {
+		bids: bids.map(([price, size]) => ({ price: d(price), size: d(size) })),
+		asks: asks.map(([price, size]) => ({ price: d(price), size: d(size) })),
+		timestampMs,
+	} satisfies OrderbookSnapshot,
+});
+
+const trade = (
+	timestampMs: number,
+	price: string,
+	size: string,
+	aggressor: OrderDirection,
+): BookReplayEvent => ({ type: "trade", timestampMs, price: d(price), size: d(size), aggressor });
+
+const BOOK = snapshot(
+	1000,
+	[
+		["0.49", "100"],
+		["0.48", "200"],
+	],
+	[
+		["0.51", "50"],
+		["0.52", "50"],
+		["0.55", "100"],
+	],
+);
+
+/** Submits the given order on the first event and does nothing afterwards. */
+function submitOnce(request: ReplayOrderRequest) {
+	let done = false;
+	return {
+		onEvent: (_e: BookReplayEvent, ctx: BookReplayContext) => {
+			if (done) return;
+			done = true;
+			ctx.submit(request);
+		},
+	};
+}
+
+const config = { initialBalance: d(1000) };
+
+describe("runBookReplay", () => {
+	describe("marketable orders", () => {
+		it("market buy walks the asks and reports VWAP slippage", () => {
+			const result = runBookReplay(
+				config,
+				[BOOK],
+				submitOnce({ direction: OrderDirection.Buy, size: d(80) }),
+			);
+
+			const fill = result.fills[0];
+			expect(fill?.liquidity).toBe("taker");
+			expect(fill?.size.toNumber()).toBe(80);
+			// (50 × 0.51 + 30 × 0.52) / 80
+			expect(fill?.price.toNumber()).toBeCloseTo(0.51375, 10);
+			expect(fill?.slippage.toNumber()).toBeCloseTo(0.00375, 10);
+			expect(result.finalPosition.toNumber()).toBe(80);
+			expect(result.orders[0]?.status).toBe("filled");
+		});
+
+		it("market order larger than the book fills what is there and cancels the rest", () => {
+			const result = runBookReplay(
+				config,
+				[BOOK],
+				submitOnce({ direction: OrderDirection.Sell, size: d(500) }),
+			);
+
+			expect(result.fills[0]?.size.toNumber()).toBe(300);
+			expect(result.orders[0]?.status).toBe("cancelled");
+			expect(result.orders[0]?.filled.toNumber()).toBe(300);
+		});
+
+		it("marketable limit fills up to its price and rests the remainder", () => {
+			const result = runBookReplay(
+				config,
+				[BOOK],
+				submitOnce({ direction: OrderDirection.Buy, size: d(150), price: d("0.52") }),
+			);
+
+			expect(result.fills).toHaveLength(1);
+			expect(result.fills[0]?.size.toNumber()).toBe(100);
+			expect(result.orders[0]?.status).toBe("open");
+			expect(result.orders[0]?.filled.toNumber()).toBe(100);
+		});
+
+		it("consumed liquidity is not available to the next order until the level is resized", () => {
+			const seen: number[] = [];
+			const result = runBookReplay(
+				config,
+				[
+					BOOK,
+					snapshot(2000, [["0.49", "100"]], [["0.51", "50"]]),
+					snapshot(3000, [["0.49", "100"]], [["0.51", "40"]]),
+				],
+				{
+					onEvent: (_e, ctx) => {
+						const order = ctx.submit({ direction: OrderDirection.Buy, size: d(60) });
+						seen.push(order.filled.toNumber());
+					},
+				},
+			);
+
+			// The 0.51 level restated at 50 is the liquidity already taken
+			expect(seen).toEqual([60, 0, 40]);
+			expect(result.fills[0]?.price.toNumber()).toBeCloseTo((50 * 0.51 + 10 * 0.52) / 60, 10);
+		});
+	});
+
+	describe("resting orders", () => {
+		const restingBuy = () =>
+			submitOnce({ direction: OrderDirection.Buy, size: d(20), price: d("0.50") });
+
+		it("fills at the limit when a delta moves the ask through it", () => {
+			const result = runBookReplay(
+				config,
+				[
+					BOOK,
+					{
+						type: "delta",
+						timestampMs: 2000,
+						delta: { bids: [], asks: [{ price: d("0.50"), size: d(10) }] },
+					},
+				],
+				restingBuy(),
+			);
+
+			expect(result.fills).toHaveLength(1);
+			expect(result.fills[0]?.liquidity).toBe("maker");
+			expect(result.fills[0]?.price.toNumber()).toBe(0.5);
+			// Only the 10 offered through the price cross the order
+			expect(result.fills[0]?.size.toNumber()).toBe(10);
+			expect(result.fills[0]?.timestampMs).toBe(2000);
+			expect(result.orders[0]?.status).toBe("open");
+		});
+
+		it("does not fill a crossed order again from levels a later book restates", () => {
+			const crossed = snapshot(2000, [["0.49", "100"]], [["0.50", "10"]]);
+			const result = runBookReplay(
+				config,
+				[BOOK, crossed, snapshot(3000, [["0.49", "100"]], [["0.50", "10"]])],
+				restingBuy(),
+			);
+
+			expect(result.fills.map((f) => f.size.toNumber())).toEqual([10]);
+			expect(result.orders[0]?.filled.toNumber()).toBe(10);
+		});
+
+		it("a print through the price fills up to the print size", () => {
+			const result = runBookReplay(
+				config,
+				[BOOK, trade(2000, "0.49", "15", OrderDirection.Sell)],
+				restingBuy(),
+			);
+
+			expect(result.fills[0]?.size.toNumber()).toBe(15);
+			expect(result.orders[0]?.status).toBe("open");
+		});
+
+		it("prints at the price fill only after the size queued ahead has traded", () => {
+			const joinBid = submitOnce({ direction: OrderDirection.Buy, size: d(20), price: d("0.49") });
+
+			const result = runBookReplay(
+				config,
+				[
+					BOOK,
+					trade(2000, "0.49", "60", OrderDirection.Sell),
+					trade(3000, "0.49", "50", OrderDirection.Sell),
+				],
+				joinBid,
+			);
+
+			// 100 were bid at 0.49 ahead of the order: 60 + 40 trade first
+			expect(result.fills.map((f) => [f.timestampMs, f.size.toNumber()])).toEqual([[3000, 10]]);
+			expect(result.fills[0]?.liquidity).toBe("maker");
+		});
+
+		it("moves an order up the queue when the size ahead of it shrinks", () => {
+			const joinBid = submitOnce({ direction: OrderDirection.Buy, size: d(20), price: d("0.49") });
+
+			const result = runBookReplay(
+				config,
+				[
+					BOOK,
+					snapshot(2000, [["0.49", "30"]], [["0.51", "50"]]),
+					trade(3000, "0.49", "40", OrderDirection.Sell),
+				],
+				joinBid,
+			);
+
+			expect(result.fills[0]?.size.toNumber()).toBe(10);
+		});
+
+		it("ignores prints from takers on the same side", () => {
+			const result = runBookReplay(
+				config,
+				[BOOK, trade(2000, "0.49", "50", OrderDirection.Buy)],
+				restingBuy(),
+			);
+			expect(result.fills).toHaveLength(0);
+		});
+
+		it("cancelled orders no longer fill", () => {
+			let id = "";
+			const result = runBookReplay(config, [BOOK, trade(2000, "0.49", "50", OrderDirection.Sell)], {
+				onEvent: (_e, ctx) => {
+					if (id === "") {
+						id = ctx.submit({
+							direction: OrderDirection.Buy,
+							size: d(10),
+							price: d("0.50"),
+						}).id;
+						expect(ctx.cancel(id)).toBe(true);
+						expect(ctx.cancel(id)).toBe(false);
+					}
+				},
+			});
+			expect(result.fills).toHaveLength(0);
+			expect(result.orders[0]?.status).toBe("cancelled");
+		});
+	});
+
+	describe("accounting", () => {
+		it("marks inventory to mid and charges commission per fill", () => {
+			const result = runBookReplay(
+				{ ...config, commission: CommissionModel.flat(0.1) },
+				[BOOK, snapshot(2000, [["0.59", "100"]], [["0.61", "100"]])],
+				submitOnce({ direction: OrderDirection.Buy, size: d(10) }),
+			);
+
+			// cash 1000 - 5.1 - 0.1; inventory 10 @ mid 0.50 then 0.60
+			expect(result.equityCurve.map((e) => e.toNumber())).toEqual([999.8, 1000.8]);
+			expect(result.totalPnl.toNumber()).toBeCloseTo(0.8, 10);
+			expect(result.fills[0]?.commission.toNumber()).toBe(0.1);
+		});
+
+		it("rejects events that go back in time", () => {
+			expect(() =>
+				runBookReplay(config, [snapshot(2000, [], []), snapshot(1000, [], [])], {
+					onEvent: () => {},
+				}),
+			).toThrow(ConfigError);
+		});
+	});
+});
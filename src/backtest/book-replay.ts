@@ -0,0 +1,444 @@
+/**
+ * Order-book replay — backtests against full L2 depth and trade prints.
+ *
+ * Marketable orders walk the replayed book (effectivePrice / estimateSlippage) and
+ * consume the liquidity they take until a snapshot or delta reports a new size for
+ * those levels. Resting limit orders fill when a trade print trades through their
+ * price, or when the book crosses it, up to the depth that crosses. Prints at their
+ * price fill them once the size queued ahead of them, taken from the book when they
+ * were placed, has traded.
+ */
+
+import { estimateSlippage } from "../analytics/orderbook-analytics.js";
+import { applyDelta, effectivePrice, midPrice } from "../market/orderbook.js";
+import type { OrderbookDelta, OrderbookLevel, OrderbookSnapshot } from "../market/types.js";
+import { Decimal } from "../shared/decimal.js";
+import { ConfigError } from "../shared/errors.js";
+import { OrderDirection } from "../signal/types.js";
+import type { CommissionModel } from "./slippage-model.js";
+
+/** One replayed market data event. */
+export type BookReplayEvent =
+	| { readonly type: "snapshot"; readonly book: OrderbookSnapshot }
+	| { readonly type: "delta"; readonly timestampMs: number; readonly delta: OrderbookDelta }
+	| {
+			readonly type: "trade";
+			readonly timestampMs: number;
+			readonly price: Decimal;
+			readonly size: Decimal;
+			/** Side of the taker that printed the trade. */
+			readonly aggressor: OrderDirection;
+	  };
+
+/** Order request placed by a replay strategy. Omit `price` for a market (IOC) order. */
+export interface ReplayOrderRequest {
+	readonly direction: OrderDirection;
+	readonly size: Decimal;
+	readonly price?: Decimal | undefined;
+}
+
+/** Current state of a simulated order. */
+export interface ReplayOrder {
+	readonly id: string;
+	readonly direction: OrderDirection;
+	/** Limit price, or null for market orders. */
+	readonly price: Decimal | null;
+	readonly size: Decimal;
+	readonly filled: Decimal;
+	readonly status: "open" | "filled" | "cancelled";
+	readonly submittedAtMs: number;
+}
+
+/** A simulated execution. Taker fills walk the book; maker fills come from the queue. */
+export interface ReplayFill {
+	readonly orderId: string;
+	readonly timestampMs: number;
+	readonly direction: OrderDirection;
+	readonly price: Decimal;
+	readonly size: Decimal;
+	readonly liquidity: "taker" | "maker";
+	/** Distance between the VWAP and the touch for taker fills; zero for maker fills. */
+	readonly slippage: Decimal;
+	readonly commission: Decimal;
+}
+
+/** View of the simulation handed to the strategy after every event. */
+export interface BookReplayContext {
+	readonly nowMs: number;
+	readonly book: OrderbookSnapshot;
+	/** Net inventory (positive = long). */
+	readonly position: Decimal;
+	readonly cash: Decimal;
+	openOrders(): readonly ReplayOrder[];
+	submit(request: ReplayOrderRequest): ReplayOrder;
+	/** Returns false if the order is unknown or no longer open. */
+	cancel(orderId: string): boolean;
+}
+
+/** Strategy driven by the book replay. */
+export interface BookReplayStrategy {
+	onEvent(event: BookReplayEvent, ctx: BookReplayContext): void;
+}
+
+/** Configuration for a book replay run. */
+export interface BookReplayConfig {
+	readonly initialBalance: Decimal;
+	readonly commission?: CommissionModel;
+}
+
+/** Result of a book replay run. */
+export interface BookReplayResult {
+	readonly fills: readonly ReplayFill[];
+	readonly orders: readonly ReplayOrder[];
+	/** Cash plus inventory marked to mid after every event. */
+	readonly equityCurve: readonly Decimal[];
+	readonly finalBalance: Decimal;
+	readonly totalPnl: Decimal;
+	readonly finalPosition: Decimal;
+}
+
+/**
+ * Replay L2 book events and trade prints through a strategy.
+ *
+ * @param config Initial balance and commission.
+ * @param events Chronological snapshots, deltas and trade prints.
+ * @param strategy Receives every event after resting orders have been matched against it.
+ * @returns BookReplayResult with fills, orders and a mark-to-mid equity curve.
+ * @throws ConfigError if events are not in chronological order.
+ *
+ * @example
+ * ```ts
+ * const result = runBookReplay({ initialBalance: Decimal.from(1000) }, events, {
+ *   onEvent: (_e, ctx) => {
+ *     if (ctx.position.isZero() && ctx.openOrders().length === 0) {
+ *       ctx.submit({ direction: OrderDirection.Buy, size: Decimal.from(10), price: Decimal.from("0.45") });
+ *     }
+ *   },
+ * });
+ * ```
+ */
+export function runBookReplay(
+	config: BookReplayConfig,
+	events: Iterable<BookReplayEvent>,
+	strategy: BookReplayStrategy,
+): BookReplayResult {
+	const sim = new BookReplaySimulator(config);
+	const equityCurve: Decimal[] = [];
+
+	for (const event of events) {
+		sim.apply(event);
+		strategy.onEvent(event, sim);
+		equityCurve.push(sim.equity());
+	}
+
+	const finalBalance = equityCurve[equityCurve.length - 1] ?? config.initialBalance;
+	return {
+		fills: sim.fills,
+		orders: sim.allOrders(),
+		equityCurve,
+		finalBalance,
+		totalPnl: finalBalance.sub(config.initialBalance),
+		finalPosition: sim.position,
+	};
+}
+
+interface OrderState {
+	order: ReplayOrder;
+	/** Size queued ahead of a resting order at its price; null unless resting. */
+	queueAhead: Decimal | null;
+}
+
+/** Depth taken from a feed level, and the level size it was taken from. */
+interface ConsumedLevel {
+	readonly taken: Decimal;
+	readonly feedSize: Decimal;
+}
+
+class BookReplaySimulator implements BookReplayContext {
+	nowMs = 0;
+	/** The replayed book less the depth simulated orders have taken. */
+	book: OrderbookSnapshot = { bids: [], asks: [], timestampMs: 0 };
+	position = Decimal.zero();
+	cash: Decimal;
+	readonly fills: ReplayFill[] = [];
+	private feedBook: OrderbookSnapshot = { bids: [], asks: [], timestampMs: 0 };
+	/** Taken depth per "bids:price" / "asks:price" level. */
+	private readonly consumed = new Map<string, ConsumedLevel>();
+	private readonly orders = new Map<string, OrderState>();
+	private readonly commission: CommissionModel | undefined;
+	private lastTradePrice: Decimal | null = null;
+	private counter = 0;
+
+	constructor(config: BookReplayConfig) {
+		this.cash = config.initialBalance;
+		this.commission = config.commission;
+	}
+
+	apply(event: BookReplayEvent): void {
+		const ts = event.type === "snapshot" ? event.book.timestampMs : event.timestampMs;
+		if (ts < this.nowMs) {
+			throw new ConfigError("events must be in chronological order", {
+				previousMs: this.nowMs,
+				timestampMs: ts,
+			});
+		}
+		this.nowMs = ts;
+
+		switch (event.type) {
+			case "snapshot":
+				this.feedBook = event.book;
+				this.refreshBook();
+				break;
+			case "delta":
+				this.feedBook = { ...applyDelta(this.feedBook, event.delta), timestampMs: ts };
+				this.refreshBook();
+				break;
+			case "trade":
+				this.lastTradePrice = event.price;
+				this.matchTrade(event.price, event.size, event.aggressor);
+				break;
+		}
+	}
+
+	equity(): Decimal {
+		const mark = midPrice(this.book) ?? this.lastTradePrice;
+		return mark === null ? this.cash : this.cash.add(this.position.mul(mark));
+	}
+
+	allOrders(): readonly ReplayOrder[] {
+		return [...this.orders.values()].map((s) => s.order);
+	}
+
+	openOrders(): readonly ReplayOrder[] {
+		return this.allOrders().filter((o) => o.status === "open");
+	}
+
+	submit(request: ReplayOrderRequest): ReplayOrder {
+		this.counter++;
+		const state: OrderState = {
+			order: {
+				id: `replay-${this.counter}`,
+				direction: request.direction,
+				price: request.price ?? null,
+				size: request.size,
+				filled: Decimal.zero(),
+				status: "open",
+				submittedAtMs: this.nowMs,
+			},
+			queueAhead: null,
+		};
+		this.orders.set(state.order.id, state);
+
+		this.takeLiquidity(state);
+
+		if (state.order.status === "open") {
+			if (state.order.price === null) {
+				this.update(state, { status: "cancelled" });
+			} else {
+				state.queueAhead = this.restingSize(state.order.direction, state.order.price);
+			}
+		}
+		return state.order;
+	}
+
+	cancel(orderId: string): boolean {
+		const state = this.orders.get(orderId);
+		if (!state || state.order.status !== "open") return false;
+		this.update(state, { status: "cancelled" });
+		return true;
+	}
+
+	/** Walks the opposite side of the book up to the limit price and fills as taker. */
+	private takeLiquidity(state: OrderState): void {
+		const { order } = state;
+		const isBuy = order.direction === OrderDirection.Buy;
+		const side = isBuy ? "buy" : "sell";
+		const levels = isBuy ? this.book.asks : this.book.bids;
+		const limit = order.price;
+		const marketable = levels.filter(
+			(l) => limit === null || (isBuy ? l.price.lte(limit) : l.price.gte(limit)),
+		);
+
+		let available = Decimal.zero();
+		for (const level of marketable) available = available.add(level.size);
+		const size = Decimal.min(available, remaining(order));
+		if (size.isZero()) return;
+
+		const reachable: OrderbookSnapshot = {
+			bids: isBuy ? [] : marketable,
+			asks: isBuy ? marketable : [],
+			timestampMs: this.book.timestampMs,
+		};
+		const price = effectivePrice(reachable, size, side);
+		if (price === null) return;
+
+		this.record(state, price, size, "taker", estimateSlippage(reachable, side, size));
+		this.consume(isBuy, size, limit);
+	}
+
+	/**
+	 * Takes `size` from the best levels of the asks (buys) or bids (sells) up to
+	 * `limit`. The depth stays taken until the feed reports a new size for a level.
+	 */
+	private consume(isBuy: boolean, size: Decimal, limit: Decimal | null): void {
+		const side = isBuy ? "asks" : "bids";
+		let left = size;
+		for (const level of this.book[side]) {
+			if (left.isZero()) break;
+			if (limit !== null && (isBuy ? level.price.gt(limit) : level.price.lt(limit))) break;
+			const take = Decimal.min(left, level.size);
+			left = left.sub(take);
+			const key = `${side}:${level.price.toString()}`;
+			const prior = this.consumed.get(key);
+			this.consumed.set(key, {
+				taken: (prior?.taken ?? Decimal.zero()).add(take),
+				feedSize: prior?.feedSize ?? level.size,
+			});
+		}
+		this.book = this.depleted();
+	}
+
+	/** The feed book less the depth still taken; levels the feed resized are restored. */
+	private depleted(): OrderbookSnapshot {
+		const listed = new Set<string>();
+		const side = (name: "bids" | "asks"): OrderbookLevel[] => {
+			const levels: OrderbookLevel[] = [];
+			for (const level of this.feedBook[name]) {
+				const key = `${name}:${level.price.toString()}`;
+				listed.add(key);
+				const taken = this.consumed.get(key);
+				if (taken === undefined) {
+					levels.push(level);
+				} else if (!taken.feedSize.eq(level.size)) {
+					this.consumed.delete(key);
+					levels.push(level);
+				} else if (level.size.gt(taken.taken)) {
+					levels.push({ price: level.price, size: level.size.sub(taken.taken) });
+				}
+			}
+			return levels;
+		};
+		const bids = side("bids");
+		const asks = side("asks");
+		// Levels gone from the feed are no longer taken
+		for (const key of this.consumed.keys()) {
+			if (!listed.has(key)) this.consumed.delete(key);
+		}
+		return { bids, asks, timestampMs: this.feedBook.timestampMs };
+	}
+
+	/** Rebuilds the book from the feed, shortens queues that shrank, then matches crossed orders. */
+	private refreshBook(): void {
+		this.book = this.depleted();
+		for (const state of this.restingOrders()) {
+			const { price, direction } = state.order;
+			if (price === null || state.queueAhead === null) continue;
+			state.queueAhead = Decimal.min(state.queueAhead, this.restingSize(direction, price));
+		}
+		this.fillCrossedOrders();
+	}
+
+	/**
+	 * Resting orders the book has moved through fill at their limit against the
+	 * depth that crosses them, oldest order first; that depth is then taken.
+	 */
+	private fillCrossedOrders(): void {
+		for (const state of this.restingOrders()) {
+			const { price, direction } = state.order;
+			if (price === null) continue;
+			const isBuy = direction === OrderDirection.Buy;
+			let depth = Decimal.zero();
+			for (const level of isBuy ? this.book.asks : this.book.bids) {
+				if (isBuy ? level.price.gt(price) : level.price.lt(price)) break;
+				depth = depth.add(level.size);
+			}
+			const size = Decimal.min(depth, remaining(state.order));
+			if (size.isZero()) continue;
+			this.record(state, price, size, "maker", Decimal.zero());
+			this.consume(isBuy, size, price);
+		}
+	}
+
+	/**
+	 * Trade prints through a resting price fill it outright; prints at the price
+	 * first trade the size queued ahead of it, and fill it with what is left.
+	 */
+	private matchTrade(price: Decimal, size: Decimal, aggressor: OrderDirection): void {
+		let printLeft = size;
+		for (const state of this.restingOrders()) {
+			if (printLeft.isZero()) break;
+			const { order, queueAhead } = state;
+			if (order.price === null || queueAhead === null) continue;
+			const isBuy = order.direction === OrderDirection.Buy;
+			// Only takers on the other side can hit a resting order
+			if ((aggressor === OrderDirection.Buy) === isBuy) continue;
+
+			const through = isBuy ? price.lt(order.price) : price.gt(order.price);
+			const atLevel = price.eq(order.price);
+			if (!through && !atLevel) continue;
+
+			// Later orders at the level share the queue ahead, so it drains for each
+			const ahead = through ? queueAhead : Decimal.min(queueAhead, printLeft);
+			state.queueAhead = queueAhead.sub(ahead);
+			const fillSize = Decimal.min(through ? printLeft : printLeft.sub(ahead), remaining(order));
+			if (fillSize.isZero()) continue;
+
+			this.record(state, order.price, fillSize, "maker", Decimal.zero());
+			printLeft = printLeft.sub(fillSize);
+		}
+	}
+
+	/** Size the book shows at `price` on the side a `direction` order rests on. */
+	private restingSize(direction: OrderDirection, price: Decimal): Decimal {
+		const levels = direction === OrderDirection.Buy ? this.book.bids : this.book.asks;
+		return levels.find((l) => l.price.eq(price))?.size ?? Decimal.zero();
+	}
+
+	private restingOrders(): OrderState[] {
+		return [...this.orders.values()].filter(
+			(s) => s.order.status === "open" && s.queueAhead !== null,
+		);
+	}
+
+	private record(
+		state: OrderState,
+		price: Decimal,
+		size: Decimal,
+		liquidity: ReplayFill["liquidity"],
+		slippage: Decimal | null,
+	): void {
+		const notional = price.mul(size);
+		const commission = this.commission ? this.commission.calc(notional) : Decimal.zero();
+		const isBuy = state.order.direction === OrderDirection.Buy;
+
+		this.position = isBuy ? this.position.add(size) : this.position.sub(size);
+		this.cash = (isBuy ? this.cash.sub(notional) : this.cash.add(notional)).sub(commission);
+		this.fills.push({
+			orderId: state.order.id,
+			timestampMs: this.nowMs,
+			direction: state.order.direction,
+			price,
+			size,
+			liquidity,
+			slippage: slippage ?? Decimal.zero(),
+			commission,
+		});
+
+		const filled = state.order.filled.add(size);
+		this.update(state, {
+			filled,
+			status: filled.gte(state.order.size) ? "filled" : state.order.status,
+		});
+	}
+
+	private update(state: OrderState, patch: Partial<Pick<ReplayOrder, "filled" | "status">>): void {
+		state.order = { ...state.order, ...patch };
+		if (state.order.status !== "open") {
+			state.queueAhead = null;
+		}
+	}
+}
+
+function remaining(order: ReplayOrder): Decimal {
+	return order.size.sub(order.filled);
+}
@@ -1,8 +1,10 @@
 import { describe, expect, it } from "vitest";
 import { Decimal } from "../shared/decimal.js";
+import { ConfigError } from "../shared/errors.js";
+import { conditionId } from "../shared/identifiers.js";
 import { MarketSide } from "../shared/market-side.js";
 import { OrderDirection } from "../signal/types.js";
-import type { BacktestConfig, BacktestDetector } from "./engine.js";
+import type { BacktestConfig, BacktestDetector, EntryState } from "./engine.js";
 import { runBacktest } from "./engine.js";
 import { CommissionModel, FixedBpsSlippage } from "./slippage-model.js";
 import type { ReplayTick } from "./types.js";
@@ -420,4 +422,169 @@ describe("runBacktest", () => {
 			expect(result.equityCurve[1]?.toNumber()).toBe(1000);
 		});
 	});
+
+	describe("multiple entries and partial reductions", () => {
+		const buyAt = (times: number[], size = 10): BacktestDetector["shouldEnter"] => {
+			return (tick) =>
+				times.includes(tick.timestampMs)
+					? { direction: OrderDirection.Buy, size: Decimal.from(size) }
+					: null;
+		};
+
+		it("scales in up to maxOpenEntries and closes each entry separately", () => {
+			const ticks = [
+				mkTick(1000, 0.5, 0.51),
+				mkTick(2000, 0.52, 0.53),
+				mkTick(3000, 0.54, 0.55),
+				mkTick(4000, 0.56, 0.57),
+			];
+			const detector: BacktestDetector = {
+				shouldEnter: buyAt([1000, 2000, 3000]),
+				shouldExit: (tick) => tick.timestampMs === 4000,
+			};
+			const result = runBacktest(
+				{ initialBalance: Decimal.from(1000), maxOpenEntries: 2 },
+				ticks,
+				detector,
+			);
+
+			expect(result.tradeCount).toBe(2);
+			expect(result.trades.map((t) => t.entryPrice.toNumber())).toEqual([0.51, 0.53]);
+			expect(result.trades.every((t) => t.exitPrice.toNumber() === 0.56)).toBe(true);
+			// (0.56 - 0.51) × 10 + (0.56 - 0.53) × 10
+			expect(result.totalPnl.toNumber()).toBeCloseTo(0.8, 10);
+		});
+
+		it("partial take-profit realizes P&L on the reduced size only", () => {
+			const ticks = [mkTick(1000, 0.5, 0.51), mkTick(2000, 0.6, 0.61), mkTick(3000, 0.55, 0.56)];
+			const seen: EntryState[][] = [];
+			const detector: BacktestDetector = {
+				shouldEnter: buyAt([1000]),
+				shouldExit: () => false,
+				shouldReduce: (tick, entries) => {
+					seen.push([...entries]);
+					return tick.timestampMs === 2000 ? Decimal.from(4) : null;
+				},
+			};
+			const result = runBacktest({ initialBalance: Decimal.from(1000) }, ticks, detector);
+
+			expect(result.tradeCount).toBe(2);
+			const [partial, rest] = result.trades;
+			expect(partial?.partial).toBe(true);
+			expect(partial?.size.toNumber()).toBe(4);
+			expect(partial?.pnl.toNumber()).toBeCloseTo((0.6 - 0.51) * 4, 10);
+			expect(rest?.partial).toBe(false);
+			expect(rest?.size.toNumber()).toBe(6);
+			expect(rest?.pnl.toNumber()).toBeCloseTo((0.55 - 0.51) * 6, 10);
+			expect(seen[2]?.[0]?.size.toNumber()).toBe(6);
+			expect(result.equityCurve[1]?.toNumber()).toBeCloseTo(1000 + 0.36, 10);
+		});
+
+		it("reductions consume entries FIFO and split one order's commission", () => {
+			const ticks = [mkTick(1000, 0.5, 0.51), mkTick(2000, 0.52, 0.53), mkTick(3000, 0.6, 0.61)];
+			const detector: BacktestDetector = {
+				shouldEnter: buyAt([1000, 2000]),
+				shouldExit: () => false,
+				shouldReduce: (tick) => (tick.timestampMs === 3000 ? Decimal.from(15) : null),
+			};
+			const result = runBacktest(
+				{
+					initialBalance: Decimal.from(1000),
+					maxOpenEntries: 2,
+					commission: CommissionModel.flat(0.1),
+				},
+				ticks,
+				detector,
+			);
+
+			const [first, second, tail] = result.trades;
+			expect(first?.entryPrice.toNumber()).toBe(0.51);
+			expect(first?.size.toNumber()).toBe(10);
+			expect(first?.partial).toBe(false);
+			expect(second?.entryPrice.toNumber()).toBe(0.53);
+			expect(second?.size.toNumber()).toBe(5);
+			expect(second?.partial).toBe(true);
+			// entry fee 0.1 each + one exit fee 0.1 split 10:5
+			expect(first?.commission.toNumber()).toBeCloseTo(0.1 + 0.1 * (10 / 15), 10);
+			expect(second?.commission.toNumber()).toBeCloseTo(0.1 + 0.1 * (5 / 15), 10);
+			expect(tail?.size.toNumber()).toBe(5);
+			expect(tail?.commission.toNumber()).toBeCloseTo(0.1, 10);
+		});
+
+		it("caps reductions at the size held", () => {
+			const ticks = [mkTick(1000, 0.5, 0.51), mkTick(2000, 0.6, 0.61), mkTick(3000, 0.6, 0.61)];
+			const detector: BacktestDetector = {
+				shouldEnter: buyAt([1000]),
+				shouldExit: () => false,
+				shouldReduce: (tick) => (tick.timestampMs === 2000 ? Decimal.from(50) : null),
+			};
+			const result = runBacktest({ initialBalance: Decimal.from(1000) }, ticks, detector);
+
+			expect(result.tradeCount).toBe(1);
+			expect(result.trades[0]?.size.toNumber()).toBe(10);
+			expect(result.trades[0]?.exitTick.timestampMs).toBe(2000);
+		});
+
+		it("tracks hedged YES and NO entries against their own side's prices", () => {
+			const ticks = [
+				mkTick(1000, 0.5, 0.51, MarketSide.Yes),
+				mkTick(1000, 0.47, 0.48, MarketSide.No),
+				mkTick(2000, 0.6, 0.61, MarketSide.Yes),
+				mkTick(2000, 0.38, 0.39, MarketSide.No),
+			];
+			const exitCalls: string[] = [];
+			const detector: BacktestDetector = {
+				shouldEnter: buyAt([1000]),
+				shouldExit: (tick, entry) => {
+					exitCalls.push(`${tick.side}:${entry.side}`);
+					return tick.timestampMs === 2000;
+				},
+			};
+			const result = runBacktest(
+				{ initialBalance: Decimal.from(1000), maxOpenEntries: 2 },
+				ticks,
+				detector,
+			);
+
+			expect(exitCalls.every((c) => c === "yes:yes" || c === "no:no")).toBe(true);
+			const yes = result.trades.find((t) => t.side === MarketSide.Yes);
+			const no = result.trades.find((t) => t.side === MarketSide.No);
+			expect(yes?.pnl.toNumber()).toBeCloseTo((0.6 - 0.51) * 10, 10);
+			expect(no?.pnl.toNumber()).toBeCloseTo((0.38 - 0.48) * 10, 10);
+		});
+
+		it("keys entries per market and force-closes each at its own last tick", () => {
+			const btc = conditionId("btc");
+			const eth = conditionId("eth");
+			const ticks: ReplayTick[] = [
+				{ ...mkTick(1000, 0.5, 0.51), conditionId: btc },
+				{ ...mkTick(1000, 0.3, 0.31), conditionId: eth },
+				{ ...mkTick(2000, 0.35, 0.36), conditionId: eth },
+				{ ...mkTick(3000, 0.55, 0.56), conditionId: btc },
+			];
+			const detector: BacktestDetector = {
+				shouldEnter: buyAt([1000]),
+				shouldExit: () => false,
+			};
+			const result = runBacktest(
+				{ initialBalance: Decimal.from(1000), maxOpenEntries: 5 },
+				ticks,
+				detector,
+			);
+
+			const btcTrade = result.trades.find((t) => t.conditionId === btc);
+			const ethTrade = result.trades.find((t) => t.conditionId === eth);
+			expect(btcTrade?.exitTick.timestampMs).toBe(3000);
+			expect(btcTrade?.exitPrice.toNumber()).toBe(0.55);
+			expect(ethTrade?.exitTick.timestampMs).toBe(2000);
+			expect(ethTrade?.exitPrice.toNumber()).toBe(0.35);
+		});
+
+		it("rejects maxOpenEntries below 1", () => {
+			const detector: BacktestDetector = { shouldEnter: () => null, shouldExit: () => false };
+			expect(() =>
+				runBacktest({ initialBalance: Decimal.from(1000), maxOpenEntries: 0 }, [], detector),
+			).toThrow(ConfigError);
+		});
+	});
 });
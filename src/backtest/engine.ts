@@ -1,17 +1,29 @@
+import { SdkPosition } from "../position/sdk-position.js";
 import { Decimal } from "../shared/decimal.js";
+import { ConfigError } from "../shared/errors.js";
+import { type ConditionId, conditionId, marketTokenId } from "../shared/identifiers.js";
+import type { MarketSide } from "../shared/market-side.js";
 import { OrderDirection } from "../signal/types.js";
 import type { CommissionModel, SlippageModel } from "./slippage-model.js";
 /**
  * Backtest engine — drives a tick loop over replay data, feeds ticks through a detector,
  * executes via paper trading logic, tracks equity curve, and collects trade P&Ls.
+ *
+ * Each entry is held as its own SdkPosition lot; partial reductions consume lots FIFO
+ * through SdkPosition.tryReduce so backtest P&L matches live position accounting.
  */
 import type { ReplayTick } from "./types.js";
 
+/** Market used for ticks that do not carry a conditionId. */
+const DEFAULT_MARKET = conditionId("backtest");
+
 /** Configuration for a backtest run. */
 export interface BacktestConfig {
 	readonly initialBalance: Decimal;
 	readonly slippage?: SlippageModel;
 	readonly commission?: CommissionModel;
+	/** Maximum concurrent entries across all markets and sides. Default: 1 */
+	readonly maxOpenEntries?: number;
 }
 
 /** Final result of a backtest run. */
@@ -23,8 +35,10 @@ export interface BacktestResult {
 	readonly tradeCount: number;
 }
 
-/** Record of a single completed trade. */
+/** Record of a completed trade — a full exit or a partial reduction of one entry. */
 export interface TradeRecord {
+	readonly conditionId: ConditionId;
+	readonly side: MarketSide;
 	readonly entryTick: ReplayTick;
 	readonly exitTick: ReplayTick;
 	readonly direction: OrderDirection;
@@ -33,30 +47,54 @@ export interface TradeRecord {
 	readonly exitPrice: Decimal;
 	readonly pnl: Decimal;
 	readonly commission: Decimal;
+	/** True when the entry still had size left after this trade. */
+	readonly partial: boolean;
 }
 
 /** Simplified strategy interface for backtesting. */
 export interface BacktestDetector {
 	shouldEnter(tick: ReplayTick): { direction: OrderDirection; size: Decimal } | null;
+	/** Called for each open entry on the tick's market and side; true closes its remaining size. */
 	shouldExit(tick: ReplayTick, entry: EntryState): boolean;
+	/**
+	 * Size to reduce from the open entries on the tick's market and side (oldest first),
+	 * or null to hold. Sizes above the total held are capped.
+	 */
+	shouldReduce?(tick: ReplayTick, entries: readonly EntryState[]): Decimal | null;
 }
 
 /** Current position state during backtest. */
 export interface EntryState {
+	readonly conditionId: ConditionId;
+	readonly side: MarketSide;
 	readonly direction: OrderDirection;
 	readonly entryPrice: Decimal;
+	/** Remaining size after any partial reductions. */
 	readonly size: Decimal;
 	readonly entryTimestampMs: number;
 	readonly entryTick: ReplayTick;
 }
 
+/** An open entry: its public state plus the SdkPosition lot used for P&L. */
+interface Lot {
+	state: EntryState;
+	position: SdkPosition;
+	/** Entry commission not yet charged to a trade record. */
+	entryCommission: Decimal;
+}
+
 /**
  * Run a backtest over a stream of ticks using a detector.
  *
- * @param config Backtest configuration (initial balance, slippage, commission).
+ * Entries are keyed by market (`tick.conditionId`) and side (`tick.side`); a tick only
+ * prices, reduces and exits the entries on its own market and side. Every entry still
+ * open on the final tick is closed at the last tick seen for its market and side.
+ *
+ * @param config Backtest configuration (initial balance, slippage, commission, entry limit).
  * @param ticks Iterable of replay ticks (can be array or generator).
- * @param detector Strategy that decides when to enter and exit.
+ * @param detector Strategy that decides when to enter, reduce and exit.
  * @returns BacktestResult with trades, equity curve, and P&L.
+ * @throws ConfigError if maxOpenEntries is less than 1.
  */
 export function runBacktest(
 	config: BacktestConfig,
@@ -64,11 +102,70 @@ export function runBacktest(
 	detector: BacktestDetector,
 ): BacktestResult {
 	const { initialBalance, slippage, commission } = config;
+	const maxOpenEntries = config.maxOpenEntries ?? 1;
+	if (maxOpenEntries < 1) {
+		throw new ConfigError("maxOpenEntries must be >= 1", { maxOpenEntries });
+	}
 
 	const trades: TradeRecord[] = [];
 	const equityCurve: Decimal[] = [];
 	let balance = initialBalance;
-	let currentEntry: EntryState | null = null;
+	let lots: Lot[] = [];
+	const lastTicks = new Map<string, ReplayTick>();
+
+	const commissionOn = (notional: Decimal): Decimal =>
+		commission ? commission.calc(notional) : Decimal.zero();
+
+	/** Reduces the given lots FIFO by `size` as a single exit order at `tick`. */
+	const reduce = (tick: ReplayTick, targets: readonly Lot[], size: Decimal): void => {
+		let remaining = size;
+		const fills: { lot: Lot; size: Decimal; exitPrice: Decimal }[] = [];
+		for (const lot of targets) {
+			if (!remaining.gt(Decimal.zero())) break;
+			const take = Decimal.min(remaining, lot.state.size);
+			fills.push({ lot, size: take, exitPrice: exitPriceFor(tick, lot.state, take, slippage) });
+			remaining = remaining.sub(take);
+		}
+		if (fills.length === 0) return;
+
+		let orderNotional = Decimal.zero();
+		let orderSize = Decimal.zero();
+		for (const fill of fills) {
+			orderNotional = orderNotional.add(fill.exitPrice.mul(fill.size));
+			orderSize = orderSize.add(fill.size);
+		}
+		const exitCommission = commissionOn(orderNotional);
+
+		for (const { lot, size: take, exitPrice } of fills) {
+			const reduced = lot.position.tryReduce(take, exitPrice);
+			if (!reduced.ok) continue;
+
+			const realized = reduced.value.realizedPnl.sub(lot.position.realizedPnl);
+			const rawPnl = lot.state.direction === OrderDirection.Buy ? realized : realized.neg();
+			const tradeCommission = lot.entryCommission.add(exitCommission.mul(take).div(orderSize));
+			balance = balance.add(rawPnl).sub(tradeCommission);
+
+			const left = reduced.value.size;
+			trades.push({
+				conditionId: lot.state.conditionId,
+				side: lot.state.side,
+				entryTick: lot.state.entryTick,
+				exitTick: tick,
+				direction: lot.state.direction,
+				size: take,
+				entryPrice: lot.state.entryPrice,
+				exitPrice,
+				pnl: rawPnl,
+				commission: tradeCommission,
+				partial: !left.isZero(),
+			});
+
+			lot.position = reduced.value;
+			lot.state = { ...lot.state, size: left };
+			lot.entryCommission = Decimal.zero();
+		}
+		lots = lots.filter((l) => !l.state.size.isZero());
+	};
 
 	const tickArray = Array.from(ticks);
 	if (tickArray.length === 0) {
@@ -86,8 +183,11 @@ export function runBacktest(
 		if (tick === undefined) continue;
 
 		const isLastTick = i === tickArray.length - 1;
+		const market = tick.conditionId ?? DEFAULT_MARKET;
+		const key = lotKey(market, tick.side);
+		lastTicks.set(key, tick);
 
-		if (currentEntry === null) {
+		if (lots.length < maxOpenEntries) {
 			const entrySignal = detector.shouldEnter(tick);
 			if (entrySignal !== null) {
 				const { direction, size } = entrySignal;
@@ -95,52 +195,55 @@ export function runBacktest(
 				const isBuy = direction === OrderDirection.Buy;
 				const entryPrice = slippage ? slippage.apply(basePrice, size, isBuy) : basePrice;
 
-				currentEntry = {
-					direction,
-					entryPrice,
-					size,
-					entryTimestampMs: tick.timestampMs,
-					entryTick: tick,
-				};
+				lots.push({
+					state: {
+						conditionId: market,
+						side: tick.side,
+						direction,
+						entryPrice,
+						size,
+						entryTimestampMs: tick.timestampMs,
+						entryTick: tick,
+					},
+					position: SdkPosition.open({
+						conditionId: market,
+						tokenId: marketTokenId(key),
+						side: tick.side,
+						entryPrice,
+						size,
+						entryTimeMs: tick.timestampMs,
+					}),
+					entryCommission: commissionOn(entryPrice.mul(size)),
+				});
 			}
 		}
 
-		if (currentEntry !== null) {
-			const shouldExit = detector.shouldExit(tick, currentEntry);
-
-			if (shouldExit || isLastTick) {
-				const baseExitPrice = currentEntry.direction === OrderDirection.Buy ? tick.bid : tick.ask;
-				const isBuyExit = currentEntry.direction === OrderDirection.Sell;
-				const exitPrice = slippage
-					? slippage.apply(baseExitPrice, currentEntry.size, isBuyExit)
-					: baseExitPrice;
-
-				const rawPnl =
-					currentEntry.direction === OrderDirection.Buy
-						? exitPrice.sub(currentEntry.entryPrice).mul(currentEntry.size)
-						: currentEntry.entryPrice.sub(exitPrice).mul(currentEntry.size);
-
-				const entryNotional = currentEntry.entryPrice.mul(currentEntry.size);
-				const exitNotional = exitPrice.mul(currentEntry.size);
-				const entryCommission = commission ? commission.calc(entryNotional) : Decimal.zero();
-				const exitCommission = commission ? commission.calc(exitNotional) : Decimal.zero();
-				const totalCommission = entryCommission.add(exitCommission);
-
-				const netPnl = rawPnl.sub(totalCommission);
-				balance = balance.add(netPnl);
-
-				trades.push({
-					entryTick: currentEntry.entryTick,
-					exitTick: tick,
-					direction: currentEntry.direction,
-					size: currentEntry.size,
-					entryPrice: currentEntry.entryPrice,
-					exitPrice,
-					pnl: rawPnl,
-					commission: totalCommission,
-				});
+		const onTick = (): Lot[] =>
+			lots.filter((l) => lotKey(l.state.conditionId, l.state.side) === key);
+
+		if (detector.shouldReduce) {
+			const open = onTick();
+			if (open.length > 0) {
+				const size = detector.shouldReduce(
+					tick,
+					open.map((l) => l.state),
+				);
+				if (size?.gt(Decimal.zero())) {
+					reduce(tick, open, size);
+				}
+			}
+		}
 
-				currentEntry = null;
+		for (const lot of onTick()) {
+			if (isLastTick || detector.shouldExit(tick, lot.state)) {
+				reduce(tick, [lot], lot.state.size);
+			}
+		}
+
+		if (isLastTick) {
+			for (const lot of [...lots]) {
+				const last = lastTicks.get(lotKey(lot.state.conditionId, lot.state.side));
+				if (last) reduce(last, [lot], lot.state.size);
 			}
 		}
 
@@ -157,3 +260,19 @@ export function runBacktest(
 		tradeCount: trades.length,
 	};
 }
+
+function lotKey(market: ConditionId, side: MarketSide): string {
+	return `${market}:${side}`;
+}
+
+/** Buys exit at the bid, sells at the ask, with slippage on the closing side. */
+function exitPriceFor(
+	tick: ReplayTick,
+	entry: EntryState,
+	size: Decimal,
+	slippage: SlippageModel | undefined,
+): Decimal {
+	const base = entry.direction === OrderDirection.Buy ? tick.bid : tick.ask;
+	const isBuyExit = entry.direction === OrderDirection.Sell;
+	return slippage ? slippage.apply(base, size, isBuyExit) : base;
+}
@@ -21,3 +21,23 @@ export type {
 	EntryState,
 } from "./engine.js";
 export { runBacktest } from "./engine.js";
+export type {
+	StrategyBacktestConfig,
+	StrategyBacktestResult,
+	StrategyTradeRecord,
+	GuardBlockRecord,
+} from "./strategy-engine.js";
+export { runStrategyBacktest } from "./strategy-engine.js";
+export type {
+	BookReplayConfig,
+	BookReplayContext,
+	BookReplayEvent,
+	BookReplayResult,
+	BookReplayStrategy,
+	ReplayFill,
+	ReplayOrder,
+	ReplayOrderRequest,
+} from "./book-replay.js";
+export { runBookReplay } from "./book-replay.js";
+export type { QuotingReplayConfig } from "./quoting-replay.js";
+export { quotingReplayStrategy } from "./quoting-replay.js";
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { Decimal } from "../shared/decimal.js";
+import { OrderDirection } from "../signal/types.js";
+import { SpreadQuoter } from "../strategy/quoting-strategy.js";
+import type { SpreadQuoterConfig } from "../strategy/quoting-strategy.js";
+import type { BookReplayEvent, BookReplayResult } from "./book-replay.js";
+import { runBookReplay } from "./book-replay.js";
+import { quotingReplayStrategy } from "./quoting-replay.js";
+
+const d = (v: string | number) => Decimal.from(v);
+
+const snapshot = (
+	timestampMs: number,
+	bid: string,
+	ask: string,
+	bidSize = "100",
+): BookReplayEvent => ({
+	type: "snapshot",
+	book: {
+		bids: [{ price: d(bid), size: d(bidSize) }],
+		asks: [{ price: d(ask), size: d("100") }],
+		timestampMs,
+	},
+});
+
+const trade = (
+	timestampMs: number,
+	price: string,
+	size: string,
+	aggressor: OrderDirection,
+): BookReplayEvent => ({ type: "trade", timestampMs, price: d(price), size: d(size), aggressor });
+
+function run(
+	events: BookReplayEvent[],
+	overrides: Partial<SpreadQuoterConfig> = {},
+): BookReplayResult {
+	const quoter = SpreadQuoter.create({
+		spread: {
+			baseSpreadBps: d(400),
+			volMultiplier: d(0),
+			minSpreadBps: d(50),
+			maxSpreadBps: d(2000),
+		},
+		sizePerLevel: d(50),
+		maxInventory: d(100),
+		...overrides,
+	});
+	return runBookReplay(
+		{ initialBalance: d(1000) },
+		events,
+		quotingReplayStrategy(quoter, { volatility: () => d(0) }),
+	);
+}
+
+function openQuotes(result: BookReplayResult): string[] {
+	return result.orders
+		.filter((o) => o.status === "open")
+		.map((o) => `${o.direction}@${o.price?.toString()}x${o.size.toString()}`);
+}
+
+describe("quotingReplayStrategy", () => {
+	it("quotes both sides around the mid and earns the spread on a round trip", () => {
+		const result = run([
+			snapshot(1000, "0.45", "0.55"),
+			trade(2000, "0.47", "50", OrderDirection.Sell),
+			trade(3000, "0.53", "50", OrderDirection.Buy),
+		]);
+
+		expect(result.fills.map((f) => `${f.direction}@${f.price.toString()}`)).toEqual([
+			"buy@0.48",
+			"sell@0.52",
+		]);
+		expect(result.finalPosition.toString()).toBe("0");
+		expect(result.totalPnl.toString()).toBe("2");
+	});
+
+	it("skews the bid with the replay position as inventory", () => {
+		const result = run([
+			snapshot(1000, "0.45", "0.55"),
+			trade(2000, "0.47", "50", OrderDirection.Sell),
+		]);
+
+		expect(result.finalPosition.toString()).toBe("50");
+		expect(openQuotes(result)).toEqual(["buy@0.47x50", "sell@0.52x50"]);
+	});
+
+	it("re-quotes as cancel + replace when fair value moves", () => {
+		const result = run([snapshot(1000, "0.45", "0.55"), snapshot(2000, "0.51", "0.69")]);
+
+		expect(openQuotes(result)).toEqual(["buy@0.57x50"]);
+		expect(result.orders.filter((o) => o.status === "cancelled")).toHaveLength(1);
+	});
+
+	it("pulls every quote on toxic order flow", () => {
+		const result = run([snapshot(1000, "0.45", "0.55"), snapshot(2000, "0.45", "0.55", "10000")], {
+			maxAbsOfi: d(5000),
+		});
+
+		expect(openQuotes(result)).toEqual([]);
+		expect(result.orders.filter((o) => o.status === "cancelled")).toHaveLength(1);
+	});
+});
@@ -0,0 +1,137 @@
+/**
+ * Quoting replay — runs a QuotingStrategy inside runBookReplay.
+ *
+ * After every replayed event the adapter asks the strategy for a ladder, using
+ * the replay position as inventory, and moves the simulated resting orders to
+ * it with diffOrders (amends as cancel + replace). Book events feed an
+ * OfiTracker and trade prints an optional VpinTracker, so toxicity pulls behave
+ * as they do under MarketMaker.
+ */
+
+import { OfiTracker } from "../analytics/ofi.js";
+import { VpinTracker } from "../analytics/vpin.js";
+import type { VpinConfig } from "../analytics/vpin.js";
+import { midPrice } from "../market/orderbook.js";
+import { diffOrders } from "../order/order-differ.js";
+import type { DesiredOrder, DiffAction, DiffConfig, LiveOrder } from "../order/order-differ.js";
+import type { Decimal } from "../shared/decimal.js";
+import { type MarketTokenId, marketTokenId } from "../shared/identifiers.js";
+import { OrderDirection } from "../signal/types.js";
+import type { QuotingStrategy } from "../strategy/quoting-strategy.js";
+import type { BookReplayContext, BookReplayEvent, BookReplayStrategy } from "./book-replay.js";
+
+/** Configuration for quotingReplayStrategy. */
+export interface QuotingReplayConfig {
+	/** Volatility at each event. */
+	readonly volatility: (ctx: BookReplayContext) => Decimal;
+	/** Fair value at each event; null skips re-quoting. Default: book mid */
+	readonly fairValue?: ((ctx: BookReplayContext) => Decimal | null) | undefined;
+	/** Market resolution time (epoch ms) used for timeRemainingMs. Default: never expires */
+	readonly marketEndMs?: number | undefined;
+	/** Enables VPIN from the replayed trade prints. Default: no VPIN */
+	readonly vpin?: VpinConfig | undefined;
+	/** Tolerances below which resting quotes are kept. */
+	readonly diff?: DiffConfig | undefined;
+	/** Token id handed to the strategy. Default: "replay" */
+	readonly tokenId?: MarketTokenId | undefined;
+}
+
+/**
+ * Adapts a QuotingStrategy to a BookReplayStrategy.
+ *
+ * @example
+ * ```ts
+ * const result = runBookReplay(
+ *   { initialBalance: d(1000) },
+ *   events,
+ *   quotingReplayStrategy(SpreadQuoter.create(config), { volatility: () => d("0.02") }),
+ * );
+ * ```
+ */
+export function quotingReplayStrategy(
+	strategy: QuotingStrategy,
+	config: QuotingReplayConfig,
+): BookReplayStrategy {
+	const tokenId = config.tokenId ?? marketTokenId("replay");
+	const ofi = OfiTracker.create();
+	const vpin = config.vpin ? VpinTracker.create(config.vpin) : null;
+	let lastOfi: Decimal | null = null;
+
+	return {
+		onEvent(event: BookReplayEvent, ctx: BookReplayContext): void {
+			if (event.type === "trade") {
+				vpin?.update({ price: event.price, size: event.size, timestampMs: event.timestampMs });
+			} else {
+				lastOfi = ofi.update({
+					bestBid: ctx.book.bids[0] ?? null,
+					bestAsk: ctx.book.asks[0] ?? null,
+				});
+			}
+
+			const fairValue = config.fairValue ? config.fairValue(ctx) : midPrice(ctx.book);
+			if (fairValue === null) return;
+
+			const decision = strategy.quote({
+				tokenId,
+				fairValue,
+				inventory: ctx.position,
+				volatility: config.volatility(ctx),
+				timeRemainingMs:
+					config.marketEndMs === undefined
+						? Number.POSITIVE_INFINITY
+						: config.marketEndMs - ctx.nowMs,
+				toxicity: { vpin: vpin?.value() ?? null, ofi: lastOfi },
+			});
+
+			if (decision.type === "pull") {
+				for (const order of ctx.openOrders()) ctx.cancel(order.id);
+				return;
+			}
+
+			const id = tokenId as string;
+			const desired: DesiredOrder[] = [
+				...decision.ladder.bids.map((l) => ({ tokenId: id, side: "buy" as const, ...l })),
+				...decision.ladder.asks.map((l) => ({ tokenId: id, side: "sell" as const, ...l })),
+			];
+			applyDiff(ctx, diffOrders(desired, liveQuotes(ctx, id), config.diff));
+		},
+	};
+}
+
+function liveQuotes(ctx: BookReplayContext, tokenId: string): LiveOrder[] {
+	const live: LiveOrder[] = [];
+	for (const order of ctx.openOrders()) {
+		if (order.price === null) continue;
+		live.push({
+			orderId: order.id,
+			tokenId,
+			side: order.direction === OrderDirection.Buy ? "buy" : "sell",
+			price: order.price,
+			size: order.size,
+		});
+	}
+	return live;
+}
+
+function applyDiff(ctx: BookReplayContext, actions: readonly DiffAction[]): void {
+	for (const action of actions) {
+		switch (action.type) {
+			case "cancel":
+				ctx.cancel(action.orderId);
+				break;
+			case "amend": {
+				const old = ctx.openOrders().find((o) => o.id === action.orderId);
+				if (!old || !ctx.cancel(action.orderId)) break;
+				ctx.submit({ direction: old.direction, size: action.newSize, price: action.newPrice });
+				break;
+			}
+			case "place":
+				ctx.submit({
+					direction: action.order.side === "buy" ? OrderDirection.Buy : OrderDirection.Sell,
+					size: action.order.size,
+					price: action.order.price,
+				});
+				break;
+		}
+	}
+}
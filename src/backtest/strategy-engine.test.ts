@@ -0,0 +1,289 @@
+import { describe, expect, it } from "vitest";
+import { fixedNotionalFee } from "../accounting/fee-model.js";
+import { MemoryJournal } from "../persistence/memory-journal.js";
+import { GuardPipeline } from "../risk/guard-pipeline.js";
+import { block } from "../risk/types.js";
+import { Decimal } from "../shared/decimal.js";
+import { ConfigError } from "../shared/errors.js";
+import { conditionId, marketTokenId } from "../shared/identifiers.js";
+import { MarketSide } from "../shared/market-side.js";
+import { ExitPipeline } from "../signal/exit-pipeline.js";
+import { AggressiveExitPricer, CrossSpreadExitPricer } from "../signal/exit-pricing.js";
+import { ScaleOutExit } from "../signal/exits/scale-out.js";
+import { OrderDirection } from "../signal/types.js";
+import type { SignalDetector } from "../signal/types.js";
+import { StrategyBuilder } from "../strategy/strategy-builder.js";
+import { FixedBpsSlippage } from "./slippage-model.js";
+import { runStrategyBacktest } from "./strategy-engine.js";
+import type { ReplayTick } from "./types.js";
+
+const CID = conditionId("bt-market");
+
+const mkTick = (timestampMs: number, bid: number, ask: number): ReplayTick => ({
+	timestampMs,
+	bid: Decimal.from(bid),
+	ask: Decimal.from(ask),
+	side: MarketSide.Yes,
+});
+
+const buyBelow = (threshold: string, payUp = "0"): SignalDetector<unknown, Decimal> => ({
+	name: "buy-below",
+	detectEntry(ctx) {
+		if (ctx.hasPosition(ctx.conditionId)) return null;
+		const ask = ctx.bestAsk(MarketSide.Yes);
+		return ask?.lt(Decimal.from(threshold)) ? ask : null;
+	},
+	toOrder(ask, ctx) {
+		return {
+			conditionId: ctx.conditionId,
+			tokenId: marketTokenId("bt-yes"),
+			side: MarketSide.Yes,
+			direction: OrderDirection.Buy,
+			price: ask.add(Decimal.from(payUp)),
+			size: Decimal.from(10),
+		};
+	},
+});
+
+const takeProfitAbove = (level: string) =>
+	ExitPipeline.create().with({
+		name: "take-profit",
+		shouldExit: (_position, ctx) => {
+			const spot = ctx.spot(MarketSide.Yes);
+			return spot?.gt(Decimal.from(level)) ? { type: "take_profit", roi: spot } : null;
+		},
+	});
+
+const config = { initialBalance: Decimal.from(1000), conditionId: CID };
+
+describe("runStrategyBacktest", () => {
+	it("empty tick stream → zero trades, initial balance", async () => {
+		const builder = StrategyBuilder.create().withDetector(buyBelow("0.50"));
+		const result = await runStrategyBacktest(config, [], builder);
+
+		expect(result.tradeCount).toBe(0);
+		expect(result.equityCurve).toEqual([]);
+		expect(result.finalBalance.eq(Decimal.from(1000))).toBe(true);
+		expect(result.openPositions).toEqual([]);
+	});
+
+	it("enters via the detector and exits via the exit pipeline", async () => {
+		const builder = StrategyBuilder.create()
+			.withDetector(buyBelow("0.50"))
+			.withExits(takeProfitAbove("0.55"))
+			.withExitPricing(CrossSpreadExitPricer.create());
+		const ticks = [mkTick(1000, 0.44, 0.46), mkTick(2000, 0.5, 0.52), mkTick(3000, 0.58, 0.6)];
+
+		const result = await runStrategyBacktest(config, ticks, builder);
+
+		expect(result.tradeCount).toBe(1);
+		const trade = result.trades[0];
+		expect(trade?.conditionId).toBe(CID);
+		expect(trade?.entryTick).toBe(ticks[0]);
+		expect(trade?.exitTick).toBe(ticks[2]);
+		expect(trade?.direction).toBe(OrderDirection.Buy);
+		expect(trade?.entryPrice.eq(Decimal.from("0.46"))).toBe(true);
+		expect(trade?.exitPrice.eq(Decimal.from("0.58"))).toBe(true);
+		// (0.58 - 0.46) × 10
+		expect(trade?.pnl.eq(Decimal.from("1.2"))).toBe(true);
+		expect(trade?.exitReason.type).toBe("take_profit");
+		expect(result.exitReasons).toEqual({ take_profit: 1 });
+		expect(result.finalBalance.eq(Decimal.from("1001.2"))).toBe(true);
+		expect(result.totalPnl.eq(Decimal.from("1.2"))).toBe(true);
+		expect(result.equityCurve.map((d) => d.toNumber())).toEqual([1000, 1000, 1001.2]);
+		expect(result.openPositions).toHaveLength(0);
+	});
+
+	it("records a scale-out as partial trades", async () => {
+		const exits = ExitPipeline.create().with(
+			ScaleOutExit.create([
+				{ roi: Decimal.from("0.2"), fraction: Decimal.from("0.5") },
+				{ roi: Decimal.from("0.3"), fraction: Decimal.from(1) },
+			]),
+		);
+		const builder = StrategyBuilder.create()
+			.withDetector(buyBelow("0.50"))
+			.withExits(exits)
+			.withExitPricing(CrossSpreadExitPricer.create());
+		const ticks = [mkTick(1000, 0.44, 0.46), mkTick(2000, 0.58, 0.6), mkTick(3000, 0.62, 0.64)];
+
+		const result = await runStrategyBacktest(config, ticks, builder);
+
+		expect(result.trades.map((t) => [t.partial, t.size.toNumber(), t.pnl.toNumber()])).toEqual([
+			[true, 5, 0.6],
+			[false, 5, 0.8],
+		]);
+		expect(result.exitReasons).toEqual({ take_profit: 2 });
+		expect(result.finalBalance.eq(Decimal.from("1001.4"))).toBe(true);
+	});
+
+	it("records guard blocks and skips the entry", async () => {
+		const guards = GuardPipeline.create().with({
+			name: "NoTrading",
+			check: () => block("NoTrading", "closed for maintenance"),
+		});
+		const builder = StrategyBuilder.create().withDetector(buyBelow("0.50")).withGuards(guards);
+
+		const result = await runStrategyBacktest(
+			config,
+			[mkTick(1000, 0.44, 0.46), mkTick(2000, 0.44, 0.46)],
+			builder,
+		);
+
+		expect(result.tradeCount).toBe(0);
+		expect(result.openPositions).toHaveLength(0);
+		expect(result.guardBlocks).toEqual([
+			{ guardName: "NoTrading", reason: "closed for maintenance", timestampMs: 1000 },
+			{ guardName: "NoTrading", reason: "closed for maintenance", timestampMs: 2000 },
+		]);
+	});
+
+	it("charges commission from the strategy's FeeModel", async () => {
+		const builder = StrategyBuilder.create()
+			.withDetector(buyBelow("0.50"))
+			.withExits(takeProfitAbove("0.55"))
+			.withExitPricing(CrossSpreadExitPricer.create())
+			.withFeeModel(fixedNotionalFee(100));
+		const ticks = [mkTick(1000, 0.44, 0.46), mkTick(2000, 0.58, 0.6)];
+
+		const result = await runStrategyBacktest(config, ticks, builder);
+
+		// 1% of entry notional 4.6
+		expect(result.trades[0]?.commission.eq(Decimal.from("0.046"))).toBe(true);
+		expect(result.finalBalance.eq(Decimal.from("1001.154"))).toBe(true);
+	});
+
+	it("applies the slippage model to simulated fills", async () => {
+		const builder = StrategyBuilder.create()
+			.withDetector(buyBelow("0.50", "0.01"))
+			.withExits(takeProfitAbove("0.55"))
+			.withExitPricing(AggressiveExitPricer.create({ maxSlippageBps: 500 }));
+		const ticks = [mkTick(1000, 0.44, 0.46), mkTick(2000, 0.58, 0.6)];
+
+		const result = await runStrategyBacktest(
+			{ ...config, slippage: FixedBpsSlippage.create(100) },
+			ticks,
+			builder,
+		);
+
+		const trade = result.trades[0];
+		expect(trade?.entryPrice.eq(Decimal.from("0.4646"))).toBe(true);
+		expect(trade?.exitPrice.eq(Decimal.from("0.5742"))).toBe(true);
+	});
+
+	it("caps slipped fills at the order's limit price", async () => {
+		const builder = StrategyBuilder.create().withDetector(buyBelow("0.50"));
+
+		const result = await runStrategyBacktest(
+			{ ...config, slippage: FixedBpsSlippage.create(100) },
+			[mkTick(1000, 0.44, 0.46)],
+			builder,
+		);
+
+		expect(result.openPositions[0]?.entryPrice.eq(Decimal.from("0.46"))).toBe(true);
+	});
+
+	it("does not fill orders priced short of the touch", async () => {
+		const builder = StrategyBuilder.create()
+			.withDetector(buyBelow("0.50", "-0.02"))
+			.withExits(takeProfitAbove("0.55"));
+
+		const unfilled = await runStrategyBacktest(config, [mkTick(1000, 0.44, 0.46)], builder);
+		expect(unfilled.openPositions).toHaveLength(0);
+
+		// The default pricer joins the offer with a take-profit exit, which a tick cannot fill
+		const passive = await runStrategyBacktest(
+			config,
+			[mkTick(1000, 0.44, 0.46), mkTick(2000, 0.58, 0.6)],
+			StrategyBuilder.create().withDetector(buyBelow("0.50")).withExits(takeProfitAbove("0.55")),
+		);
+		expect(passive.tradeCount).toBe(0);
+		expect(passive.openPositions).toHaveLength(1);
+	});
+
+	it("reports positions still open after the last tick without realizing them", async () => {
+		const builder = StrategyBuilder.create().withDetector(buyBelow("0.50"));
+
+		const result = await runStrategyBacktest(
+			config,
+			[mkTick(1000, 0.44, 0.46), mkTick(2000, 0.3, 0.32)],
+			builder,
+		);
+
+		expect(result.tradeCount).toBe(0);
+		expect(result.openPositions).toHaveLength(1);
+		expect(result.openPositions[0]?.conditionId).toBe(CID);
+		expect(result.finalBalance.eq(Decimal.from(1000))).toBe(true);
+	});
+
+	it("leaves the builder reusable and forwards entries to a user journal", async () => {
+		const builder = StrategyBuilder.create()
+			.withDetector(buyBelow("0.50"))
+			.withExits(takeProfitAbove("0.55"))
+			.withExitPricing(CrossSpreadExitPricer.create());
+		const ticks = [mkTick(1000, 0.44, 0.46), mkTick(2000, 0.58, 0.6)];
+		const journal = new MemoryJournal();
+
+		const first = await runStrategyBacktest({ ...config, journal }, ticks, builder);
+		const second = await runStrategyBacktest(config, ticks, builder);
+
+		expect(second.totalPnl.eq(first.totalPnl)).toBe(true);
+		expect(second.tradeCount).toBe(1);
+		const types = journal.entries().map((e) => e.type);
+		expect(types).toContain("position_opened");
+		expect(types).toContain("position_closed");
+	});
+
+	it("feeds the tick's oracle reading and time remaining into the context", async () => {
+		const seen: Array<{ oracle: number | undefined; remaining: number }> = [];
+		const detector: SignalDetector<unknown, Decimal> = {
+			...buyBelow("0"),
+			detectEntry(ctx) {
+				seen.push({
+					oracle: ctx.oraclePrice()?.toNumber(),
+					remaining: ctx.timeRemainingMs(),
+				});
+				return null;
+			},
+		};
+		const builder = StrategyBuilder.create().withDetector(detector);
+
+		await runStrategyBacktest(
+			{
+				...config,
+				marketEndMs: 10_000,
+				oracle: (tick) => ({ price: tick.bid.add(Decimal.from("0.01")), timestampMs: 0 }),
+			},
+			[mkTick(1000, 0.4, 0.42), mkTick(2000, 0.5, 0.52)],
+			builder,
+		);
+
+		expect(seen).toEqual([
+			{ oracle: 0.41, remaining: 9000 },
+			{ oracle: 0.51, remaining: 8000 },
+		]);
+	});
+
+	it("accepts async iterables", async () => {
+		async function* stream() {
+			yield mkTick(1000, 0.44, 0.46);
+			yield mkTick(2000, 0.58, 0.6);
+		}
+		const builder = StrategyBuilder.create()
+			.withDetector(buyBelow("0.50"))
+			.withExits(takeProfitAbove("0.55"))
+			.withExitPricing(CrossSpreadExitPricer.create());
+
+		const result = await runStrategyBacktest(config, stream(), builder);
+
+		expect(result.tradeCount).toBe(1);
+	});
+
+	it("rejects ticks that go back in time", async () => {
+		const builder = StrategyBuilder.create().withDetector(buyBelow("0.50"));
+
+		await expect(
+			runStrategyBacktest(config, [mkTick(2000, 0.4, 0.42), mkTick(1000, 0.4, 0.42)], builder),
+		).rejects.toBeInstanceOf(ConfigError);
+	});
+});
@@ -0,0 +1,317 @@
+/**
+ * Strategy backtest engine — replays historical ticks through an unmodified
+ * BuiltStrategy so guards, exit policies, fee model and lifecycle behave exactly
+ * as they do live. Time comes from a FakeClock set to each tick's timestamp and
+ * orders fill against the current tick via a simulated executor.
+ */
+
+import type { Executor } from "../execution/types.js";
+import type { OrderbookSnapshot } from "../market/types.js";
+import { PendingState } from "../order/types.js";
+import type { OrderResult } from "../order/types.js";
+import type { SdkPosition } from "../position/sdk-position.js";
+import { Decimal } from "../shared/decimal.js";
+import { ConfigError, OrderRejectedError } from "../shared/errors.js";
+import type { TradingError } from "../shared/errors.js";
+import {
+	type ConditionId,
+	clientOrderId,
+	conditionId,
+	exchangeOrderId,
+} from "../shared/identifiers.js";
+import { type Result, err, ok } from "../shared/result.js";
+import { FakeClock } from "../shared/time.js";
+import { OrderDirection } from "../signal/types.js";
+import type { ExitReason, ExitReasonType, SdkOrderIntent } from "../signal/types.js";
+import type { BuiltStrategy, TickContext } from "../strategy/built-strategy.js";
+import type { Journal, JournalEntry } from "../strategy/journal.js";
+import type { StrategyBuilder } from "../strategy/strategy-builder.js";
+import { type OracleReading, createTickContextProvider } from "../strategy/tick-context.js";
+import type { BacktestResult, TradeRecord } from "./engine.js";
+import type { SlippageModel } from "./slippage-model.js";
+import type { ReplayTick } from "./types.js";
+
+/** Configuration for a strategy backtest run. */
+export interface StrategyBacktestConfig {
+	readonly initialBalance: Decimal;
+	/** Market the ticks belong to. Default: "backtest" */
+	readonly conditionId?: ConditionId | undefined;
+	/** Applied to every simulated fill. Default: fill at the touch */
+	readonly slippage?: SlippageModel | undefined;
+	/** Market resolution time (epoch ms) used for timeRemainingMs. Default: never expires */
+	readonly marketEndMs?: number | undefined;
+	/** Oracle reading visible to the strategy at each tick. Default: no oracle */
+	readonly oracle?: ((tick: ReplayTick) => OracleReading | null) | undefined;
+	/** Receives every entry the strategy journals, in addition to the backtest recorder. */
+	readonly journal?: Journal | undefined;
+}
+
+/** A round trip, or a partial exit (`partial`), produced by the strategy's own exit pipeline. */
+export interface StrategyTradeRecord extends TradeRecord {
+	readonly exitReason: ExitReason;
+}
+
+/** An entry rejected by the guard pipeline. */
+export interface GuardBlockRecord {
+	readonly guardName: string;
+	readonly reason: string;
+	readonly timestampMs: number;
+}
+
+/** Result of a strategy backtest; a superset of BacktestResult. */
+export interface StrategyBacktestResult extends BacktestResult {
+	readonly trades: readonly StrategyTradeRecord[];
+	readonly guardBlocks: readonly GuardBlockRecord[];
+	/** Number of exits per exit reason type, counting partial reductions like `trades` does. */
+	readonly exitReasons: Readonly<Partial<Record<ExitReasonType, number>>>;
+	/** Positions still open after the last tick (not included in finalBalance). */
+	readonly openPositions: readonly SdkPosition[];
+}
+
+/**
+ * Run a BuiltStrategy over a stream of ticks.
+ *
+ * The builder is not modified: the engine derives a copy with a FakeClock, a
+ * simulated executor and a recording journal. Buys fill at the tick's ask and
+ * sells at its bid (plus slippage), never worse than the order's limit price;
+ * orders that do not reach the touch are cancelled unfilled. Commissions come
+ * from the strategy's FeeModel.
+ * Positions are not force-closed at the end of data — they are reported in
+ * `openPositions`. As in live trading, gaps between ticks longer than the
+ * watchdog warning threshold block entries on the following tick.
+ *
+ * @param config Backtest configuration (initial balance, market, slippage, oracle).
+ * @param ticks Chronological replay ticks (array, generator or async iterable).
+ * @param builder Strategy definition, exactly as deployed.
+ * @returns StrategyBacktestResult with trades, equity curve, guard blocks and exit reasons.
+ * @throws ConfigError if ticks are not in chronological order.
+ *
+ * @example
+ * ```ts
+ * const builder = StrategyBuilder.create().withDetector(d).withGuards(g).withExits(e);
+ * const result = await runStrategyBacktest({ initialBalance: Decimal.from(1000) }, ticks, builder);
+ * ```
+ */
+export async function runStrategyBacktest(
+	config: StrategyBacktestConfig,
+	ticks: Iterable<ReplayTick> | AsyncIterable<ReplayTick>,
+	builder: StrategyBuilder,
+): Promise<StrategyBacktestResult> {
+	const cid = config.conditionId ?? conditionId("backtest");
+	const clock = new FakeClock();
+	const executor = new ReplayExecutor(clock, config.slippage);
+	const recorder = new ReplayRecorder(config.journal);
+
+	const trades: StrategyTradeRecord[] = [];
+	const guardBlocks: GuardBlockRecord[] = [];
+	const exitReasons: Partial<Record<ExitReasonType, number>> = {};
+	const equityCurve: Decimal[] = [];
+	const entries = new Map<string, { tick: ReplayTick; direction: OrderDirection }>();
+	const exitSignals = new Map<string, ExitReason>();
+	let balance = config.initialBalance;
+	let current: ReplayTick | null = null;
+	let run: { strategy: BuiltStrategy; contextFor: (id: ConditionId) => TickContext } | null = null;
+
+	recorder.onEntry((entry) => {
+		if (current === null) return;
+		switch (entry.type) {
+			case "entry_signal":
+				entries.set(entry.intent.conditionId, { tick: current, direction: entry.intent.direction });
+				break;
+			case "exit_signal":
+				exitSignals.set(entry.conditionId, entry.reason);
+				break;
+			case "guard_blocked":
+				guardBlocks.push({
+					guardName: entry.guardName,
+					reason: entry.reason,
+					timestampMs: entry.timestamp,
+				});
+				break;
+			case "position_reduced": {
+				const opened = entries.get(entry.conditionId);
+				const exitReason = exitSignals.get(entry.conditionId);
+				const position = run?.strategy.getPositionManager().get(entry.conditionId);
+				if (!opened || !exitReason || !position) return;
+				const pnl = Decimal.from(entry.pnl);
+				const fee = Decimal.from(entry.fee ?? 0);
+				trades.push({
+					conditionId: entry.conditionId,
+					side: position.side,
+					entryTick: opened.tick,
+					exitTick: current,
+					direction: opened.direction,
+					size: Decimal.from(entry.oldSize).sub(Decimal.from(entry.newSize)),
+					entryPrice: position.entryPrice,
+					exitPrice: Decimal.from(entry.exitPrice),
+					pnl,
+					commission: fee,
+					partial: true,
+					exitReason,
+				});
+				exitReasons[exitReason.type] = (exitReasons[exitReason.type] ?? 0) + 1;
+				balance = balance.add(pnl).sub(fee);
+				break;
+			}
+			case "position_closed": {
+				const opened = entries.get(entry.conditionId);
+				const exitReason = exitSignals.get(entry.conditionId);
+				const closed = run?.strategy.getPositionManager().recentClosed(1)[0];
+				if (!opened || !exitReason || !closed) return;
+				const fee = Decimal.from(entry.fee ?? 0);
+				trades.push({
+					conditionId: entry.conditionId,
+					side: closed.snapshot.side,
+					entryTick: opened.tick,
+					exitTick: current,
+					direction: opened.direction,
+					size: closed.snapshot.size,
+					entryPrice: closed.snapshot.entryPrice,
+					exitPrice: closed.exitPrice,
+					pnl: closed.realizedPnl,
+					commission: fee,
+					partial: false,
+					exitReason,
+				});
+				exitReasons[exitReason.type] = (exitReasons[exitReason.type] ?? 0) + 1;
+				balance = balance.add(closed.realizedPnl).sub(fee);
+				entries.delete(entry.conditionId);
+				exitSignals.delete(entry.conditionId);
+				break;
+			}
+		}
+	});
+
+	const books = {
+		getBook: (id: ConditionId): OrderbookSnapshot | null =>
+			current === null || id !== cid ? null : topOfBook(current),
+	};
+
+	for await (const tick of ticks) {
+		if (current !== null && tick.timestampMs < current.timestampMs) {
+			throw new ConfigError("ticks must be in chronological order", {
+				previousMs: current.timestampMs,
+				timestampMs: tick.timestampMs,
+			});
+		}
+		current = tick;
+		clock.set(tick.timestampMs);
+		executor.setTick(tick);
+
+		if (run === null) {
+			const strategy = builder
+				.withClock(clock)
+				.withExecutor(executor)
+				.withJournal(recorder)
+				.build();
+			const contextFor = createTickContextProvider({
+				strategy,
+				books,
+				availableBalance: () => balance.sub(strategy.getPositionManager().totalNotional()),
+				oracle: () => (current && config.oracle ? config.oracle(current) : null),
+				marketEndMs: () => config.marketEndMs ?? null,
+				clock,
+			});
+			run = { strategy, contextFor };
+		}
+
+		await run.strategy.tick(run.contextFor(cid));
+		equityCurve.push(balance);
+	}
+
+	return {
+		trades,
+		equityCurve,
+		finalBalance: balance,
+		totalPnl: balance.sub(config.initialBalance),
+		tradeCount: trades.length,
+		guardBlocks,
+		exitReasons,
+		openPositions: run?.strategy.getPositionManager().allOpen() ?? [],
+	};
+}
+
+/** Top-of-book snapshot for a replay tick; depth is unknown so level sizes are zero. */
+function topOfBook(tick: ReplayTick): OrderbookSnapshot {
+	return {
+		bids: [{ price: tick.bid, size: Decimal.zero() }],
+		asks: [{ price: tick.ask, size: Decimal.zero() }],
+		timestampMs: tick.timestampMs,
+	};
+}
+
+/**
+ * Fills marketable orders immediately against the current tick: buys at the
+ * ask, sells at the bid, capped at the limit price. Orders priced short of the
+ * touch would rest on the book; the tick carries no depth to queue them
+ * against, so they are cancelled with nothing filled.
+ */
+class ReplayExecutor implements Executor {
+	private tick: ReplayTick | null = null;
+	private counter = 0;
+
+	constructor(
+		private readonly clock: FakeClock,
+		private readonly slippage: SlippageModel | undefined,
+	) {}
+
+	setTick(tick: ReplayTick): void {
+		this.tick = tick;
+	}
+
+	async submit(intent: SdkOrderIntent): Promise<Result<OrderResult, TradingError>> {
+		if (this.tick === null) {
+			return err(new OrderRejectedError("no market data to fill against"));
+		}
+		const isBuy = intent.direction === OrderDirection.Buy;
+		const touch = isBuy ? this.tick.ask : this.tick.bid;
+		this.counter++;
+		const id = `replay-${this.clock.now()}-${this.counter}`;
+		if (isBuy ? intent.price.lt(touch) : intent.price.gt(touch)) {
+			return ok({
+				clientOrderId: clientOrderId(id),
+				exchangeOrderId: exchangeOrderId(id),
+				finalState: PendingState.Cancelled,
+				totalFilled: Decimal.zero(),
+				avgFillPrice: null,
+			});
+		}
+		const slipped = this.slippage ? this.slippage.apply(touch, intent.size, isBuy) : touch;
+		const fillPrice = isBuy
+			? Decimal.min(slipped, intent.price)
+			: Decimal.max(slipped, intent.price);
+		return ok({
+			clientOrderId: clientOrderId(id),
+			exchangeOrderId: exchangeOrderId(id),
+			finalState: PendingState.Filled,
+			totalFilled: intent.size,
+			avgFillPrice: fillPrice,
+			tradeId: id,
+			fee: Decimal.zero(),
+		});
+	}
+
+	async cancel(): Promise<Result<void, TradingError>> {
+		return ok(undefined);
+	}
+}
+
+/** Journal that hands entries to the engine and forwards them to an optional user journal. */
+class ReplayRecorder implements Journal {
+	private listener: ((entry: JournalEntry) => void) | null = null;
+
+	constructor(private readonly inner: Journal | undefined) {}
+
+	onEntry(listener: (entry: JournalEntry) => void): void {
+		this.listener = listener;
+	}
+
+	async record(entry: JournalEntry): Promise<void> {
+		this.listener?.(entry);
+		await this.inner?.record(entry);
+	}
+
+	async flush(): Promise<void> {
+		await this.inner?.flush();
+	}
+}
@@ -1,4 +1,5 @@
 import type { Decimal } from "../shared/decimal.js";
+import type { ConditionId } from "../shared/identifiers.js";
 import type { MarketSide } from "../shared/market-side.js";
 
 /** A single tick in the replay feed. */
@@ -7,6 +8,8 @@ export interface ReplayTick {
 	readonly bid: Decimal;
 	readonly ask: Decimal;
 	readonly side: MarketSide;
+	/** Market the tick belongs to. Default: a single unnamed market */
+	readonly conditionId?: ConditionId | undefined;
 }
 
 /** Configuration for market replay generators. */
@@ -11,6 +11,8 @@ export type {
 	StateChanged,
 	WatchdogAlert,
 	ErrorOccurred,
+	TickDropped,
+	ExecutionProgress,
 } from "./sdk-events.js";
 
 export type {
@@ -26,7 +26,8 @@ export type SdkEvent =
 	| StateChanged
 	| WatchdogAlert
 	| ErrorOccurred
-	| TickDropped;
+	| TickDropped
+	| ExecutionProgress;
 
 // ── Event types ──────────────────────────────────────────────────────
 
@@ -89,6 +90,10 @@ export interface PositionReduced {
 	readonly oldSize: number;
 	readonly newSize: number;
 	readonly price: number;
+	/** Realized P&L of the sold part. */
+	readonly pnl: number;
+	readonly reason: string;
+	readonly fee?: number;
 }
 
 export interface GuardBlocked {
@@ -128,6 +133,22 @@ export interface TickDropped {
 	readonly type: "tick_dropped";
 	readonly timestamp: number;
 	readonly reason: string;
+	/** Market whose order work was dropped. */
+	readonly conditionId?: ConditionId | undefined;
+	/** Order work waiting in the pipeline when this was dropped. */
+	readonly queued?: number | undefined;
+}
+
+export interface ExecutionProgress {
+	readonly type: "execution_progress";
+	readonly timestamp: number;
+	/** Parent order being worked by the execution algorithm. */
+	readonly parentOrderId: ClientOrderId;
+	readonly algo: string;
+	readonly status: "working" | "filled" | "cancelled" | "expired";
+	readonly filledSize: number;
+	readonly remainingSize: number;
+	readonly childCount: number;
 }
 
 // ── Type guard ───────────────────────────────────────────────────────
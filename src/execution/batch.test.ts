@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from "vitest";
+import { PendingState } from "../order/types.js";
+import type { OrderResult } from "../order/types.js";
+import { Decimal } from "../shared/decimal.js";
+import { ConfigError } from "../shared/errors.js";
+import { clientOrderId, conditionId, marketTokenId } from "../shared/identifiers.js";
+import { MarketSide } from "../shared/market-side.js";
+import { isErr, ok } from "../shared/result.js";
+import { OrderDirection } from "../signal/types.js";
+import type { SdkOrderIntent } from "../signal/types.js";
+import { cancelAll, cancelBatch, submitBatch } from "./batch.js";
+import type { Executor } from "./types.js";
+
+const intent: SdkOrderIntent = {
+	conditionId: conditionId("cond-1"),
+	tokenId: marketTokenId("tok-1"),
+	side: MarketSide.Yes,
+	direction: OrderDirection.Buy,
+	price: Decimal.from("0.5"),
+	size: Decimal.from("10"),
+};
+
+function singleOrderExecutor() {
+	let n = 0;
+	return {
+		submit: vi.fn(async () => {
+			n++;
+			return ok<OrderResult>({
+				clientOrderId: clientOrderId(`o-${n}`),
+				exchangeOrderId: null,
+				finalState: PendingState.Open,
+				totalFilled: Decimal.zero(),
+				avgFillPrice: null,
+			});
+		}),
+		cancel: vi.fn(async () => ok(undefined)),
+	} satisfies Executor;
+}
+
+describe("batch helpers", () => {
+	it("falls back to one submit per intent, in order", async () => {
+		const executor = singleOrderExecutor();
+
+		const results = await submitBatch(executor, [intent, intent]);
+
+		expect(executor.submit).toHaveBeenCalledTimes(2);
+		expect(results.map((r) => r.ok && r.value.clientOrderId)).toEqual(["o-1", "o-2"]);
+	});
+
+	it("prefers the executor's native batch methods", async () => {
+		const cancelBatchNative = vi.fn(async (ids: readonly unknown[]) =>
+			ids.map(() => ok(undefined)),
+		);
+		const executor: Executor = { ...singleOrderExecutor(), cancelBatch: cancelBatchNative };
+
+		await cancelBatch(executor, [clientOrderId("a"), clientOrderId("b")]);
+
+		expect(cancelBatchNative).toHaveBeenCalledTimes(1);
+		expect(executor.cancel).not.toHaveBeenCalled();
+	});
+
+	it("skips the executor for empty batches", async () => {
+		const executor = singleOrderExecutor();
+
+		expect(await submitBatch(executor, [])).toEqual([]);
+		expect(await cancelBatch(executor, [])).toEqual([]);
+		expect(executor.submit).not.toHaveBeenCalled();
+	});
+
+	it("returns a ConfigError from cancelAll when the executor cannot cancel all", async () => {
+		const result = await cancelAll(singleOrderExecutor());
+
+		expect(isErr(result) && result.error).toBeInstanceOf(ConfigError);
+	});
+});
@@ -0,0 +1,78 @@
+/**
+ * Batch helpers — submit and cancel several orders through any Executor.
+ *
+ * Executors with native batch endpoints (ClobExecutor, PaperExecutor,
+ * BookPaperExecutor, withRetry) are called once; others fall back to one
+ * sequential call per order. Results are always per order, in input order.
+ */
+
+import type { OrderResult } from "../order/types.js";
+import { ConfigError } from "../shared/errors.js";
+import type { TradingError } from "../shared/errors.js";
+import type { ClientOrderId, ConditionId } from "../shared/identifiers.js";
+import { type Result, err } from "../shared/result.js";
+import type { SdkOrderIntent } from "../signal/types.js";
+import type { BatchResults, Executor } from "./types.js";
+
+/**
+ * Submits intents as one batch when the executor supports it, otherwise one by one.
+ *
+ * @example
+ * ```ts
+ * const results = await submitBatch(executor, [bidIntent, askIntent]);
+ * results.forEach((r, i) => { if (!r.ok) log.warn({ i, error: r.error }); });
+ * ```
+ */
+export async function submitBatch(
+	executor: Executor,
+	intents: readonly SdkOrderIntent[],
+): Promise<BatchResults<OrderResult>> {
+	if (intents.length === 0) return [];
+	if (executor.submitBatch) return executor.submitBatch(intents);
+	const results: Array<Result<OrderResult, TradingError>> = [];
+	for (const intent of intents) {
+		results.push(await executor.submit(intent));
+	}
+	return results;
+}
+
+/**
+ * Cancels orders as one batch when the executor supports it, otherwise one by one.
+ *
+ * @example
+ * ```ts
+ * const results = await cancelBatch(executor, staleOrderIds);
+ * ```
+ */
+export async function cancelBatch(
+	executor: Executor,
+	orderIds: readonly ClientOrderId[],
+): Promise<BatchResults<void>> {
+	if (orderIds.length === 0) return [];
+	if (executor.cancelBatch) return executor.cancelBatch(orderIds);
+	const results: Array<Result<void, TradingError>> = [];
+	for (const orderId of orderIds) {
+		results.push(await executor.cancel(orderId));
+	}
+	return results;
+}
+
+/**
+ * Cancels every working order on the executor, optionally only for one market.
+ * Executors without `cancelAll` do not know their working orders, so this
+ * returns a ConfigError for them.
+ *
+ * @example
+ * ```ts
+ * const cancelled = await cancelAll(executor, conditionId);
+ * ```
+ */
+export async function cancelAll(
+	executor: Executor,
+	conditionId?: ConditionId,
+): Promise<Result<readonly ClientOrderId[], TradingError>> {
+	if (!executor.cancelAll) {
+		return err(new ConfigError("Executor does not support cancelAll"));
+	}
+	return executor.cancelAll(conditionId);
+}
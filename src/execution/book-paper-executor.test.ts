@@ -0,0 +1,283 @@
+import { describe, expect, it } from "vitest";
+import type { OrderbookSnapshot } from "../market/types.js";
+import { OrderKind, PendingState } from "../order/types.js";
+import { Decimal } from "../shared/decimal.js";
+import { clientOrderId, conditionId, marketTokenId } from "../shared/identifiers.js";
+import type { ConditionId } from "../shared/identifiers.js";
+import { MarketSide } from "../shared/market-side.js";
+import { isErr, unwrap } from "../shared/result.js";
+import { FakeClock } from "../shared/time.js";
+import { OrderDirection } from "../signal/types.js";
+import type { SdkOrderIntent } from "../signal/types.js";
+import { BookPaperExecutor } from "./book-paper-executor.js";
+import type { QueueConfig } from "./queue-model.js";
+
+const CID = conditionId("cond-1");
+const d = Decimal.from;
+
+function book(bids: [string, string][], asks: [string, string][]): OrderbookSnapshot {
+	return {
+		bids: bids.map(([price, size]) => ({ price: d(price), size: d(size) })),
+		asks: asks.map(([price, size]) => ({ price: d(price), size: d(size) })),
+		timestampMs: 1000,
+	};
+}
+
+/** Mutable single-market book source standing in for MarketFeed. */
+class Books {
+	current: OrderbookSnapshot | null = null;
+	getBook(cid: ConditionId): OrderbookSnapshot | null {
+		return cid === CID ? this.current : null;
+	}
+}
+
+function intent(overrides: Partial<SdkOrderIntent> = {}): SdkOrderIntent {
+	return {
+		conditionId: CID,
+		tokenId: marketTokenId("tok-yes"),
+		side: MarketSide.Yes,
+		direction: OrderDirection.Buy,
+		price: d("0.55"),
+		size: d("10"),
+		...overrides,
+	};
+}
+
+function setup(queue: Partial<QueueConfig> = { rng: () => 1 }) {
+	const books = new Books();
+	books.current = book(
+		[
+			["0.50", "5"],
+			["0.49", "10"],
+		],
+		[
+			["0.52", "4"],
+			["0.54", "4"],
+			["0.57", "50"],
+		],
+	);
+	const clock = new FakeClock(1000);
+	const executor = new BookPaperExecutor({ books, clock, queue });
+	return { books, clock, executor };
+}
+
+describe("BookPaperExecutor", () => {
+	it("walks the depth up to the limit price and rests the remainder (GTC)", async () => {
+		const { executor } = setup();
+
+		const result = unwrap(await executor.submit(intent()));
+
+		expect(result.finalState).toBe(PendingState.PartiallyFilled);
+		expect(result.totalFilled.eq(d("8"))).toBe(true);
+		expect(result.avgFillPrice?.eq(d("0.53"))).toBe(true);
+		expect(executor.restingOrderCount()).toBe(1);
+	});
+
+	it("fills marketable sells against the bids", async () => {
+		const { executor } = setup();
+
+		const result = unwrap(
+			await executor.submit(intent({ direction: OrderDirection.Sell, price: d("0.49") })),
+		);
+
+		expect(result.finalState).toBe(PendingState.Filled);
+		expect(result.avgFillPrice?.eq(d("0.495"))).toBe(true);
+	});
+
+	it("consumes taken liquidity until the feed updates the level", async () => {
+		const { books, executor } = setup();
+
+		await executor.submit(intent({ size: d("4") }));
+		const second = unwrap(await executor.submit(intent({ size: d("4") })));
+		expect(second.avgFillPrice?.eq(d("0.54"))).toBe(true);
+
+		books.current = book([], [["0.52", "6"]]);
+		const third = unwrap(await executor.submit(intent({ size: d("4") })));
+		expect(third.avgFillPrice?.eq(d("0.52"))).toBe(true);
+	});
+
+	it("keeps a level consumed when the feed publishes a book that only moves other levels", async () => {
+		const { books, executor } = setup();
+		await executor.submit(intent({ size: d("4") }));
+
+		books.current = book(
+			[["0.51", "5"]],
+			[
+				["0.52", "4"],
+				["0.54", "4"],
+			],
+		);
+		const second = unwrap(await executor.submit(intent({ size: d("4") })));
+		const third = unwrap(await executor.submit(intent({ size: d("4"), orderKind: OrderKind.IOC })));
+
+		expect(second.avgFillPrice?.eq(d("0.54"))).toBe(true);
+		expect(third.totalFilled.isZero()).toBe(true);
+	});
+
+	it("IOC cancels the unfilled remainder and keeps the partial fill", async () => {
+		const { executor } = setup();
+
+		const result = unwrap(await executor.submit(intent({ orderKind: OrderKind.IOC })));
+
+		expect(result.finalState).toBe(PendingState.Cancelled);
+		expect(result.totalFilled.eq(d("8"))).toBe(true);
+		expect(executor.restingOrderCount()).toBe(0);
+	});
+
+	it("FOK fills nothing unless the whole size is available", async () => {
+		const { executor } = setup();
+
+		const killed = unwrap(await executor.submit(intent({ orderKind: OrderKind.FOK })));
+		expect(killed.finalState).toBe(PendingState.Cancelled);
+		expect(killed.totalFilled.isZero()).toBe(true);
+
+		const filled = unwrap(
+			await executor.submit(intent({ orderKind: OrderKind.FOK, size: d("8") })),
+		);
+		expect(filled.finalState).toBe(PendingState.Filled);
+	});
+
+	it("emits a UserFill when the book moves through a resting order", async () => {
+		const { books, clock, executor } = setup();
+		const result = unwrap(await executor.submit(intent({ price: d("0.51") })));
+		expect(result.finalState).toBe(PendingState.Open);
+		expect(executor.drain()).toEqual([]);
+
+		clock.advance(500);
+		books.current = book([["0.49", "10"]], [["0.50", "6"]]);
+		const first = executor.drain();
+		books.current = book([["0.49", "10"]], [["0.51", "20"]]);
+		const second = executor.drain();
+
+		expect(first).toEqual([
+			{
+				type: "user_fill",
+				orderId: result.exchangeOrderId,
+				filledSize: "6",
+				fillPrice: "0.51",
+				timestampMs: 1500,
+			},
+		]);
+		expect(second.map((m) => m.type === "user_fill" && m.filledSize)).toEqual(["4"]);
+		expect(executor.restingOrderCount()).toBe(0);
+	});
+
+	it("fills an order resting at the touch once it works up the queue", async () => {
+		const { clock, executor } = setup({ rng: () => 0, sizePenalty: 0 });
+		unwrap(await executor.submit(intent({ price: d("0.50") })));
+
+		// Freshly queued orders sit at the back and cannot fill yet
+		expect(executor.drain()).toEqual([]);
+
+		clock.advance(20_000);
+		const [fill] = executor.drain();
+		expect(fill?.type === "user_fill" && fill.filledSize).toBe("10");
+	});
+
+	it("does not fill orders behind the touch", async () => {
+		const { clock, executor } = setup({ rng: () => 0, sizePenalty: 0 });
+		unwrap(await executor.submit(intent({ price: d("0.45") })));
+
+		clock.advance(20_000);
+		expect(executor.drain()).toEqual([]);
+	});
+
+	it("matches each side against its own token book when the source serves both", async () => {
+		const yes = book([["0.50", "5"]], [["0.52", "4"]]);
+		const no = book([["0.47", "5"]], [["0.49", "20"]]);
+		const books = {
+			getBook: (cid: ConditionId) => (cid === CID ? yes : null),
+			getMarketBooks: (cid: ConditionId) => (cid === CID ? { yes, no } : null),
+		};
+		const executor = new BookPaperExecutor({ books, clock: new FakeClock(1000) });
+
+		const result = unwrap(
+			await executor.submit(intent({ side: MarketSide.No, tokenId: marketTokenId("tok-no") })),
+		);
+
+		expect(result.finalState).toBe(PendingState.Filled);
+		expect(result.avgFillPrice?.eq(d("0.49"))).toBe(true);
+	});
+
+	it("rests GTC orders for markets without a book", async () => {
+		const { executor } = setup();
+
+		const result = unwrap(await executor.submit(intent({ conditionId: conditionId("other") })));
+
+		expect(result.finalState).toBe(PendingState.Open);
+		expect(executor.drain()).toEqual([]);
+	});
+
+	it("does not match NO orders against a source that only knows the condition book", async () => {
+		const { executor } = setup();
+		const no = intent({ side: MarketSide.No, tokenId: marketTokenId("tok-no") });
+
+		const rested = unwrap(await executor.submit(no));
+		const killed = unwrap(await executor.submit({ ...no, orderKind: OrderKind.IOC }));
+
+		expect(rested.finalState).toBe(PendingState.Open);
+		expect(killed.finalState).toBe(PendingState.Cancelled);
+		expect(killed.totalFilled.isZero()).toBe(true);
+		expect(executor.drain()).toEqual([]);
+	});
+
+	it("cancels resting orders and confirms with an order status message", async () => {
+		const { executor } = setup();
+		const result = unwrap(await executor.submit(intent({ price: d("0.45") })));
+
+		expect((await executor.cancel(result.clientOrderId)).ok).toBe(true);
+		expect(executor.drain()).toEqual([
+			expect.objectContaining({
+				type: "user_order_status",
+				orderId: result.exchangeOrderId,
+				status: "CANCELED",
+			}),
+		]);
+		expect(isErr(await executor.cancel(result.clientOrderId))).toBe(true);
+		expect(isErr(await executor.cancel(clientOrderId("nope")))).toBe(true);
+	});
+	it("expires resting GTD orders at their expiry", async () => {
+		const { clock, executor } = setup();
+		const result = unwrap(
+			await executor.submit(
+				intent({ price: d("0.45"), orderKind: OrderKind.GTD, expiresAtMs: 2000 }),
+			),
+		);
+
+		clock.advance(999);
+		expect(executor.drain()).toEqual([]);
+
+		clock.advance(1);
+		expect(executor.drain()).toEqual([
+			{
+				type: "user_order_status",
+				orderId: result.exchangeOrderId,
+				status: "EXPIRED",
+				timestampMs: 2000,
+			},
+		]);
+		expect(executor.restingOrderCount()).toBe(0);
+	});
+
+	it("rejects GTD orders without an expiry", async () => {
+		const { executor } = setup();
+
+		expect(isErr(await executor.submit(intent({ orderKind: OrderKind.GTD })))).toBe(true);
+	});
+	it("cancelAll() cancels resting orders and confirms each one", async () => {
+		const { executor } = setup();
+		const [a, b] = await executor.submitBatch([
+			intent({ price: d("0.45") }),
+			intent({ price: d("0.44") }),
+		]);
+
+		const result = await executor.cancelAll(CID);
+
+		expect(unwrap(result)).toEqual([a && unwrap(a).clientOrderId, b && unwrap(b).clientOrderId]);
+		expect(executor.drain().map((m) => m.type === "user_order_status" && m.status)).toEqual([
+			"CANCELED",
+			"CANCELED",
+		]);
+		expect(executor.restingOrderCount()).toBe(0);
+	});
+});
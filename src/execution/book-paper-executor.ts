@@ -0,0 +1,373 @@
+/**
+ * BookPaperExecutor — paper trading against the live order book.
+ *
+ * Orders are matched against the latest snapshot from a BookSource (MarketFeed,
+ * MultiMarketManager) instead of a fixed fill probability:
+ * - the marketable part of an order walks the opposite side of the book up to
+ *   its limit price and is reported in the submit result;
+ * - IOC cancels whatever did not fill immediately, FOK fills in full or not at all;
+ * - the rest of a GTC/GTD order rests and fills when the book moves through its
+ *   price, or via QueueModel while it sits at the touch; GTD orders expire at
+ *   `expiresAtMs`.
+ *
+ * Resting fills (and cancel / expiry confirmations) are emitted asynchronously as
+ * UserFill / UserOrderStatus messages, collected with `drain()`, so they flow
+ * through the same UserFeed path as live exchange events.
+ */
+
+import { bestAsk, bestBid, effectivePrice } from "../market/orderbook.js";
+import { sideBook } from "../market/token-books.js";
+import type { BookSource, OrderbookLevel, OrderbookSnapshot } from "../market/types.js";
+import {
+	isExpiredAt,
+	orderKindOf,
+	restsOnBook,
+	validateTimeInForce,
+} from "../order/time-in-force.js";
+import { OrderKind, PendingState } from "../order/types.js";
+import type { OrderResult } from "../order/types.js";
+import { Decimal } from "../shared/decimal.js";
+import { OrderRejectedError } from "../shared/errors.js";
+import type { TradingError } from "../shared/errors.js";
+import { clientOrderId, exchangeOrderId, idToString } from "../shared/identifiers.js";
+import type { ClientOrderId, ConditionId, ExchangeOrderId } from "../shared/identifiers.js";
+import { type Result, err, ok } from "../shared/result.js";
+import type { Clock } from "../shared/time.js";
+import { SystemClock } from "../shared/time.js";
+import { OrderDirection } from "../signal/types.js";
+import type { SdkOrderIntent } from "../signal/types.js";
+import type { UserFill, UserOrderStatus } from "../websocket/types.js";
+import { QueueModel } from "./queue-model.js";
+import type { QueueConfig, QueueEntry } from "./queue-model.js";
+import type { BatchResults, Executor } from "./types.js";
+
+/**
+ * Configuration for the book-aware paper executor.
+ *
+ * @example
+ * ```ts
+ * const executor = new BookPaperExecutor({ books: marketFeed, clock });
+ * ```
+ */
+export interface BookPaperExecutorConfig {
+	/** Latest book per market. */
+	readonly books: BookSource;
+	readonly clock?: Clock | undefined;
+	/** Queue simulation for orders resting at the touch. */
+	readonly queue?: Partial<QueueConfig> | undefined;
+}
+
+interface RestingOrder {
+	readonly clientOrderId: ClientOrderId;
+	readonly exchangeOrderId: ExchangeOrderId;
+	readonly intent: SdkOrderIntent;
+	readonly queueEntry: QueueEntry;
+	filled: Decimal;
+}
+
+interface TakerFill {
+	readonly size: Decimal;
+	readonly avgPrice: Decimal | null;
+}
+
+/** Size this executor took at a price level, and the feed's size there at the time. */
+interface ConsumedLevel {
+	readonly taken: Decimal;
+	readonly feedSize: Decimal;
+}
+
+export class BookPaperExecutor implements Executor {
+	private readonly books: BookSource;
+	private readonly clock: Clock;
+	private readonly queue: QueueModel;
+	private readonly resting = new Map<string, RestingOrder>();
+	/**
+	 * Our own taker fills per book side ("cid:side:asks") and price. A level stays
+	 * depleted until the feed reports a different size for it.
+	 */
+	private readonly consumed = new Map<string, Map<string, ConsumedLevel>>();
+	private outbox: Array<UserFill | UserOrderStatus> = [];
+	private orderCounter = 0;
+
+	constructor(config: BookPaperExecutorConfig) {
+		this.books = config.books;
+		this.clock = config.clock ?? SystemClock;
+		this.queue = QueueModel.create(config.queue);
+	}
+
+	async submit(intent: SdkOrderIntent): Promise<Result<OrderResult, TradingError>> {
+		const timeInForce = validateTimeInForce(intent, this.clock.now());
+		if (!timeInForce.ok) return timeInForce;
+
+		this.orderCounter++;
+		const coid = clientOrderId(`paper-${this.orderCounter}`);
+		const eoid = exchangeOrderId(`exch-${this.orderCounter}`);
+		const kind = orderKindOf(intent);
+
+		if (kind === OrderKind.FOK && this.sumSizes(this.marketableLevels(intent)).lt(intent.size)) {
+			return ok(
+				this.result(coid, eoid, PendingState.Cancelled, { size: Decimal.zero(), avgPrice: null }),
+			);
+		}
+
+		const taken = this.take(intent);
+		if (taken.size.eq(intent.size)) {
+			return ok(this.result(coid, eoid, PendingState.Filled, taken));
+		}
+		if (!restsOnBook(kind)) {
+			return ok(this.result(coid, eoid, PendingState.Cancelled, taken));
+		}
+
+		const isBuy = intent.direction === OrderDirection.Buy;
+		const remaining = intent.size.sub(taken.size);
+		this.resting.set(idToString(coid), {
+			clientOrderId: coid,
+			exchangeOrderId: eoid,
+			intent,
+			queueEntry: this.queue.enqueue(intent.price, remaining, isBuy, this.clock.now()),
+			filled: taken.size,
+		});
+		const state = taken.size.isZero() ? PendingState.Open : PendingState.PartiallyFilled;
+		return ok(this.result(coid, eoid, state, taken));
+	}
+
+	async cancel(orderId: ClientOrderId): Promise<Result<void, TradingError>> {
+		const key = idToString(orderId);
+		const order = this.resting.get(key);
+		if (!order) {
+			return err(new OrderRejectedError("Unknown or completed order", { orderId: key }));
+		}
+		this.removeResting(key, order);
+		this.pushStatus(order, "CANCELED");
+		return ok(undefined);
+	}
+
+	async submitBatch(intents: readonly SdkOrderIntent[]): Promise<BatchResults<OrderResult>> {
+		const results: Array<Result<OrderResult, TradingError>> = [];
+		for (const intent of intents) {
+			results.push(await this.submit(intent));
+		}
+		return results;
+	}
+
+	async cancelBatch(orderIds: readonly ClientOrderId[]): Promise<BatchResults<void>> {
+		return Promise.all(orderIds.map((orderId) => this.cancel(orderId)));
+	}
+
+	async cancelAll(
+		conditionId?: ConditionId,
+	): Promise<Result<readonly ClientOrderId[], TradingError>> {
+		const cancelled: ClientOrderId[] = [];
+		for (const [key, order] of this.resting) {
+			if (conditionId !== undefined && order.intent.conditionId !== conditionId) continue;
+			this.removeResting(key, order);
+			this.pushStatus(order, "CANCELED");
+			cancelled.push(order.clientOrderId);
+		}
+		return ok(cancelled);
+	}
+
+	/**
+	 * Expires GTD orders past their expiry, matches the remaining resting orders
+	 * against the latest books and returns every user message produced since the
+	 * last call, oldest first.
+	 */
+	drain(): Array<UserFill | UserOrderStatus> {
+		const now = this.clock.now();
+		for (const [key, order] of this.resting) {
+			if (isExpiredAt(order.intent.expiresAtMs, now)) {
+				this.removeResting(key, order);
+				this.pushStatus(order, "EXPIRED");
+			} else {
+				this.matchResting(key, order);
+			}
+		}
+		const messages = this.outbox;
+		this.outbox = [];
+		return messages;
+	}
+
+	/** Number of orders resting on the simulated book. */
+	restingOrderCount(): number {
+		return this.resting.size;
+	}
+
+	/** Opposite-side levels at or better than the intent's limit price. */
+	private marketableLevels(intent: SdkOrderIntent): readonly OrderbookLevel[] {
+		const book = this.bookFor(intent);
+		if (book === null) return [];
+		const isBuy = intent.direction === OrderDirection.Buy;
+		const levels = isBuy ? book.asks : book.bids;
+		return levels.filter((l) => (isBuy ? l.price.lte(intent.price) : l.price.gte(intent.price)));
+	}
+
+	/** Walks the marketable depth as taker and removes the taken size from the book. */
+	private take(intent: SdkOrderIntent): TakerFill {
+		const levels = this.marketableLevels(intent);
+		const isBuy = intent.direction === OrderDirection.Buy;
+		const size = Decimal.min(this.sumSizes(levels), intent.size);
+		if (size.isZero()) return { size, avgPrice: null };
+
+		const reachable: OrderbookSnapshot = {
+			bids: isBuy ? [] : levels,
+			asks: isBuy ? levels : [],
+			timestampMs: 0,
+		};
+		const avgPrice = effectivePrice(reachable, size, isBuy ? "buy" : "sell");
+		this.consume(intent, size);
+		return { size, avgPrice };
+	}
+
+	/**
+	 * A book that moved through the resting price fills the order at its limit, up
+	 * to the crossing depth; at the touch, QueueModel decides whether it fills.
+	 */
+	private matchResting(key: string, order: RestingOrder): void {
+		const book = this.bookFor(order.intent);
+		if (book === null) return;
+
+		const { intent } = order;
+		const remaining = intent.size.sub(order.filled);
+		const crossing = this.sumSizes(this.marketableLevels(intent));
+
+		let size = Decimal.zero();
+		let price: Decimal | null = null;
+		if (!crossing.isZero()) {
+			size = Decimal.min(crossing, remaining);
+			price = intent.price;
+			this.consume(intent, size);
+		} else if (this.atTouch(intent, book)) {
+			price = this.queue.tryFill(
+				order.queueEntry,
+				bestBid(book) ?? intent.price,
+				bestAsk(book) ?? intent.price,
+				this.clock.now(),
+			);
+			size = remaining;
+		}
+		if (price === null || size.isZero()) return;
+
+		order.filled = order.filled.add(size);
+		this.outbox.push({
+			type: "user_fill",
+			orderId: order.exchangeOrderId,
+			filledSize: size.toString(),
+			fillPrice: price.toString(),
+			timestampMs: this.clock.now(),
+		});
+		if (order.filled.gte(intent.size)) {
+			this.removeResting(key, order);
+		}
+	}
+
+	/** True when the order would be the best price on its side of the book. */
+	private atTouch(intent: SdkOrderIntent, book: OrderbookSnapshot): boolean {
+		if (intent.direction === OrderDirection.Buy) {
+			const bid = bestBid(book);
+			return bid !== null && intent.price.gte(bid);
+		}
+		const ask = bestAsk(book);
+		return ask !== null && intent.price.lte(ask);
+	}
+
+	/** The order's side of the book, less the liquidity this executor already took. */
+	private bookFor(intent: SdkOrderIntent): OrderbookSnapshot | null {
+		const raw = sideBook(this.books, intent.conditionId, intent.side);
+		if (raw === null) return null;
+		return {
+			...raw,
+			bids: this.deplete(this.consumedKey(intent, "bids"), raw.bids),
+			asks: this.deplete(this.consumedKey(intent, "asks"), raw.asks),
+		};
+	}
+
+	/**
+	 * Subtracts what was taken at each level the feed has left unchanged; levels
+	 * the feed updated or removed since are live again.
+	 */
+	private deplete(key: string, levels: readonly OrderbookLevel[]): readonly OrderbookLevel[] {
+		const taken = this.consumed.get(key);
+		if (taken === undefined) return levels;
+
+		const next: OrderbookLevel[] = [];
+		const current = new Set<string>();
+		for (const level of levels) {
+			const price = level.price.toString();
+			const entry = taken.get(price);
+			if (entry === undefined || !entry.feedSize.eq(level.size)) {
+				next.push(level);
+				continue;
+			}
+			current.add(price);
+			const left = level.size.sub(entry.taken);
+			if (left.isPositive()) next.push({ price: level.price, size: left });
+		}
+		for (const price of taken.keys()) {
+			if (!current.has(price)) taken.delete(price);
+		}
+		if (taken.size === 0) this.consumed.delete(key);
+		return next;
+	}
+
+	/** Records `size` taken from the marketable side of the book, best level first. */
+	private consume(intent: SdkOrderIntent, size: Decimal): void {
+		const book = this.bookFor(intent);
+		if (book === null) return;
+		const isBuy = intent.direction === OrderDirection.Buy;
+		const key = this.consumedKey(intent, isBuy ? "asks" : "bids");
+		const taken = this.consumed.get(key) ?? new Map<string, ConsumedLevel>();
+
+		let left = size;
+		for (const level of isBuy ? book.asks : book.bids) {
+			if (left.isZero()) break;
+			const take = Decimal.min(left, level.size);
+			left = left.sub(take);
+			const price = level.price.toString();
+			const prior = taken.get(price);
+			taken.set(price, {
+				taken: (prior?.taken ?? Decimal.zero()).add(take),
+				feedSize: prior?.feedSize ?? level.size,
+			});
+		}
+		this.consumed.set(key, taken);
+	}
+
+	private consumedKey(intent: SdkOrderIntent, bookSide: "bids" | "asks"): string {
+		return `${intent.conditionId}:${intent.side}:${bookSide}`;
+	}
+
+	private sumSizes(levels: readonly OrderbookLevel[]): Decimal {
+		let total = Decimal.zero();
+		for (const level of levels) total = total.add(level.size);
+		return total;
+	}
+
+	private pushStatus(order: RestingOrder, status: string): void {
+		this.outbox.push({
+			type: "user_order_status",
+			orderId: order.exchangeOrderId,
+			status,
+			timestampMs: this.clock.now(),
+		});
+	}
+
+	private removeResting(key: string, order: RestingOrder): void {
+		this.queue.remove(order.queueEntry);
+		this.resting.delete(key);
+	}
+
+	private result(
+		coid: ClientOrderId,
+		eoid: ExchangeOrderId,
+		finalState: PendingState,
+		taken: TakerFill,
+	): OrderResult {
+		return {
+			clientOrderId: coid,
+			exchangeOrderId: eoid,
+			finalState,
+			totalFilled: taken.size,
+			avgFillPrice: taken.avgPrice,
+		};
+	}
+}
@@ -1,11 +1,12 @@
 import { describe, expect, it } from "vitest";
 import { ClobClient } from "../lib/clob/client.js";
-import type { ClobOrderResponse, ClobProviders } from "../lib/clob/types.js";
+import { CLOB_MAX_BATCH_ORDERS } from "../lib/clob/types.js";
+import type { ClobOrderRequest, ClobOrderResponse, ClobProviders } from "../lib/clob/types.js";
 import { TokenBucketRateLimiter } from "../lib/http/rate-limiter.js";
-import { PendingState } from "../order/types.js";
+import { OrderKind, PendingState } from "../order/types.js";
 import { Decimal } from "../shared/decimal.js";
 import { OrderNotFoundError, TimeoutError } from "../shared/errors.js";
-import { conditionId, marketTokenId } from "../shared/identifiers.js";
+import { clientOrderId, conditionId, marketTokenId } from "../shared/identifiers.js";
 import { MarketSide } from "../shared/market-side.js";
 import { isErr, isOk } from "../shared/result.js";
 import { FakeClock } from "../shared/time.js";
@@ -37,6 +38,11 @@ function makeDeps(overrides: Partial<ClobProviders> = {}): ClobProviders {
 		submitOrder: overrides.submitOrder ?? (() => Promise.resolve(VALID_RESPONSE)),
 		cancelOrder: overrides.cancelOrder ?? (() => Promise.resolve()),
 		getOpenOrders: overrides.getOpenOrders ?? (() => Promise.resolve([])),
+		submitOrders:
+			overrides.submitOrders ?? ((reqs) => Promise.resolve(reqs.map(() => VALID_RESPONSE))),
+		cancelOrders:
+			overrides.cancelOrders ?? ((ids) => Promise.resolve({ canceled: [...ids], notCanceled: {} })),
+		cancelAll: overrides.cancelAll ?? (() => Promise.resolve({ canceled: [], notCanceled: {} })),
 	};
 }
 
@@ -48,7 +54,7 @@ function makeExecutor(depsOverrides: Partial<ClobProviders> = {}) {
 		refillRate: 10,
 		clock,
 	});
-	return { executor: new ClobExecutor(client, limiter), clock };
+	return { executor: new ClobExecutor(client, limiter, undefined, clock), clock };
 }
 
 function makeExecutorWithTimeout(
@@ -144,6 +150,38 @@ describe("ClobExecutor", () => {
 				orderType: "GTC",
 			});
 		});
+
+		it("sends GTD orders with their expiration in seconds", async () => {
+			let capturedReq: ClobOrderRequest | undefined;
+			const { executor } = makeExecutor({
+				submitOrder: async (req) => {
+					capturedReq = req;
+					return VALID_RESPONSE;
+				},
+			});
+
+			await executor.submit(testIntent({ orderKind: OrderKind.GTD, expiresAtMs: 61_000 }));
+
+			expect(capturedReq?.orderType).toBe("GTD");
+			expect(capturedReq?.expiration).toBe("61");
+		});
+
+		it("rejects a GTD order whose expiry has passed without calling the CLOB", async () => {
+			let calls = 0;
+			const { executor } = makeExecutor({
+				submitOrder: async () => {
+					calls++;
+					return VALID_RESPONSE;
+				},
+			});
+
+			const result = await executor.submit(
+				testIntent({ orderKind: OrderKind.GTD, expiresAtMs: 1000 }),
+			);
+
+			expect(isErr(result)).toBe(true);
+			expect(calls).toBe(0);
+		});
 	});
 
 	describe("cancel", () => {
@@ -483,4 +521,103 @@ describe("ClobExecutor", () => {
 			expect(isOk(result)).toBe(true);
 		});
 	});
+	describe("batches", () => {
+		const OPEN: ClobOrderResponse = { orderId: "", status: "OPEN", filledSize: "0", avgPrice: "" };
+
+		function openResponses(...ids: string[]) {
+			return ids.map((orderId) => ({ ...OPEN, orderId }));
+		}
+
+		it("submits a batch in one request with per-order results", async () => {
+			let requests = 0;
+			const { executor } = makeExecutor({
+				submitOrders: async () => {
+					requests++;
+					return [VALID_RESPONSE, { errorMsg: "not enough balance" }];
+				},
+			});
+
+			const results = await executor.submitBatch([
+				testIntent(),
+				testIntent({ orderKind: OrderKind.GTD }),
+				testIntent(),
+			]);
+
+			expect(requests).toBe(1);
+			expect(results[0]?.ok && results[0].value.finalState).toBe(PendingState.Filled);
+			expect(results[1]?.ok).toBe(false);
+			expect(!results[2]?.ok && results[2]?.error.message).toBe("not enough balance");
+		});
+
+		it("splits batches larger than the CLOB limit and keeps results in order", async () => {
+			const sizes: number[] = [];
+			const { executor } = makeExecutor({
+				submitOrders: async (reqs) => {
+					sizes.push(reqs.length);
+					if (sizes.length === 2) throw new Error("ECONNREFUSED");
+					return reqs.map((_, i) => ({ ...OPEN, orderId: `ex-${sizes.length}-${i}` }));
+				},
+			});
+			const intents = Array.from({ length: CLOB_MAX_BATCH_ORDERS * 2 + 1 }, () => testIntent());
+
+			const results = await executor.submitBatch(intents);
+
+			expect(sizes).toEqual([CLOB_MAX_BATCH_ORDERS, CLOB_MAX_BATCH_ORDERS, 1]);
+			expect(results[0]?.ok && results[0].value.exchangeOrderId).toBe("ex-1-0");
+			expect(results.slice(CLOB_MAX_BATCH_ORDERS, CLOB_MAX_BATCH_ORDERS * 2).every(isErr)).toBe(
+				true,
+			);
+			expect(
+				results[CLOB_MAX_BATCH_ORDERS * 2]?.ok && results[CLOB_MAX_BATCH_ORDERS * 2]?.value,
+			).toEqual(expect.objectContaining({ exchangeOrderId: "ex-3-0" }));
+			expect(executor.activeOrderCount()).toBe(CLOB_MAX_BATCH_ORDERS + 1);
+		});
+
+		it("fails every sent order when the batch request fails", async () => {
+			const { executor } = makeExecutor({
+				submitOrders: () => Promise.reject(new Error("ECONNREFUSED")),
+			});
+
+			const results = await executor.submitBatch([testIntent(), testIntent()]);
+
+			expect(results.every(isErr)).toBe(true);
+			expect(executor.activeOrderCount()).toBe(0);
+		});
+
+		it("cancels a batch and reports orders the CLOB refused", async () => {
+			const { executor } = makeExecutor({
+				submitOrders: async () => openResponses("ex-1", "ex-2"),
+				cancelOrders: async () => ({ canceled: ["ex-1"], notCanceled: { "ex-2": "matched" } }),
+			});
+			const submitted = await executor.submitBatch([testIntent(), testIntent()]);
+			const ids = submitted.flatMap((r) => (r.ok ? [r.value.clientOrderId] : []));
+
+			const results = await executor.cancelBatch([...ids, clientOrderId("unknown")]);
+
+			expect(results[0]?.ok).toBe(true);
+			expect(!results[1]?.ok && results[1]?.error.message).toBe("matched");
+			expect(!results[2]?.ok && results[2]?.error).toBeInstanceOf(OrderNotFoundError);
+			expect(executor.activeOrderCount()).toBe(1);
+		});
+
+		it("cancelAll forwards the market and forgets cancelled orders", async () => {
+			let market: string | undefined;
+			const { executor } = makeExecutor({
+				submitOrders: async () => openResponses("ex-1", "ex-2"),
+				cancelAll: async (m) => {
+					market = m;
+					return { canceled: ["ex-2", "ex-foreign"], notCanceled: {} };
+				},
+			});
+			const submitted = await executor.submitBatch([testIntent(), testIntent()]);
+
+			const result = await executor.cancelAll(conditionId("cond-1"));
+
+			expect(market).toBe("cond-1");
+			expect(isOk(result) && result.value).toEqual([
+				submitted[1]?.ok && submitted[1].value.clientOrderId,
+			]);
+			expect(executor.activeOrderCount()).toBe(1);
+		});
+	});
 });
@@ -13,22 +13,28 @@
 
 import type { ClobClient } from "../lib/clob/client.js";
 import { buildClobOrder } from "../lib/clob/order-builder.js";
+import { CLOB_MAX_BATCH_ORDERS } from "../lib/clob/types.js";
+import type { ClobOrderRejection, ClobOrderResponse } from "../lib/clob/types.js";
 import type { TokenBucketRateLimiter } from "../lib/http/rate-limiter.js";
+import { validateTimeInForce } from "../order/time-in-force.js";
 import { PendingState } from "../order/types.js";
 import type { OrderResult } from "../order/types.js";
 import { Decimal } from "../shared/decimal.js";
-import { OrderNotFoundError, TimeoutError } from "../shared/errors.js";
+import { OrderNotFoundError, OrderRejectedError, TimeoutError } from "../shared/errors.js";
 import type { TradingError } from "../shared/errors.js";
 import { clientOrderId, exchangeOrderId, idToString } from "../shared/identifiers.js";
-import type { ClientOrderId } from "../shared/identifiers.js";
+import type { ClientOrderId, ConditionId } from "../shared/identifiers.js";
 import { type Result, err, ok } from "../shared/result.js";
+import type { Clock } from "../shared/time.js";
+import { SystemClock } from "../shared/time.js";
 import type { SdkOrderIntent } from "../signal/types.js";
-import type { Executor } from "./types.js";
+import type { BatchResults, Executor } from "./types.js";
 
 export class ClobExecutor implements Executor {
 	private readonly clobClient: ClobClient;
 	private readonly rateLimiter: TokenBucketRateLimiter;
 	private readonly requestTimeoutMs: number | undefined;
+	private readonly clock: Clock;
 	private orderCounter = 0;
 	private readonly activeOrders = new Map<string, string>();
 
@@ -36,10 +42,12 @@ export class ClobExecutor implements Executor {
 		clobClient: ClobClient,
 		rateLimiter: TokenBucketRateLimiter,
 		requestTimeoutMs?: number,
+		clock: Clock = SystemClock,
 	) {
 		this.clobClient = clobClient;
 		this.rateLimiter = rateLimiter;
 		this.requestTimeoutMs = requestTimeoutMs;
+		this.clock = clock;
 	}
 
 	private async withTimeout<T>(promise: Promise<T>, operationName: string): Promise<T> {
@@ -68,6 +76,9 @@ export class ClobExecutor implements Executor {
 	}
 
 	async submit(intent: SdkOrderIntent): Promise<Result<OrderResult, TradingError>> {
+		const timeInForce = validateTimeInForce(intent, this.clock.now());
+		if (!timeInForce.ok) return timeInForce;
+
 		await this.rateLimiter.waitForToken();
 
 		this.orderCounter++;
@@ -88,27 +99,7 @@ export class ClobExecutor implements Executor {
 		}
 		if (!result.ok) return result;
 
-		const response = result.value;
-		const filledSize = Decimal.from(response.filledSize);
-		const totalSize = intent.size;
-		const finalState = this.mapStatus(response.status, filledSize, totalSize);
-
-		const eoid = exchangeOrderId(response.orderId);
-		this.activeOrders.set(idToString(coid), response.orderId);
-
-		if (this.isTerminalState(finalState)) {
-			this.activeOrders.delete(idToString(coid));
-		}
-
-		const orderResult: OrderResult = {
-			clientOrderId: coid,
-			exchangeOrderId: eoid,
-			finalState,
-			totalFilled: filledSize,
-			avgFillPrice: response.avgPrice ? Decimal.from(response.avgPrice) : null,
-		};
-
-		return ok(orderResult);
+		return ok(this.record(coid, intent, result.value));
 	}
 
 	async cancel(orderId: ClientOrderId): Promise<Result<void, TradingError>> {
@@ -138,6 +129,141 @@ export class ClobExecutor implements Executor {
 		);
 	}
 
+	/**
+	 * Submits all valid intents in CLOB requests of at most CLOB_MAX_BATCH_ORDERS
+	 * orders each. Intents failing time-in-force validation get their own error
+	 * without reaching the CLOB; a failed request fails every order it carried.
+	 * Results are in intent order.
+	 */
+	async submitBatch(intents: readonly SdkOrderIntent[]): Promise<BatchResults<OrderResult>> {
+		const nowMs = this.clock.now();
+		const validations = intents.map((intent) => validateTimeInForce(intent, nowMs));
+		const sent = intents.filter((_, i) => validations[i]?.ok);
+
+		const responses: Array<
+			Result<ClobOrderResponse | ClobOrderRejection | undefined, TradingError>
+		> = [];
+		for (let start = 0; start < sent.length; start += CLOB_MAX_BATCH_ORDERS) {
+			const chunk = sent.slice(start, start + CLOB_MAX_BATCH_ORDERS);
+			await this.rateLimiter.waitForToken();
+			const response = await this.guard(
+				this.clobClient.submitOrders(chunk.map(buildClobOrder)),
+				"submitOrders",
+			);
+			for (let j = 0; j < chunk.length; j++) {
+				responses.push(response.ok ? ok(response.value[j]) : response);
+			}
+		}
+
+		let next = 0;
+		return intents.map((intent, i): Result<OrderResult, TradingError> => {
+			const validation = validations[i];
+			if (validation && !validation.ok) return validation;
+			const response = responses[next++];
+			if (response !== undefined && !response.ok) return response;
+			const item = response?.value;
+			if (item === undefined) {
+				return err(new OrderRejectedError("Missing response for batched order", { index: i }));
+			}
+			if ("errorMsg" in item) {
+				return err(new OrderRejectedError(item.errorMsg, { index: i }));
+			}
+			this.orderCounter++;
+			return ok(this.record(clientOrderId(`clob-${this.orderCounter}`), intent, item));
+		});
+	}
+
+	/** Cancels the given orders in one CLOB request; unknown ids fail individually. */
+	async cancelBatch(orderIds: readonly ClientOrderId[]): Promise<BatchResults<void>> {
+		const exchangeIds = orderIds.map((id) => this.activeOrders.get(idToString(id)));
+		const known = exchangeIds.filter((id): id is string => id !== undefined);
+
+		const response =
+			known.length > 0
+				? await this.guard(this.clobClient.cancelOrders(known), "cancelOrders")
+				: null;
+
+		return orderIds.map((orderId, i): Result<void, TradingError> => {
+			const rawId = idToString(orderId);
+			const exchangeId = exchangeIds[i];
+			if (exchangeId === undefined) {
+				return err(
+					new OrderNotFoundError(
+						`Cannot cancel unknown order "${rawId}": not found in active orders`,
+						{
+							orderId: rawId,
+						},
+					),
+				);
+			}
+			if (response === null || !response.ok) {
+				return response ?? err(new OrderRejectedError("Cancel not sent", { orderId: rawId }));
+			}
+			if (response.value.canceled.includes(exchangeId)) {
+				this.activeOrders.delete(rawId);
+				return ok(undefined);
+			}
+			const reason = response.value.notCanceled[exchangeId] ?? "Cancel not acknowledged";
+			return err(new OrderRejectedError(reason, { orderId: rawId, exchangeOrderId: exchangeId }));
+		});
+	}
+
+	/**
+	 * Cancels every open order on the account, or only those in `conditionId`.
+	 * Resolves with the ids of this executor's orders that were cancelled.
+	 */
+	async cancelAll(
+		conditionId?: ConditionId,
+	): Promise<Result<readonly ClientOrderId[], TradingError>> {
+		const market = conditionId === undefined ? undefined : idToString(conditionId);
+		const response = await this.guard(this.clobClient.cancelAll(market), "cancelAll");
+		if (!response.ok) return response;
+
+		const canceled = new Set(response.value.canceled);
+		const cancelled: ClientOrderId[] = [];
+		for (const [rawId, exchangeId] of this.activeOrders) {
+			if (!canceled.has(exchangeId)) continue;
+			this.activeOrders.delete(rawId);
+			cancelled.push(clientOrderId(rawId));
+		}
+		return ok(cancelled);
+	}
+
+	/** Maps a CLOB response to an OrderResult and tracks the order while it works. */
+	private record(
+		coid: ClientOrderId,
+		intent: SdkOrderIntent,
+		response: ClobOrderResponse,
+	): OrderResult {
+		const filledSize = Decimal.from(response.filledSize);
+		const finalState = this.mapStatus(response.status, filledSize, intent.size);
+		if (!this.isTerminalState(finalState)) {
+			this.activeOrders.set(idToString(coid), response.orderId);
+		}
+		return {
+			clientOrderId: coid,
+			exchangeOrderId: exchangeOrderId(response.orderId),
+			finalState,
+			totalFilled: filledSize,
+			avgFillPrice: response.avgPrice ? Decimal.from(response.avgPrice) : null,
+		};
+	}
+
+	/** Applies the request timeout and turns a timeout into an error Result. */
+	private async guard<T>(
+		request: Promise<Result<T, TradingError>>,
+		operationName: string,
+	): Promise<Result<T, TradingError>> {
+		try {
+			return await this.withTimeout(request, operationName);
+		} catch (e) {
+			if (e instanceof TimeoutError) {
+				return err(e);
+			}
+			throw e;
+		}
+	}
+
 	private mapStatus(status: string, filledSize: Decimal, totalSize: Decimal): PendingState {
 		if (status === "MATCHED" || filledSize.gte(totalSize)) {
 			return PendingState.Filled;
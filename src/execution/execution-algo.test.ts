@@ -0,0 +1,216 @@
+import { describe, expect, it } from "vitest";
+import { EventDispatcher } from "../events/event-dispatcher.js";
+import type { SdkEvent } from "../events/sdk-events.js";
+import type { OrderbookSnapshot } from "../market/types.js";
+import { OrderRegistry } from "../order/order-registry.js";
+import { PendingState } from "../order/types.js";
+import { Decimal } from "../shared/decimal.js";
+import { clientOrderId, conditionId, marketTokenId } from "../shared/identifiers.js";
+import { MarketSide } from "../shared/market-side.js";
+import { FakeClock } from "../shared/time.js";
+import { OrderDirection } from "../signal/types.js";
+import type { SdkOrderIntent } from "../signal/types.js";
+import { BookPaperExecutor } from "./book-paper-executor.js";
+import { ExecutionAlgo } from "./execution-algo.js";
+import type { ExecutionAlgoConfig } from "./execution-algo.js";
+import { IcebergSlicer, PovSlicer, TwapSlicer } from "./slicers.js";
+
+const d = Decimal.from;
+const PARENT_ID = clientOrderId("parent-1");
+
+const parent: SdkOrderIntent = {
+	conditionId: conditionId("cond-1"),
+	tokenId: marketTokenId("tok-1"),
+	side: MarketSide.Yes,
+	direction: OrderDirection.Buy,
+	price: d("0.55"),
+	size: d(100),
+};
+
+function book(bid: string, ask: string, size = 1000): OrderbookSnapshot {
+	return {
+		bids: [{ price: d(bid), size: d(size) }],
+		asks: [{ price: d(ask), size: d(size) }],
+		timestampMs: 0,
+	};
+}
+
+function setup(overrides: Partial<ExecutionAlgoConfig> & Pick<ExecutionAlgoConfig, "slicer">) {
+	const clock = new FakeClock(1000);
+	let current: OrderbookSnapshot | null = book("0.49", "0.51");
+	const books = { getBook: () => current };
+	const executor = new BookPaperExecutor({ books, clock });
+	const registry = OrderRegistry.create(clock);
+	const events = new EventDispatcher();
+	const emitted: SdkEvent[] = [];
+	events.onSdk("execution_progress", (e) => emitted.push(e));
+	const algo = new ExecutionAlgo({
+		parent,
+		executor,
+		books,
+		registry,
+		events,
+		parentOrderId: PARENT_ID,
+		clock,
+		...overrides,
+	});
+	const setBook = (next: OrderbookSnapshot | null) => {
+		current = next;
+		for (const message of executor.drain()) {
+			if (message.type === "user_fill") algo.onUserFill(message);
+			else algo.onOrderStatus(message);
+		}
+	};
+	return { algo, clock, emitted, executor, registry, setBook };
+}
+
+describe("ExecutionAlgo", () => {
+	it("works a TWAP parent in slices at the touch", async () => {
+		const { algo, clock, registry } = setup({
+			slicer: TwapSlicer.create({ durationMs: 1000, slices: 4 }),
+		});
+
+		const first = await algo.step();
+		expect(first.filled.toString()).toBe("25");
+		expect(first.avgFillPrice?.toString()).toBe("0.51");
+		expect((await algo.step()).childCount).toBe(1);
+
+		for (const at of [1250, 1500, 1750]) {
+			clock.set(at);
+			await algo.step();
+		}
+		clock.set(2000);
+		const done = await algo.step();
+
+		expect(done.status).toBe("filled");
+		expect(done.filled.toString()).toBe("100");
+		expect(done.childCount).toBe(4);
+		expect(registry.get(PARENT_ID)?.state).toBe(PendingState.Filled);
+		const children = registry.childrenOf(PARENT_ID);
+		expect(children).toHaveLength(4);
+		expect(registry.parentOf(children[0]?.clientOrderId ?? clientOrderId("x"))?.clientOrderId).toBe(
+			PARENT_ID,
+		);
+	});
+
+	it("waits while the touch is through the parent limit", async () => {
+		const { algo, setBook } = setup({
+			slicer: TwapSlicer.create({ durationMs: 0, slices: 1 }),
+		});
+		setBook(book("0.55", "0.60"));
+
+		const waiting = await algo.step();
+		expect(waiting.childCount).toBe(0);
+		expect(waiting.status).toBe("working");
+
+		setBook(book("0.50", "0.54"));
+		const filled = await algo.step();
+		expect(filled.status).toBe("filled");
+		expect(filled.avgFillPrice?.toString()).toBe("0.54");
+	});
+
+	it("expires a TWAP that could not fill by the end of its schedule", async () => {
+		const { algo, clock, registry, setBook } = setup({
+			slicer: TwapSlicer.create({ durationMs: 1000, slices: 2 }),
+		});
+		setBook(book("0.49", "0.51", 30));
+		await algo.step();
+		clock.set(1500);
+		setBook(book("0.48", "0.50", 30));
+		await algo.step();
+
+		clock.set(2000);
+		const done = await algo.step();
+
+		expect(done.status).toBe("expired");
+		expect(done.filled.toString()).toBe("60");
+		expect(done.remaining.toString()).toBe("40");
+		expect(registry.get(PARENT_ID)?.state).toBe(PendingState.Expired);
+	});
+
+	it("shows one iceberg clip at a time at the parent limit", async () => {
+		const { algo, executor, registry, setBook } = setup({
+			parent: { ...parent, price: d("0.48") },
+			slicer: IcebergSlicer.create({ displaySize: d(40) }),
+		});
+
+		await algo.step();
+		await algo.step();
+		expect(executor.restingOrderCount()).toBe(1);
+		expect(registry.childrenOf(PARENT_ID).map((c) => c.price.toString())).toEqual(["0.48"]);
+
+		// The book trades down through the clip
+		setBook(book("0.40", "0.47"));
+		expect(algo.progress().filled.toString()).toBe("40");
+		expect(registry.get(PARENT_ID)?.state).toBe(PendingState.PartiallyFilled);
+
+		setBook(book("0.49", "0.51"));
+		await algo.step();
+		const clips = registry.childrenOf(PARENT_ID).map((c) => c.originalSize.toString());
+		expect(clips).toEqual(["40", "40"]);
+	});
+
+	it("participates in observed volume", async () => {
+		const { algo } = setup({
+			slicer: PovSlicer.create({ participationRate: d("0.2"), minChildSize: d(10) }),
+		});
+
+		expect((await algo.step()).childCount).toBe(0);
+		algo.observeVolume(d(40));
+		expect((await algo.step()).childCount).toBe(0);
+		algo.observeVolume(d(60));
+		const progress = await algo.step();
+
+		expect(progress.childCount).toBe(1);
+		expect(progress.filled.toString()).toBe("20");
+	});
+
+	it("cancels working children", async () => {
+		const { algo, executor, registry } = setup({
+			parent: { ...parent, price: d("0.48") },
+			slicer: IcebergSlicer.create({ displaySize: d(40) }),
+		});
+		await algo.step();
+
+		const cancelled = await algo.cancel();
+
+		expect(cancelled.status).toBe("cancelled");
+		expect(executor.restingOrderCount()).toBe(0);
+		expect(registry.childrenOf(PARENT_ID)[0]?.state).toBe(PendingState.Cancelled);
+		expect(registry.get(PARENT_ID)?.state).toBe(PendingState.Cancelled);
+		expect((await algo.step()).childCount).toBe(1);
+	});
+
+	it("expires with the parent's GTD deadline", async () => {
+		const { algo, clock } = setup({
+			parent: { ...parent, price: d("0.48"), expiresAtMs: 1500 },
+			slicer: IcebergSlicer.create({ displaySize: d(40) }),
+		});
+		await algo.step();
+
+		clock.set(1500);
+
+		expect((await algo.step()).status).toBe("expired");
+	});
+
+	it("emits execution_progress events", async () => {
+		const { algo, emitted } = setup({
+			slicer: TwapSlicer.create({ durationMs: 0, slices: 1 }),
+		});
+
+		await algo.step();
+
+		expect(emitted).toEqual([
+			{
+				type: "execution_progress",
+				timestamp: 1000,
+				parentOrderId: PARENT_ID,
+				algo: "TWAP",
+				status: "filled",
+				filledSize: 100,
+				remainingSize: 0,
+				childCount: 1,
+			},
+		]);
+	});
+});
@@ -0,0 +1,391 @@
+/**
+ * ExecutionAlgo — works a parent SdkOrderIntent as a series of child orders.
+ *
+ * A Slicer (TWAP, iceberg, POV) decides how much to send on each `step()`;
+ * the algo prices the child, submits it through the Executor and tracks it in
+ * the OrderRegistry as a child of the parent. Fills come from the executor
+ * result (immediate) and from the user feed (resting children). Progress is
+ * emitted as `execution_progress` events.
+ *
+ * The algo is polled: call `step()` on every tick. Time comes from the Clock,
+ * prices from a BookSource such as MarketFeed, and POV volume from
+ * `observeVolume()`.
+ */
+
+import type { EventDispatcher } from "../events/event-dispatcher.js";
+import type { ExecutionProgress } from "../events/sdk-events.js";
+import { bestAsk, bestBid } from "../market/orderbook.js";
+import { sideBook } from "../market/token-books.js";
+import type { BookSource } from "../market/types.js";
+import { OrderRegistry } from "../order/order-registry.js";
+import { OrderTracker } from "../order/order-tracker.js";
+import { isActive } from "../order/pending-state-machine.js";
+import { isExpiredAt, orderKindOf, restsOnBook } from "../order/time-in-force.js";
+import { CancelReason, OrderSide, PendingState } from "../order/types.js";
+import type { FillInfo, PendingOrder } from "../order/types.js";
+import { Decimal } from "../shared/decimal.js";
+import { ConfigError } from "../shared/errors.js";
+import type { TradingError } from "../shared/errors.js";
+import { clientOrderId } from "../shared/identifiers.js";
+import type { ClientOrderId } from "../shared/identifiers.js";
+import type { Clock } from "../shared/time.js";
+import { SystemClock } from "../shared/time.js";
+import { OrderDirection } from "../signal/types.js";
+import type { SdkOrderIntent } from "../signal/types.js";
+import type { UserFill, UserOrderStatus } from "../websocket/types.js";
+import { cancelBatch } from "./batch.js";
+import type { SliceState, Slicer } from "./slicers.js";
+import type { Executor } from "./types.js";
+
+/** Lifecycle of a parent order worked by an ExecutionAlgo. */
+export type ExecutionStatus = ExecutionProgress["status"];
+
+/** Configuration for an ExecutionAlgo. */
+export interface ExecutionAlgoConfig {
+	/** Parent order; its price is the limit no child may exceed. */
+	readonly parent: SdkOrderIntent;
+	readonly slicer: Slicer;
+	readonly executor: Executor;
+	/** Prices IOC/FOK children at the touch, capped by the parent limit. Default: parent price */
+	readonly books?: BookSource | undefined;
+	/** Registry holding the parent and its children. */
+	readonly registry?: OrderRegistry | undefined;
+	/** Receives `execution_progress` events. */
+	readonly events?: EventDispatcher | undefined;
+	/** Parent order id. Default: "algo-<n>" */
+	readonly parentOrderId?: ClientOrderId | undefined;
+	readonly clock?: Clock | undefined;
+}
+
+/** Snapshot of a parent order's execution. */
+export interface ExecutionAlgoProgress {
+	readonly parentOrderId: ClientOrderId;
+	readonly status: ExecutionStatus;
+	readonly filled: Decimal;
+	readonly remaining: Decimal;
+	/** Volume-weighted child fill price, or null before the first fill. */
+	readonly avgFillPrice: Decimal | null;
+	readonly childCount: number;
+	/** Latest child submission error, if any. */
+	readonly lastError: TradingError | null;
+}
+
+let algoCounter = 0;
+
+/**
+ * Slices a parent order into child orders over time.
+ *
+ * @example
+ * ```ts
+ * const algo = new ExecutionAlgo({
+ *   parent: buyYes(cid, tokenId, Decimal.from("0.55"), Decimal.from(1000)),
+ *   slicer: TwapSlicer.create({ durationMs: Duration.minutes(10), slices: 20 }),
+ *   executor,
+ *   books: marketFeed,
+ *   events: dispatcher,
+ * });
+ * // every tick:
+ * const progress = await algo.step();
+ * ```
+ */
+export class ExecutionAlgo {
+	readonly parentOrderId: ClientOrderId;
+	private readonly parent: SdkOrderIntent;
+	private readonly slicer: Slicer;
+	private readonly executor: Executor;
+	private readonly books: BookSource | null;
+	private readonly registry: OrderRegistry;
+	private readonly tracker: OrderTracker;
+	private readonly events: EventDispatcher | null;
+	private readonly clock: Clock;
+	private readonly startedAtMs: number;
+	private readonly childFilled = new Map<string, Decimal>();
+	private status: ExecutionStatus = "working";
+	private filled = Decimal.zero();
+	private notional = Decimal.zero();
+	private observedVolume = Decimal.zero();
+	private childCount = 0;
+	private lastChildAtMs: number | null = null;
+	private lastError: TradingError | null = null;
+
+	/**
+	 * Registers the parent order; nothing is submitted until `step()`.
+	 * @throws ConfigError if the parent size is not positive
+	 */
+	constructor(config: ExecutionAlgoConfig) {
+		if (!config.parent.size.isPositive()) {
+			throw new ConfigError("ExecutionAlgo: parent size must be positive", {
+				size: config.parent.size.toString(),
+			});
+		}
+		this.parent = config.parent;
+		this.slicer = config.slicer;
+		this.executor = config.executor;
+		this.books = config.books ?? null;
+		this.clock = config.clock ?? SystemClock;
+		this.registry = config.registry ?? OrderRegistry.create(this.clock);
+		this.tracker = new OrderTracker(this.registry, this.clock);
+		this.events = config.events ?? null;
+		this.startedAtMs = this.clock.now();
+		this.parentOrderId = config.parentOrderId ?? clientOrderId(`algo-${++algoCounter}`);
+		this.registry.track({
+			...this.pendingOrder(this.parentOrderId, this.parent),
+			state: PendingState.Open,
+			orderKind: orderKindOf(this.parent),
+			expiresAtMs: this.parent.expiresAtMs ?? null,
+		});
+	}
+
+	/** Sends the next child if the slicer has one due; completes the parent when done. */
+	async step(): Promise<ExecutionAlgoProgress> {
+		if (this.status !== "working") return this.progress();
+
+		if (isExpiredAt(this.parent.expiresAtMs, this.clock.now())) {
+			await this.cancelWorking();
+			return this.finish("expired");
+		}
+
+		const size = this.slicer.nextChild(this.sliceState());
+		if (size === null) return this.finish(this.isFilled() ? "filled" : "expired");
+		if (!size.isPositive()) return this.progress();
+
+		const price = this.childPrice();
+		if (price === null) return this.progress();
+
+		await this.submitChild(size, price);
+		return this.isFilled() ? this.finish("filled") : this.emit(this.progress());
+	}
+
+	/** Cancels the working children and the parent. */
+	async cancel(): Promise<ExecutionAlgoProgress> {
+		if (this.status !== "working") return this.progress();
+		await this.cancelWorking();
+		return this.finish("cancelled");
+	}
+
+	/** Adds traded market volume for POV slicing. */
+	observeVolume(size: Decimal): void {
+		this.observedVolume = this.observedVolume.add(size);
+	}
+
+	/** Applies a fill on one of this parent's resting children. */
+	onUserFill(fill: UserFill): void {
+		const child = this.childByExchangeId(fill);
+		if (!child) return;
+
+		const key = child.clientOrderId as string;
+		const filledSize = Decimal.from(fill.filledSize);
+		const fillPrice = Decimal.from(fill.fillPrice);
+		const childFilled = (this.childFilled.get(key) ?? Decimal.zero()).add(filledSize);
+		this.childFilled.set(key, childFilled);
+
+		const remaining = child.originalSize.sub(childFilled);
+		const info: FillInfo = {
+			filledSize,
+			fillPrice,
+			remainingSize: remaining.isNegative() ? Decimal.zero() : remaining,
+			timestampMs: fill.timestampMs,
+		};
+		if (info.remainingSize.isZero()) {
+			this.tracker.handleFilled(child.clientOrderId, info);
+		} else {
+			this.tracker.handlePartialFill(child.clientOrderId, info);
+		}
+
+		this.recordFill(filledSize, fillPrice);
+		if (this.status !== "working") return;
+		if (this.isFilled()) {
+			this.finish("filled");
+		} else {
+			this.emit(this.progress());
+		}
+	}
+
+	/** Applies an exchange status update (cancelled, expired, rejected) to a child. */
+	onOrderStatus(status: UserOrderStatus): void {
+		const child = this.childByExchangeId(status);
+		if (!child) return;
+
+		switch (status.status.toLowerCase()) {
+			case "cancelled":
+			case "canceled":
+				this.tracker.handleCancelled(child.clientOrderId, CancelReason.Exchange);
+				break;
+			case "expired":
+				this.tracker.handleExpired(child.clientOrderId);
+				break;
+			case "rejected":
+				this.tracker.handleRejected(child.clientOrderId, status.status);
+				break;
+		}
+	}
+
+	progress(): ExecutionAlgoProgress {
+		const remaining = this.parent.size.sub(this.filled);
+		return {
+			parentOrderId: this.parentOrderId,
+			status: this.status,
+			filled: this.filled,
+			remaining: remaining.isNegative() ? Decimal.zero() : remaining,
+			avgFillPrice: this.filled.isZero() ? null : this.notional.div(this.filled),
+			childCount: this.childCount,
+			lastError: this.lastError,
+		};
+	}
+
+	private sliceState(): SliceState {
+		return {
+			nowMs: this.clock.now(),
+			startedAtMs: this.startedAtMs,
+			parentSize: this.parent.size,
+			filled: this.filled,
+			working: this.working(),
+			observedVolume: this.observedVolume,
+			childCount: this.childCount,
+			lastChildAtMs: this.lastChildAtMs,
+		};
+	}
+
+	/** Unfilled size of children still working. */
+	private working(): Decimal {
+		let working = Decimal.zero();
+		for (const child of this.activeChildren()) {
+			const filled = this.childFilled.get(child.clientOrderId as string) ?? Decimal.zero();
+			working = working.add(child.originalSize.sub(filled));
+		}
+		return working;
+	}
+
+	private activeChildren(): PendingOrder[] {
+		return this.registry.childrenOf(this.parentOrderId).filter((c) => isActive(c.state));
+	}
+
+	/**
+	 * Resting children go out at the parent limit. Immediate children take the
+	 * touch when it is within the limit, and wait for the book otherwise.
+	 */
+	private childPrice(): Decimal | null {
+		const limit = this.parent.price;
+		if (this.books === null || restsOnBook(this.slicer.childOrderKind)) return limit;
+		const book = sideBook(this.books, this.parent.conditionId, this.parent.side);
+		if (book === null) return limit;
+
+		const isBuy = this.parent.direction === OrderDirection.Buy;
+		const touch = isBuy ? bestAsk(book) : bestBid(book);
+		if (touch === null) return limit;
+		const withinLimit = isBuy ? touch.lte(limit) : touch.gte(limit);
+		return withinLimit ? touch : null;
+	}
+
+	private async submitChild(size: Decimal, price: Decimal): Promise<void> {
+		const { expiresAtMs: _expiry, ...rest } = this.parent;
+		const intent: SdkOrderIntent = {
+			...rest,
+			size,
+			price,
+			orderKind: this.slicer.childOrderKind,
+		};
+		const result = await this.executor.submit(intent);
+		const now = this.clock.now();
+		this.childCount++;
+		this.lastChildAtMs = now;
+		if (!result.ok) {
+			this.lastError = result.error;
+			return;
+		}
+
+		const {
+			clientOrderId: id,
+			exchangeOrderId,
+			finalState,
+			totalFilled,
+			avgFillPrice,
+		} = result.value;
+		this.registry.trackChild(this.parentOrderId, {
+			...this.pendingOrder(id, intent),
+			state: PendingState.Submitted,
+			exchangeOrderId,
+			orderKind: this.slicer.childOrderKind,
+			expiresAtMs: null,
+		});
+		this.registry.updateState(id, finalState);
+		if (totalFilled.isPositive()) {
+			this.childFilled.set(id as string, totalFilled);
+			this.recordFill(totalFilled, avgFillPrice ?? price);
+		}
+	}
+
+	private recordFill(size: Decimal, price: Decimal): void {
+		this.filled = this.filled.add(size);
+		this.notional = this.notional.add(size.mul(price));
+		if (!this.isFilled()) {
+			this.registry.updateState(this.parentOrderId, PendingState.PartiallyFilled);
+		}
+	}
+
+	private async cancelWorking(): Promise<void> {
+		const ids = this.activeChildren().map((c) => c.clientOrderId);
+		const results = await cancelBatch(this.executor, ids);
+		results.forEach((result, i) => {
+			const id = ids[i];
+			if (id === undefined) return;
+			if (result.ok) {
+				this.tracker.handleCancelled(id, CancelReason.UserRequested);
+			} else {
+				this.lastError = result.error;
+			}
+		});
+	}
+
+	private finish(status: Exclude<ExecutionStatus, "working">): ExecutionAlgoProgress {
+		this.status = status;
+		const state = {
+			filled: PendingState.Filled,
+			cancelled: PendingState.Cancelled,
+			expired: PendingState.Expired,
+		}[status];
+		this.registry.updateState(this.parentOrderId, state);
+		return this.emit(this.progress());
+	}
+
+	private emit(progress: ExecutionAlgoProgress): ExecutionAlgoProgress {
+		this.events?.emitSdk({
+			type: "execution_progress",
+			timestamp: this.clock.now(),
+			parentOrderId: progress.parentOrderId,
+			algo: this.slicer.name,
+			status: progress.status,
+			filledSize: progress.filled.toNumber(),
+			remainingSize: progress.remaining.toNumber(),
+			childCount: progress.childCount,
+		});
+		return progress;
+	}
+
+	private isFilled(): boolean {
+		return this.filled.gte(this.parent.size);
+	}
+
+	private childByExchangeId(message: UserFill | UserOrderStatus): PendingOrder | null {
+		const child = this.registry.byExchangeOrderId(message.orderId);
+		if (!child) return null;
+		const parent = this.registry.parentOf(child.clientOrderId);
+		return parent?.clientOrderId === this.parentOrderId ? child : null;
+	}
+
+	private pendingOrder(
+		id: ClientOrderId,
+		intent: SdkOrderIntent,
+	): Omit<PendingOrder, "state" | "orderKind" | "expiresAtMs"> {
+		return {
+			clientOrderId: id,
+			conditionId: intent.conditionId,
+			tokenId: intent.tokenId,
+			side: intent.direction === OrderDirection.Buy ? OrderSide.Buy : OrderSide.Sell,
+			originalSize: intent.size,
+			price: intent.price,
+			submittedAtMs: this.clock.now(),
+			exchangeOrderId: null,
+		};
+	}
+}
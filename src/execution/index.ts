@@ -1,8 +1,25 @@
-export type { Executor, RetryConfig } from "./types.js";
+export type { BatchResults, Executor, RetryConfig } from "./types.js";
 export { DEFAULT_RETRY_CONFIG } from "./types.js";
 export { PaperExecutor } from "./paper-executor.js";
 export type { PaperExecutorConfig, FillRecord } from "./paper-executor.js";
+export { BookPaperExecutor } from "./book-paper-executor.js";
+export type { BookPaperExecutorConfig } from "./book-paper-executor.js";
 export { withRetry } from "./retry.js";
+export { cancelAll, cancelBatch, submitBatch } from "./batch.js";
 export { ClobExecutor } from "./clob-executor.js";
 export { QueueModel } from "./queue-model.js";
 export type { QueueConfig, QueueEntry } from "./queue-model.js";
+export { ExecutionAlgo } from "./execution-algo.js";
+export type {
+	ExecutionAlgoConfig,
+	ExecutionAlgoProgress,
+	ExecutionStatus,
+} from "./execution-algo.js";
+export { IcebergSlicer, PovSlicer, TwapSlicer } from "./slicers.js";
+export type {
+	IcebergConfig,
+	PovConfig,
+	SliceState,
+	Slicer,
+	TwapConfig,
+} from "./slicers.js";
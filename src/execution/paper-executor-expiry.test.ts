@@ -7,6 +7,9 @@ import type { SdkOrderIntent } from "../signal/types.js";
 import { PaperExecutor } from "./paper-executor.js";
 
 describe("PaperExecutor — Order Age Expiry", () => {
+	// Half-filled orders keep working; fully filled ones are never active
+	const RESTING = 0.5;
+
 	const createIntent = (
 		price = "0.5",
 		size = "10",
@@ -21,7 +24,7 @@ describe("PaperExecutor — Order Age Expiry", () => {
 	describe("maxOrderAgeMs = 0 (disabled)", () => {
 		it("should never auto-expire orders", async () => {
 			const clock = new FakeClock(1000);
-			const executor = new PaperExecutor({ maxOrderAgeMs: 0, clock });
+			const executor = new PaperExecutor({ fillProbability: RESTING, maxOrderAgeMs: 0, clock });
 
 			const result1 = await executor.submit(createIntent());
 			expect(result1.ok).toBe(true);
@@ -37,7 +40,7 @@ describe("PaperExecutor — Order Age Expiry", () => {
 	describe("maxOrderAgeMs > 0", () => {
 		it("should auto-cancel order after maxOrderAgeMs", async () => {
 			const clock = new FakeClock(1000);
-			const executor = new PaperExecutor({ maxOrderAgeMs: 1000, clock });
+			const executor = new PaperExecutor({ fillProbability: RESTING, maxOrderAgeMs: 1000, clock });
 
 			const result1 = await executor.submit(createIntent());
 			expect(result1.ok).toBe(true);
@@ -56,7 +59,7 @@ describe("PaperExecutor — Order Age Expiry", () => {
 
 		it("should not expire orders within age limit", async () => {
 			const clock = new FakeClock(1000);
-			const executor = new PaperExecutor({ maxOrderAgeMs: 2000, clock });
+			const executor = new PaperExecutor({ fillProbability: RESTING, maxOrderAgeMs: 2000, clock });
 
 			const result1 = await executor.submit(createIntent());
 			expect(result1.ok).toBe(true);
@@ -71,7 +74,7 @@ describe("PaperExecutor — Order Age Expiry", () => {
 
 		it("should sweep on submit()", async () => {
 			const clock = new FakeClock(1000);
-			const executor = new PaperExecutor({ maxOrderAgeMs: 1000, clock });
+			const executor = new PaperExecutor({ fillProbability: RESTING, maxOrderAgeMs: 1000, clock });
 
 			await executor.submit(createIntent());
 			await executor.submit(createIntent());
@@ -85,7 +88,7 @@ describe("PaperExecutor — Order Age Expiry", () => {
 
 		it("should add cancelled orders to fill history", async () => {
 			const clock = new FakeClock(1000);
-			const executor = new PaperExecutor({ maxOrderAgeMs: 500, clock });
+			const executor = new PaperExecutor({ fillProbability: RESTING, maxOrderAgeMs: 500, clock });
 
 			const intent = createIntent();
 			await executor.submit(intent);
@@ -103,7 +106,7 @@ describe("PaperExecutor — Order Age Expiry", () => {
 
 		it("should handle multiple expired orders", async () => {
 			const clock = new FakeClock(1000);
-			const executor = new PaperExecutor({ maxOrderAgeMs: 1000, clock });
+			const executor = new PaperExecutor({ fillProbability: RESTING, maxOrderAgeMs: 1000, clock });
 
 			await executor.submit(createIntent());
 			await executor.submit(createIntent());
@@ -124,7 +127,7 @@ describe("PaperExecutor — Order Age Expiry", () => {
 
 		it("should only sweep expired orders, not all orders", async () => {
 			const clock = new FakeClock(1000);
-			const executor = new PaperExecutor({ maxOrderAgeMs: 1000, clock });
+			const executor = new PaperExecutor({ fillProbability: RESTING, maxOrderAgeMs: 1000, clock });
 
 			await executor.submit(createIntent());
 			clock.advance(500);
@@ -141,7 +144,7 @@ describe("PaperExecutor — Order Age Expiry", () => {
 	describe("activeOrderCount", () => {
 		it("should reflect current active orders", async () => {
 			const clock = new FakeClock(1000);
-			const executor = new PaperExecutor({ clock });
+			const executor = new PaperExecutor({ fillProbability: RESTING, clock });
 
 			expect(executor.activeOrderCount()).toBe(0);
 
@@ -154,7 +157,7 @@ describe("PaperExecutor — Order Age Expiry", () => {
 
 		it("should decrease after manual cancel", async () => {
 			const clock = new FakeClock(1000);
-			const executor = new PaperExecutor({ clock });
+			const executor = new PaperExecutor({ fillProbability: RESTING, clock });
 
 			const result = await executor.submit(createIntent());
 			expect(result.ok).toBe(true);
@@ -168,7 +171,7 @@ describe("PaperExecutor — Order Age Expiry", () => {
 
 		it("should decrease after auto-expiry", async () => {
 			const clock = new FakeClock(1000);
-			const executor = new PaperExecutor({ maxOrderAgeMs: 500, clock });
+			const executor = new PaperExecutor({ fillProbability: RESTING, maxOrderAgeMs: 500, clock });
 
 			await executor.submit(createIntent());
 			expect(executor.activeOrderCount()).toBe(1);
@@ -188,7 +191,7 @@ describe("PaperExecutor — Order Age Expiry", () => {
 			const result = await executor.submit(createIntent());
 			expect(result.ok).toBe(true);
 			if (result.ok) {
-				expect(result.value.finalState).toBe(PendingState.Cancelled);
+				expect(result.value.finalState).toBe(PendingState.Open);
 			}
 			expect(executor.activeOrderCount()).toBe(1);
 
@@ -200,7 +203,7 @@ describe("PaperExecutor — Order Age Expiry", () => {
 
 		it("should preserve order of fill history entries", async () => {
 			const clock = new FakeClock(1000);
-			const executor = new PaperExecutor({ maxOrderAgeMs: 500, clock });
+			const executor = new PaperExecutor({ fillProbability: RESTING, maxOrderAgeMs: 500, clock });
 
 			await executor.submit(createIntent("0.5", "10", OrderDirection.Buy));
 			clock.advance(100);
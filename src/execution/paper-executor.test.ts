@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { PendingState } from "../order/types.js";
+import { OrderKind, PendingState } from "../order/types.js";
 import { Decimal } from "../shared/decimal.js";
 import { clientOrderId, conditionId, marketTokenId } from "../shared/identifiers.js";
 import { MarketSide } from "../shared/market-side.js";
@@ -114,15 +114,16 @@ describe("PaperExecutor", () => {
 			expect(result.value.totalFilled.eq(d("100"))).toBe(true);
 		});
 
-		it("cancels when fillProbability is 0", async () => {
+		it("rests an unfilled order as open when fillProbability is 0", async () => {
 			const executor = new PaperExecutor({ fillProbability: 0 });
 			const result = await executor.submit(testIntent());
 
 			expect(isOk(result)).toBe(true);
 			if (!result.ok) return;
-			expect(result.value.finalState).toBe(PendingState.Cancelled);
+			expect(result.value.finalState).toBe(PendingState.Open);
 			expect(result.value.totalFilled.isZero()).toBe(true);
 			expect(result.value.avgFillPrice).toBeNull();
+			expect(executor.activeOrderCount()).toBe(1);
 		});
 
 		it("handles zero-size order as edge case", async () => {
@@ -156,7 +157,7 @@ describe("PaperExecutor", () => {
 
 	describe("cancel", () => {
 		it("returns ok for a tracked (active) order", async () => {
-			const executor = new PaperExecutor();
+			const executor = new PaperExecutor({ fillProbability: 0.5 });
 			const submitResult = await executor.submit(testIntent());
 
 			expect(isOk(submitResult)).toBe(true);
@@ -173,9 +174,18 @@ describe("PaperExecutor", () => {
 			expect(isErr(result)).toBe(true);
 		});
 
-		it("returns error when cancelling same order twice", async () => {
+		it("returns error for a filled order", async () => {
 			const executor = new PaperExecutor();
 			const submitResult = await executor.submit(testIntent());
+			expect(isOk(submitResult)).toBe(true);
+			if (!submitResult.ok) return;
+
+			expect(isErr(await executor.cancel(submitResult.value.clientOrderId))).toBe(true);
+		});
+
+		it("returns error when cancelling same order twice", async () => {
+			const executor = new PaperExecutor({ fillProbability: 0.5 });
+			const submitResult = await executor.submit(testIntent());
 
 			expect(isOk(submitResult)).toBe(true);
 			if (!submitResult.ok) return;
@@ -225,7 +235,7 @@ describe("PaperExecutor", () => {
 
 		it("records cancelled orders in fill history", async () => {
 			const executor = new PaperExecutor({ fillProbability: 0 });
-			await executor.submit(testIntent());
+			await executor.submit(testIntent({ orderKind: OrderKind.IOC }));
 
 			const history = executor.fillHistory();
 			expect(history).toHaveLength(1);
@@ -296,4 +306,119 @@ describe("PaperExecutor", () => {
 			expect(history[1]?.timestampMs).toBe(6000);
 		});
 	});
+	describe("time in force", () => {
+		it("IOC cancels the unfilled remainder", async () => {
+			const executor = new PaperExecutor({ fillProbability: 0.4 });
+
+			const result = await executor.submit(testIntent({ orderKind: OrderKind.IOC }));
+
+			expect(isOk(result) && result.value.finalState).toBe(PendingState.Cancelled);
+			expect(isOk(result) && result.value.totalFilled.eq(d("40"))).toBe(true);
+			expect(executor.activeOrderCount()).toBe(0);
+		});
+
+		it("IOC with no fill is cancelled and not left to cancel later", async () => {
+			const executor = new PaperExecutor({ fillProbability: 0 });
+
+			const result = await executor.submit(testIntent({ orderKind: OrderKind.IOC }));
+
+			expect(isOk(result) && result.value.finalState).toBe(PendingState.Cancelled);
+			expect(executor.activeOrderCount()).toBe(0);
+			expect(isOk(result) && isErr(await executor.cancel(result.value.clientOrderId))).toBe(true);
+			const all = await executor.cancelAll();
+			expect(isOk(all) && all.value).toEqual([]);
+		});
+
+		it("FOK fills nothing unless the order fills in full", async () => {
+			const partial = new PaperExecutor({ fillProbability: 0.4 });
+			const killed = await partial.submit(testIntent({ orderKind: OrderKind.FOK }));
+			expect(isOk(killed) && killed.value.finalState).toBe(PendingState.Cancelled);
+			expect(isOk(killed) && killed.value.totalFilled.isZero()).toBe(true);
+			expect(partial.activeOrderCount()).toBe(0);
+
+			const full = new PaperExecutor();
+			const filled = await full.submit(testIntent({ orderKind: OrderKind.FOK }));
+			expect(isOk(filled) && filled.value.finalState).toBe(PendingState.Filled);
+		});
+
+		it("expires the working remainder of a GTD order at its expiry", async () => {
+			const clock = new FakeClock(1000);
+			const executor = new PaperExecutor({ fillProbability: 0.5, clock });
+			await executor.submit(testIntent({ orderKind: OrderKind.GTD, expiresAtMs: 3000 }));
+
+			clock.advance(1999);
+			await executor.submit(testIntent());
+			expect(executor.activeOrderCount()).toBe(2);
+
+			clock.advance(1);
+			await executor.submit(testIntent());
+			expect(executor.activeOrderCount()).toBe(2);
+			expect(executor.fillHistory().map((r) => r.result.finalState)).toContain(
+				PendingState.Expired,
+			);
+		});
+
+		it("expires a GTD order that never filled at its expiry", async () => {
+			const clock = new FakeClock(1000);
+			const executor = new PaperExecutor({ fillProbability: 0, clock });
+			const gtd = await executor.submit(
+				testIntent({ orderKind: OrderKind.GTD, expiresAtMs: 3000 }),
+			);
+			expect(isOk(gtd) && gtd.value.finalState).toBe(PendingState.Open);
+			expect(executor.activeOrderCount()).toBe(1);
+
+			clock.advance(2000);
+			await executor.submit(testIntent({ orderKind: OrderKind.IOC }));
+
+			expect(executor.activeOrderCount()).toBe(0);
+			expect(executor.fillHistory()[1]?.result.finalState).toBe(PendingState.Expired);
+		});
+
+		it("rejects GTD orders without a future expiry", async () => {
+			const clock = new FakeClock(1000);
+			const executor = new PaperExecutor({ clock });
+
+			expect(isErr(await executor.submit(testIntent({ orderKind: OrderKind.GTD })))).toBe(true);
+			const stale = testIntent({ orderKind: OrderKind.GTD, expiresAtMs: 1000 });
+			expect(isErr(await executor.submit(stale))).toBe(true);
+			expect(executor.fillHistory()).toHaveLength(0);
+		});
+	});
+	describe("batches", () => {
+		it("submits and cancels batches with per-order results", async () => {
+			const executor = new PaperExecutor({ fillProbability: 0.5 });
+
+			const submitted = await executor.submitBatch([testIntent(), testIntent()]);
+			expect(submitted.every(isOk)).toBe(true);
+
+			const first = submitted[0];
+			const ids = first?.ok ? [first.value.clientOrderId, clientOrderId("unknown")] : [];
+			const cancelled = await executor.cancelBatch(ids);
+			expect(cancelled.map(isOk)).toEqual([true, false]);
+			expect(executor.activeOrderCount()).toBe(1);
+		});
+
+		it("cancelAll() cancels only the given market's orders", async () => {
+			const executor = new PaperExecutor({ fillProbability: 0.5 });
+			await executor.submit(testIntent());
+			await executor.submit(testIntent({ conditionId: conditionId("cond-2") }));
+
+			const result = await executor.cancelAll(conditionId("cond-2"));
+
+			expect(isOk(result) && result.value).toEqual([clientOrderId("paper-2")]);
+			expect(executor.activeOrderCount()).toBe(1);
+			expect(isOk(await executor.cancelAll())).toBe(true);
+			expect(executor.activeOrderCount()).toBe(0);
+		});
+
+		it("cancelAll() does not report filled orders as cancelled", async () => {
+			const executor = new PaperExecutor();
+			await executor.submit(testIntent());
+
+			const result = await executor.cancelAll();
+
+			expect(isOk(result) && result.value).toEqual([]);
+			expect(executor.activeOrderCount()).toBe(0);
+		});
+	});
 });
@@ -3,22 +3,28 @@
  *
  * Fills orders locally with configurable fill probability and slippage.
  * No network calls, fully deterministic when given a FakeClock.
+ *
+ * Time-in-force follows the intent's OrderKind: a partial fill cancels the
+ * remainder of IOC orders, FOK orders fill in full or not at all, unfilled
+ * GTC and GTD orders rest as Open, and GTD orders still working at
+ * `expiresAtMs` are expired on the next submit.
  */
 
-import { PendingState } from "../order/types.js";
+import { isExpiredAt, orderKindOf, validateTimeInForce } from "../order/time-in-force.js";
+import { OrderKind, PendingState } from "../order/types.js";
 import type { OrderResult } from "../order/types.js";
 import { Decimal } from "../shared/decimal.js";
 import { OrderRejectedError } from "../shared/errors.js";
 import type { TradingError } from "../shared/errors.js";
 import { clientOrderId, exchangeOrderId, idToString } from "../shared/identifiers.js";
-import type { ClientOrderId } from "../shared/identifiers.js";
+import type { ClientOrderId, ConditionId } from "../shared/identifiers.js";
 import type { Result } from "../shared/result.js";
 import { err, ok } from "../shared/result.js";
 import type { Clock } from "../shared/time.js";
 import { SystemClock } from "../shared/time.js";
 import type { SdkOrderIntent } from "../signal/types.js";
 import { OrderDirection } from "../signal/types.js";
-import type { Executor } from "./types.js";
+import type { BatchResults, Executor } from "./types.js";
 
 /**
  * Configuration for the paper trading executor.
@@ -51,6 +57,8 @@ export interface FillRecord {
 interface ActiveOrderEntry {
 	readonly intent: SdkOrderIntent;
 	readonly submittedAtMs: number;
+	/** GTD expiry of the unfilled remainder; null once nothing is left to expire. */
+	readonly expiresAtMs: number | null;
 }
 
 export class PaperExecutor implements Executor {
@@ -80,21 +88,33 @@ export class PaperExecutor implements Executor {
 	async submit(intent: SdkOrderIntent): Promise<Result<OrderResult, TradingError>> {
 		this.sweepStaleOrders();
 
+		const nowMs = this.config.clock.now();
+		const timeInForce = validateTimeInForce(intent, nowMs);
+		if (!timeInForce.ok) return timeInForce;
+
 		this.orderCounter++;
 		const coid = clientOrderId(`paper-${this.orderCounter}`);
 		const eoid = exchangeOrderId(`exch-${this.orderCounter}`);
 		const fillRatio = this.config.fillProbability;
-		const nowMs = this.config.clock.now();
+		const kind = orderKindOf(intent);
 
-		if (fillRatio === 0) {
+		if (fillRatio === 0 || (kind === OrderKind.FOK && fillRatio < 1)) {
+			// Unfilled GTC/GTD orders rest on the book; IOC and FOK orders are killed
+			const rests = kind === OrderKind.GTC || kind === OrderKind.GTD;
 			const result: OrderResult = {
 				clientOrderId: coid,
 				exchangeOrderId: eoid,
-				finalState: PendingState.Cancelled,
+				finalState: rests ? PendingState.Open : PendingState.Cancelled,
 				totalFilled: Decimal.zero(),
 				avgFillPrice: null,
 			};
-			this.activeOrders.set(idToString(coid), { intent, submittedAtMs: nowMs });
+			if (rests) {
+				this.activeOrders.set(idToString(coid), {
+					intent,
+					submittedAtMs: nowMs,
+					expiresAtMs: intent.expiresAtMs ?? null,
+				});
+			}
 			this.pushFill({ intent, result, timestampMs: nowMs });
 			return ok(result);
 		}
@@ -102,7 +122,12 @@ export class PaperExecutor implements Executor {
 		const filledSize = intent.size.mul(Decimal.from(fillRatio));
 		const slippageMultiplier = this.computeSlippage(intent.direction);
 		const fillPrice = intent.price.mul(slippageMultiplier);
-		const finalState = fillRatio >= 1 ? PendingState.Filled : PendingState.PartiallyFilled;
+		const finalState =
+			fillRatio >= 1
+				? PendingState.Filled
+				: kind === OrderKind.IOC
+					? PendingState.Cancelled
+					: PendingState.PartiallyFilled;
 
 		const result: OrderResult = {
 			clientOrderId: coid,
@@ -112,7 +137,14 @@ export class PaperExecutor implements Executor {
 			avgFillPrice: fillPrice,
 		};
 
-		this.activeOrders.set(idToString(coid), { intent, submittedAtMs: nowMs });
+		// Only a partially filled remainder keeps working; filled orders have nothing left to cancel
+		if (finalState === PendingState.PartiallyFilled) {
+			this.activeOrders.set(idToString(coid), {
+				intent,
+				submittedAtMs: nowMs,
+				expiresAtMs: intent.expiresAtMs ?? null,
+			});
+		}
 		this.pushFill({ intent, result, timestampMs: nowMs });
 		return ok(result);
 	}
@@ -130,6 +162,30 @@ export class PaperExecutor implements Executor {
 		);
 	}
 
+	async submitBatch(intents: readonly SdkOrderIntent[]): Promise<BatchResults<OrderResult>> {
+		const results: Array<Result<OrderResult, TradingError>> = [];
+		for (const intent of intents) {
+			results.push(await this.submit(intent));
+		}
+		return results;
+	}
+
+	async cancelBatch(orderIds: readonly ClientOrderId[]): Promise<BatchResults<void>> {
+		return Promise.all(orderIds.map((orderId) => this.cancel(orderId)));
+	}
+
+	async cancelAll(
+		conditionId?: ConditionId,
+	): Promise<Result<readonly ClientOrderId[], TradingError>> {
+		const cancelled: ClientOrderId[] = [];
+		for (const [key, entry] of this.activeOrders) {
+			if (conditionId !== undefined && entry.intent.conditionId !== conditionId) continue;
+			this.activeOrders.delete(key);
+			cancelled.push(clientOrderId(key));
+		}
+		return ok(cancelled);
+	}
+
 	/** Returns the complete history of simulated fills in chronological order. */
 	fillHistory(): readonly FillRecord[] {
 		return [...this.fills];
@@ -141,25 +197,24 @@ export class PaperExecutor implements Executor {
 	}
 
 	private sweepStaleOrders(): void {
-		if (this.config.maxOrderAgeMs <= 0) {
-			return;
-		}
-
 		const nowMs = this.config.clock.now();
-		const toExpire: Array<{ key: string; entry: ActiveOrderEntry }> = [];
+		const maxAgeMs = this.config.maxOrderAgeMs;
+		const toExpire: Array<{ key: string; entry: ActiveOrderEntry; state: PendingState }> = [];
 
 		for (const [key, entry] of this.activeOrders) {
-			if (nowMs - entry.submittedAtMs > this.config.maxOrderAgeMs) {
-				toExpire.push({ key, entry });
+			if (isExpiredAt(entry.expiresAtMs, nowMs)) {
+				toExpire.push({ key, entry, state: PendingState.Expired });
+			} else if (maxAgeMs > 0 && nowMs - entry.submittedAtMs > maxAgeMs) {
+				toExpire.push({ key, entry, state: PendingState.Cancelled });
 			}
 		}
 
-		for (const { key, entry } of toExpire) {
+		for (const { key, entry, state } of toExpire) {
 			this.activeOrders.delete(key);
 			const result: OrderResult = {
 				clientOrderId: clientOrderId(key),
 				exchangeOrderId: exchangeOrderId(`exch-expired-${key}`),
-				finalState: PendingState.Cancelled,
+				finalState: state,
 				totalFilled: Decimal.zero(),
 				avgFillPrice: null,
 			};
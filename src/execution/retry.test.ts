@@ -293,4 +293,45 @@ describe("withRetry", () => {
 			expect(cancelCalled).toBe(true);
 		});
 	});
+	describe("batches", () => {
+		it("resubmits only the orders that failed with a retryable error", async () => {
+			const inner = mockExecutor([
+				ok(fakeOrderResult(1)),
+				err(new NetworkError("connection reset")),
+				err(new OrderRejectedError("bad price")),
+				ok(fakeOrderResult(4)),
+			]);
+			const executor = withRetry(inner, { maxAttempts: 3, baseDelayMs: 0 });
+
+			const results = await executor.submitBatch?.([testIntent(), testIntent(), testIntent()]);
+
+			expect(inner.callCount).toBe(4);
+			expect(results?.map((r) => (r.ok ? r.value.clientOrderId : r.error.code))).toEqual([
+				"c-1",
+				"c-4",
+				"ORDER_REJECTED",
+			]);
+		});
+
+		it("uses the inner executor's native batch endpoint", async () => {
+			const submitBatch = vi.fn(async (intents: readonly SdkOrderIntent[]) =>
+				intents.map((_, i) => ok(fakeOrderResult(i))),
+			);
+			const inner: Executor = { ...mockExecutor([]), submitBatch };
+			const executor = withRetry(inner, { baseDelayMs: 0 });
+
+			const results = await executor.submitBatch?.([testIntent(), testIntent()]);
+
+			expect(submitBatch).toHaveBeenCalledTimes(1);
+			expect(results?.every(isOk)).toBe(true);
+		});
+
+		it("reports cancelAll as unsupported when the inner executor lacks it", async () => {
+			const executor = withRetry(mockExecutor([]));
+
+			const result = await executor.cancelAll?.();
+
+			expect(result && isErr(result) && result.error.code).toBe("CONFIG_ERROR");
+		});
+	});
 });
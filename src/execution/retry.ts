@@ -3,16 +3,20 @@
  *
  * Wraps an Executor's submit method with retry logic. Non-retryable errors
  * short-circuit immediately. Cancel passes through without retry.
+ *
+ * Batch submissions retry only the orders that failed with a retryable error,
+ * resubmitting them together; cancelBatch and cancelAll pass through.
  */
 
 import type { OrderResult } from "../order/types.js";
 import { RateLimitError } from "../shared/errors.js";
 import type { TradingError } from "../shared/errors.js";
-import type { ClientOrderId } from "../shared/identifiers.js";
+import type { ClientOrderId, ConditionId } from "../shared/identifiers.js";
 import type { Result } from "../shared/result.js";
 import type { SdkOrderIntent } from "../signal/types.js";
+import { cancelAll, cancelBatch, submitBatch } from "./batch.js";
 import { DEFAULT_RETRY_CONFIG } from "./types.js";
-import type { Executor, RetryConfig } from "./types.js";
+import type { BatchResults, Executor, RetryConfig } from "./types.js";
 
 function resolveConfig(overrides?: Partial<RetryConfig>): RetryConfig {
 	return {
@@ -86,5 +90,47 @@ export function withRetry(executor: Executor, config?: Partial<RetryConfig>): Ex
 		async cancel(orderId: ClientOrderId): Promise<Result<void, TradingError>> {
 			return executor.cancel(orderId);
 		},
+
+		async submitBatch(intents: readonly SdkOrderIntent[]): Promise<BatchResults<OrderResult>> {
+			const results = [...(await submitBatch(executor, intents))];
+
+			for (let attempt = 1; attempt < resolved.maxAttempts; attempt++) {
+				const failures = retryableFailures(results);
+				const [first] = failures;
+				if (first === undefined) break;
+				await sleep(computeDelay(attempt - 1, resolved, first.error));
+
+				const retried = await submitBatch(
+					executor,
+					failures.map((f) => intents[f.index] as SdkOrderIntent),
+				);
+				failures.forEach((f, j) => {
+					const result = retried[j];
+					if (result !== undefined) results[f.index] = result;
+				});
+			}
+
+			return results;
+		},
+
+		async cancelBatch(orderIds: readonly ClientOrderId[]): Promise<BatchResults<void>> {
+			return cancelBatch(executor, orderIds);
+		},
+
+		async cancelAll(
+			conditionId?: ConditionId,
+		): Promise<Result<readonly ClientOrderId[], TradingError>> {
+			return cancelAll(executor, conditionId);
+		},
 	};
 }
+
+function retryableFailures(
+	results: BatchResults<OrderResult>,
+): Array<{ index: number; error: TradingError }> {
+	const failures: Array<{ index: number; error: TradingError }> = [];
+	results.forEach((result, index) => {
+		if (!result.ok && result.error.isRetryable) failures.push({ index, error: result.error });
+	});
+	return failures;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { OrderKind } from "../order/types.js";
+import { Decimal } from "../shared/decimal.js";
+import { ConfigError } from "../shared/errors.js";
+import { IcebergSlicer, PovSlicer, TwapSlicer } from "./slicers.js";
+import type { SliceState } from "./slicers.js";
+
+const d = Decimal.from;
+
+function state(overrides: Partial<SliceState> = {}): SliceState {
+	return {
+		nowMs: 0,
+		startedAtMs: 0,
+		parentSize: d(100),
+		filled: d(0),
+		working: d(0),
+		observedVolume: d(0),
+		childCount: 0,
+		lastChildAtMs: null,
+		...overrides,
+	};
+}
+
+describe("TwapSlicer", () => {
+	const twap = TwapSlicer.create({ durationMs: 1000, slices: 4 });
+
+	it("sends one slice per interval", () => {
+		expect(twap.nextChild(state())?.toString()).toBe("25");
+		expect(twap.nextChild(state({ nowMs: 100, filled: d(25), lastChildAtMs: 0 }))?.toString()).toBe(
+			"0",
+		);
+		expect(twap.nextChild(state({ nowMs: 250, filled: d(25), lastChildAtMs: 0 }))?.toString()).toBe(
+			"25",
+		);
+		expect(twap.childOrderKind).toBe(OrderKind.IOC);
+	});
+
+	it("carries unfilled size into the next slice", () => {
+		const next = twap.nextChild(state({ nowMs: 500, filled: d(10), lastChildAtMs: 300 }));
+
+		expect(next?.toString()).toBe("65");
+	});
+
+	it("keeps the last window open until the duration has elapsed", () => {
+		const last = { filled: d(80), lastChildAtMs: 800 };
+
+		expect(twap.nextChild(state({ nowMs: 900, ...last }))?.toString()).toBe("0");
+		expect(twap.nextChild(state({ nowMs: 1000, ...last }))).toBeNull();
+		expect(twap.nextChild(state({ nowMs: 1000, ...last, working: d(20) }))?.toString()).toBe("0");
+	});
+
+	it("rejects invalid configuration", () => {
+		expect(() => TwapSlicer.create({ durationMs: 1000, slices: 0 })).toThrow(ConfigError);
+		expect(() => TwapSlicer.create({ durationMs: 1000, slices: 1.5 })).toThrow(ConfigError);
+		expect(() => TwapSlicer.create({ durationMs: -1, slices: 2 })).toThrow(ConfigError);
+	});
+});
+
+describe("IcebergSlicer", () => {
+	const iceberg = IcebergSlicer.create({ displaySize: d(30) });
+
+	it("shows one clip at a time", () => {
+		expect(iceberg.nextChild(state()).toString()).toBe("30");
+		expect(iceberg.nextChild(state({ working: d(10), filled: d(20) })).toString()).toBe("0");
+		expect(iceberg.nextChild(state({ filled: d(90) })).toString()).toBe("10");
+		expect(iceberg.childOrderKind).toBe(OrderKind.GTC);
+	});
+
+	it("rejects a non-positive display size", () => {
+		expect(() => IcebergSlicer.create({ displaySize: d(0) })).toThrow(ConfigError);
+	});
+});
+
+describe("PovSlicer", () => {
+	const pov = PovSlicer.create({ participationRate: d("0.1"), minChildSize: d(5) });
+
+	it("tracks a share of observed volume", () => {
+		expect(pov.nextChild(state({ observedVolume: d(200) })).toString()).toBe("20");
+		expect(pov.nextChild(state({ observedVolume: d(300), filled: d(20) })).toString()).toBe("10");
+	});
+
+	it("waits for more volume below the minimum child size", () => {
+		expect(pov.nextChild(state({ observedVolume: d(40) })).toString()).toBe("0");
+		// The final child may be smaller than the minimum
+		expect(pov.nextChild(state({ observedVolume: d(5000), filled: d(97) })).toString()).toBe("3");
+	});
+
+	it("rejects a participation rate outside (0, 1]", () => {
+		expect(() => PovSlicer.create({ participationRate: d(0) })).toThrow(ConfigError);
+		expect(() => PovSlicer.create({ participationRate: d("1.5") })).toThrow(ConfigError);
+	});
+});
@@ -0,0 +1,217 @@
+/**
+ * Slicers — schedules that decide how much of a parent order to send next.
+ *
+ * A Slicer is pure: given the parent's progress it returns the size of the next
+ * child order, zero when nothing is due, or null once its schedule is over.
+ * ExecutionAlgo owns submission, tracking and events.
+ *
+ * - TWAP: one slice per interval over a duration, sized so that cumulative
+ *   fills track the schedule; shortfall from unfilled slices carries over.
+ * - Iceberg: one resting child of `displaySize` at a time; the next clip goes
+ *   out once the visible one is done.
+ * - POV: keeps cumulative executed size at a fraction of the volume observed
+ *   since the start.
+ */
+
+import { OrderKind } from "../order/types.js";
+import { Decimal } from "../shared/decimal.js";
+import { ConfigError } from "../shared/errors.js";
+
+/** Parent order progress handed to a Slicer. */
+export interface SliceState {
+	readonly nowMs: number;
+	readonly startedAtMs: number;
+	readonly parentSize: Decimal;
+	/** Size filled across all children. */
+	readonly filled: Decimal;
+	/** Unfilled size of children still working. */
+	readonly working: Decimal;
+	/** Traded market volume observed since the start. */
+	readonly observedVolume: Decimal;
+	/** Number of children submitted so far. */
+	readonly childCount: number;
+	/** Submission time of the latest child, or null before the first. */
+	readonly lastChildAtMs: number | null;
+}
+
+/** Decides the size of the next child order. */
+export interface Slicer {
+	readonly name: string;
+	/** Time-in-force of the child orders. */
+	readonly childOrderKind: OrderKind;
+	/** Size of the next child; zero when nothing is due, null once the schedule is over. */
+	nextChild(state: SliceState): Decimal | null;
+}
+
+/** Configuration for TwapSlicer. */
+export interface TwapConfig {
+	/** Time over which the parent is worked. */
+	readonly durationMs: number;
+	readonly slices: number;
+	/** Default: IOC, so unfilled slice size rolls into the next slice */
+	readonly childOrderKind?: OrderKind | undefined;
+}
+
+/** Configuration for IcebergSlicer. */
+export interface IcebergConfig {
+	/** Size shown on the book at a time. */
+	readonly displaySize: Decimal;
+}
+
+/** Configuration for PovSlicer. */
+export interface PovConfig {
+	/** Target share of observed volume, in (0, 1]. */
+	readonly participationRate: Decimal;
+	/** Children smaller than this wait for more volume. Default: any positive size */
+	readonly minChildSize?: Decimal | undefined;
+	/** Default: IOC */
+	readonly childOrderKind?: OrderKind | undefined;
+}
+
+/**
+ * Time-weighted slicer: slice `i` is due at `start + i * durationMs / slices`.
+ *
+ * @example
+ * ```ts
+ * const twap = TwapSlicer.create({ durationMs: Duration.minutes(10), slices: 20 });
+ * ```
+ */
+export class TwapSlicer implements Slicer {
+	readonly name = "TWAP";
+	readonly childOrderKind: OrderKind;
+	private readonly config: TwapConfig;
+
+	private constructor(config: TwapConfig) {
+		this.config = config;
+		this.childOrderKind = config.childOrderKind ?? OrderKind.IOC;
+	}
+
+	/**
+	 * Creates a TWAP slicer.
+	 * @throws ConfigError if slices is not a positive integer or durationMs is negative
+	 */
+	static create(config: TwapConfig): TwapSlicer {
+		if (!Number.isInteger(config.slices) || config.slices < 1) {
+			throw new ConfigError("TwapSlicer: slices must be a positive integer", {
+				slices: config.slices,
+			});
+		}
+		if (config.durationMs < 0) {
+			throw new ConfigError("TwapSlicer: durationMs must be non-negative", {
+				durationMs: config.durationMs,
+			});
+		}
+		return new TwapSlicer(config);
+	}
+
+	nextChild(state: SliceState): Decimal | null {
+		const { slices, durationMs } = this.config;
+		const elapsed = state.nowMs - state.startedAtMs;
+		const slice = this.sliceAt(elapsed);
+		const sent =
+			state.lastChildAtMs !== null &&
+			this.sliceAt(state.lastChildAtMs - state.startedAtMs) === slice;
+		if (sent) {
+			const over = slice === slices - 1 && elapsed >= durationMs && state.working.isZero();
+			return over ? null : Decimal.zero();
+		}
+		const target = state.parentSize.mul(Decimal.from(slice + 1)).div(Decimal.from(slices));
+		return positivePart(target.sub(state.filled).sub(state.working));
+	}
+
+	/** Index of the slice window containing `elapsedMs`; the last window is open-ended. */
+	private sliceAt(elapsedMs: number): number {
+		const intervalMs = this.config.durationMs / this.config.slices;
+		if (intervalMs === 0) return this.config.slices - 1;
+		return Math.min(this.config.slices - 1, Math.floor(elapsedMs / intervalMs));
+	}
+}
+
+/**
+ * Iceberg slicer: shows at most `displaySize` at a time.
+ *
+ * @example
+ * ```ts
+ * const iceberg = IcebergSlicer.create({ displaySize: Decimal.from(50) });
+ * ```
+ */
+export class IcebergSlicer implements Slicer {
+	readonly name = "Iceberg";
+	readonly childOrderKind = OrderKind.GTC;
+	private readonly displaySize: Decimal;
+
+	private constructor(config: IcebergConfig) {
+		this.displaySize = config.displaySize;
+	}
+
+	/**
+	 * Creates an iceberg slicer.
+	 * @throws ConfigError if displaySize is not positive
+	 */
+	static create(config: IcebergConfig): IcebergSlicer {
+		if (!config.displaySize.isPositive()) {
+			throw new ConfigError("IcebergSlicer: displaySize must be positive");
+		}
+		return new IcebergSlicer(config);
+	}
+
+	nextChild(state: SliceState): Decimal {
+		if (!state.working.isZero()) return Decimal.zero();
+		return Decimal.min(this.displaySize, remainingOf(state));
+	}
+}
+
+/**
+ * Percentage-of-volume slicer.
+ *
+ * @example
+ * ```ts
+ * const pov = PovSlicer.create({ participationRate: Decimal.from("0.1") });
+ * algo.observeVolume(Decimal.from(trade.size));
+ * ```
+ */
+export class PovSlicer implements Slicer {
+	readonly name = "POV";
+	readonly childOrderKind: OrderKind;
+	private readonly config: PovConfig;
+
+	private constructor(config: PovConfig) {
+		this.config = config;
+		this.childOrderKind = config.childOrderKind ?? OrderKind.IOC;
+	}
+
+	/**
+	 * Creates a POV slicer.
+	 * @throws ConfigError if participationRate is not in (0, 1]
+	 */
+	static create(config: PovConfig): PovSlicer {
+		const rate = config.participationRate;
+		if (!rate.isPositive() || rate.gt(Decimal.one())) {
+			throw new ConfigError("PovSlicer: participationRate must be in (0, 1]", {
+				participationRate: rate.toString(),
+			});
+		}
+		return new PovSlicer(config);
+	}
+
+	nextChild(state: SliceState): Decimal {
+		const target = state.observedVolume.mul(this.config.participationRate);
+		const size = Decimal.min(
+			positivePart(target.sub(state.filled).sub(state.working)),
+			remainingOf(state),
+		);
+		const min = this.config.minChildSize;
+		if (min !== undefined && size.lt(min) && size.lt(remainingOf(state))) {
+			return Decimal.zero();
+		}
+		return size;
+	}
+}
+
+function remainingOf(state: SliceState): Decimal {
+	return positivePart(state.parentSize.sub(state.filled).sub(state.working));
+}
+
+function positivePart(value: Decimal): Decimal {
+	return value.isPositive() ? value : Decimal.zero();
+}
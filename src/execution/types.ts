@@ -7,7 +7,7 @@
 
 import type { OrderResult } from "../order/types.js";
 import type { TradingError } from "../shared/errors.js";
-import type { ClientOrderId } from "../shared/identifiers.js";
+import type { ClientOrderId, ConditionId } from "../shared/identifiers.js";
 import type { Result } from "../shared/result.js";
 import type { SdkOrderIntent } from "../signal/types.js";
 
@@ -15,8 +15,26 @@ import type { SdkOrderIntent } from "../signal/types.js";
 export interface Executor {
 	submit(intent: SdkOrderIntent): Promise<Result<OrderResult, TradingError>>;
 	cancel(orderId: ClientOrderId): Promise<Result<void, TradingError>>;
+	/**
+	 * Submits several orders in one round trip. Results are per order, in input order.
+	 * Optional — use the `submitBatch()` helper to fall back to sequential submits.
+	 */
+	submitBatch?(intents: readonly SdkOrderIntent[]): Promise<BatchResults<OrderResult>>;
+	/**
+	 * Cancels several orders in one round trip. Results are per order, in input order.
+	 * Optional — use the `cancelBatch()` helper to fall back to sequential cancels.
+	 */
+	cancelBatch?(orderIds: readonly ClientOrderId[]): Promise<BatchResults<void>>;
+	/**
+	 * Cancels every working order, or only those for `conditionId`.
+	 * Resolves with the ids of this executor's orders that were cancelled.
+	 */
+	cancelAll?(conditionId?: ConditionId): Promise<Result<readonly ClientOrderId[], TradingError>>;
 }
 
+/** Per-order outcomes of a batch call, in the order the batch was given. */
+export type BatchResults<T> = ReadonlyArray<Result<T, TradingError>>;
+
 /** Configuration for exponential backoff retry behavior on the Executor. */
 export interface RetryConfig {
 	readonly maxAttempts: number;
@@ -74,6 +74,16 @@ export {
 	type SignalDetector,
 	type SignalKind,
 	ExitPipeline,
+	type AggressiveExitConfig,
+	type ExitPrice,
+	type ExitPricer,
+	type ExitPricingInput,
+	type PassiveExitConfig,
+	AggressiveExitPricer,
+	CrossSpreadExitPricer,
+	PassiveExitPricer,
+	UrgencyExitPricer,
+	exitUrgency,
 	EdgeReversalExit,
 	EmergencyExit,
 	NearExpiryExit,
@@ -86,6 +96,8 @@ export {
 	GammaRiskExit,
 	MaxHoldTimeExit,
 	ProfitLockerExit,
+	ScaleOutExit,
+	type ScaleOutLevel,
 	// Phase 9 detectors
 	type DipArbConfig,
 	type DipArbSignal,
@@ -134,6 +146,14 @@ export {
 	StatsGuard,
 	type StatsGuardConfig,
 	type StatsSnapshot,
+	// Order guards (evaluated on the concrete intent)
+	type OrderGuard,
+	type OrderGuardContext,
+	OrderGuardPipeline,
+	FatFingerGuard,
+	MaxOrderNotionalGuard,
+	PriceCollarGuard,
+	TokenExposureGuard,
 } from "./risk/index.js";
 
 // ── Position ────────────────────────────────────────────────────────
@@ -181,6 +201,10 @@ export {
 	isActive,
 	isTerminal,
 	tryTransition,
+	isExpiredAt,
+	orderKindOf,
+	restsOnBook,
+	validateTimeInForce,
 	OrderHandleBuilder,
 	OrderRegistry,
 	OrderCoordinator,
@@ -191,8 +215,13 @@ export {
 	type DiffConfig,
 	type LiveOrder,
 	diffOrders,
+	QuoteManager,
+	type QuoteManagerConfig,
+	type QuoteUpdate,
 	IdempotencyGuard,
 	type IdempotencyConfig,
+	OrderPipeline,
+	type OrderPipelineConfig,
 } from "./order/index.js";
 
 // ── Context ─────────────────────────────────────────────────────────
@@ -217,16 +246,34 @@ export {
 
 // ── Execution ───────────────────────────────────────────────────────
 export {
+	type BatchResults,
 	type Executor,
 	type RetryConfig,
 	DEFAULT_RETRY_CONFIG,
 	PaperExecutor,
 	type PaperExecutorConfig,
+	BookPaperExecutor,
+	type BookPaperExecutorConfig,
 	withRetry,
+	cancelAll,
+	cancelBatch,
+	submitBatch,
 	ClobExecutor,
 	QueueModel,
 	type QueueConfig,
 	type QueueEntry,
+	ExecutionAlgo,
+	type ExecutionAlgoConfig,
+	type ExecutionAlgoProgress,
+	type ExecutionStatus,
+	TwapSlicer,
+	IcebergSlicer,
+	PovSlicer,
+	type Slicer,
+	type SliceState,
+	type TwapConfig,
+	type IcebergConfig,
+	type PovConfig,
 } from "./execution/index.js";
 
 // ── Lib: Ethereum ───────────────────────────────────────────────────
@@ -238,8 +285,39 @@ export {
 } from "./lib/ethereum/index.js";
 
 // ── Lib: HTTP ───────────────────────────────────────────────────────
-export { TokenBucketRateLimiter, RateLimiterManager, polymarketPresets } from "./lib/http/index.js";
-export type { RateLimiterConfig, RateLimiterStats } from "./lib/http/index.js";
+export {
+	TokenBucketRateLimiter,
+	RateLimiterManager,
+	polymarketPresets,
+	HttpClient,
+} from "./lib/http/index.js";
+export type {
+	RateLimiterConfig,
+	RateLimiterStats,
+	HttpClientConfig,
+	HttpRequest,
+} from "./lib/http/index.js";
+
+// ── Lib: CLOB ───────────────────────────────────────────────────────
+export {
+	ClobClient,
+	HttpClobProviders,
+	POLYMARKET_CLOB_URL,
+	buildClobOrder,
+	ClobOrderSigner,
+	CLOB_MAX_BATCH_ORDERS,
+	SignatureType,
+	type ClobOrderSignerConfig,
+	type ClobSignedOrder,
+	type ClobTickSize,
+	type ClobProviders,
+	type ClobConfig,
+	type ClobOrderRequest,
+	type ClobOrderResponse,
+	type ClobOrderRejection,
+	type ClobCancelResponse,
+	type HttpClobConfig,
+} from "./lib/clob/index.js";
 
 // ── Market ──────────────────────────────────────────────────────────
 export {
@@ -259,11 +337,23 @@ export {
 	applyDelta,
 	bestAsk,
 	bestBid,
+	bookDisagreement,
 	effectivePrice,
 	getEffectivePrices,
 	midPrice,
+	mirrorBook,
 	spread,
+	TokenBookIndex,
+	sideBook,
+	type MarketBooks,
+	type TokenMarket,
 	MarketCatalog,
+	HttpMarketProviders,
+	POLYMARKET_GAMMA_URL,
+	type HttpMarketConfig,
+	HttpBookSnapshotProvider,
+	type HttpBookSnapshotConfig,
+	type BookSnapshotProvider,
 	scan,
 	categorize,
 	type MarketCategory,
@@ -284,16 +374,25 @@ export {
 
 // ── WebSocket ───────────────────────────────────────────────────────
 export {
+	type BookSnapshot,
 	type BookUpdate,
 	type Heartbeat,
+	type MarketTrade,
 	type Subscription,
+	type TickSizeChange,
 	type UserFill,
 	type UserOrderStatus,
 	type WsMessage,
 	type ReconnectionConfig,
 	type WsClientLike,
+	type WsProtocol,
 	type UserFeedConfig,
+	type PolymarketProtocolConfig,
+	type BookHasher,
+	type MarketFeedConfig,
+	BookInvalidReason,
 	ReconnectionPolicy,
+	PolymarketProtocol,
 	WsManager,
 	MarketFeed,
 	UserFeed,
@@ -325,26 +424,81 @@ export type {
 } from "./strategy/index.js";
 export {
 	BuiltStrategy,
+	DEFAULT_ORDER_TIMEOUT_MS,
 	StrategyBuilder,
+	StrategyRunner,
 	conservative,
 	aggressive,
 	scalper,
 	evHunter,
 	TestRunner,
 	TestContextBuilder,
+	createTickContextProvider,
+	recoverFromJournal,
+	recoverState,
+	SNAPSHOT_VERSION,
+	StateReplayer,
+	SpreadQuoter,
+	MarketMaker,
 } from "./strategy/index.js";
 export type {
 	StrategyAggregates,
 	StateView as StrategyStateView,
 	TickContext,
+	TickContextProvider,
 	StrategyComponents,
+	StrategyRunnerConfig,
+	BookSource,
+	OracleReading,
+	OracleSource,
+	TickContextProviderConfig,
 	Journal,
 	JournalEntry,
+	SnapshotClosedPosition,
+	SnapshotEntry,
+	SnapshotPosition,
+	SnapshotState,
+	RecoveredKillSwitch,
+	RecoveredState,
+	RecoveryIssue,
+	RecoveryIssueCode,
+	RecoveryOptions,
+	FlowToxicity,
+	QuoteDecision,
+	QuoteInput,
+	QuoteLadder,
+	QuoteLevel,
+	QuotingStrategy,
+	SpreadQuoterConfig,
+	MarketMakerConfig,
+	MarketMakerTick,
+	MarketMakerUpdate,
 } from "./strategy/index.js";
 
 // ── Persistence ─────────────────────────────────────────────────────
 export { MemoryJournal, FileJournal } from "./persistence/index.js";
-export type { CorruptLine, FileJournalConfig, RestoreResult } from "./persistence/index.js";
+export type {
+	CompactResult,
+	CorruptLine,
+	FileJournalConfig,
+	RestoreResult,
+} from "./persistence/index.js";
+export { MarketTapeReader, MarketTapeRecorder, TAPE_VERSION } from "./persistence/index.js";
+export type { MarketTapeConfig, TapeCorruptLine } from "./persistence/index.js";
+export { SQLITE_JOURNAL_SCHEMA_VERSION, SqliteJournal } from "./persistence/index.js";
+export type {
+	ExitReasonSummary,
+	GuardBlockQuery,
+	JournalFillRow,
+	JournalGuardBlockRow,
+	JournalOrderRow,
+	JournalPositionRow,
+	JournalQuery,
+	PositionQuery,
+	SqliteDatabase,
+	SqliteJournalConfig,
+	SqliteStatement,
+} from "./persistence/index.js";
 
 // ── CTF (Conditional Token Framework) ───────────────────────────────
 export {
@@ -405,6 +559,7 @@ export {
 	calcBookDepth,
 	// Price history
 	PriceHistoryClient,
+	HttpPriceHistoryProvider,
 	VALID_INTERVALS,
 	// Phase 9 microstructure
 	VpinTracker,
@@ -417,6 +572,7 @@ export type {
 	PricePoint,
 	PriceInterval,
 	PriceHistoryProvider,
+	HttpPriceHistoryConfig,
 	BandResult,
 	MACDResult,
 	StochasticResult,
@@ -492,6 +648,9 @@ export {
 	SizeProportionalSlippage,
 	CommissionModel,
 	runBacktest,
+	runStrategyBacktest,
+	runBookReplay,
+	quotingReplayStrategy,
 } from "./backtest/index.js";
 export type {
 	ReplayTick,
@@ -502,6 +661,19 @@ export type {
 	TradeRecord,
 	BacktestDetector,
 	EntryState,
+	StrategyBacktestConfig,
+	StrategyBacktestResult,
+	StrategyTradeRecord,
+	GuardBlockRecord,
+	BookReplayConfig,
+	BookReplayContext,
+	BookReplayEvent,
+	BookReplayResult,
+	BookReplayStrategy,
+	ReplayFill,
+	ReplayOrder,
+	ReplayOrderRequest,
+	QuotingReplayConfig,
 } from "./backtest/index.js";
 
 // ── Observability ──────────────────────────────────────────────────
@@ -13,6 +13,9 @@ function stubDeps(overrides: Partial<ClobProviders> = {}): ClobProviders {
 		submitOrder: overrides.submitOrder ?? (() => Promise.reject(new Error("not implemented"))),
 		cancelOrder: overrides.cancelOrder ?? (() => Promise.reject(new Error("not implemented"))),
 		getOpenOrders: overrides.getOpenOrders ?? (() => Promise.reject(new Error("not implemented"))),
+		submitOrders: overrides.submitOrders ?? (() => Promise.reject(new Error("not implemented"))),
+		cancelOrders: overrides.cancelOrders ?? (() => Promise.reject(new Error("not implemented"))),
+		cancelAll: overrides.cancelAll ?? (() => Promise.reject(new Error("not implemented"))),
 	};
 }
 
@@ -113,6 +116,44 @@ describe("ClobClient", () => {
 		});
 	});
 
+	describe("batch operations", () => {
+		it("returns per-order responses from submitOrders", async () => {
+			const responses = [VALID_RESPONSE, { errorMsg: "not enough balance" }];
+			const client = new ClobClient(stubDeps({ submitOrders: () => Promise.resolve(responses) }));
+
+			const result = await client.submitOrders([]);
+
+			expect(isOk(result) && result.value).toEqual(responses);
+		});
+
+		it("passes the market filter to cancelAll", async () => {
+			let market: string | undefined;
+			const client = new ClobClient(
+				stubDeps({
+					cancelAll: async (m) => {
+						market = m;
+						return { canceled: ["exch-1"], notCanceled: {} };
+					},
+				}),
+			);
+
+			const result = await client.cancelAll("cond-1");
+
+			expect(market).toBe("cond-1");
+			expect(isOk(result) && result.value.canceled).toEqual(["exch-1"]);
+		});
+
+		it("classifies cancelOrders errors", async () => {
+			const client = new ClobClient(
+				stubDeps({ cancelOrders: () => Promise.reject(new Error("ECONNREFUSED")) }),
+			);
+
+			const result = await client.cancelOrders(["exch-1"]);
+
+			expect(isErr(result) && result.error).toBeInstanceOf(NetworkError);
+		});
+	});
+
 	describe("getOpenOrders", () => {
 		it("returns ok with order list", async () => {
 			const orders = [VALID_RESPONSE];
@@ -5,7 +5,13 @@
 import { classifyError } from "../../shared/errors.js";
 import type { TradingError } from "../../shared/errors.js";
 import { type Result, err, ok } from "../../shared/result.js";
-import type { ClobOrderRequest, ClobOrderResponse, ClobProviders } from "./types.js";
+import type {
+	ClobCancelResponse,
+	ClobOrderRejection,
+	ClobOrderRequest,
+	ClobOrderResponse,
+	ClobProviders,
+} from "./types.js";
 
 export class ClobClient {
 	private readonly deps: ClobProviders;
@@ -42,6 +48,52 @@ export class ClobClient {
 		}
 	}
 
+	/**
+	 * Submits several orders in one request.
+	 * @param reqs - The order requests
+	 * @returns Result containing one response or rejection per request, in request order
+	 */
+	async submitOrders(
+		reqs: readonly ClobOrderRequest[],
+	): Promise<Result<ReadonlyArray<ClobOrderResponse | ClobOrderRejection>, TradingError>> {
+		try {
+			const responses = await this.deps.submitOrders(reqs);
+			return ok(responses);
+		} catch (error) {
+			return err(classifyError(error));
+		}
+	}
+
+	/**
+	 * Cancels several orders by ID in one request.
+	 * @param orderIds - The IDs of the orders to cancel
+	 * @returns Result containing the cancelled and not-cancelled IDs or a TradingError
+	 */
+	async cancelOrders(
+		orderIds: readonly string[],
+	): Promise<Result<ClobCancelResponse, TradingError>> {
+		try {
+			const response = await this.deps.cancelOrders(orderIds);
+			return ok(response);
+		} catch (error) {
+			return err(classifyError(error));
+		}
+	}
+
+	/**
+	 * Cancels every open order, optionally only in one market.
+	 * @param market - Condition ID of the market to restrict the cancel to
+	 * @returns Result containing the cancelled and not-cancelled IDs or a TradingError
+	 */
+	async cancelAll(market?: string): Promise<Result<ClobCancelResponse, TradingError>> {
+		try {
+			const response = await this.deps.cancelAll(market);
+			return ok(response);
+		} catch (error) {
+			return err(classifyError(error));
+		}
+	}
+
 	/**
 	 * Retrieves all currently open orders.
 	 * @returns Result containing an array of order responses or a TradingError
@@ -0,0 +1,177 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { createCredentials } from "../../auth/credentials.js";
+import { OrderRejectedError, RateLimitError } from "../../shared/errors.js";
+import { createSigner } from "../ethereum/signer.js";
+import { startMockServer } from "../http/http-test-helpers.js";
+import type { MockHandler, MockServer } from "../http/http-test-helpers.js";
+import { ClobClient } from "./client.js";
+import { HttpClobProviders } from "./http-providers.js";
+import { ClobOrderSigner } from "./order-builder.js";
+import type { ClobOrderRequest } from "./types.js";
+
+const credentials = createCredentials({ apiKey: "key-1", secret: "c2VjcmV0", passphrase: "pass" });
+
+const buy: ClobOrderRequest = {
+	tokenId: "123",
+	price: "0.5",
+	size: "10",
+	side: "BUY",
+	orderType: "GTC",
+};
+
+describe("HttpClobProviders", () => {
+	let server: MockServer | undefined;
+
+	afterEach(async () => {
+		await server?.close();
+		server = undefined;
+	});
+
+	async function setup(handler: MockHandler) {
+		server = await startMockServer(handler);
+		return { clob: HttpClobProviders.create({ host: server.url, credentials }), server };
+	}
+
+	it("posts a signed order and maps the fill", async () => {
+		const { clob, server } = await setup(() => ({
+			body: {
+				success: true,
+				errorMsg: "",
+				orderID: "0xabc",
+				status: "matched",
+				makingAmount: "4.5",
+				takingAmount: "10",
+			},
+		}));
+
+		const response = await clob.submitOrder(buy);
+
+		expect(response).toEqual({
+			orderId: "0xabc",
+			status: "MATCHED",
+			filledSize: "10",
+			avgPrice: "0.45",
+		});
+		const [req] = server.requests;
+		expect(req?.path).toBe("/order");
+		expect(req?.body).toEqual({
+			order: { tokenId: "123", price: "0.5", size: "10", side: "BUY" },
+			owner: "key-1",
+			orderType: "GTC",
+		});
+		expect(req?.headers.poly_address).toBe("key-1");
+		expect(req?.headers.poly_signature).toBeDefined();
+	});
+
+	it("posts EIP-712 signed orders when given an order signer", async () => {
+		const placed = { success: true, orderID: "0xabc" };
+		server = await startMockServer((req) => ({
+			body: req.path === "/orders" ? [placed] : placed,
+		}));
+		const orderSigner = ClobOrderSigner.create({
+			signer: createSigner("0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80"),
+			salt: () => 42,
+		});
+		const clob = HttpClobProviders.create({ host: server.url, credentials, orderSigner });
+
+		await clob.submitOrder(buy);
+		await clob.submitOrders([buy]);
+
+		const expected = { order: await orderSigner.sign(buy), owner: "key-1", orderType: "GTC" };
+		expect(server.requests[0]?.body).toEqual(expected);
+		expect(server.requests[1]?.body).toEqual([expected]);
+		expect(expected.order).toMatchObject({ salt: 42, makerAmount: "5000000", side: "BUY" });
+	});
+
+	it("reports a resting sell without fills", async () => {
+		const { clob } = await setup(() => ({
+			body: { success: true, orderID: "0xdef", status: "live", makingAmount: "", takingAmount: "" },
+		}));
+
+		const response = await clob.submitOrder({ ...buy, side: "SELL" });
+
+		expect(response).toEqual({ orderId: "0xdef", status: "LIVE", filledSize: "0", avgPrice: "" });
+	});
+
+	it("throws OrderRejectedError when the CLOB refuses the order", async () => {
+		const { clob } = await setup(() => ({
+			body: { success: false, errorMsg: "not enough balance / allowance" },
+		}));
+
+		await expect(clob.submitOrder(buy)).rejects.toThrow(OrderRejectedError);
+	});
+
+	it("maps an HTTP 400 order rejection to OrderRejectedError with the CLOB's message", async () => {
+		const { clob } = await setup(() => ({
+			status: 400,
+			body: { errorMsg: "not enough balance / allowance" },
+		}));
+
+		const result = await new ClobClient(clob).submitOrder(buy);
+
+		expect(!result.ok && result.error).toBeInstanceOf(OrderRejectedError);
+		expect(!result.ok && result.error.message).toBe("not enough balance / allowance");
+	});
+
+	it("keeps batch results in request order", async () => {
+		const { clob, server } = await setup(() => ({
+			body: [
+				{ success: true, orderID: "0x1", status: "live" },
+				{ success: false, errorMsg: "invalid tick size" },
+			],
+		}));
+
+		const responses = await clob.submitOrders([buy, { ...buy, price: "0.555" }]);
+
+		expect(responses).toEqual([
+			{ orderId: "0x1", status: "LIVE", filledSize: "0", avgPrice: "" },
+			{ errorMsg: "invalid tick size" },
+		]);
+		expect(server.requests[0]?.path).toBe("/orders");
+	});
+
+	it("cancels one, several, a market's or all orders", async () => {
+		const { clob, server } = await setup((req) => ({
+			body:
+				req.path === "/order"
+					? { canceled: [], not_canceled: { "0x1": "already filled" } }
+					: { canceled: ["0x2"], not_canceled: {} },
+		}));
+
+		await expect(clob.cancelOrder("0x1")).rejects.toThrow("already filled");
+		expect(await clob.cancelOrders(["0x2"])).toEqual({ canceled: ["0x2"], notCanceled: {} });
+		await clob.cancelAll("cond-1");
+		await clob.cancelAll();
+
+		expect(server.requests.map((r) => [r.method, r.path, r.body])).toEqual([
+			["DELETE", "/order", { orderID: "0x1" }],
+			["DELETE", "/orders", ["0x2"]],
+			["DELETE", "/cancel-market-orders", { market: "cond-1" }],
+			["DELETE", "/cancel-all", undefined],
+		]);
+	});
+
+	it("pages through open orders", async () => {
+		const order = (id: string) => ({ id, status: "live", size_matched: "1", price: "0.4" });
+		const { clob, server } = await setup((req) =>
+			req.query.get("next_cursor") === "MQ=="
+				? { body: { data: [order("0x2")], next_cursor: "LTE=" } }
+				: { body: { data: [order("0x1")], next_cursor: "MQ==" } },
+		);
+
+		const orders = await clob.getOpenOrders();
+
+		expect(orders.map((o) => o.orderId)).toEqual(["0x1", "0x2"]);
+		expect(orders[0]).toEqual({ orderId: "0x1", status: "LIVE", filledSize: "1", avgPrice: "0.4" });
+		expect(server.requests).toHaveLength(2);
+	});
+
+	it("surfaces HTTP errors through ClobClient as classified errors", async () => {
+		const { clob } = await setup(() => ({ status: 429, body: { error: "Too Many Requests" } }));
+
+		const result = await new ClobClient(clob).submitOrder(buy);
+
+		expect(result.ok).toBe(false);
+		expect(!result.ok && result.error).toBeInstanceOf(RateLimitError);
+	});
+});
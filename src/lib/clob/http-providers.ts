@@ -0,0 +1,226 @@
+/**
+ * HttpClobProviders — ClobProviders over the Polymarket CLOB REST API.
+ *
+ * Every call is L2-signed with the account's credentials. Order placement
+ * draws from the "order" rate limiter, everything else from "general". A 4xx
+ * answer to placing or cancelling orders is an OrderRejectedError.
+ * Orders are posted as EIP-712 signed exchange orders when an order signer
+ * is configured.
+ */
+
+import { unwrapCredentials } from "../../auth/credentials.js";
+import type { Credentials } from "../../auth/types.js";
+import { Decimal } from "../../shared/decimal.js";
+import { OrderRejectedError } from "../../shared/errors.js";
+import { HttpClient } from "../http/http-client.js";
+import type { HttpClientConfig } from "../http/http-client.js";
+import { z } from "../validation/index.js";
+import type { ClobOrderSigner } from "./order-builder.js";
+import type {
+	ClobCancelResponse,
+	ClobOrderRejection,
+	ClobOrderRequest,
+	ClobOrderResponse,
+	ClobProviders,
+} from "./types.js";
+
+/** Production CLOB endpoint. */
+export const POLYMARKET_CLOB_URL = "https://clob.polymarket.com";
+
+/** Cursor the CLOB returns on the last page of a listing. */
+const END_CURSOR = "LTE=";
+
+/** Configuration for HttpClobProviders. */
+export interface HttpClobConfig extends Omit<HttpClientConfig, "baseUrl" | "credentials"> {
+	/** Default: POLYMARKET_CLOB_URL */
+	readonly host?: string | undefined;
+	readonly credentials: Credentials;
+	/** Signs orders before they are posted. Without one, orders go out unsigned. */
+	readonly orderSigner?: ClobOrderSigner | undefined;
+}
+
+const placedOrderSchema = z.object({
+	success: z.boolean().optional(),
+	errorMsg: z.string().optional(),
+	orderID: z.string().optional(),
+	status: z.string().optional(),
+	makingAmount: z.string().optional(),
+	takingAmount: z.string().optional(),
+});
+
+type PlacedOrder = z.infer<typeof placedOrderSchema>;
+
+const cancelSchema = z.object({
+	canceled: z.array(z.string()),
+	not_canceled: z.record(z.string(), z.string()),
+});
+
+const openOrdersSchema = z.object({
+	data: z.array(
+		z.object({
+			id: z.string(),
+			status: z.string(),
+			size_matched: z.string(),
+			price: z.string(),
+		}),
+	),
+	next_cursor: z.string(),
+});
+
+/**
+ * Maps a placement response. The CLOB reports what the order gave and got:
+ * for a buy that is USDC made and shares taken, for a sell the reverse.
+ */
+function toOrderResponse(
+	req: ClobOrderRequest,
+	placed: PlacedOrder,
+): ClobOrderResponse | ClobOrderRejection {
+	if (placed.success === false || !placed.orderID) {
+		return { errorMsg: placed.errorMsg || "Order rejected by the CLOB" };
+	}
+	const making = Decimal.from(placed.makingAmount || "0");
+	const taking = Decimal.from(placed.takingAmount || "0");
+	const [shares, usdc] = req.side === "BUY" ? [taking, making] : [making, taking];
+	return {
+		orderId: placed.orderID,
+		status: (placed.status ?? "live").toUpperCase(),
+		filledSize: shares.toString(),
+		avgPrice: shares.isPositive() ? usdc.div(shares).toString() : "",
+	};
+}
+
+function toCancelResponse(res: z.infer<typeof cancelSchema>): ClobCancelResponse {
+	return { canceled: res.canceled, notCanceled: res.not_canceled };
+}
+
+/**
+ * ClobProviders backed by the CLOB REST API.
+ *
+ * @example
+ * ```ts
+ * const clob = new ClobClient(HttpClobProviders.create({ credentials }));
+ * ```
+ */
+export class HttpClobProviders implements ClobProviders {
+	private readonly http: HttpClient;
+	private readonly owner: string;
+	private readonly orderSigner: ClobOrderSigner | undefined;
+
+	private constructor(http: HttpClient, owner: string, orderSigner: ClobOrderSigner | undefined) {
+		this.http = http;
+		this.owner = owner;
+		this.orderSigner = orderSigner;
+	}
+
+	/**
+	 * Creates CLOB providers.
+	 * @throws ConfigError if the host or timeout is invalid
+	 * @throws AuthError if the credentials are invalid
+	 */
+	static create(config: HttpClobConfig): HttpClobProviders {
+		const { host, orderSigner, ...rest } = config;
+		const http = HttpClient.create({ ...rest, baseUrl: host ?? POLYMARKET_CLOB_URL });
+		return new HttpClobProviders(http, unwrapCredentials(config.credentials).apiKey, orderSigner);
+	}
+
+	async submitOrder(req: ClobOrderRequest): Promise<ClobOrderResponse> {
+		const placed = await this.http.request(
+			{
+				method: "POST",
+				path: "/order",
+				body: await this.orderBody(req),
+				auth: true,
+				limiter: "order",
+				orderEndpoint: true,
+			},
+			placedOrderSchema,
+		);
+		const response = toOrderResponse(req, placed);
+		if ("errorMsg" in response) {
+			throw new OrderRejectedError(response.errorMsg, { tokenId: req.tokenId });
+		}
+		return response;
+	}
+
+	async cancelOrder(orderId: string): Promise<void> {
+		const res = await this.http.request(
+			{
+				method: "DELETE",
+				path: "/order",
+				body: { orderID: orderId },
+				auth: true,
+				orderEndpoint: true,
+			},
+			cancelSchema,
+		);
+		if (!res.canceled.includes(orderId)) {
+			const reason = res.not_canceled[orderId] ?? "Cancel not acknowledged";
+			throw new OrderRejectedError(reason, { orderId });
+		}
+	}
+
+	async submitOrders(
+		reqs: readonly ClobOrderRequest[],
+	): Promise<ReadonlyArray<ClobOrderResponse | ClobOrderRejection>> {
+		const placed = await this.http.request(
+			{
+				method: "POST",
+				path: "/orders",
+				body: await Promise.all(reqs.map((req) => this.orderBody(req))),
+				auth: true,
+				limiter: "order",
+				orderEndpoint: true,
+			},
+			z.array(placedOrderSchema),
+		);
+		return reqs.map((req, i) =>
+			toOrderResponse(req, placed[i] ?? { success: false, errorMsg: "Missing response" }),
+		);
+	}
+
+	async cancelOrders(orderIds: readonly string[]): Promise<ClobCancelResponse> {
+		const res = await this.http.request(
+			{ method: "DELETE", path: "/orders", body: orderIds, auth: true, orderEndpoint: true },
+			cancelSchema,
+		);
+		return toCancelResponse(res);
+	}
+
+	async cancelAll(market?: string): Promise<ClobCancelResponse> {
+		const res = await this.http.request(
+			market === undefined
+				? { method: "DELETE", path: "/cancel-all", auth: true }
+				: { method: "DELETE", path: "/cancel-market-orders", body: { market }, auth: true },
+			cancelSchema,
+		);
+		return toCancelResponse(res);
+	}
+
+	/** Open orders across all pages; `avgPrice` is the order's limit price. */
+	async getOpenOrders(): Promise<ClobOrderResponse[]> {
+		const orders: ClobOrderResponse[] = [];
+		let cursor: string | undefined;
+		do {
+			const page = await this.http.request(
+				{ method: "GET", path: "/data/orders", query: { next_cursor: cursor }, auth: true },
+				openOrdersSchema,
+			);
+			for (const order of page.data) {
+				orders.push({
+					orderId: order.id,
+					status: order.status.toUpperCase(),
+					filledSize: order.size_matched,
+					avgPrice: order.price,
+				});
+			}
+			cursor = page.next_cursor;
+		} while (cursor !== END_CURSOR && cursor.length > 0);
+		return orders;
+	}
+
+	private async orderBody(req: ClobOrderRequest) {
+		const { orderType, ...order } = req;
+		if (this.orderSigner === undefined) return { order, owner: this.owner, orderType };
+		return { order: await this.orderSigner.sign(req), owner: this.owner, orderType };
+	}
+}
@@ -3,6 +3,14 @@ export type {
 	ClobConfig,
 	ClobOrderRequest,
 	ClobOrderResponse,
+	ClobOrderRejection,
+	ClobCancelResponse,
+	ClobSignedOrder,
+	ClobTickSize,
 } from "./types.js";
+export { CLOB_MAX_BATCH_ORDERS, SignatureType } from "./types.js";
 export { ClobClient } from "./client.js";
-export { buildClobOrder } from "./order-builder.js";
+export { buildClobOrder, ClobOrderSigner } from "./order-builder.js";
+export type { ClobOrderSignerConfig } from "./order-builder.js";
+export { HttpClobProviders, POLYMARKET_CLOB_URL } from "./http-providers.js";
+export type { HttpClobConfig } from "./http-providers.js";
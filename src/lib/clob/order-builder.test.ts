@@ -1,15 +1,21 @@
 /**
  * buildClobOrder — translates SdkOrderIntent to CLOB wire format.
+ * ClobOrderSigner — signs CLOB requests as CTF exchange orders.
  */
 
+import { recoverTypedDataAddress } from "viem";
 import { describe, expect, it } from "vitest";
 import { OrderKind } from "../../order/types.js";
 import { Decimal } from "../../shared/decimal.js";
+import { ConfigError, OrderRejectedError } from "../../shared/errors.js";
 import { conditionId, marketTokenId } from "../../shared/identifiers.js";
 import { MarketSide } from "../../shared/market-side.js";
 import { OrderDirection } from "../../signal/types.js";
 import type { SdkOrderIntent } from "../../signal/types.js";
-import { buildClobOrder } from "./order-builder.js";
+import { createSigner } from "../ethereum/signer.js";
+import { ClobOrderSigner, buildClobOrder } from "./order-builder.js";
+import { SignatureType } from "./types.js";
+import type { ClobOrderRequest, ClobSignedOrder, ClobTickSize } from "./types.js";
 
 const BASE_INTENT: SdkOrderIntent = {
 	conditionId: conditionId("cond-1"),
@@ -74,9 +80,15 @@ describe("buildClobOrder", () => {
 		const intent: SdkOrderIntent = {
 			...BASE_INTENT,
 			orderKind: OrderKind.GTD,
+			expiresAtMs: 1_700_000_060_500,
 		};
 		const req = buildClobOrder(intent);
 		expect(req.orderType).toBe("GTD");
+		expect(req.expiration).toBe("1700000060");
+	});
+
+	it("omits expiration for kinds that do not expire", () => {
+		expect(buildClobOrder(BASE_INTENT)).not.toHaveProperty("expiration");
 	});
 
 	it("handles zero price and size (HARD-17)", () => {
@@ -101,3 +113,236 @@ describe("buildClobOrder", () => {
 		expect(req.size).toBe("0.001");
 	});
 });
+
+const TEST_PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const SIGNER_ADDRESS = "0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266";
+const SAFE_ADDRESS = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const EXCHANGE = "0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E";
+const NEG_RISK_EXCHANGE = "0xC5d563A36AE78145C45a50134d48A1215220f80a";
+
+const BUY_REQUEST: ClobOrderRequest = {
+	tokenId: "1234",
+	price: "0.5",
+	size: "100",
+	side: "BUY",
+	orderType: "GTC",
+};
+
+/** Recovers the signing address the way the exchange contract does. */
+function recoverSigner(order: ClobSignedOrder, verifyingContract: string) {
+	return recoverTypedDataAddress({
+		domain: {
+			name: "Polymarket CTF Exchange",
+			version: "1",
+			chainId: 137,
+			verifyingContract: verifyingContract as `0x${string}`,
+		},
+		types: {
+			Order: [
+				{ name: "salt", type: "uint256" },
+				{ name: "maker", type: "address" },
+				{ name: "signer", type: "address" },
+				{ name: "taker", type: "address" },
+				{ name: "tokenId", type: "uint256" },
+				{ name: "makerAmount", type: "uint256" },
+				{ name: "takerAmount", type: "uint256" },
+				{ name: "expiration", type: "uint256" },
+				{ name: "nonce", type: "uint256" },
+				{ name: "feeRateBps", type: "uint256" },
+				{ name: "side", type: "uint8" },
+				{ name: "signatureType", type: "uint8" },
+			],
+		},
+		primaryType: "Order",
+		message: {
+			salt: BigInt(order.salt),
+			maker: order.maker as `0x${string}`,
+			signer: order.signer as `0x${string}`,
+			taker: order.taker as `0x${string}`,
+			tokenId: BigInt(order.tokenId),
+			makerAmount: BigInt(order.makerAmount),
+			takerAmount: BigInt(order.takerAmount),
+			expiration: BigInt(order.expiration),
+			nonce: BigInt(order.nonce),
+			feeRateBps: BigInt(order.feeRateBps),
+			side: order.side === "BUY" ? 0 : 1,
+			signatureType: order.signatureType,
+		},
+		signature: order.signature as `0x${string}`,
+	});
+}
+
+describe("ClobOrderSigner", () => {
+	const signer = createSigner(TEST_PRIVATE_KEY);
+
+	/** Produced by @polymarket/clob-client 5.8.1 for the same key, salt and order. */
+	describe("golden vectors", () => {
+		it("signs an EOA buy", async () => {
+			const orderSigner = ClobOrderSigner.create({ signer, salt: () => 479249096354 });
+
+			const order = await orderSigner.sign(BUY_REQUEST);
+
+			expect(order).toEqual({
+				salt: 479249096354,
+				maker: SIGNER_ADDRESS,
+				signer: SIGNER_ADDRESS,
+				taker: "0x0000000000000000000000000000000000000000",
+				tokenId: "1234",
+				makerAmount: "50000000",
+				takerAmount: "100000000",
+				side: "BUY",
+				expiration: "0",
+				nonce: "0",
+				feeRateBps: "0",
+				signatureType: SignatureType.EOA,
+				signature:
+					"0x5b50e4211551b723be4e62ce6ae65a13e12c9e6cd02154da6389bca5918eb8767fd554681cd125e349d00a446b884ee466dd9c3659f68ad89be17d9f9322a6231c",
+			});
+			expect((await recoverSigner(order, EXCHANGE)).toLowerCase()).toBe(SIGNER_ADDRESS);
+		});
+
+		it("signs a Gnosis safe GTD sell on the neg-risk exchange", async () => {
+			const orderSigner = ClobOrderSigner.create({
+				signer,
+				salt: () => 1000,
+				signatureType: SignatureType.PolyGnosisSafe,
+				funder: SAFE_ADDRESS,
+				negRisk: true,
+				feeRateBps: 100,
+				nonce: 3,
+			});
+
+			const order = await orderSigner.sign({
+				tokenId: "1234",
+				price: "0.37",
+				size: "12.5",
+				side: "SELL",
+				orderType: "GTD",
+				expiration: "1700000060",
+			});
+
+			expect(order).toEqual({
+				salt: 1000,
+				maker: SAFE_ADDRESS,
+				signer: SIGNER_ADDRESS,
+				taker: "0x0000000000000000000000000000000000000000",
+				tokenId: "1234",
+				makerAmount: "12500000",
+				takerAmount: "4625000",
+				side: "SELL",
+				expiration: "1700000060",
+				nonce: "3",
+				feeRateBps: "100",
+				signatureType: SignatureType.PolyGnosisSafe,
+				signature:
+					"0xfe710e91e722bf383c6f013c40a3aa4b38b851de5aa00a3cfe21b5e964188f7266bcf8b3de54a6510d894bd9754df6fd01bdcd9a26eaec3c84134d4c2ee5f0031c",
+			});
+			expect((await recoverSigner(order, NEG_RISK_EXCHANGE)).toLowerCase()).toBe(SIGNER_ADDRESS);
+		});
+
+		it("rounds a fractional sell down to hundredths of a share", async () => {
+			const orderSigner = ClobOrderSigner.create({ signer, salt: () => 7 });
+
+			const order = await orderSigner.sign({
+				...BUY_REQUEST,
+				price: "0.57",
+				size: "33.333333",
+				side: "SELL",
+			});
+
+			expect(order).toMatchObject({
+				makerAmount: "33330000",
+				takerAmount: "18998100",
+				signature:
+					"0xebdeb9d6e296e3eb3064e1900a47828762cc7fe1bd20ee5e67709d11c2ff276f0b3414fa726d410c6dc3f10d7efd3de6e9df55547f50377ad6fdc088da0e7db71b",
+			});
+		});
+
+		it("rounds to the request's tick size", async () => {
+			const orderSigner = ClobOrderSigner.create({ signer, salt: () => 1 });
+
+			const order = await orderSigner.sign({
+				...BUY_REQUEST,
+				price: "0.333",
+				size: "10.0000019",
+				tickSize: "0.001",
+			});
+
+			expect(order).toMatchObject({
+				makerAmount: "3330000",
+				takerAmount: "10000000",
+				signature:
+					"0x1e37551a215c89799e1987bf35046ce59c8fb4558e96bb217981a439ad952fe80eac025c37d865fd4bd4a0c4eff97a28a20d2ceaa9c555cbcea906c25db054601c",
+			});
+		});
+
+		it("rounds the price to the nearest tick", async () => {
+			const orderSigner = ClobOrderSigner.create({ signer, salt: () => 1 });
+
+			const order = await orderSigner.sign({ ...BUY_REQUEST, price: "0.555", size: "10" });
+
+			expect(order).toMatchObject({
+				makerAmount: "5600000",
+				takerAmount: "10000000",
+				signature:
+					"0x9ab008121f23523a0fb3a9d6d1c35919251dacc3410d5f392e67cc8845abe5197c098b13dc388d9dd5eac8610689e18e8963fcd0e764a760f7af98de011762f71b",
+			});
+		});
+	});
+
+	it("uses the configured tick size when the request has none", async () => {
+		const orderSigner = ClobOrderSigner.create({ signer, tickSize: "0.001" });
+
+		const order = await orderSigner.sign({ ...BUY_REQUEST, price: "0.333", size: "10" });
+
+		expect(order.makerAmount).toBe("3330000");
+	});
+
+	it("ignores an expiration on orders that are not GTD", async () => {
+		const orderSigner = ClobOrderSigner.create({ signer });
+
+		const order = await orderSigner.sign({ ...BUY_REQUEST, expiration: "1700000060" });
+
+		expect(order.expiration).toBe("0");
+	});
+
+	it("draws a fresh salt for every order", async () => {
+		const orderSigner = ClobOrderSigner.create({ signer });
+
+		const [a, b] = await Promise.all([
+			orderSigner.sign(BUY_REQUEST),
+			orderSigner.sign(BUY_REQUEST),
+		]);
+
+		expect(Number.isSafeInteger(a.salt)).toBe(true);
+		expect(a.salt).not.toBe(b.salt);
+		expect(a.signature).not.toBe(b.signature);
+	});
+
+	it("rejects orders it cannot express on-chain", async () => {
+		const orderSigner = ClobOrderSigner.create({ signer });
+
+		await expect(orderSigner.sign({ ...BUY_REQUEST, tokenId: "tok-1" })).rejects.toThrow(
+			OrderRejectedError,
+		);
+		await expect(orderSigner.sign({ ...BUY_REQUEST, size: "0.009" })).rejects.toThrow(
+			"rounds to zero",
+		);
+	});
+
+	it("validates its configuration", () => {
+		expect(() => ClobOrderSigner.create({ signer, chainId: 1 })).toThrow(ConfigError);
+		expect(() =>
+			ClobOrderSigner.create({ signer, signatureType: SignatureType.PolyProxy }),
+		).toThrow("funder");
+		expect(() => ClobOrderSigner.create({ signer, funder: "0x1234" })).toThrow(ConfigError);
+		expect(() => ClobOrderSigner.create({ signer, feeRateBps: -1 })).toThrow(ConfigError);
+		expect(() => ClobOrderSigner.create({ signer, nonce: 1.5 })).toThrow(ConfigError);
+		expect(() => ClobOrderSigner.create({ signer, tickSize: "0.05" as ClobTickSize })).toThrow(
+			ConfigError,
+		);
+		expect(() =>
+			ClobOrderSigner.create({ signer, chainId: 1, exchangeAddress: EXCHANGE }),
+		).not.toThrow();
+	});
+});
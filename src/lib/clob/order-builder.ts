@@ -1,5 +1,10 @@
+import { randomInt } from "node:crypto";
+import { Decimal } from "../../shared/decimal.js";
+import { ConfigError, OrderRejectedError } from "../../shared/errors.js";
 import type { SdkOrderIntent } from "../../signal/types.js";
-import type { ClobOrderRequest } from "./types.js";
+import type { EthSigner } from "../ethereum/types.js";
+import { SignatureType } from "./types.js";
+import type { ClobOrderRequest, ClobSignedOrder, ClobTickSize } from "./types.js";
 
 /**
  * Translates a domain order intent to CLOB wire format.
@@ -11,17 +16,266 @@ import type { ClobOrderRequest } from "./types.js";
  * const order = buildClobOrder(intent);
  * // { tokenId: "123456", price: "0.55", size: "10", side: "BUY", orderType: "GTC" }
  * ```
+ *
+ * GTD orders carry `expiresAtMs` as `expiration` in UNIX seconds.
  */
 const VALID_ORDER_TYPES = new Set(["GTC", "IOC", "FOK", "GTD"]);
 
 export function buildClobOrder(intent: SdkOrderIntent): ClobOrderRequest {
 	const raw = intent.orderKind ? intent.orderKind.toUpperCase() : "GTC";
 	const orderType = (VALID_ORDER_TYPES.has(raw) ? raw : "GTC") as ClobOrderRequest["orderType"];
-	return {
+	const request: ClobOrderRequest = {
 		tokenId: intent.tokenId as string,
 		price: intent.price.toString(),
 		size: intent.size.toString(),
 		side: intent.direction === "buy" ? "BUY" : "SELL",
 		orderType,
 	};
+	if (orderType !== "GTD" || intent.expiresAtMs === undefined) return request;
+	return { ...request, expiration: Math.floor(intent.expiresAtMs / 1000).toString() };
+}
+
+// ── Exchange order signing ──────────────────────────────────────────
+
+/** CTF exchange contracts per chain: Polygon mainnet and Amoy testnet. */
+const EXCHANGES: Readonly<Record<number, { exchange: string; negRiskExchange: string }>> = {
+	137: {
+		exchange: "0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E",
+		negRiskExchange: "0xC5d563A36AE78145C45a50134d48A1215220f80a",
+	},
+	80002: {
+		exchange: "0xdFE02Eb6733538f8Ea35D585af8DE5958AD99E40",
+		negRiskExchange: "0xC5d563A36AE78145C45a50134d48A1215220f80a",
+	},
+};
+
+const ORDER_TYPES = {
+	Order: [
+		{ name: "salt", type: "uint256" },
+		{ name: "maker", type: "address" },
+		{ name: "signer", type: "address" },
+		{ name: "taker", type: "address" },
+		{ name: "tokenId", type: "uint256" },
+		{ name: "makerAmount", type: "uint256" },
+		{ name: "takerAmount", type: "uint256" },
+		{ name: "expiration", type: "uint256" },
+		{ name: "nonce", type: "uint256" },
+		{ name: "feeRateBps", type: "uint256" },
+		{ name: "side", type: "uint8" },
+		{ name: "signatureType", type: "uint8" },
+	],
+} as const;
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/;
+const UINT_RE = /^\d+$/;
+
+/** USDC and outcome shares both have 6 decimals. */
+const TOKEN_UNIT = Decimal.from("1000000");
+
+/**
+ * Decimal places the CLOB accepts per tick size: prices snap to the tick,
+ * sizes to hundredths, and USDC amounts to their product's precision.
+ */
+const ROUNDING: Readonly<Record<ClobTickSize, { price: number; size: number; amount: number }>> = {
+	"0.1": { price: 1, size: 2, amount: 3 },
+	"0.01": { price: 2, size: 2, amount: 4 },
+	"0.001": { price: 3, size: 2, amount: 5 },
+	"0.0001": { price: 4, size: 2, amount: 6 },
+};
+
+/** Salts stay within 2^48 so they survive the CLOB's JSON number encoding. */
+const MAX_SALT = 2 ** 48;
+
+/** Configuration for ClobOrderSigner. */
+export interface ClobOrderSignerConfig {
+	readonly signer: EthSigner;
+	/** Default: 137 (Polygon) */
+	readonly chainId?: number | undefined;
+	/** Default: SignatureType.EOA */
+	readonly signatureType?: SignatureType | undefined;
+	/** Proxy or safe wallet holding the funds; required unless signing as an EOA */
+	readonly funder?: string | undefined;
+	/** Sign for the neg-risk exchange used by multi-outcome events. Default: false */
+	readonly negRisk?: boolean | undefined;
+	/** Overrides the exchange contract, e.g. for chains without a known deployment */
+	readonly exchangeAddress?: string | undefined;
+	/** Fee rate the market charges, in basis points. Default: 0 */
+	readonly feeRateBps?: number | undefined;
+	/** Exchange nonce; bumping it on-chain invalidates older orders. Default: 0 */
+	readonly nonce?: number | undefined;
+	/** Default: a random integer below 2^48 */
+	readonly salt?: (() => number) | undefined;
+	/** Tick size for requests that do not carry their own. Default: "0.01" */
+	readonly tickSize?: ClobTickSize | undefined;
+}
+
+/** Rounds a non-negative amount down to `places` decimals. */
+function roundDown(amount: Decimal, places: number): Decimal {
+	const rounded = Decimal.from(amount.toFixed(places));
+	return rounded.gt(amount) ? rounded.sub(Decimal.from(10).pow(-places)) : rounded;
+}
+
+function toTokenUnits(amount: Decimal): string {
+	return amount.mul(TOKEN_UNIT).toFixed(0);
+}
+
+/**
+ * Signs CLOB order requests as CTF exchange orders.
+ *
+ * A buy gives `price × size` USDC for `size` shares; a sell gives `size`
+ * shares for `price × size` USDC. Amounts follow the CLOB's rounding rules
+ * for the market's tick size: the price is rounded to the tick, the size
+ * down to 2 decimals, and the USDC amount down to the tick's amount
+ * precision. GTD orders carry their expiration, all others expire at "0"
+ * (never).
+ *
+ * @example
+ * ```ts
+ * const orderSigner = ClobOrderSigner.create({ signer: createSigner(privateKey) });
+ * const signed = await orderSigner.sign(buildClobOrder(intent));
+ * ```
+ */
+export class ClobOrderSigner {
+	private readonly signer: EthSigner;
+	private readonly chainId: number;
+	private readonly verifyingContract: string;
+	private readonly signatureType: SignatureType;
+	private readonly maker: string;
+	private readonly feeRateBps: string;
+	private readonly nonce: string;
+	private readonly salt: () => number;
+	private readonly tickSize: ClobTickSize;
+
+	private constructor(
+		config: ClobOrderSignerConfig,
+		chainId: number,
+		verifyingContract: string,
+		maker: string,
+	) {
+		this.signer = config.signer;
+		this.chainId = chainId;
+		this.verifyingContract = verifyingContract;
+		this.signatureType = config.signatureType ?? SignatureType.EOA;
+		this.maker = maker;
+		this.feeRateBps = String(config.feeRateBps ?? 0);
+		this.nonce = String(config.nonce ?? 0);
+		this.salt = config.salt ?? (() => randomInt(MAX_SALT - 1));
+		this.tickSize = config.tickSize ?? "0.01";
+	}
+
+	/**
+	 * Creates an order signer.
+	 * @throws ConfigError if the chain has no known exchange, an address is
+	 *   malformed, a proxy or safe has no funder, or the fee, nonce or tick
+	 *   size is invalid
+	 */
+	static create(config: ClobOrderSignerConfig): ClobOrderSigner {
+		const chainId = config.chainId ?? 137;
+		const known = EXCHANGES[chainId];
+		const exchange =
+			config.exchangeAddress ?? (config.negRisk ? known?.negRiskExchange : known?.exchange);
+		if (exchange === undefined) {
+			throw new ConfigError(`ClobOrderSigner: no exchange contract known for chain ${chainId}`, {
+				chainId,
+			});
+		}
+		if (!ADDRESS_RE.test(exchange)) {
+			throw new ConfigError("ClobOrderSigner: exchangeAddress must be a 20-byte hex address", {
+				exchangeAddress: exchange,
+			});
+		}
+		const signatureType = config.signatureType ?? SignatureType.EOA;
+		if (signatureType !== SignatureType.EOA && config.funder === undefined) {
+			throw new ConfigError("ClobOrderSigner: proxy and safe wallets need a funder address", {
+				signatureType,
+			});
+		}
+		if (config.funder !== undefined && !ADDRESS_RE.test(config.funder)) {
+			throw new ConfigError("ClobOrderSigner: funder must be a 20-byte hex address", {
+				funder: config.funder,
+			});
+		}
+		for (const [field, value] of [
+			["feeRateBps", config.feeRateBps],
+			["nonce", config.nonce],
+		] as const) {
+			if (value !== undefined && !(Number.isSafeInteger(value) && value >= 0)) {
+				throw new ConfigError(`ClobOrderSigner: ${field} must be a non-negative integer`, {
+					[field]: value,
+				});
+			}
+		}
+		if (config.tickSize !== undefined && !Object.hasOwn(ROUNDING, config.tickSize)) {
+			throw new ConfigError("ClobOrderSigner: tickSize must be 0.1, 0.01, 0.001 or 0.0001", {
+				tickSize: config.tickSize,
+			});
+		}
+		return new ClobOrderSigner(config, chainId, exchange, config.funder ?? config.signer.address);
+	}
+
+	/**
+	 * Builds and signs the exchange order for a request.
+	 * @throws OrderRejectedError if the token id is not numeric, the tick size
+	 *   is unknown, or the order rounds to nothing
+	 */
+	async sign(req: ClobOrderRequest): Promise<ClobSignedOrder> {
+		if (!UINT_RE.test(req.tokenId)) {
+			throw new OrderRejectedError("Token id must be a decimal integer", { tokenId: req.tokenId });
+		}
+		const tickSize = req.tickSize ?? this.tickSize;
+		if (!Object.hasOwn(ROUNDING, tickSize)) {
+			throw new OrderRejectedError("Unknown tick size", { tokenId: req.tokenId, tickSize });
+		}
+		const places = ROUNDING[tickSize];
+		const price = Decimal.from(Decimal.from(req.price).toFixed(places.price));
+		const size = roundDown(Decimal.from(req.size), places.size);
+		const shares = toTokenUnits(size);
+		const usdc = toTokenUnits(roundDown(price.mul(size), places.amount));
+		if (shares === "0" || usdc === "0") {
+			throw new OrderRejectedError("Order amount rounds to zero", {
+				tokenId: req.tokenId,
+				price: req.price,
+				size: req.size,
+			});
+		}
+		const [makerAmount, takerAmount] = req.side === "BUY" ? [usdc, shares] : [shares, usdc];
+		const salt = this.salt();
+		const order = {
+			salt,
+			maker: this.maker,
+			signer: this.signer.address as string,
+			taker: ZERO_ADDRESS,
+			tokenId: req.tokenId,
+			makerAmount,
+			takerAmount,
+			side: req.side,
+			expiration: (req.orderType === "GTD" && req.expiration) || "0",
+			nonce: this.nonce,
+			feeRateBps: this.feeRateBps,
+			signatureType: this.signatureType,
+		};
+		const signature = await this.signer.signTypedData({
+			domain: {
+				name: "Polymarket CTF Exchange",
+				version: "1",
+				chainId: this.chainId,
+				verifyingContract: this.verifyingContract,
+			},
+			types: ORDER_TYPES,
+			primaryType: "Order",
+			message: {
+				...order,
+				salt: BigInt(salt),
+				tokenId: BigInt(order.tokenId),
+				makerAmount: BigInt(makerAmount),
+				takerAmount: BigInt(takerAmount),
+				expiration: BigInt(order.expiration),
+				nonce: BigInt(order.nonce),
+				feeRateBps: BigInt(order.feeRateBps),
+				side: req.side === "BUY" ? 0 : 1,
+			},
+		});
+		return { ...order, signature };
+	}
 }
@@ -29,6 +29,56 @@ export interface ClobOrderRequest {
 	readonly side: "BUY" | "SELL";
 	/** Order time-in-force type */
 	readonly orderType: "GTC" | "IOC" | "FOK" | "GTD";
+	/** Expiry as a UNIX timestamp in seconds (GTD orders only) */
+	readonly expiration?: string | undefined;
+	/** Market tick size; overrides the signer's default when rounding amounts */
+	readonly tickSize?: ClobTickSize | undefined;
+}
+
+/** Price increments the CLOB lists markets with. */
+export type ClobTickSize = "0.1" | "0.01" | "0.001" | "0.0001";
+
+/** Most orders the CLOB accepts in one batch request. */
+export const CLOB_MAX_BATCH_ORDERS = 15;
+
+/**
+ * How the exchange verifies an order's signature.
+ * EOA orders are signed by the maker itself; proxy and Gnosis safe orders are
+ * signed by the wallet's owner on behalf of the funder (maker) contract.
+ */
+export const SignatureType = {
+	EOA: 0,
+	PolyProxy: 1,
+	PolyGnosisSafe: 2,
+} as const;
+
+export type SignatureType = (typeof SignatureType)[keyof typeof SignatureType];
+
+/**
+ * An order as settled by the CTF exchange contract, signed with EIP-712.
+ * Amounts are integers in token units (6 decimals for both USDC and shares).
+ */
+export interface ClobSignedOrder {
+	/** Random value making otherwise identical orders distinct */
+	readonly salt: number;
+	/** Address whose funds back the order */
+	readonly maker: string;
+	/** Address that produced the signature */
+	readonly signer: string;
+	/** Counterparty; the zero address for public orders */
+	readonly taker: string;
+	readonly tokenId: string;
+	/** What the maker gives: USDC for a buy, shares for a sell */
+	readonly makerAmount: string;
+	/** What the maker gets: shares for a buy, USDC for a sell */
+	readonly takerAmount: string;
+	readonly side: "BUY" | "SELL";
+	/** UNIX seconds; "0" for orders that do not expire */
+	readonly expiration: string;
+	readonly nonce: string;
+	readonly feeRateBps: string;
+	readonly signatureType: SignatureType;
+	readonly signature: string;
 }
 
 /**
@@ -45,6 +95,24 @@ export interface ClobOrderResponse {
 	readonly avgPrice: string;
 }
 
+/**
+ * Per-order rejection within a batch submission.
+ */
+export interface ClobOrderRejection {
+	/** Why the CLOB rejected this order */
+	readonly errorMsg: string;
+}
+
+/**
+ * Response from the CLOB to a batch or market-wide cancel.
+ */
+export interface ClobCancelResponse {
+	/** IDs of the orders that were cancelled */
+	readonly canceled: readonly string[];
+	/** IDs of the orders that could not be cancelled, mapped to the reason */
+	readonly notCanceled: Readonly<Record<string, string>>;
+}
+
 /**
  * Dependencies required by the CLOB client.
  * Abstracts the underlying HTTP/WebSocket communication.
@@ -54,6 +122,14 @@ export interface ClobProviders {
 	submitOrder(req: ClobOrderRequest): Promise<ClobOrderResponse>;
 	/** Cancels an existing order by its ID */
 	cancelOrder(orderId: string): Promise<void>;
+	/** Submits several orders in one request; results are in request order */
+	submitOrders(
+		reqs: readonly ClobOrderRequest[],
+	): Promise<ReadonlyArray<ClobOrderResponse | ClobOrderRejection>>;
+	/** Cancels several orders by ID in one request */
+	cancelOrders(orderIds: readonly string[]): Promise<ClobCancelResponse>;
+	/** Cancels every open order, or only those in one market when `market` is given */
+	cancelAll(market?: string): Promise<ClobCancelResponse>;
 	/** Retrieves all currently open orders */
 	getOpenOrders(): Promise<ClobOrderResponse[]>;
 }
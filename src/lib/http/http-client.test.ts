@@ -0,0 +1,160 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { createCredentials } from "../../auth/credentials.js";
+import { buildL2Headers } from "../../auth/l2-headers.js";
+import {
+	AuthError,
+	ConfigError,
+	NetworkError,
+	OrderRejectedError,
+	RateLimitError,
+	SystemError,
+	TimeoutError,
+} from "../../shared/errors.js";
+import { FakeClock } from "../../shared/time.js";
+import { ValidationError, z } from "../validation/index.js";
+import { HttpClient } from "./http-client.js";
+import type { HttpClientConfig } from "./http-client.js";
+import { startMockServer } from "./http-test-helpers.js";
+import type { MockHandler, MockServer } from "./http-test-helpers.js";
+import { RateLimiterManager } from "./rate-limiter-manager.js";
+
+const credentials = createCredentials({ apiKey: "key-1", secret: "c2VjcmV0", passphrase: "pass" });
+const okSchema = z.object({ ok: z.boolean() });
+
+describe("HttpClient", () => {
+	let server: MockServer | undefined;
+
+	afterEach(async () => {
+		await server?.close();
+		server = undefined;
+	});
+
+	async function setup(handler: MockHandler, config: Partial<HttpClientConfig> = {}) {
+		server = await startMockServer(handler);
+		const clock = new FakeClock(1_700_000_000_000);
+		const client = HttpClient.create({ baseUrl: server.url, credentials, clock, ...config });
+		return { client, server, clock };
+	}
+
+	it("sends JSON and validates the response", async () => {
+		const { client, server } = await setup(() => ({ body: { ok: true } }));
+
+		const result = await client.request(
+			{ method: "POST", path: "/things", query: { a: 1, b: undefined }, body: { x: "y" } },
+			okSchema,
+		);
+
+		expect(result).toEqual({ ok: true });
+		const [req] = server.requests;
+		expect(req?.method).toBe("POST");
+		expect(req?.path).toBe("/things");
+		expect(req?.query.toString()).toBe("a=1");
+		expect(req?.body).toEqual({ x: "y" });
+		expect(req?.headers["content-type"]).toBe("application/json");
+		expect(req?.headers.poly_signature).toBeUndefined();
+	});
+
+	it("signs authenticated requests with L2 headers over path and body", async () => {
+		const { client, server } = await setup(() => ({ body: { ok: true } }));
+
+		await client.request(
+			{ method: "DELETE", path: "/order", query: { q: "x" }, body: { orderID: "1" }, auth: true },
+			okSchema,
+		);
+
+		const [req] = server.requests;
+		const expected = buildL2Headers(credentials, 1_700_000_000, "DELETE", "/order", req?.rawBody);
+		expect(req?.headers.poly_address).toBe("key-1");
+		expect(req?.headers.poly_timestamp).toBe("1700000000");
+		expect(req?.headers.poly_signature).toBe(expected.POLY_SIGNATURE);
+		expect(req?.headers.poly_nonce).toBe("pass");
+	});
+
+	it("rejects authenticated requests without credentials", async () => {
+		const { client, server } = await setup(() => ({ body: { ok: true } }), {
+			credentials: undefined,
+		});
+
+		await expect(
+			client.request({ method: "GET", path: "/orders", auth: true }, okSchema),
+		).rejects.toBeInstanceOf(AuthError);
+		expect(server.requests).toHaveLength(0);
+	});
+
+	it.each([
+		[429, RateLimitError],
+		[401, AuthError],
+		[403, AuthError],
+		[503, SystemError],
+	])("maps HTTP %i to %O", async (status, type) => {
+		const { client } = await setup(() => ({ status, body: { error: "nope" } }));
+
+		const failure = client.request({ method: "GET", path: "/x" }, okSchema);
+
+		await expect(failure).rejects.toBeInstanceOf(type);
+		await expect(failure).rejects.toThrow("HTTP");
+	});
+
+	it("maps 4xx on order endpoints to OrderRejectedError and keeps other statuses", async () => {
+		const { client } = await setup((req) =>
+			req.path === "/order"
+				? { status: 400, body: { errorMsg: "invalid tick size" } }
+				: { status: 429, body: { error: "slow down" } },
+		);
+		const send = (path: string) =>
+			client.request({ method: "POST", path, orderEndpoint: true }, okSchema);
+
+		await expect(send("/order")).rejects.toBeInstanceOf(OrderRejectedError);
+		await expect(send("/order")).rejects.toThrow(/^invalid tick size$/);
+		await expect(send("/limited")).rejects.toBeInstanceOf(RateLimitError);
+		await expect(
+			client.request({ method: "POST", path: "/order" }, okSchema),
+		).rejects.toBeInstanceOf(SystemError);
+	});
+
+	it("fails validation of an unexpected response", async () => {
+		const { client } = await setup(() => ({ body: { ok: "yes" } }));
+
+		await expect(client.request({ method: "GET", path: "/x" }, okSchema)).rejects.toBeInstanceOf(
+			ValidationError,
+		);
+	});
+
+	it("maps connection failures to NetworkError", async () => {
+		const { client, server } = await setup(() => ({ body: { ok: true } }));
+		await server.close();
+
+		await expect(client.request({ method: "GET", path: "/x" }, okSchema)).rejects.toBeInstanceOf(
+			NetworkError,
+		);
+	});
+
+	it("maps slow responses to TimeoutError", async () => {
+		const never: typeof fetch = (_input, init) =>
+			new Promise((_, reject) => {
+				init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+			});
+		const client = HttpClient.create({ baseUrl: "http://127.0.0.1:1", fetch: never, timeoutMs: 5 });
+
+		await expect(client.request({ method: "GET", path: "/x" }, okSchema)).rejects.toBeInstanceOf(
+			TimeoutError,
+		);
+	});
+
+	it("takes a token from the named rate limiter", async () => {
+		const clock = new FakeClock(0);
+		const limiters = new RateLimiterManager(clock);
+		const order = limiters.getOrCreate("order", { capacity: 1, refillRate: 0 });
+		const { client } = await setup(() => ({ body: { ok: true } }), { limiters, clock });
+
+		await client.request({ method: "POST", path: "/order", limiter: "order" }, okSchema);
+
+		expect(order.getStats().hits).toBe(1);
+		expect(order.availableTokens()).toBe(0);
+	});
+
+	it("rejects invalid configuration", () => {
+		expect(() => HttpClient.create({ baseUrl: "clob.polymarket.com" })).toThrow(ConfigError);
+		expect(() => HttpClient.create({ baseUrl: "https://x", timeoutMs: 0 })).toThrow(ConfigError);
+	});
+});
@@ -0,0 +1,177 @@
+/**
+ * HttpClient — JSON over HTTP for the Polymarket REST APIs.
+ *
+ * Every request takes a token from a named rate limiter, is optionally signed
+ * with L2 headers, and has its response validated against a schema. Failures
+ * surface as TradingErrors: HTTP status and transport errors go through
+ * `classifyError` (429 → RateLimitError, 401/403 → AuthError, 5xx → SystemError,
+ * connection failures → NetworkError, timeouts → TimeoutError). On order
+ * endpoints, other 4xx responses are order rejections (OrderRejectedError).
+ */
+
+import { buildL2Headers } from "../../auth/l2-headers.js";
+import type { Credentials } from "../../auth/types.js";
+import { AuthError, ConfigError, OrderRejectedError, classifyError } from "../../shared/errors.js";
+import { SystemClock } from "../../shared/time.js";
+import type { Clock } from "../../shared/time.js";
+import { validate } from "../validation/index.js";
+import type { z } from "../validation/index.js";
+import type { RateLimiterManager } from "./rate-limiter-manager.js";
+import { polymarketPresets } from "./rate-limiter-presets.js";
+
+/** Configuration for HttpClient. */
+export interface HttpClientConfig {
+	/** Base URL requests are resolved against, e.g. "https://clob.polymarket.com" */
+	readonly baseUrl: string;
+	/** Required for requests with `auth: true` */
+	readonly credentials?: Credentials | undefined;
+	/** Default: polymarketPresets(clock) */
+	readonly limiters?: RateLimiterManager | undefined;
+	readonly clock?: Clock | undefined;
+	/** Default: the global fetch */
+	readonly fetch?: typeof fetch | undefined;
+	/** Default: 10000 */
+	readonly timeoutMs?: number | undefined;
+}
+
+/** A single JSON request. */
+export interface HttpRequest {
+	readonly method: "GET" | "POST" | "DELETE";
+	/** Path below the base URL, starting with "/" */
+	readonly path: string;
+	readonly query?: Readonly<Record<string, string | number | undefined>> | undefined;
+	/** Serialized as JSON */
+	readonly body?: unknown;
+	/** Sign the request with L2 headers. Default: false */
+	readonly auth?: boolean | undefined;
+	/** Rate limiter to take a token from. Default: "general" */
+	readonly limiter?: string | undefined;
+	/**
+	 * Places or cancels orders: 4xx responses other than 401, 403 and 429 throw
+	 * OrderRejectedError with the body's `errorMsg` as the message. Default: false
+	 */
+	readonly orderEndpoint?: boolean | undefined;
+}
+
+/** Non-2xx response; `context.status` lets classifyError map it. */
+class HttpStatusError extends Error {
+	readonly context: { readonly status: number; readonly body: string };
+
+	constructor(method: string, path: string, status: number, body: string) {
+		super(`${method} ${path} failed with HTTP ${status}${body ? `: ${body}` : ""}`);
+		this.name = "HttpStatusError";
+		this.context = { status, body };
+	}
+}
+
+export class HttpClient {
+	private readonly baseUrl: string;
+	private readonly credentials: Credentials | undefined;
+	private readonly limiters: RateLimiterManager;
+	private readonly clock: Clock;
+	private readonly fetchFn: typeof fetch;
+	private readonly timeoutMs: number;
+
+	private constructor(config: HttpClientConfig) {
+		this.baseUrl = config.baseUrl.replace(/\/+$/, "");
+		this.credentials = config.credentials;
+		this.clock = config.clock ?? SystemClock;
+		this.limiters = config.limiters ?? polymarketPresets(this.clock);
+		this.fetchFn = config.fetch ?? fetch;
+		this.timeoutMs = config.timeoutMs ?? 10_000;
+	}
+
+	/**
+	 * Creates an HTTP client.
+	 * @throws ConfigError if baseUrl is not an http(s) URL or timeoutMs is not positive
+	 */
+	static create(config: HttpClientConfig): HttpClient {
+		if (!/^https?:\/\//.test(config.baseUrl)) {
+			throw new ConfigError("HttpClient: baseUrl must be an http(s) URL", {
+				baseUrl: config.baseUrl,
+			});
+		}
+		if (config.timeoutMs !== undefined && !(config.timeoutMs > 0)) {
+			throw new ConfigError("HttpClient: timeoutMs must be positive", {
+				timeoutMs: config.timeoutMs,
+			});
+		}
+		return new HttpClient(config);
+	}
+
+	/**
+	 * Sends a request and validates the JSON response against `schema`.
+	 * @throws TradingError on rate-limit timeouts, transport failures, non-2xx
+	 * responses and responses that fail validation
+	 */
+	async request<T>(req: HttpRequest, schema: z.ZodType<T>): Promise<T> {
+		try {
+			const limiter = this.limiters.get(req.limiter ?? "general");
+			await limiter?.waitForToken();
+
+			const body = req.body === undefined ? undefined : JSON.stringify(req.body);
+			const headers: Record<string, string> = { Accept: "application/json" };
+			if (body !== undefined) headers["Content-Type"] = "application/json";
+			if (req.auth) Object.assign(headers, this.sign(req.method, req.path, body));
+
+			const response = await this.fetchFn(this.url(req), {
+				method: req.method,
+				headers,
+				...(body !== undefined && { body }),
+				signal: AbortSignal.timeout(this.timeoutMs),
+			});
+			const text = await response.text();
+			if (!response.ok) {
+				if (req.orderEndpoint && isOrderRejection(response.status)) {
+					throw new OrderRejectedError(rejectionMessage(text), {
+						status: response.status,
+						path: req.path,
+					});
+				}
+				throw new HttpStatusError(req.method, req.path, response.status, text);
+			}
+
+			const parsed = validate(schema, text.length === 0 ? null : JSON.parse(text));
+			if (!parsed.ok) throw parsed.error;
+			return parsed.value;
+		} catch (e: unknown) {
+			throw classifyError(e);
+		}
+	}
+
+	private sign(method: string, path: string, body: string | undefined): Record<string, string> {
+		if (this.credentials === undefined) {
+			throw new AuthError(`${method} ${path} requires credentials`);
+		}
+		const timestamp = Math.floor(this.clock.now() / 1000);
+		return buildL2Headers(this.credentials, timestamp, method, path, body);
+	}
+
+	private url(req: HttpRequest): string {
+		const params = new URLSearchParams();
+		for (const [key, value] of Object.entries(req.query ?? {})) {
+			if (value !== undefined) params.set(key, String(value));
+		}
+		const query = params.toString();
+		return `${this.baseUrl}${req.path}${query ? `?${query}` : ""}`;
+	}
+}
+
+function isOrderRejection(status: number): boolean {
+	return status >= 400 && status < 500 && status !== 401 && status !== 403 && status !== 429;
+}
+
+/** The `errorMsg` (or `error`) of a JSON error body, else the body itself. */
+function rejectionMessage(body: string): string {
+	try {
+		const parsed: unknown = JSON.parse(body);
+		if (typeof parsed === "object" && parsed !== null) {
+			const { errorMsg, error } = parsed as { errorMsg?: unknown; error?: unknown };
+			if (typeof errorMsg === "string" && errorMsg) return errorMsg;
+			if (typeof error === "string" && error) return error;
+		}
+	} catch {
+		// Not JSON; fall through to the raw body
+	}
+	return body || "Order rejected by the CLOB";
+}
@@ -0,0 +1,74 @@
+/**
+ * Local HTTP server for exercising HTTP clients in tests.
+ */
+
+import { createServer } from "node:http";
+import type { IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+
+/** A request as seen by the mock server. */
+export interface RecordedRequest {
+	readonly method: string;
+	readonly path: string;
+	readonly query: URLSearchParams;
+	readonly headers: IncomingHttpHeaders;
+	/** Parsed JSON body, or undefined when the request had none. */
+	readonly body: unknown;
+	/** The body exactly as received. */
+	readonly rawBody: string;
+}
+
+/** What the mock server replies; `body` is sent as JSON. */
+export interface MockResponse {
+	/** Default: 200 */
+	readonly status?: number | undefined;
+	readonly body?: unknown;
+}
+
+export type MockHandler = (req: RecordedRequest) => MockResponse;
+
+export interface MockServer {
+	readonly url: string;
+	readonly requests: RecordedRequest[];
+	close(): Promise<void>;
+}
+
+/** Starts a server on a free local port that answers every request with `handler`. */
+export async function startMockServer(handler: MockHandler): Promise<MockServer> {
+	const requests: RecordedRequest[] = [];
+	const server = createServer((req, res) => {
+		let rawBody = "";
+		req.setEncoding("utf8");
+		req.on("data", (chunk: string) => {
+			rawBody += chunk;
+		});
+		req.on("end", () => {
+			const url = new URL(req.url ?? "/", "http://localhost");
+			const recorded: RecordedRequest = {
+				method: req.method ?? "GET",
+				path: url.pathname,
+				query: url.searchParams,
+				headers: req.headers,
+				body: rawBody.length > 0 ? JSON.parse(rawBody) : undefined,
+				rawBody,
+			};
+			requests.push(recorded);
+			const reply = handler(recorded);
+			res.writeHead(reply.status ?? 200, { "Content-Type": "application/json" });
+			res.end(reply.body === undefined ? "" : JSON.stringify(reply.body));
+		});
+	});
+
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	const { port } = server.address() as AddressInfo;
+	return {
+		url: `http://127.0.0.1:${port}`,
+		requests,
+		close: () =>
+			new Promise<void>((resolve, reject) => {
+				if (!server.listening) return resolve();
+				server.closeAllConnections();
+				server.close((e) => (e ? reject(e) : resolve()));
+			}),
+	};
+}
@@ -2,3 +2,5 @@ export { TokenBucketRateLimiter } from "./rate-limiter.js";
 export type { RateLimiterConfig, RateLimiterStats } from "./rate-limiter.js";
 export { RateLimiterManager } from "./rate-limiter-manager.js";
 export { polymarketPresets } from "./rate-limiter-presets.js";
+export { HttpClient } from "./http-client.js";
+export type { HttpClientConfig, HttpRequest } from "./http-client.js";
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { startMockServer } from "../lib/http/http-test-helpers.js";
+import type { MockServer } from "../lib/http/http-test-helpers.js";
+import { conditionId } from "../shared/identifiers.js";
+import { HttpBookSnapshotProvider } from "./http-book-provider.js";
+
+const CID = conditionId("0xcond");
+
+describe("HttpBookSnapshotProvider", () => {
+	let server: MockServer | undefined;
+
+	afterEach(async () => {
+		await server?.close();
+		server = undefined;
+	});
+
+	it("fetches the token's book with levels sorted best first", async () => {
+		server = await startMockServer(() => ({
+			body: {
+				market: "0xcond",
+				asset_id: "123",
+				bids: [
+					{ price: "0.48", size: "30" },
+					{ price: "0.49", size: "20" },
+				],
+				asks: [
+					{ price: "0.53", size: "5" },
+					{ price: "0.52", size: "25" },
+				],
+				timestamp: "1757908892351",
+				hash: "0xabc",
+			},
+		}));
+		const provider = HttpBookSnapshotProvider.create({ host: server.url, tokenFor: () => "123" });
+
+		const book = await provider.getSnapshot(CID);
+
+		expect(book.timestampMs).toBe(1757908892351);
+		expect(book.bids.map((l) => l.price.toString())).toEqual(["0.49", "0.48"]);
+		expect(book.asks.map((l) => l.price.toString())).toEqual(["0.52", "0.53"]);
+		const [req] = server.requests;
+		expect(req?.path).toBe("/book");
+		expect(req?.query.get("token_id")).toBe("123");
+		expect(req?.headers.poly_signature).toBeUndefined();
+	});
+
+	it("rejects on HTTP errors", async () => {
+		server = await startMockServer(() => ({ status: 404 }));
+		const provider = HttpBookSnapshotProvider.create({ host: server.url });
+
+		await expect(provider.getSnapshot(CID)).rejects.toThrow();
+	});
+});
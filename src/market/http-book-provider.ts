@@ -0,0 +1,84 @@
+/**
+ * HttpBookSnapshotProvider — BookSnapshotProvider over the CLOB `/book` endpoint.
+ *
+ * Books are public, so requests are unsigned; they draw from the "data"
+ * rate limiter.
+ */
+
+import { POLYMARKET_CLOB_URL } from "../lib/clob/http-providers.js";
+import { HttpClient } from "../lib/http/http-client.js";
+import type { HttpClientConfig } from "../lib/http/http-client.js";
+import { z } from "../lib/validation/index.js";
+import { Decimal } from "../shared/decimal.js";
+import type { ConditionId, MarketTokenId } from "../shared/identifiers.js";
+import { applyDelta } from "./orderbook.js";
+import type { BookSnapshotProvider, OrderbookSnapshot } from "./types.js";
+
+/** Configuration for HttpBookSnapshotProvider. */
+export interface HttpBookSnapshotConfig extends Omit<HttpClientConfig, "baseUrl"> {
+	/** Default: POLYMARKET_CLOB_URL */
+	readonly host?: string | undefined;
+	/**
+	 * The CLOB keys books by token. Maps a market to the token whose book to
+	 * fetch, typically its YES token, when the caller does not name a token.
+	 * Default: the condition id as is.
+	 */
+	readonly tokenFor?: ((conditionId: ConditionId) => string) | undefined;
+}
+
+const level = z.object({ price: z.string(), size: z.string() });
+
+const bookSchema = z.object({
+	bids: z.array(level),
+	asks: z.array(level),
+	timestamp: z.union([z.string().regex(/^\d+$/), z.number().nonnegative()]).transform(Number),
+});
+
+/**
+ * BookSnapshotProvider backed by the CLOB API.
+ *
+ * @example
+ * ```ts
+ * const feed = new MarketFeed(watchdog, {
+ *   snapshotProvider: HttpBookSnapshotProvider.create({ tokenFor: (cid) => yesTokens.get(cid) ?? cid }),
+ * });
+ * ```
+ */
+export class HttpBookSnapshotProvider implements BookSnapshotProvider {
+	private readonly http: HttpClient;
+	private readonly tokenFor: (conditionId: ConditionId) => string;
+
+	private constructor(http: HttpClient, tokenFor: (conditionId: ConditionId) => string) {
+		this.http = http;
+		this.tokenFor = tokenFor;
+	}
+
+	/**
+	 * Creates a book snapshot provider.
+	 * @throws ConfigError if the host or timeout is invalid
+	 */
+	static create(config: HttpBookSnapshotConfig = {}): HttpBookSnapshotProvider {
+		const { host, tokenFor, ...rest } = config;
+		const http = HttpClient.create({ ...rest, baseUrl: host ?? POLYMARKET_CLOB_URL });
+		return new HttpBookSnapshotProvider(http, tokenFor ?? ((cid) => cid));
+	}
+
+	/** The full book, levels sorted best first. */
+	async getSnapshot(conditionId: ConditionId, tokenId?: MarketTokenId): Promise<OrderbookSnapshot> {
+		const book = await this.http.request(
+			{
+				method: "GET",
+				path: "/book",
+				query: { token_id: tokenId ?? this.tokenFor(conditionId) },
+				limiter: "data",
+			},
+			bookSchema,
+		);
+		const parse = (raw: z.infer<typeof level>) => ({
+			price: Decimal.from(raw.price),
+			size: Decimal.from(raw.size),
+		});
+		const empty = { bids: [], asks: [], timestampMs: book.timestamp };
+		return applyDelta(empty, { bids: book.bids.map(parse), asks: book.asks.map(parse) });
+	}
+}
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { startMockServer } from "../lib/http/http-test-helpers.js";
+import type { MockHandler, MockServer } from "../lib/http/http-test-helpers.js";
+import { conditionId } from "../shared/identifiers.js";
+import { HttpMarketProviders } from "./http-market-providers.js";
+import { MarketCatalog } from "./market-catalog.js";
+
+const CID = conditionId("0xcond");
+
+const gammaMarket = {
+	conditionId: CID,
+	questionID: "0xq",
+	question: "Will it rain?",
+	description: "Resolves YES if it rains.",
+	active: true,
+	closed: false,
+	endDate: "2026-12-31T00:00:00Z",
+};
+
+describe("HttpMarketProviders", () => {
+	let server: MockServer | undefined;
+
+	afterEach(async () => {
+		await server?.close();
+		server = undefined;
+	});
+
+	async function setup(handler: MockHandler) {
+		server = await startMockServer(handler);
+		return { markets: HttpMarketProviders.create({ host: server.url }), server };
+	}
+
+	it("looks up a market by condition id", async () => {
+		const { markets, server } = await setup((req) => ({
+			body: req.query.get("condition_ids") === CID ? [gammaMarket] : [],
+		}));
+
+		expect(await markets.getMarket(CID)).toEqual({
+			conditionId: CID,
+			questionId: "0xq",
+			question: "Will it rain?",
+			description: "Resolves YES if it rains.",
+			status: "active",
+			endDate: "2026-12-31T00:00:00Z",
+		});
+		expect(await markets.getMarket(conditionId("0xother"))).toBeNull();
+		expect(server.requests[0]?.path).toBe("/markets");
+	});
+
+	it("searches markets across matching events", async () => {
+		const { markets, server } = await setup(() => ({
+			body: {
+				events: [
+					{ markets: [gammaMarket] },
+					{ markets: [{ ...gammaMarket, conditionId: "0xc2", closed: true }] },
+					{},
+				],
+			},
+		}));
+
+		const found = await markets.searchMarkets("rain");
+
+		expect(found.map((m) => [m.conditionId, m.status])).toEqual([
+			[CID, "active"],
+			["0xc2", "closed"],
+		]);
+		expect(server.requests[0]?.query.get("q")).toBe("rain");
+	});
+
+	it("lists open markets by volume and liquidity", async () => {
+		const { markets, server } = await setup(() => ({ body: [gammaMarket] }));
+
+		await markets.getTopByVolume(5);
+		await markets.getTopByLiquidity(3);
+
+		expect(server.requests.map((r) => r.query.toString())).toEqual([
+			"active=true&closed=false&order=volume24hr&ascending=false&limit=5",
+			"active=true&closed=false&order=liquidity&ascending=false&limit=3",
+		]);
+	});
+
+	it("plugs into MarketCatalog", async () => {
+		const { markets } = await setup(() => ({ body: [gammaMarket] }));
+
+		const result = await new MarketCatalog(markets).getMarket(CID);
+
+		expect(result.ok && result.value?.question).toBe("Will it rain?");
+	});
+});
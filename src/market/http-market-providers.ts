@@ -0,0 +1,116 @@
+/**
+ * HttpMarketProviders — MarketProviders over the Polymarket Gamma REST API.
+ *
+ * Market metadata is public, so requests are unsigned; they draw from the
+ * "data" rate limiter.
+ */
+
+import { HttpClient } from "../lib/http/http-client.js";
+import type { HttpClientConfig } from "../lib/http/http-client.js";
+import { z } from "../lib/validation/index.js";
+import { conditionId } from "../shared/identifiers.js";
+import type { ConditionId } from "../shared/identifiers.js";
+import type { MarketProviders } from "./market-catalog.js";
+import type { MarketInfo } from "./types.js";
+
+/** Production Gamma (market metadata) endpoint. */
+export const POLYMARKET_GAMMA_URL = "https://gamma-api.polymarket.com";
+
+/** Configuration for HttpMarketProviders. */
+export interface HttpMarketConfig extends Omit<HttpClientConfig, "baseUrl"> {
+	/** Default: POLYMARKET_GAMMA_URL */
+	readonly host?: string | undefined;
+}
+
+const gammaMarketSchema = z.object({
+	conditionId: z.string(),
+	questionID: z.string().optional(),
+	question: z.string(),
+	description: z.string().optional(),
+	active: z.boolean().optional(),
+	closed: z.boolean().optional(),
+	endDate: z.string().optional(),
+});
+
+const marketsSchema = z.array(gammaMarketSchema);
+
+const searchSchema = z.object({
+	events: z
+		.array(z.object({ markets: marketsSchema.optional() }))
+		.nullish()
+		.transform((events) => events ?? []),
+});
+
+function toMarketInfo(market: z.infer<typeof gammaMarketSchema>): MarketInfo {
+	return {
+		conditionId: conditionId(market.conditionId),
+		questionId: market.questionID ?? "",
+		question: market.question,
+		description: market.description ?? "",
+		status: market.closed ? "closed" : market.active ? "active" : "inactive",
+		endDate: market.endDate ?? "",
+	};
+}
+
+/**
+ * MarketProviders backed by the Gamma API.
+ *
+ * @example
+ * ```ts
+ * const catalog = new MarketCatalog(HttpMarketProviders.create());
+ * ```
+ */
+export class HttpMarketProviders implements MarketProviders {
+	private readonly http: HttpClient;
+
+	private constructor(http: HttpClient) {
+		this.http = http;
+	}
+
+	/**
+	 * Creates market providers.
+	 * @throws ConfigError if the host or timeout is invalid
+	 */
+	static create(config: HttpMarketConfig = {}): HttpMarketProviders {
+		const { host, ...rest } = config;
+		return new HttpMarketProviders(
+			HttpClient.create({ ...rest, baseUrl: host ?? POLYMARKET_GAMMA_URL }),
+		);
+	}
+
+	async getMarket(id: ConditionId): Promise<MarketInfo | null> {
+		const markets = await this.markets({ condition_ids: id });
+		const market = markets.find((m) => m.conditionId === id);
+		return market ?? null;
+	}
+
+	async searchMarkets(query: string): Promise<MarketInfo[]> {
+		const res = await this.http.request(
+			{ method: "GET", path: "/public-search", query: { q: query }, limiter: "data" },
+			searchSchema,
+		);
+		return res.events.flatMap((event) => (event.markets ?? []).map(toMarketInfo));
+	}
+
+	/** Open markets with the most volume over the last 24h. */
+	getTopByVolume(limit: number): Promise<MarketInfo[]> {
+		return this.top("volume24hr", limit);
+	}
+
+	/** Open markets with the deepest books. */
+	getTopByLiquidity(limit: number): Promise<MarketInfo[]> {
+		return this.top("liquidity", limit);
+	}
+
+	private top(order: string, limit: number): Promise<MarketInfo[]> {
+		return this.markets({ active: "true", closed: "false", order, ascending: "false", limit });
+	}
+
+	private async markets(query: Readonly<Record<string, string | number>>): Promise<MarketInfo[]> {
+		const markets = await this.http.request(
+			{ method: "GET", path: "/markets", query, limiter: "data" },
+			marketsSchema,
+		);
+		return markets.map(toMarketInfo);
+	}
+}
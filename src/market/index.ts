@@ -1,11 +1,24 @@
 export type {
+	BookSnapshotProvider,
+	BookSource,
+	MarketBooks,
 	MarketInfo,
 	OrderbookDelta,
 	OrderbookLevel,
 	OrderbookSnapshot,
 	ScanResult,
 } from "./types.js";
-export { applyDelta, bestAsk, bestBid, effectivePrice, midPrice, spread } from "./orderbook.js";
+export {
+	applyDelta,
+	bestAsk,
+	bestBid,
+	bookDisagreement,
+	effectivePrice,
+	midPrice,
+	mirrorBook,
+	spread,
+} from "./orderbook.js";
+export { TokenBookIndex, sideBook, type TokenMarket } from "./token-books.js";
 export { getEffectivePrices, type EffectivePrices } from "./effective-prices.js";
 export {
 	calcArbProfit,
@@ -16,6 +29,12 @@ export {
 } from "./arbitrage.js";
 export type { ArbProfitBreakdown } from "./types.js";
 export { MarketCatalog, type MarketProviders } from "./market-catalog.js";
+export {
+	HttpMarketProviders,
+	POLYMARKET_GAMMA_URL,
+	type HttpMarketConfig,
+} from "./http-market-providers.js";
+export { HttpBookSnapshotProvider, type HttpBookSnapshotConfig } from "./http-book-provider.js";
 export { scan } from "./scanner.js";
 export { categorize, type MarketCategory } from "./categorization.js";
 export {
@@ -1,6 +1,15 @@
 import { describe, expect, it } from "vitest";
 import { Decimal } from "../shared/decimal.js";
-import { applyDelta, bestAsk, bestBid, effectivePrice, midPrice, spread } from "./orderbook.js";
+import {
+	applyDelta,
+	bestAsk,
+	bestBid,
+	bookDisagreement,
+	effectivePrice,
+	midPrice,
+	mirrorBook,
+	spread,
+} from "./orderbook.js";
 import type { OrderbookLevel, OrderbookSnapshot } from "./types.js";
 
 function level(price: string, size: string): OrderbookLevel {
@@ -224,4 +233,52 @@ describe("orderbook", () => {
 			expect(result?.toFixed(4)).toBe("0.4833");
 		});
 	});
+
+	describe("mirrorBook", () => {
+		it("turns asks into complementary bids and bids into complementary asks", () => {
+			const yes: OrderbookSnapshot = {
+				bids: [level("0.48", "30"), level("0.47", "10")],
+				asks: [level("0.52", "25"), level("0.55", "5")],
+				timestampMs: 7,
+			};
+
+			const no = mirrorBook(yes);
+
+			expect(no.bids.map((l) => [l.price.toString(), l.size.toString()])).toEqual([
+				["0.48", "25"],
+				["0.45", "5"],
+			]);
+			expect(no.asks.map((l) => [l.price.toString(), l.size.toString()])).toEqual([
+				["0.52", "30"],
+				["0.53", "10"],
+			]);
+			expect(no.timestampMs).toBe(7);
+		});
+	});
+
+	describe("bookDisagreement", () => {
+		const yes: OrderbookSnapshot = {
+			bids: [level("0.48", "30")],
+			asks: [level("0.52", "25")],
+			timestampMs: 0,
+		};
+
+		it("is zero when the NO book mirrors the YES book", () => {
+			expect(bookDisagreement(yes, mirrorBook(yes))?.isZero()).toBe(true);
+		});
+
+		it("reports the larger gap between the NO touch and the mirrored YES touch", () => {
+			const no: OrderbookSnapshot = {
+				bids: [level("0.46", "10")],
+				asks: [level("0.60", "10")],
+				timestampMs: 0,
+			};
+
+			expect(bookDisagreement(yes, no)?.toString()).toBe("0.08");
+		});
+
+		it("returns null when no touch pair can be compared", () => {
+			expect(bookDisagreement(yes, emptyBook())).toBeNull();
+		});
+	});
 });
@@ -83,6 +83,41 @@ export function midPrice(book: OrderbookSnapshot): Decimal | null {
 	return bid.add(ask).div(Decimal.from(2));
 }
 
+/**
+ * Derives the complementary outcome's book: a bid for one token at P is an
+ * ask for the other at 1 − P, so bids become asks and asks become bids.
+ * @param book - The orderbook snapshot of one outcome token
+ * @returns The synthetic book of the other token, levels sorted best first
+ * @example
+ * const noBook = mirrorBook(yesBook); // NO best bid = 1 − YES best ask
+ */
+export function mirrorBook(book: OrderbookSnapshot): OrderbookSnapshot {
+	const one = Decimal.one();
+	const complement = (lvl: OrderbookLevel) => ({ price: one.sub(lvl.price), size: lvl.size });
+	return {
+		bids: book.asks.map(complement),
+		asks: book.bids.map(complement),
+		timestampMs: book.timestampMs,
+	};
+}
+
+/**
+ * Measures how far a NO book strays from the mirror of its YES book: the
+ * larger of |NO bid − (1 − YES ask)| and |NO ask − (1 − YES bid)|.
+ * @param yes - The YES token's orderbook
+ * @param no - The NO token's orderbook
+ * @returns The disagreement in price units, or null if no touch pair can be compared
+ */
+export function bookDisagreement(yes: OrderbookSnapshot, no: OrderbookSnapshot): Decimal | null {
+	const mirror = mirrorBook(yes);
+	const gap = (a: Decimal | null, b: Decimal | null) =>
+		a === null || b === null ? null : a.sub(b).abs();
+	const bidGap = gap(bestBid(no), bestBid(mirror));
+	const askGap = gap(bestAsk(no), bestAsk(mirror));
+	if (bidGap === null) return askGap;
+	return askGap === null ? bidGap : Decimal.max(bidGap, askGap);
+}
+
 /**
  * Calculates the effective price for executing a trade of a given size.
  * Walks through the orderbook levels to compute the average fill price.
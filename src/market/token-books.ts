@@ -0,0 +1,109 @@
+/**
+ * Token-level books — maps a market's YES and NO tokens to the books held
+ * for them and assembles the condition-level MarketBooks view.
+ *
+ * Shared by MarketFeed and MultiMarketManager, which store one book per
+ * token and tell a market's sides apart once its tokens are registered.
+ */
+
+import type { TokenInfo } from "../ctf/types.js";
+import type { ConditionId, MarketTokenId } from "../shared/identifiers.js";
+import { MarketSide } from "../shared/market-side.js";
+import { mirrorBook } from "./orderbook.js";
+import type { BookSource, MarketBooks, OrderbookSnapshot } from "./types.js";
+
+/** The market and outcome a token belongs to. */
+export interface TokenMarket {
+	readonly conditionId: ConditionId;
+	readonly side: MarketSide;
+}
+
+/**
+ * Registry of market tokens plus the synthetic mirroring both feeds share.
+ *
+ * With `mirror` on, a side whose book is unavailable is derived from the
+ * other side's book (NO bid = 1 − YES ask). Mirrored books are cached per
+ * source book, so repeated reads of an unchanged book return the same object.
+ */
+export class TokenBookIndex {
+	private readonly markets: Map<string, TokenInfo> = new Map();
+	private readonly tokens: Map<string, TokenMarket> = new Map();
+	private readonly mirrored: WeakMap<OrderbookSnapshot, OrderbookSnapshot> = new WeakMap();
+	private readonly mirror: boolean;
+
+	constructor(mirror = false) {
+		this.mirror = mirror;
+	}
+
+	/** Registers a market's tokens, replacing any earlier registration. */
+	register(info: TokenInfo): void {
+		this.unregister(info.conditionId);
+		this.markets.set(info.conditionId as string, info);
+		this.tokens.set(info.yesTokenId as string, {
+			conditionId: info.conditionId,
+			side: MarketSide.Yes,
+		});
+		this.tokens.set(info.noTokenId as string, {
+			conditionId: info.conditionId,
+			side: MarketSide.No,
+		});
+	}
+
+	unregister(cid: ConditionId): void {
+		const info = this.markets.get(cid as string);
+		if (info === undefined) return;
+		this.markets.delete(cid as string);
+		this.tokens.delete(info.yesTokenId as string);
+		this.tokens.delete(info.noTokenId as string);
+	}
+
+	/** The market's registered tokens, or null when they are unknown. */
+	tokensOf(cid: ConditionId): TokenInfo | null {
+		return this.markets.get(cid as string) ?? null;
+	}
+
+	/** The market and side of a registered token, or null for unknown tokens. */
+	marketOf(tokenId: MarketTokenId): TokenMarket | null {
+		return this.tokens.get(tokenId as string) ?? null;
+	}
+
+	/**
+	 * Both sides of a registered market, reading each token's book through
+	 * `bookOf`. Null for markets whose tokens are not registered.
+	 */
+	marketBooks(
+		cid: ConditionId,
+		bookOf: (tokenId: MarketTokenId) => OrderbookSnapshot | null,
+	): MarketBooks | null {
+		const info = this.tokensOf(cid);
+		if (info === null) return null;
+		const yes = bookOf(info.yesTokenId);
+		const no = bookOf(info.noTokenId);
+		if (!this.mirror) return { yes, no };
+		return { yes: yes ?? this.mirrorOf(no), no: no ?? this.mirrorOf(yes) };
+	}
+
+	private mirrorOf(book: OrderbookSnapshot | null): OrderbookSnapshot | null {
+		if (book === null) return null;
+		let mirrored = this.mirrored.get(book);
+		if (mirrored === undefined) {
+			mirrored = mirrorBook(book);
+			this.mirrored.set(book, mirrored);
+		}
+		return mirrored;
+	}
+}
+
+/**
+ * The book for one side of a market. Sources that do not know the market's
+ * tokens serve their condition book as the YES side and have no NO book.
+ */
+export function sideBook(
+	books: BookSource,
+	cid: ConditionId,
+	side: MarketSide,
+): OrderbookSnapshot | null {
+	const market = books.getMarketBooks?.(cid) ?? null;
+	if (market !== null) return market[side];
+	return side === MarketSide.Yes ? books.getBook(cid) : null;
+}
@@ -1,5 +1,5 @@
 import type { Decimal } from "../shared/decimal.js";
-import type { ConditionId } from "../shared/identifiers.js";
+import type { ConditionId, MarketTokenId } from "../shared/identifiers.js";
 
 /**
  * A single price level in an orderbook.
@@ -19,6 +19,28 @@ export interface OrderbookSnapshot {
 	readonly timestampMs: number;
 }
 
+/** Books for both outcome tokens of a market, indexed by MarketSide. */
+export interface MarketBooks {
+	readonly yes: OrderbookSnapshot | null;
+	readonly no: OrderbookSnapshot | null;
+}
+
+/** Anything that serves the latest book per market (MarketFeed, MultiMarketManager). */
+export interface BookSource {
+	/** The market's book; for markets with registered tokens, the YES token's book */
+	getBook(conditionId: ConditionId): OrderbookSnapshot | null;
+	/** False while the source knows its book for the market is corrupt. Default: valid */
+	isBookValid?(conditionId: ConditionId): boolean;
+	/** Both sides of a market, or null when the source does not know the market's tokens */
+	getMarketBooks?(conditionId: ConditionId): MarketBooks | null;
+}
+
+/** Fetches a market's full book on demand (e.g. over REST) so a feed can resync. */
+export interface BookSnapshotProvider {
+	/** `tokenId` is set when the feed keys the book by token rather than by market */
+	getSnapshot(conditionId: ConditionId, tokenId?: MarketTokenId): Promise<OrderbookSnapshot>;
+}
+
 /**
  * A delta update to apply to an orderbook snapshot.
  * Represents changes in bids and/or asks since the last snapshot.
@@ -16,6 +16,12 @@ export {
 
 export { buyNo, buyYes, sellNo, sellYes } from "./order-intent.js";
 export { canTransitionTo, isActive, isTerminal, tryTransition } from "./pending-state-machine.js";
+export {
+	isExpiredAt,
+	orderKindOf,
+	restsOnBook,
+	validateTimeInForce,
+} from "./time-in-force.js";
 export type { CancelHandler, CompleteHandler, FillHandler, OrderHandle } from "./order-handle.js";
 export { OrderHandleBuilder } from "./order-handle-builder.js";
 export { OrderRegistry } from "./order-registry.js";
@@ -23,5 +29,9 @@ export { OrderCoordinator } from "./order-coordinator.js";
 export { OrderTracker } from "./order-tracker.js";
 export type { DesiredOrder, DiffAction, DiffConfig, LiveOrder } from "./order-differ.js";
 export { diffOrders } from "./order-differ.js";
+export type { QuoteManagerConfig, QuoteUpdate } from "./quote-manager.js";
+export { QuoteManager } from "./quote-manager.js";
 export type { IdempotencyConfig } from "./idempotency-guard.js";
 export { IdempotencyGuard } from "./idempotency-guard.js";
+export type { OrderPipelineConfig } from "./order-pipeline.js";
+export { OrderPipeline } from "./order-pipeline.js";
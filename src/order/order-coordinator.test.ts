@@ -1,16 +1,22 @@
 import { describe, expect, it, vi } from "vitest";
 import { PaperExecutor } from "../execution/paper-executor.js";
 import { Decimal } from "../shared/decimal.js";
-import { conditionId, marketTokenId } from "../shared/identifiers.js";
+import {
+	clientOrderId,
+	conditionId,
+	exchangeOrderId,
+	marketTokenId,
+} from "../shared/identifiers.js";
 import type { ClientOrderId } from "../shared/identifiers.js";
 import { MarketSide } from "../shared/market-side.js";
-import { isErr, isOk } from "../shared/result.js";
+import { isErr, isOk, ok } from "../shared/result.js";
 import { FakeClock } from "../shared/time.js";
 import { OrderDirection } from "../signal/types.js";
 import type { SdkOrderIntent } from "../signal/types.js";
 import { OrderCoordinator } from "./order-coordinator.js";
 import { OrderRegistry } from "./order-registry.js";
-import { PendingState } from "./types.js";
+import { OrderTracker } from "./order-tracker.js";
+import { OrderKind, PendingState } from "./types.js";
 import type { OrderResult } from "./types.js";
 
 function testIntent(overrides?: Partial<SdkOrderIntent>): SdkOrderIntent {
@@ -25,6 +31,22 @@ function testIntent(overrides?: Partial<SdkOrderIntent>): SdkOrderIntent {
 	};
 }
 
+/** Executor whose orders rest on the book as "paper-1" / "ex-1". */
+function restingExecutor(totalFilled = "0") {
+	return {
+		submit: vi.fn(async () =>
+			ok<OrderResult>({
+				clientOrderId: clientOrderId("paper-1"),
+				exchangeOrderId: exchangeOrderId("ex-1"),
+				finalState: totalFilled === "0" ? PendingState.Open : PendingState.PartiallyFilled,
+				totalFilled: Decimal.from(totalFilled),
+				avgFillPrice: totalFilled === "0" ? null : Decimal.from("0.65"),
+			}),
+		),
+		cancel: vi.fn(async (_id: ClientOrderId) => ok(undefined)),
+	};
+}
+
 function setup() {
 	const clock = new FakeClock(1000);
 	const registry = OrderRegistry.create(clock);
@@ -100,7 +122,7 @@ describe("OrderCoordinator", () => {
 				clock,
 				fillProbability: 0,
 			});
-			const result = await service.submit(testIntent(), rejector);
+			const result = await service.submit(testIntent({ orderKind: OrderKind.IOC }), rejector);
 
 			expect(isOk(result)).toBe(true);
 			if (result.ok) {
@@ -125,6 +147,65 @@ describe("OrderCoordinator", () => {
 		});
 	});
 
+	describe("resting orders", () => {
+		it("records the exchange order id and defers onComplete to the tracker", async () => {
+			const clock = new FakeClock(1000);
+			const registry = OrderRegistry.create(clock);
+			const tracker = new OrderTracker(registry, clock, 0);
+			const service = new OrderCoordinator(registry, clock, tracker);
+			const completed: OrderResult[] = [];
+
+			const result = await service.submit(testIntent(), restingExecutor("40"), (b) =>
+				b.onComplete((r) => completed.push(r)),
+			);
+			if (!result.ok) throw new Error("submit failed");
+			const id = result.value.clientOrderId;
+
+			expect(completed).toEqual([]);
+			expect(registry.byExchangeOrderId(exchangeOrderId("ex-1"))?.clientOrderId).toBe(id);
+
+			tracker.handleFilled(id, {
+				filledSize: Decimal.from("60"),
+				fillPrice: Decimal.from("0.65"),
+				remainingSize: Decimal.zero(),
+				timestampMs: 2000,
+			});
+			expect(completed).toHaveLength(1);
+			expect(completed[0]?.finalState).toBe(PendingState.Filled);
+		});
+
+		it("reports the filled size seeded at submission when cancelled", async () => {
+			const clock = new FakeClock(1000);
+			const registry = OrderRegistry.create(clock);
+			const tracker = new OrderTracker(registry, clock, 0);
+			const service = new OrderCoordinator(registry, clock, tracker);
+			const executor = restingExecutor("40");
+			const completed: OrderResult[] = [];
+
+			const result = await service.submit(testIntent(), executor, (b) =>
+				b.onComplete((r) => completed.push(r)),
+			);
+			if (!result.ok) throw new Error("submit failed");
+			await service.cancel(result.value.clientOrderId, executor);
+
+			expect(executor.cancel).toHaveBeenCalledWith(clientOrderId("paper-1"));
+			expect(completed[0]?.finalState).toBe(PendingState.Cancelled);
+			expect(completed[0]?.totalFilled.eq(Decimal.from("40"))).toBe(true);
+		});
+
+		it("passes the executor result to the handle customizer", async () => {
+			const { service } = setup();
+			let seen: OrderResult | null = null;
+
+			await service.submit(testIntent(), restingExecutor(), (b, r) => {
+				seen = r;
+				return b;
+			});
+
+			expect(seen?.exchangeOrderId).toBe(exchangeOrderId("ex-1"));
+		});
+	});
+
 	describe("state machine transitions (HARD-24)", () => {
 		it("transitions through Submitted before finalState on success", async () => {
 			const { service, executor, registry } = setup();
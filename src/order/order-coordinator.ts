@@ -1,6 +1,9 @@
 /**
  * OrderCoordinator — orchestrates order submission through an Executor,
  * tracks state in OrderRegistry, and builds OrderHandles with lifecycle callbacks.
+ *
+ * Orders the executor reports as resting (Submitted, Open, PartiallyFilled) are
+ * handed to an optional OrderTracker, which completes them from user-feed events.
  */
 
 import type { Executor } from "../execution/types.js";
@@ -15,11 +18,14 @@ import type { SdkOrderIntent } from "../signal/types.js";
 import { OrderHandleBuilder } from "./order-handle-builder.js";
 import type { OrderHandle } from "./order-handle.js";
 import type { OrderRegistry } from "./order-registry.js";
-import { PendingState } from "./types.js";
-import type { OrderSide, PendingOrder } from "./types.js";
+import type { OrderTracker } from "./order-tracker.js";
+import { isTerminal } from "./pending-state-machine.js";
+import { orderKindOf } from "./time-in-force.js";
+import { CancelReason, PendingState } from "./types.js";
+import type { OrderResult, OrderSide, PendingOrder } from "./types.js";
 
-/** Function type to customize the OrderHandleBuilder before building. */
-type HandleCustomizer = (builder: OrderHandleBuilder) => OrderHandleBuilder;
+/** Function type to customize the OrderHandleBuilder before building; receives the executor's result. */
+type HandleCustomizer = (builder: OrderHandleBuilder, result: OrderResult) => OrderHandleBuilder;
 
 /**
  * Orchestrates order submission, tracking, and lifecycle management.
@@ -30,16 +36,24 @@ type HandleCustomizer = (builder: OrderHandleBuilder) => OrderHandleBuilder;
 export class OrderCoordinator {
 	private readonly registry: OrderRegistry;
 	private readonly clock: Clock;
+	private readonly tracker: OrderTracker | null;
+	private readonly executorOrderIds = new Map<string, ClientOrderId>();
 	private orderCounter = 0;
 
 	/**
 	 * Creates a new OrderCoordinator.
 	 * @param registry - The order registry for tracking pending orders
 	 * @param clock - Optional clock for time-based operations (defaults to SystemClock)
+	 * @param tracker - Optional tracker that completes orders still resting after submission
 	 */
-	constructor(registry: OrderRegistry, clock: Clock = SystemClock) {
+	constructor(
+		registry: OrderRegistry,
+		clock: Clock = SystemClock,
+		tracker: OrderTracker | null = null,
+	) {
 		this.registry = registry;
 		this.clock = clock;
+		this.tracker = tracker;
 	}
 
 	/**
@@ -49,6 +63,10 @@ export class OrderCoordinator {
 	 * @param customize - Optional function to customize the OrderHandleBuilder
 	 * @returns Result containing the OrderHandle or a TradingError
 	 *
+	 * `onComplete` fires immediately when the executor reports a terminal state;
+	 * otherwise the handle is registered with the tracker (when one is configured)
+	 * and completes once the order fills, is cancelled or expires.
+	 *
 	 * @example
 	 * ```ts
 	 * const result = await service.submit(intent, executor, builder =>
@@ -75,6 +93,8 @@ export class OrderCoordinator {
 			submittedAtMs: this.clock.now(),
 			state: PendingState.Created,
 			exchangeOrderId: null,
+			orderKind: orderKindOf(intent),
+			expiresAtMs: intent.expiresAtMs ?? null,
 		};
 
 		this.registry.track(pending);
@@ -87,17 +107,25 @@ export class OrderCoordinator {
 		}
 
 		const orderResult = result.value;
+		this.executorOrderIds.set(coid as string, orderResult.clientOrderId);
+		if (orderResult.exchangeOrderId !== null) {
+			this.registry.updateExchangeOrderId(coid, orderResult.exchangeOrderId);
+		}
 		this.registry.updateState(coid, PendingState.Submitted);
 		this.registry.updateState(coid, orderResult.finalState);
 
 		let builder = OrderHandleBuilder.create(coid);
 		if (customize) {
-			builder = customize(builder);
+			builder = customize(builder, orderResult);
 		}
 		const handle = builder.build();
 
-		if (handle.onComplete) {
-			handle.onComplete(orderResult);
+		if (isTerminal(orderResult.finalState)) {
+			if (handle.onComplete) {
+				handle.onComplete(orderResult);
+			}
+		} else if (this.tracker) {
+			this.tracker.registerHandle(coid, handle, orderResult.totalFilled);
 		}
 
 		return ok(handle);
@@ -107,9 +135,14 @@ export class OrderCoordinator {
 	 * Cancels a pending order.
 	 * @param orderId - The client order ID to cancel
 	 * @param executor - The executor to use for cancellation
+	 * @param reason - Reported to the handle's onCancel when a tracker is configured
 	 * @returns Result indicating success or a TradingError
 	 */
-	async cancel(orderId: ClientOrderId, executor: Executor): Promise<Result<void, TradingError>> {
+	async cancel(
+		orderId: ClientOrderId,
+		executor: Executor,
+		reason: CancelReason = CancelReason.UserRequested,
+	): Promise<Result<void, TradingError>> {
 		const tracked = this.registry.get(orderId);
 		if (!tracked) {
 			return err(
@@ -119,9 +152,15 @@ export class OrderCoordinator {
 			);
 		}
 
-		const result = await executor.cancel(orderId);
+		// The executor only knows the id it assigned at submission
+		const executorOrderId = this.executorOrderIds.get(orderId as string) ?? orderId;
+		const result = await executor.cancel(executorOrderId);
 		if (result.ok) {
-			this.registry.updateState(orderId, PendingState.Cancelled);
+			if (this.tracker) {
+				this.tracker.handleCancelled(orderId, reason);
+			} else {
+				this.registry.updateState(orderId, PendingState.Cancelled);
+			}
 		}
 		return result;
 	}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { ConfigError } from "../shared/errors.js";
+import { OrderPipeline } from "./order-pipeline.js";
+
+/** A task that runs until released, recording when it starts. */
+function gate(log: string[], name: string) {
+	let release: () => void = () => {};
+	const done = new Promise<void>((resolve) => {
+		release = resolve;
+	});
+	const task = async () => {
+		log.push(name);
+		await done;
+		return name;
+	};
+	return { task, release: () => release() };
+}
+
+async function flush(): Promise<void> {
+	for (let i = 0; i < 10; i++) await Promise.resolve();
+}
+
+describe("OrderPipeline", () => {
+	it("runs different keys concurrently up to the limit", async () => {
+		const pipeline = OrderPipeline.create({ concurrency: 2 });
+		const log: string[] = [];
+		const a = gate(log, "a");
+		const b = gate(log, "b");
+		const c = gate(log, "c");
+
+		pipeline.run("m1", a.task);
+		pipeline.run("m2", b.task);
+		const third = pipeline.run("m3", c.task);
+		await flush();
+
+		expect(log).toEqual(["a", "b"]);
+		expect(pipeline.active()).toBe(2);
+		expect(pipeline.queued()).toBe(1);
+
+		a.release();
+		await flush();
+		expect(log).toEqual(["a", "b", "c"]);
+
+		b.release();
+		c.release();
+		await expect(third).resolves.toBe("c");
+		await pipeline.idle();
+		expect(pipeline.active()).toBe(0);
+	});
+
+	it("serializes tasks for the same key", async () => {
+		const pipeline = OrderPipeline.create({ concurrency: 4 });
+		const log: string[] = [];
+		const first = gate(log, "first");
+		const second = gate(log, "second");
+
+		pipeline.run("m1", first.task);
+		pipeline.run("m1", second.task);
+		await flush();
+
+		expect(log).toEqual(["first"]);
+		expect(pipeline.isBusy("m1")).toBe(true);
+
+		first.release();
+		await flush();
+		expect(log).toEqual(["first", "second"]);
+
+		second.release();
+		await pipeline.idle();
+		expect(pipeline.isBusy("m1")).toBe(false);
+	});
+
+	it("keeps a key's queue moving after a task fails", async () => {
+		const pipeline = OrderPipeline.create();
+
+		const failed = pipeline.run("m1", async () => {
+			throw new Error("boom");
+		});
+		const next = pipeline.run("m1", async () => "ok");
+
+		await expect(failed).rejects.toThrow("boom");
+		await expect(next).resolves.toBe("ok");
+	});
+
+	it("refuses tasks once the queue is full", async () => {
+		const pipeline = OrderPipeline.create({ maxQueued: 1 });
+		const log: string[] = [];
+		const a = gate(log, "a");
+
+		expect(pipeline.run("m1", a.task)).not.toBeNull();
+		await flush();
+		expect(pipeline.run("m2", async () => "b")).not.toBeNull();
+		expect(pipeline.run("m3", async () => "c")).toBeNull();
+
+		a.release();
+		await pipeline.idle();
+		expect(pipeline.isBusy("m3")).toBe(false);
+	});
+
+	it("rejects invalid configuration", () => {
+		expect(() => OrderPipeline.create({ concurrency: 0 })).toThrow(ConfigError);
+		expect(() => OrderPipeline.create({ concurrency: 1.5 })).toThrow(ConfigError);
+		expect(() => OrderPipeline.create({ maxQueued: -1 })).toThrow(ConfigError);
+	});
+});
@@ -0,0 +1,137 @@
+/**
+ * Order pipeline — runs order work for independent markets concurrently.
+ *
+ * Tasks sharing a key (typically a conditionId) run one after another in
+ * submission order; tasks with different keys run side by side, up to a
+ * global concurrency limit. Slots are handed out first come, first served.
+ */
+import { ConfigError } from "../shared/errors.js";
+
+export interface OrderPipelineConfig {
+	/** Tasks running at once across all keys. Default: 1 */
+	readonly concurrency?: number | undefined;
+	/** Tasks waiting for their key or a free slot before `run` refuses more. Default: unbounded */
+	readonly maxQueued?: number | undefined;
+}
+
+export class OrderPipeline {
+	private readonly concurrency: number;
+	private readonly maxQueued: number;
+	/** Settles when the last task accepted for the key has finished. */
+	private readonly tails = new Map<string, Promise<void>>();
+	/** Tasks accepted and not yet finished, per key. */
+	private readonly unfinished = new Map<string, number>();
+	private readonly waiting: Array<() => void> = [];
+	private running = 0;
+	private pending = 0;
+
+	private constructor(concurrency: number, maxQueued: number) {
+		this.concurrency = concurrency;
+		this.maxQueued = maxQueued;
+	}
+
+	/**
+	 * Creates an order pipeline.
+	 * @throws ConfigError if concurrency is not a positive integer or maxQueued is negative
+	 */
+	static create(config: OrderPipelineConfig = {}): OrderPipeline {
+		const concurrency = config.concurrency ?? 1;
+		if (!Number.isInteger(concurrency) || concurrency < 1) {
+			throw new ConfigError("OrderPipeline: concurrency must be a positive integer", {
+				concurrency,
+			});
+		}
+		const maxQueued = config.maxQueued ?? Number.POSITIVE_INFINITY;
+		if (maxQueued < 0) {
+			throw new ConfigError("OrderPipeline: maxQueued must be non-negative", { maxQueued });
+		}
+		return new OrderPipeline(concurrency, maxQueued);
+	}
+
+	/**
+	 * Runs `task` once earlier tasks for `key` have finished and a slot is free.
+	 * Returns null, without running the task, when it would have to wait and the
+	 * queue is full.
+	 */
+	run<T>(key: string, task: () => Promise<T>): Promise<T> | null {
+		const ready = !this.isBusy(key) && this.running < this.concurrency;
+		if (!ready && this.pending >= this.maxQueued) return null;
+		this.unfinished.set(key, (this.unfinished.get(key) ?? 0) + 1);
+
+		let started: Promise<void>;
+		if (ready) {
+			this.running++;
+			started = Promise.resolve();
+		} else {
+			this.pending++;
+			started = (this.tails.get(key) ?? Promise.resolve())
+				.then(() => this.acquire())
+				.then(() => {
+					this.pending--;
+				});
+		}
+		const result = started.then(async () => {
+			try {
+				return await task();
+			} finally {
+				this.release();
+			}
+		});
+
+		const tail: Promise<void> = result.then(
+			() => this.finish(key, tail),
+			() => this.finish(key, tail),
+		);
+		this.tails.set(key, tail);
+		return result;
+	}
+
+	/** True while a task for `key` is queued or running. */
+	isBusy(key: string): boolean {
+		return this.unfinished.has(key);
+	}
+
+	/** Number of tasks running. */
+	active(): number {
+		return this.running;
+	}
+
+	/** Number of tasks waiting for their key or a free slot. */
+	queued(): number {
+		return this.pending;
+	}
+
+	/** Resolves once every accepted task has finished. */
+	async idle(): Promise<void> {
+		while (this.tails.size > 0) {
+			await Promise.all(this.tails.values());
+		}
+	}
+
+	private acquire(): Promise<void> {
+		if (this.running < this.concurrency) {
+			this.running++;
+			return Promise.resolve();
+		}
+		return new Promise((resolve) => this.waiting.push(resolve));
+	}
+
+	private release(): void {
+		const next = this.waiting.shift();
+		if (next) {
+			next();
+		} else {
+			this.running--;
+		}
+	}
+
+	private finish(key: string, tail: Promise<void>): void {
+		const remaining = (this.unfinished.get(key) ?? 1) - 1;
+		if (remaining > 0) {
+			this.unfinished.set(key, remaining);
+		} else {
+			this.unfinished.delete(key);
+		}
+		if (this.tails.get(key) === tail) this.tails.delete(key);
+	}
+}
@@ -1,8 +1,13 @@
 import { describe, expect, it } from "vitest";
 import { Decimal } from "../shared/decimal.js";
-import { clientOrderId, conditionId, marketTokenId } from "../shared/identifiers.js";
+import {
+	clientOrderId,
+	conditionId,
+	exchangeOrderId,
+	marketTokenId,
+} from "../shared/identifiers.js";
 import { OrderRegistry } from "./order-registry.js";
-import { OrderSide, PendingState } from "./types.js";
+import { OrderKind, OrderSide, PendingState } from "./types.js";
 
 const d = Decimal.from;
 
@@ -17,6 +22,8 @@ function makePendingOrder(id: string) {
 		submittedAtMs: 1000,
 		state: PendingState.Submitted as const,
 		exchangeOrderId: null,
+		orderKind: OrderKind.GTC,
+		expiresAtMs: null,
 	};
 }
 
@@ -48,6 +55,15 @@ describe("OrderRegistry", () => {
 		expect(registry.activeCount()).toBe(0);
 	});
 
+	it("finds orders by exchange order ID", () => {
+		const registry = OrderRegistry.create();
+		registry.track(makePendingOrder("ord-1"));
+		registry.updateExchangeOrderId(clientOrderId("ord-1"), exchangeOrderId("ex-1"));
+
+		expect(registry.byExchangeOrderId(exchangeOrderId("ex-1"))?.clientOrderId).toBe("ord-1");
+		expect(registry.byExchangeOrderId(exchangeOrderId("ex-2"))).toBeNull();
+	});
+
 	it("finds orders by condition ID", () => {
 		const registry = OrderRegistry.create();
 		registry.track(makePendingOrder("ord-1"));
@@ -119,4 +135,33 @@ describe("OrderRegistry", () => {
 		expect(registry.get(clientOrderId("ord-early"))).toBeNull();
 		expect(registry.get(clientOrderId("ord-late"))).not.toBeNull();
 	});
+
+	it("links child orders to their parent", () => {
+		const registry = OrderRegistry.create();
+		registry.track(makePendingOrder("parent"));
+		registry.trackChild(clientOrderId("parent"), makePendingOrder("child-1"));
+		registry.trackChild(clientOrderId("parent"), makePendingOrder("child-2"));
+
+		expect(registry.childrenOf(clientOrderId("parent")).map((o) => o.clientOrderId)).toEqual([
+			"child-1",
+			"child-2",
+		]);
+		expect(registry.parentOf(clientOrderId("child-2"))?.clientOrderId).toBe("parent");
+		expect(registry.parentOf(clientOrderId("parent"))).toBeNull();
+		expect(() => registry.trackChild(clientOrderId("missing"), makePendingOrder("c3"))).toThrow();
+	});
+
+	it("drops cleaned-up children from their parent", () => {
+		let now = 1000;
+		const registry = OrderRegistry.create({ now: () => now });
+		registry.track(makePendingOrder("parent"));
+		registry.trackChild(clientOrderId("parent"), makePendingOrder("child-1"));
+		registry.updateState(clientOrderId("child-1"), PendingState.Filled);
+		now = 10_000;
+
+		registry.cleanup(1000);
+
+		expect(registry.childrenOf(clientOrderId("parent"))).toEqual([]);
+		expect(registry.parentOf(clientOrderId("child-1"))).toBeNull();
+	});
 });
@@ -2,7 +2,8 @@
  * OrderRegistry — tracks pending orders with dedup and TTL cleanup.
  *
  * Maintains in-memory state of all pending orders, indexed by client order ID
- * and by market (conditionId). Supports TTL-based cleanup of terminal orders.
+ * and by market (conditionId). Child orders sliced from a parent (execution
+ * algorithms) are linked to it. Supports TTL-based cleanup of terminal orders.
  */
 
 import type { ClientOrderId, ConditionId, ExchangeOrderId } from "../shared/identifiers.js";
@@ -18,12 +19,16 @@ export class OrderRegistry {
 	private readonly orders: Map<string, PendingOrder>;
 	private readonly byMarketIndex: Map<string, string[]>;
 	private readonly terminalAtMs: Map<string, number>;
+	private readonly parentIndex: Map<string, string>;
+	private readonly childIndex: Map<string, string[]>;
 	private readonly clock: Clock;
 
 	private constructor(clock: Clock) {
 		this.orders = new Map();
 		this.byMarketIndex = new Map();
 		this.terminalAtMs = new Map();
+		this.parentIndex = new Map();
+		this.childIndex = new Map();
 		this.clock = clock;
 	}
 
@@ -52,6 +57,43 @@ export class OrderRegistry {
 		this.byMarketIndex.set(marketKey, [...existing, key]);
 	}
 
+	/**
+	 * Registers a child order sliced from a tracked parent order.
+	 * @param parentId - The parent order's client order ID
+	 * @param child - The child order to track
+	 * @throws Error if the parent is not tracked or the child already is
+	 */
+	trackChild(parentId: ClientOrderId, child: PendingOrder): void {
+		const parentKey = parentId as string;
+		if (!this.orders.has(parentKey)) {
+			throw new Error(`Parent order ${parentKey} not tracked`);
+		}
+		this.track(child);
+		const childKey = child.clientOrderId as string;
+		this.parentIndex.set(childKey, parentKey);
+		this.childIndex.set(parentKey, [...(this.childIndex.get(parentKey) ?? []), childKey]);
+	}
+
+	/**
+	 * Retrieves the child orders of a parent, in submission order.
+	 * @param parentId - The parent order's client order ID
+	 * @returns Array of child orders (empty if none)
+	 */
+	childrenOf(parentId: ClientOrderId): readonly PendingOrder[] {
+		const keys = this.childIndex.get(parentId as string) ?? [];
+		return keys.map((k) => this.orders.get(k)).filter((o): o is PendingOrder => o !== undefined);
+	}
+
+	/**
+	 * Retrieves the parent of a child order.
+	 * @param childId - The child order's client order ID
+	 * @returns The parent order if the order is a tracked child, null otherwise
+	 */
+	parentOf(childId: ClientOrderId): PendingOrder | null {
+		const parentKey = this.parentIndex.get(childId as string);
+		return parentKey === undefined ? null : (this.orders.get(parentKey) ?? null);
+	}
+
 	/**
 	 * Retrieves a pending order by client order ID.
 	 * @param clientOrderId - The client order ID to look up
@@ -93,6 +135,18 @@ export class OrderRegistry {
 		this.orders.set(key, updated);
 	}
 
+	/**
+	 * Retrieves a tracked order by the exchange-assigned order ID.
+	 * @param exchangeOrderId - The exchange order ID to look up
+	 * @returns The pending order if found, null otherwise
+	 */
+	byExchangeOrderId(exchangeOrderId: ExchangeOrderId): PendingOrder | null {
+		for (const order of this.orders.values()) {
+			if (order.exchangeOrderId === exchangeOrderId) return order;
+		}
+		return null;
+	}
+
 	/**
 	 * Retrieves all pending orders for a specific market.
 	 * @param conditionId - The market condition ID
@@ -103,6 +157,13 @@ export class OrderRegistry {
 		return keys.map((k) => this.orders.get(k)).filter((o): o is PendingOrder => o !== undefined);
 	}
 
+	/**
+	 * Returns all active (non-terminal) orders.
+	 */
+	active(): readonly PendingOrder[] {
+		return [...this.orders.values()].filter((o) => !isTerminal(o.state));
+	}
+
 	/**
 	 * Returns the count of active (non-terminal) orders.
 	 */
@@ -127,6 +188,8 @@ export class OrderRegistry {
 			if (now - terminalAt >= ttlMs) {
 				this.orders.delete(key);
 				this.terminalAtMs.delete(key);
+				this.parentIndex.delete(key);
+				this.childIndex.delete(key);
 
 				for (const [marketKey, keys] of this.byMarketIndex.entries()) {
 					const filtered = keys.filter((k) => k !== key);
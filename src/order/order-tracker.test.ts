@@ -6,11 +6,12 @@ import {
 	exchangeOrderId,
 	marketTokenId,
 } from "../shared/identifiers.js";
+import { FakeClock } from "../shared/time.js";
 import { OrderHandleBuilder } from "./order-handle-builder.js";
 import { OrderRegistry } from "./order-registry.js";
 import { OrderTracker } from "./order-tracker.js";
 import type { FillInfo } from "./types.js";
-import { OrderSide, PendingState } from "./types.js";
+import { OrderKind, OrderSide, PendingState } from "./types.js";
 
 const d = Decimal.from;
 
@@ -25,6 +26,8 @@ function makePendingOrder(id: string, state: PendingState = PendingState.Submitt
 		submittedAtMs: 1000,
 		state,
 		exchangeOrderId: null,
+		orderKind: OrderKind.GTC,
+		expiresAtMs: null,
 	};
 }
 
@@ -132,6 +135,63 @@ describe("OrderTracker", () => {
 		expect(registry.get(clientOrderId("ord-1"))?.state).toBe(PendingState.Expired);
 	});
 
+	it("expireDue() expires GTD orders once the clock reaches their expiry", () => {
+		const clock = new FakeClock(1000);
+		const registry = OrderRegistry.create(clock);
+		registry.track({
+			...makePendingOrder("gtd-1", PendingState.PartiallyFilled),
+			orderKind: OrderKind.GTD,
+			expiresAtMs: 5000,
+		});
+		registry.track(makePendingOrder("gtc-1", PendingState.Open));
+		const tracker = new OrderTracker(registry, clock);
+		const onComplete = vi.fn();
+		tracker.registerHandle(
+			clientOrderId("gtd-1"),
+			OrderHandleBuilder.create(clientOrderId("gtd-1")).onComplete(onComplete).build(),
+			d("40"),
+		);
+
+		clock.advance(3999);
+		expect(tracker.expireDue()).toEqual([]);
+
+		clock.advance(1);
+		expect(tracker.expireDue()).toEqual([clientOrderId("gtd-1")]);
+		expect(registry.get(clientOrderId("gtd-1"))?.state).toBe(PendingState.Expired);
+		expect(registry.get(clientOrderId("gtc-1"))?.state).toBe(PendingState.Open);
+		expect(onComplete).toHaveBeenCalledWith(
+			expect.objectContaining({ finalState: PendingState.Expired, totalFilled: d("40") }),
+		);
+	});
+
+	it("expireDue() leaves orders of other trackers sharing the registry alone", () => {
+		const clock = new FakeClock(1000);
+		const registry = OrderRegistry.create(clock);
+		const gtd = (id: string) => ({
+			...makePendingOrder(id, PendingState.Open),
+			orderKind: OrderKind.GTD,
+			expiresAtMs: 2000,
+		});
+		registry.track(gtd("mine"));
+		registry.track(gtd("quote"));
+		const tracker = new OrderTracker(registry, clock);
+		const quotes = new OrderTracker(registry, clock);
+		tracker.registerHandle(
+			clientOrderId("mine"),
+			OrderHandleBuilder.create(clientOrderId("mine")).build(),
+		);
+		quotes.registerHandle(
+			clientOrderId("quote"),
+			OrderHandleBuilder.create(clientOrderId("quote")).build(),
+		);
+
+		clock.advance(1000);
+
+		expect(tracker.expireDue()).toEqual([clientOrderId("mine")]);
+		expect(registry.get(clientOrderId("quote"))?.state).toBe(PendingState.Open);
+		expect(quotes.expireDue()).toEqual([clientOrderId("quote")]);
+	});
+
 	it("supports awaitable completion via waitForOrder", async () => {
 		const registry = OrderRegistry.create();
 		registry.track(makePendingOrder("ord-1", PendingState.Submitted));
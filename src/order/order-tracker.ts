@@ -7,12 +7,14 @@
  */
 
 import { Decimal } from "../shared/decimal.js";
+import { clientOrderId } from "../shared/identifiers.js";
 import type { ClientOrderId, ExchangeOrderId } from "../shared/identifiers.js";
 import type { Clock } from "../shared/time.js";
 import { SystemClock } from "../shared/time.js";
 import type { OrderHandle } from "./order-handle.js";
 import type { OrderRegistry } from "./order-registry.js";
 import { canTransitionTo, isTerminal } from "./pending-state-machine.js";
+import { isExpiredAt } from "./time-in-force.js";
 import { PendingState } from "./types.js";
 import type { FillInfo, OrderResult, PendingOrder } from "./types.js";
 
@@ -41,8 +43,15 @@ export class OrderTracker {
 		this.defaultTimeoutMs = defaultTimeoutMs;
 	}
 
-	registerHandle(clientOrderId: ClientOrderId, handle: OrderHandle): void {
+	/**
+	 * Attaches lifecycle callbacks to a tracked order.
+	 * @param alreadyFilled - Size the executor reported as filled at submission; later fills add to it
+	 */
+	registerHandle(clientOrderId: ClientOrderId, handle: OrderHandle, alreadyFilled?: Decimal): void {
 		this.handles.set(clientOrderId as string, handle);
+		if (alreadyFilled !== undefined && !alreadyFilled.isZero()) {
+			this.filledAmounts.set(clientOrderId as string, alreadyFilled);
+		}
 
 		if (handle.timeoutMs !== null) {
 			this.setupTimeout(clientOrderId, handle.timeoutMs);
@@ -157,6 +166,25 @@ export class OrderTracker {
 		this.completeTerminal(clientOrderId);
 	}
 
+	/**
+	 * Expires every GTD order of this tracker (one with a registered handle) whose
+	 * expiry has passed on the clock. Orders other components keep in a shared
+	 * registry are left to their own trackers.
+	 * @returns The client order IDs that transitioned to Expired
+	 */
+	expireDue(): readonly ClientOrderId[] {
+		const now = this.clock.now();
+		const expired: ClientOrderId[] = [];
+		for (const key of [...this.handles.keys()]) {
+			const order = this.registry.get(clientOrderId(key));
+			if (!order || !isExpiredAt(order.expiresAtMs, now)) continue;
+			if (!canTransitionTo(order.state, PendingState.Expired)) continue;
+			this.handleExpired(order.clientOrderId);
+			expired.push(order.clientOrderId);
+		}
+		return expired;
+	}
+
 	handleRejected(clientOrderId: ClientOrderId, reason: string): void {
 		this.handleCancelled(clientOrderId, `rejected: ${reason}`);
 	}
@@ -211,6 +239,7 @@ export class OrderTracker {
 			});
 		}
 		this.resolveIfPending(key, result);
+		this.handles.delete(key);
 
 		const timeoutId = this.timeoutIds.get(key);
 		if (timeoutId) {
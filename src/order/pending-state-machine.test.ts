@@ -32,6 +32,7 @@ describe("PendingStateMachine", () => {
 			[PendingState.PartiallyFilled, PendingState.PartiallyFilled],
 			[PendingState.PartiallyFilled, PendingState.Filled],
 			[PendingState.PartiallyFilled, PendingState.Cancelled],
+			[PendingState.PartiallyFilled, PendingState.Expired],
 		] as const)("%s → %s is valid", (from, to) => {
 			expect(canTransitionTo(from, to)).toBe(true);
 		});
@@ -27,7 +27,12 @@ const VALID_TRANSITIONS: ReadonlyMap<PendingState, readonly PendingState[]> = ne
 	],
 	[
 		PendingState.PartiallyFilled,
-		[PendingState.PartiallyFilled, PendingState.Filled, PendingState.Cancelled],
+		[
+			PendingState.PartiallyFilled,
+			PendingState.Filled,
+			PendingState.Cancelled,
+			PendingState.Expired,
+		],
 	],
 	[PendingState.Filled, []],
 	[PendingState.Cancelled, []],
@@ -0,0 +1,209 @@
+import { describe, expect, it, vi } from "vitest";
+import { BookPaperExecutor } from "../execution/book-paper-executor.js";
+import type { Executor } from "../execution/types.js";
+import { TokenBucketRateLimiter } from "../lib/http/rate-limiter.js";
+import { Decimal } from "../shared/decimal.js";
+import { ConfigError, OrderRejectedError } from "../shared/errors.js";
+import { clientOrderId, conditionId, marketTokenId } from "../shared/identifiers.js";
+import { err } from "../shared/result.js";
+import { FakeClock } from "../shared/time.js";
+import type { DesiredOrder } from "./order-differ.js";
+import { OrderRegistry } from "./order-registry.js";
+import { QuoteManager } from "./quote-manager.js";
+import type { QuoteManagerConfig } from "./quote-manager.js";
+import { PendingState } from "./types.js";
+
+const d = Decimal.from;
+const MARKET = {
+	conditionId: conditionId("cond-1"),
+	yesTokenId: marketTokenId("yes-tok"),
+	noTokenId: marketTokenId("no-tok"),
+};
+
+function quote(
+	side: "buy" | "sell",
+	price: string,
+	size = "100",
+	tokenId = "yes-tok",
+): DesiredOrder {
+	return { tokenId, side, price: d(price), size: d(size) };
+}
+
+function setup(overrides: Partial<QuoteManagerConfig> = {}) {
+	const clock = new FakeClock(1000);
+	// No book: every quote rests until cancelled
+	const executor = new BookPaperExecutor({ books: { getBook: () => null }, clock });
+	const registry = OrderRegistry.create(clock);
+	const manager = new QuoteManager({ market: MARKET, executor, registry, clock, ...overrides });
+	return { clock, executor, registry, manager };
+}
+
+function prices(manager: QuoteManager): string[] {
+	return manager.liveOrders().map((o) => `${o.side}@${o.price.toString()}`);
+}
+
+describe("QuoteManager", () => {
+	it("places the desired quotes and reports them live", async () => {
+		const { executor, manager } = setup();
+
+		const update = await manager.update([quote("buy", "0.48"), quote("sell", "0.52")]);
+
+		expect(update.placed).toHaveLength(2);
+		expect(update.errors).toEqual([]);
+		expect(prices(manager)).toEqual(["buy@0.48", "sell@0.52"]);
+		expect(executor.restingOrderCount()).toBe(2);
+	});
+
+	it("keeps quotes within tolerance without touching the executor", async () => {
+		const { executor, manager } = setup();
+		await manager.update([quote("buy", "0.48")]);
+		const submit = vi.spyOn(executor, "submitBatch");
+		const cancel = vi.spyOn(executor, "cancelBatch");
+
+		const update = await manager.update([quote("buy", "0.4805", "102")]);
+
+		expect(update.actions.map((a) => a.type)).toEqual(["keep"]);
+		expect(submit).not.toHaveBeenCalled();
+		expect(cancel).not.toHaveBeenCalled();
+	});
+
+	it("amends by cancelling and replacing the quote", async () => {
+		const { executor, manager } = setup();
+		const first = await manager.update([quote("buy", "0.48")]);
+
+		const update = await manager.update([quote("buy", "0.46")]);
+
+		expect(update.cancelled).toEqual(first.placed);
+		expect(update.placed).toHaveLength(1);
+		expect(prices(manager)).toEqual(["buy@0.46"]);
+		expect(executor.restingOrderCount()).toBe(1);
+	});
+
+	it("cancels quotes that are no longer desired", async () => {
+		const { registry, manager } = setup();
+		const first = await manager.update([quote("buy", "0.48"), quote("sell", "0.52")]);
+
+		const update = await manager.update([quote("buy", "0.48")]);
+
+		expect(update.cancelled).toEqual([first.placed[1]]);
+		const cancelledId = first.placed[1] ?? clientOrderId("missing");
+		expect(registry.get(cancelledId)?.state).toBe(PendingState.Cancelled);
+		expect(prices(manager)).toEqual(["buy@0.48"]);
+	});
+
+	it("re-places a quote once the registry reports it filled", async () => {
+		const { registry, manager } = setup();
+		const first = await manager.update([quote("buy", "0.48")]);
+		registry.updateState(first.placed[0] ?? clientOrderId("missing"), PendingState.Filled);
+
+		const update = await manager.update([quote("buy", "0.48")]);
+
+		expect(update.actions.map((a) => a.type)).toEqual(["place"]);
+		expect(manager.liveOrders()).toHaveLength(1);
+	});
+
+	it("defers churn beyond the rate limit to later updates", async () => {
+		const clock = new FakeClock(1000);
+		const rateLimiter = new TokenBucketRateLimiter({ capacity: 2, refillRate: 1, clock });
+		const { manager } = setup({ clock, rateLimiter });
+		const desired = [quote("buy", "0.48"), quote("buy", "0.47"), quote("sell", "0.52")];
+
+		const first = await manager.update(desired);
+		expect(first.placed).toHaveLength(2);
+		expect(first.deferred).toBe(1);
+
+		clock.advance(1000);
+		const second = await manager.update(desired);
+		expect(second.placed).toHaveLength(1);
+		expect(second.live).toHaveLength(3);
+	});
+
+	it("spends scarce tokens on cancels before placements", async () => {
+		const clock = new FakeClock(1000);
+		const rateLimiter = new TokenBucketRateLimiter({ capacity: 1, refillRate: 1, clock });
+		const { manager } = setup({ clock, rateLimiter });
+		await manager.update([quote("buy", "0.48")]);
+
+		clock.advance(1000);
+		const amend = await manager.update([quote("buy", "0.46")]);
+		expect(amend.cancelled).toHaveLength(1);
+		expect(amend.placed).toEqual([]);
+		expect(amend.deferred).toBe(1);
+		expect(amend.live).toEqual([]);
+
+		clock.advance(1000);
+		await manager.update([quote("buy", "0.46")]);
+		expect(prices(manager)).toEqual(["buy@0.46"]);
+	});
+
+	it("does not place a replacement when cancelling the old quote fails", async () => {
+		const { executor } = setup();
+		const failing: Executor = {
+			submit: (intent) => executor.submit(intent),
+			cancel: async () => err(new OrderRejectedError("already matched")),
+		};
+		const stuck = new QuoteManager({
+			market: MARKET,
+			executor: failing,
+			registry: OrderRegistry.create(),
+		});
+		await stuck.update([quote("buy", "0.48")]);
+
+		const update = await stuck.update([quote("buy", "0.46")]);
+
+		expect(update.errors).toEqual([expect.any(OrderRejectedError)]);
+		expect(update.placed).toEqual([]);
+		expect(prices(stuck)).toEqual(["buy@0.48"]);
+	});
+
+	it("reports quotes for tokens outside the market as errors", async () => {
+		const { manager } = setup();
+
+		const update = await manager.update([quote("buy", "0.48", "100", "other-tok")]);
+
+		expect(update.errors).toEqual([expect.any(ConfigError)]);
+		expect(update.placed).toEqual([]);
+	});
+
+	it("quotes the NO token with its own market side", async () => {
+		const submit = vi.fn();
+		const { executor, manager } = setup();
+		vi.spyOn(executor, "submitBatch").mockImplementation(async (intents) => {
+			submit(intents);
+			return [];
+		});
+
+		await manager.update([quote("buy", "0.40", "50", "no-tok")]);
+
+		expect(submit.mock.calls[0]?.[0]).toEqual([
+			expect.objectContaining({ tokenId: MARKET.noTokenId, side: "no", direction: "buy" }),
+		]);
+	});
+
+	it("cancelAll() pulls every live quote regardless of the rate limit", async () => {
+		const clock = new FakeClock(1000);
+		const rateLimiter = new TokenBucketRateLimiter({ capacity: 2, refillRate: 0, clock });
+		const { executor, manager } = setup({ clock, rateLimiter });
+		await manager.update([quote("buy", "0.48"), quote("sell", "0.52")]);
+
+		const update = await manager.cancelAll();
+
+		expect(update.cancelled).toHaveLength(2);
+		expect(update.live).toEqual([]);
+		expect(executor.restingOrderCount()).toBe(0);
+	});
+
+	it("cancelAll() spends no rate-limit tokens", async () => {
+		const clock = new FakeClock(1000);
+		const rateLimiter = new TokenBucketRateLimiter({ capacity: 3, refillRate: 0, clock });
+		const { manager } = setup({ clock, rateLimiter });
+		await manager.update([quote("buy", "0.48"), quote("sell", "0.52")]);
+
+		const pulled = await manager.cancelAll();
+		const requote = await manager.update([quote("buy", "0.47"), quote("sell", "0.53")]);
+
+		expect(pulled.deferred).toBe(0);
+		expect(requote.placed).toHaveLength(1);
+		expect(requote.deferred).toBe(1);
+	});
+});
@@ -0,0 +1,296 @@
+/**
+ * QuoteManager — keeps a market's resting quotes in line with a desired set.
+ *
+ * Each `update()` diffs the desired quotes against the manager's live orders in
+ * the OrderRegistry (via diffOrders) and executes the actions through an
+ * Executor: cancels first, then placements, with amends carried out as
+ * cancel + replace. A TokenBucketRateLimiter caps churn — every cancel and
+ * every placement costs one token, and actions without a token are deferred to
+ * a later update, cancels taking priority so exposure only ever shrinks first.
+ *
+ * `cancelAll()` is exempt from the limiter: it is the pull used when flow turns
+ * toxic, so it neither waits for nor spends tokens, and the budget left for the
+ * next `update()` is unchanged.
+ */
+
+import type { TokenInfo } from "../ctf/types.js";
+import { cancelBatch, submitBatch } from "../execution/batch.js";
+import type { Executor } from "../execution/types.js";
+import type { TokenBucketRateLimiter } from "../lib/http/rate-limiter.js";
+import { ConfigError } from "../shared/errors.js";
+import type { TradingError } from "../shared/errors.js";
+import { clientOrderId } from "../shared/identifiers.js";
+import type { ClientOrderId } from "../shared/identifiers.js";
+import { MarketSide } from "../shared/market-side.js";
+import type { Clock } from "../shared/time.js";
+import { SystemClock } from "../shared/time.js";
+import { OrderDirection } from "../signal/types.js";
+import type { SdkOrderIntent } from "../signal/types.js";
+import { diffOrders } from "./order-differ.js";
+import type { DesiredOrder, DiffAction, DiffConfig, LiveOrder } from "./order-differ.js";
+import { OrderRegistry } from "./order-registry.js";
+import { isActive } from "./pending-state-machine.js";
+import { orderKindOf } from "./time-in-force.js";
+import type { OrderKind, OrderResult } from "./types.js";
+import { PendingState } from "./types.js";
+
+/**
+ * Configuration for a QuoteManager.
+ *
+ * @example
+ * ```ts
+ * const quotes = new QuoteManager({
+ *   market: { conditionId, yesTokenId, noTokenId },
+ *   executor,
+ *   rateLimiter: new TokenBucketRateLimiter({ capacity: 10, refillRate: 2, clock }),
+ * });
+ * ```
+ */
+export interface QuoteManagerConfig {
+	/** Market whose YES/NO tokens are quoted. */
+	readonly market: TokenInfo;
+	readonly executor: Executor;
+	/** Registry holding the live quotes; shared with an OrderTracker to follow fills. */
+	readonly registry?: OrderRegistry | undefined;
+	/** Caps the cancels + placements of `update()`; unlimited when omitted. `cancelAll()` is exempt. */
+	readonly rateLimiter?: TokenBucketRateLimiter | undefined;
+	/** Tolerances below which a live quote is kept instead of replaced. */
+	readonly diff?: DiffConfig | undefined;
+	/** Time-in-force for placed quotes. Default: GTC */
+	readonly orderKind?: OrderKind | undefined;
+	readonly clock?: Clock | undefined;
+}
+
+/** Outcome of one `update()` or `cancelAll()` call. */
+export interface QuoteUpdate {
+	/** Actions computed by diffOrders, before rate limiting. */
+	readonly actions: readonly DiffAction[];
+	readonly placed: readonly ClientOrderId[];
+	/** Executor results for `placed`, in the same order; `totalFilled` covers immediate fills. */
+	readonly results: readonly OrderResult[];
+	readonly cancelled: readonly ClientOrderId[];
+	/** Cancels and placements skipped for lack of rate-limit tokens. */
+	readonly deferred: number;
+	readonly errors: readonly TradingError[];
+	/** Live quotes after the update. */
+	readonly live: readonly LiveOrder[];
+}
+
+export class QuoteManager {
+	private readonly market: TokenInfo;
+	private readonly executor: Executor;
+	private readonly registry: OrderRegistry;
+	private readonly rateLimiter: TokenBucketRateLimiter | null;
+	private readonly diffConfig: DiffConfig | undefined;
+	private readonly orderKind: OrderKind | undefined;
+	private readonly clock: Clock;
+	/** Registry ids of the quotes this manager placed. */
+	private readonly quoteIds = new Set<string>();
+
+	constructor(config: QuoteManagerConfig) {
+		this.market = config.market;
+		this.executor = config.executor;
+		this.clock = config.clock ?? SystemClock;
+		this.registry = config.registry ?? OrderRegistry.create(this.clock);
+		this.rateLimiter = config.rateLimiter ?? null;
+		this.diffConfig = config.diff;
+		this.orderKind = config.orderKind;
+	}
+
+	/**
+	 * Moves the live quotes toward `desired`, within the rate limit.
+	 * Live sizes are the original order sizes; fills are seen through the registry
+	 * once the order reaches a terminal state.
+	 */
+	async update(desired: readonly DesiredOrder[]): Promise<QuoteUpdate> {
+		const actions = diffOrders(desired, this.liveOrders(), this.diffConfig);
+
+		const toCancel: string[] = [];
+		const toPlace: DesiredOrder[] = [];
+		let deferred = 0;
+
+		for (const action of actions) {
+			if (action.type !== "cancel" && action.type !== "amend") continue;
+			if (this.acquire()) {
+				toCancel.push(action.orderId);
+			} else {
+				deferred++;
+			}
+		}
+
+		const cancelOutcome = await this.cancelQuotes(toCancel);
+		const cancelled = new Set<string>(cancelOutcome.cancelled);
+
+		for (const action of actions) {
+			let order: DesiredOrder | null = null;
+			if (action.type === "place") {
+				order = action.order;
+			} else if (action.type === "amend") {
+				const live = this.registry.get(clientOrderId(action.orderId));
+				// Replace only once the old quote is gone, never alongside it
+				if (live === null || !cancelled.has(action.orderId)) continue;
+				order = {
+					tokenId: live.tokenId as string,
+					side: live.side,
+					price: action.newPrice,
+					size: action.newSize,
+				};
+			}
+			if (order === null) continue;
+			if (this.acquire()) {
+				toPlace.push(order);
+			} else {
+				deferred++;
+			}
+		}
+
+		const placeOutcome = await this.placeQuotes(toPlace);
+
+		return {
+			actions,
+			placed: placeOutcome.placed,
+			results: placeOutcome.results,
+			cancelled: cancelOutcome.cancelled,
+			deferred,
+			errors: [...cancelOutcome.errors, ...placeOutcome.errors],
+			live: this.liveOrders(),
+		};
+	}
+
+	/**
+	 * Cancels every live quote at once, e.g. to pull quotes on toxic flow.
+	 * Exempt from the rate limiter: a pull is never deferred and spends no
+	 * tokens, so `deferred` is always 0.
+	 */
+	async cancelAll(): Promise<QuoteUpdate> {
+		const live = this.liveOrders();
+		const outcome = await this.cancelQuotes(live.map((o) => o.orderId));
+		return {
+			actions: live.map((o) => ({ type: "cancel", orderId: o.orderId, reason: "cancel all" })),
+			placed: [],
+			results: [],
+			cancelled: outcome.cancelled,
+			deferred: 0,
+			errors: outcome.errors,
+			live: this.liveOrders(),
+		};
+	}
+
+	/** Quotes placed by this manager that are still working. */
+	liveOrders(): readonly LiveOrder[] {
+		const live: LiveOrder[] = [];
+		for (const id of this.quoteIds) {
+			const order = this.registry.get(clientOrderId(id));
+			if (order === null || !isActive(order.state)) {
+				this.quoteIds.delete(id);
+				continue;
+			}
+			live.push({
+				orderId: id,
+				tokenId: order.tokenId as string,
+				side: order.side,
+				price: order.price,
+				size: order.originalSize,
+			});
+		}
+		return live;
+	}
+
+	private acquire(): boolean {
+		return this.rateLimiter === null || this.rateLimiter.tryAcquire();
+	}
+
+	private async cancelQuotes(
+		orderIds: readonly string[],
+	): Promise<{ cancelled: ClientOrderId[]; errors: TradingError[] }> {
+		const ids = orderIds.map((id) => clientOrderId(id));
+		const results = await cancelBatch(this.executor, ids);
+		const cancelled: ClientOrderId[] = [];
+		const errors: TradingError[] = [];
+		results.forEach((result, i) => {
+			const id = ids[i];
+			if (id === undefined) return;
+			if (!result.ok) {
+				errors.push(result.error);
+				return;
+			}
+			this.registry.updateState(id, PendingState.Cancelled);
+			this.quoteIds.delete(id as string);
+			cancelled.push(id);
+		});
+		return { cancelled, errors };
+	}
+
+	private async placeQuotes(
+		orders: readonly DesiredOrder[],
+	): Promise<{ placed: ClientOrderId[]; results: OrderResult[]; errors: TradingError[] }> {
+		const errors: TradingError[] = [];
+		const intents: SdkOrderIntent[] = [];
+		for (const order of orders) {
+			const intent = this.toIntent(order);
+			if (intent === null) {
+				errors.push(
+					new ConfigError("Quote token is not part of the market", {
+						tokenId: order.tokenId,
+						conditionId: this.market.conditionId,
+					}),
+				);
+			} else {
+				intents.push(intent);
+			}
+		}
+
+		const results = await submitBatch(this.executor, intents);
+		const placed: ClientOrderId[] = [];
+		const placedResults: OrderResult[] = [];
+		results.forEach((result, i) => {
+			const intent = intents[i];
+			if (intent === undefined) return;
+			if (!result.ok) {
+				errors.push(result.error);
+				return;
+			}
+			const { clientOrderId: id, exchangeOrderId, finalState } = result.value;
+			this.registry.track({
+				clientOrderId: id,
+				conditionId: intent.conditionId,
+				tokenId: intent.tokenId,
+				side: intent.direction,
+				originalSize: intent.size,
+				price: intent.price,
+				submittedAtMs: this.clock.now(),
+				state: PendingState.Submitted,
+				exchangeOrderId,
+				orderKind: orderKindOf(intent),
+				expiresAtMs: intent.expiresAtMs ?? null,
+			});
+			this.registry.updateState(id, finalState);
+			if (isActive(finalState)) {
+				this.quoteIds.add(id as string);
+			}
+			placed.push(id);
+			placedResults.push(result.value);
+		});
+		return { placed, results: placedResults, errors };
+	}
+
+	private toIntent(order: DesiredOrder): SdkOrderIntent | null {
+		const side = this.sideOf(order.tokenId);
+		if (side === null) return null;
+		const intent: SdkOrderIntent = {
+			conditionId: this.market.conditionId,
+			tokenId: side === MarketSide.Yes ? this.market.yesTokenId : this.market.noTokenId,
+			side,
+			direction: order.side === "buy" ? OrderDirection.Buy : OrderDirection.Sell,
+			price: order.price,
+			size: order.size,
+		};
+		return this.orderKind === undefined ? intent : { ...intent, orderKind: this.orderKind };
+	}
+
+	private sideOf(tokenId: string): MarketSide | null {
+		if (tokenId === (this.market.yesTokenId as string)) return MarketSide.Yes;
+		if (tokenId === (this.market.noTokenId as string)) return MarketSide.No;
+		return null;
+	}
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { Decimal } from "../shared/decimal.js";
+import { conditionId, marketTokenId } from "../shared/identifiers.js";
+import { isErr, isOk } from "../shared/result.js";
+import { buyYes } from "./order-intent.js";
+import { isExpiredAt, orderKindOf, restsOnBook, validateTimeInForce } from "./time-in-force.js";
+import { OrderKind } from "./types.js";
+
+const intent = buyYes(conditionId("c1"), marketTokenId("t1"), Decimal.from(0.5), Decimal.from(10));
+
+describe("time-in-force", () => {
+	it("defaults the order kind to GTC", () => {
+		expect(orderKindOf(intent)).toBe(OrderKind.GTC);
+		expect(orderKindOf({ ...intent, orderKind: OrderKind.FOK })).toBe(OrderKind.FOK);
+	});
+
+	it.each([
+		[OrderKind.GTC, true],
+		[OrderKind.GTD, true],
+		[OrderKind.IOC, false],
+		[OrderKind.FOK, false],
+	] as const)("restsOnBook(%s) is %s", (kind, expected) => {
+		expect(restsOnBook(kind)).toBe(expected);
+	});
+
+	it("accepts GTD orders with a future expiry", () => {
+		const gtd = { ...intent, orderKind: OrderKind.GTD, expiresAtMs: 2000 };
+		expect(isOk(validateTimeInForce(gtd, 1000))).toBe(true);
+	});
+
+	it("rejects GTD orders without an expiry or already expired", () => {
+		expect(isErr(validateTimeInForce({ ...intent, orderKind: OrderKind.GTD }, 1000))).toBe(true);
+		const stale = { ...intent, orderKind: OrderKind.GTD, expiresAtMs: 1000 };
+		expect(isErr(validateTimeInForce(stale, 1000))).toBe(true);
+	});
+
+	it("rejects an expiry on kinds that do not expire", () => {
+		expect(isOk(validateTimeInForce(intent, 1000))).toBe(true);
+		expect(isErr(validateTimeInForce({ ...intent, expiresAtMs: 2000 }, 1000))).toBe(true);
+	});
+
+	it("isExpiredAt() is true from the expiry onward", () => {
+		expect(isExpiredAt(null, 5000)).toBe(false);
+		expect(isExpiredAt(5000, 4999)).toBe(false);
+		expect(isExpiredAt(5000, 5000)).toBe(true);
+	});
+});
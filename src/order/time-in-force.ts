@@ -0,0 +1,80 @@
+/**
+ * Time-in-force — how long an order may work, per OrderKind.
+ *
+ * GTC rests until filled or cancelled, GTD rests until `expiresAtMs`, IOC fills
+ * what it can immediately and cancels the rest, FOK fills in full or not at all.
+ */
+
+import { OrderRejectedError } from "../shared/errors.js";
+import type { Result } from "../shared/result.js";
+import { err, ok } from "../shared/result.js";
+import type { SdkOrderIntent } from "../signal/types.js";
+import { OrderKind } from "./types.js";
+
+/**
+ * Returns the intent's order kind, defaulting to GTC.
+ *
+ * @example
+ * ```ts
+ * orderKindOf(buyYes(cid, tokenId, d(0.5), d(10))); // "gtc"
+ * ```
+ */
+export function orderKindOf(intent: SdkOrderIntent): OrderKind {
+	return intent.orderKind ?? OrderKind.GTC;
+}
+
+/**
+ * Checks if unfilled size of this kind rests on the book (GTC, GTD).
+ *
+ * @example
+ * ```ts
+ * restsOnBook(OrderKind.GTD); // true
+ * restsOnBook(OrderKind.IOC); // false
+ * ```
+ */
+export function restsOnBook(kind: OrderKind): boolean {
+	return kind === OrderKind.GTC || kind === OrderKind.GTD;
+}
+
+/**
+ * Validates the intent's time-in-force at submission time.
+ * GTD orders need an expiry in the future; other kinds must not carry one.
+ *
+ * @example
+ * ```ts
+ * const check = validateTimeInForce({ ...intent, orderKind: "gtd" }, clock.now());
+ * if (!check.ok) return check; // GTD order requires expiresAtMs
+ * ```
+ */
+export function validateTimeInForce(
+	intent: SdkOrderIntent,
+	nowMs: number,
+): Result<void, OrderRejectedError> {
+	const kind = orderKindOf(intent);
+	const { expiresAtMs } = intent;
+	if (kind !== OrderKind.GTD) {
+		if (expiresAtMs === undefined) return ok(undefined);
+		return err(
+			new OrderRejectedError("expiresAtMs is only valid for GTD orders", { kind, expiresAtMs }),
+		);
+	}
+	if (expiresAtMs === undefined) {
+		return err(new OrderRejectedError("GTD order requires expiresAtMs", { kind }));
+	}
+	if (expiresAtMs <= nowMs) {
+		return err(new OrderRejectedError("GTD order already expired", { expiresAtMs, nowMs }));
+	}
+	return ok(undefined);
+}
+
+/**
+ * Checks if an order with the given expiry has expired at `nowMs`.
+ *
+ * @example
+ * ```ts
+ * isExpiredAt(order.expiresAtMs, clock.now());
+ * ```
+ */
+export function isExpiredAt(expiresAtMs: number | null | undefined, nowMs: number): boolean {
+	return expiresAtMs !== null && expiresAtMs !== undefined && nowMs >= expiresAtMs;
+}
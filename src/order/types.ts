@@ -103,4 +103,7 @@ export interface PendingOrder {
 	readonly submittedAtMs: number;
 	readonly state: PendingState;
 	readonly exchangeOrderId: ExchangeOrderId | null;
+	readonly orderKind: OrderKind;
+	/** GTD expiry (epoch ms); null for kinds that do not expire. */
+	readonly expiresAtMs: number | null;
 }
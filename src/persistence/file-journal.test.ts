@@ -4,7 +4,7 @@ import { join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import { Decimal } from "../shared/decimal.js";
 import { clientOrderId, conditionId, marketTokenId } from "../shared/identifiers.js";
-import type { JournalEntry } from "../strategy/journal.js";
+import type { JournalEntry, SnapshotEntry } from "../strategy/journal.js";
 import { FileJournal } from "./file-journal.js";
 
 // ── Test data factories ─────────────────────────────────────────────
@@ -467,6 +467,98 @@ describe("FileJournal", () => {
 			expect(await exists(`${filePath}.1`)).toBe(false);
 		});
 	});
+
+	describe("snapshots and compaction", () => {
+		function opened(cid: string, timestamp: number): JournalEntry {
+			return {
+				type: "position_opened",
+				conditionId: conditionId(cid),
+				tokenId: marketTokenId("tok-1"),
+				side: "yes",
+				entryPrice: 0.55,
+				size: 10,
+				timestamp,
+			};
+		}
+
+		function types(entries: readonly unknown[]): unknown[] {
+			return entries.map((e) => (e as { type: string }).type);
+		}
+
+		it("appends a snapshot after every snapshotEvery entries", async () => {
+			const journal = FileJournal.create({ filePath, snapshotEvery: 2 });
+
+			await journal.record(opened("a", 1000));
+			await journal.record(opened("b", 2000));
+			await journal.record(makeGuardBlocked("g", 3000));
+
+			const all = await journal.restore();
+			expect(types(all.entries)).toEqual([
+				"position_opened",
+				"position_opened",
+				"snapshot",
+				"guard_blocked",
+			]);
+			const snapshot = all.entries[2] as SnapshotEntry;
+			expect(snapshot.timestamp).toBe(2000);
+			expect(snapshot.state.positions.open.map((p) => p.conditionId)).toEqual(["a", "b"]);
+
+			const latest = await journal.restoreLatest();
+			expect(types(latest.entries)).toEqual(["snapshot", "guard_blocked"]);
+		});
+
+		it("compact() drops entries before the latest snapshot and rotated segments", async () => {
+			const journal = FileJournal.create({ filePath, maxFileSizeBytes: 200, maxFiles: 5 });
+			for (let i = 0; i < 6; i++) {
+				await journal.record(makeGuardBlocked(`guard-${i}`, i * 1000));
+			}
+			await journal.writeSnapshot();
+			await journal.record(makeError(9000));
+			expect(await exists(`${filePath}.1`)).toBe(true);
+
+			const result = await journal.compact();
+
+			expect(result.linesDropped).toBe(6);
+			expect(result.linesKept).toBe(2);
+			expect(result.segmentsRemoved).toBeGreaterThan(0);
+			expect(await exists(`${filePath}.1`)).toBe(false);
+			const restored = await journal.restore();
+			expect(types(restored.entries)).toEqual(["snapshot", "error"]);
+		});
+
+		it("compact() leaves a journal without snapshots untouched", async () => {
+			const journal = FileJournal.create({ filePath });
+			await journal.record(makeGuardBlocked());
+
+			const result = await journal.compact();
+
+			expect(result).toEqual({ linesDropped: 0, linesKept: 1, segmentsRemoved: 0 });
+			expect((await journal.restore()).entries).toHaveLength(1);
+		});
+
+		it("compactOnSnapshot keeps the file bounded to the latest snapshot and tail", async () => {
+			const journal = FileJournal.create({ filePath, snapshotEvery: 3, compactOnSnapshot: true });
+			for (let i = 0; i < 10; i++) {
+				await journal.record(makeGuardBlocked(`guard-${i}`, i * 1000));
+			}
+
+			const restored = await journal.restore();
+			expect(types(restored.entries)).toEqual(["snapshot", "guard_blocked"]);
+		});
+
+		it("seeds snapshots from the existing file after a restart", async () => {
+			const first = FileJournal.create({ filePath });
+			await first.record(opened("a", 1000));
+			await first.close();
+
+			const second = FileJournal.create({ filePath, snapshotEvery: 1 });
+			await second.record(opened("b", 2000));
+
+			const latest = await second.restoreLatest();
+			const snapshot = latest.entries[0] as SnapshotEntry;
+			expect(snapshot.state.positions.open.map((p) => p.conditionId)).toEqual(["a", "b"]);
+		});
+	});
 });
 
 async function exists(path: string): Promise<boolean> {
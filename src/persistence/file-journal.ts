@@ -3,17 +3,37 @@
  *
  * Appends one JSON object per line to a file. Supports restore() to
  * read entries back, reporting corrupt lines instead of silently dropping them.
+ *
+ * Optionally appends a state snapshot every N entries; compact() then drops
+ * everything before the latest snapshot and restoreLatest() reads the
+ * snapshot plus the entries after it.
  */
 
-import { appendFile, readFile, rename } from "node:fs/promises";
+import { appendFile, readFile, rename, unlink, writeFile } from "node:fs/promises";
 import { stat } from "node:fs/promises";
-import type { Journal, JournalEntry } from "../strategy/journal.js";
+import { type Result, err, isErr, isOk, ok } from "../shared/result.js";
+import type { Journal, JournalEntry, SnapshotEntry } from "../strategy/journal.js";
+import { StateReplayer } from "../strategy/recovery.js";
 
 /** Configuration for creating a FileJournal instance. */
 export interface FileJournalConfig {
 	readonly filePath: string;
 	readonly maxFileSizeBytes?: number;
 	readonly maxFiles?: number;
+	/** Append a state snapshot after every N recorded entries. Default: never */
+	readonly snapshotEvery?: number;
+	/** Run compact() after each periodic snapshot. Default: false */
+	readonly compactOnSnapshot?: boolean;
+}
+
+/** Outcome of {@link FileJournal.compact}. */
+export interface CompactResult {
+	/** Lines before the latest snapshot that were removed. */
+	readonly linesDropped: number;
+	/** Lines kept: the latest snapshot and everything after it. */
+	readonly linesKept: number;
+	/** Rotated segment files deleted. */
+	readonly segmentsRemoved: number;
 }
 
 /** A line in the JSONL file that could not be parsed as valid JSON. */
@@ -33,6 +53,8 @@ export class FileJournal implements Journal {
 	private closed = false;
 	private writeQueue: Promise<void> = Promise.resolve();
 	private _writeErrors: Error[] = [];
+	private replayer: StateReplayer | null = null;
+	private sinceSnapshot = 0;
 
 	private constructor(config: FileJournalConfig) {
 		this.config = config;
@@ -61,14 +83,77 @@ export class FileJournal implements Journal {
 		return new FileJournal(config);
 	}
 
+	private get snapshotEvery(): number {
+		return this.config.snapshotEvery ?? 0;
+	}
+
 	async record(event: JournalEntry): Promise<void> {
 		if (this.closed) {
 			throw new Error("FileJournal is closed");
 		}
 		const line = `${JSON.stringify(event)}\n`;
-		const prev = this.writeQueue;
-		this.writeQueue = prev.catch(() => {}).then(() => this.writeOnce(line));
-		await this.writeQueue;
+		await this.enqueue(async () => {
+			if (this.snapshotEvery <= 0) {
+				await this.writeOnce(line);
+				return;
+			}
+			const replayer = await this.seededReplayer();
+			await this.writeOnce(line);
+			replayer.apply(event);
+			this.sinceSnapshot++;
+			if (this.sinceSnapshot >= this.snapshotEvery) {
+				await this.appendSnapshot(replayer, event.timestamp);
+				if (this.config.compactOnSnapshot) {
+					await this.compactNow();
+				}
+			}
+		});
+	}
+
+	/**
+	 * Appends a snapshot of the state replayed from this journal.
+	 * The first call reads the existing journal to seed the state.
+	 * @param timestampMs - Snapshot timestamp. Default: last entry timestamp, else Date.now()
+	 * @returns The snapshot entry written
+	 */
+	async writeSnapshot(timestampMs?: number): Promise<SnapshotEntry> {
+		if (this.closed) {
+			throw new Error("FileJournal is closed");
+		}
+		return this.enqueue(async () => {
+			const replayer = await this.seededReplayer();
+			const ts = timestampMs ?? replayer.state().lastTimestampMs ?? Date.now();
+			return this.appendSnapshot(replayer, ts);
+		});
+	}
+
+	/**
+	 * Rewrites the journal to start at its latest snapshot, deleting rotated
+	 * segments. Does nothing when the journal holds no snapshot.
+	 */
+	async compact(): Promise<CompactResult> {
+		return this.enqueue(() => this.compactNow());
+	}
+
+	/**
+	 * Reads the latest snapshot and the entries after it, across rotated
+	 * segments (oldest first). Without a snapshot, returns every entry.
+	 * Corrupt line numbers count non-blank lines across all segments.
+	 */
+	async restoreLatest(): Promise<RestoreResult> {
+		const lines = await this.readAllLines();
+		const start = latestSnapshotLine(lines);
+		const entries: unknown[] = [];
+		const corruptLines: CorruptLine[] = [];
+		for (let i = Math.max(start, 0); i < lines.length; i++) {
+			const parsed = parseLine(lines[i] ?? "", i + 1);
+			if (isErr(parsed)) {
+				corruptLines.push(parsed.error);
+			} else if (parsed.value !== undefined) {
+				entries.push(parsed.value);
+			}
+		}
+		return { entries, corruptLines };
 	}
 
 	/**
@@ -95,14 +180,11 @@ export class FileJournal implements Journal {
 		const corruptLines: CorruptLine[] = [];
 
 		for (let i = 0; i < lines.length; i++) {
-			const trimmed = lines[i]?.trim() ?? "";
-			if (trimmed.length === 0) {
-				continue;
-			}
-			try {
-				entries.push(JSON.parse(trimmed));
-			} catch {
-				corruptLines.push({ lineNumber: i + 1, raw: trimmed.slice(0, 200) });
+			const parsed = parseLine(lines[i] ?? "", i + 1);
+			if (isErr(parsed)) {
+				corruptLines.push(parsed.error);
+			} else if (parsed.value !== undefined) {
+				entries.push(parsed.value);
 			}
 		}
 
@@ -125,6 +207,91 @@ export class FileJournal implements Journal {
 		return this._writeErrors;
 	}
 
+	private enqueue<T>(task: () => Promise<T>): Promise<T> {
+		const run = this.writeQueue.catch(() => {}).then(task);
+		this.writeQueue = run.then(
+			() => {},
+			() => {},
+		);
+		return run;
+	}
+
+	/** Replayer holding the journal's state, seeded from the file on first use. */
+	private async seededReplayer(): Promise<StateReplayer> {
+		if (this.replayer) {
+			return this.replayer;
+		}
+		const replayer = StateReplayer.create();
+		const { entries } = await this.restoreLatest();
+		for (const entry of entries) {
+			replayer.apply(entry);
+		}
+		this.replayer = replayer;
+		return replayer;
+	}
+
+	private async appendSnapshot(
+		replayer: StateReplayer,
+		timestampMs: number,
+	): Promise<SnapshotEntry> {
+		const snapshot = replayer.snapshot(timestampMs);
+		await this.writeOnce(`${JSON.stringify(snapshot)}\n`);
+		this.sinceSnapshot = 0;
+		return snapshot;
+	}
+
+	private async compactNow(): Promise<CompactResult> {
+		const lines = await this.readAllLines();
+		const start = latestSnapshotLine(lines);
+		if (start < 0) {
+			return { linesDropped: 0, linesKept: lines.length, segmentsRemoved: 0 };
+		}
+
+		const kept = lines.slice(start);
+		const tmpPath = `${this.filePath}.compact`;
+		await writeFile(tmpPath, `${kept.join("\n")}\n`, "utf-8");
+		await rename(tmpPath, this.filePath);
+
+		const rotated = await this.rotatedSegments();
+		for (const segment of rotated) {
+			await unlink(segment);
+		}
+		return { linesDropped: start, linesKept: kept.length, segmentsRemoved: rotated.length };
+	}
+
+	/** Non-empty lines of every segment, oldest first. */
+	private async readAllLines(): Promise<string[]> {
+		const files = [...(await this.rotatedSegments()).reverse(), this.filePath];
+		const lines: string[] = [];
+		for (const file of files) {
+			let content: string;
+			try {
+				content = await readFile(file, "utf-8");
+			} catch (err: unknown) {
+				if (isNodeError(err) && err.code === "ENOENT") {
+					continue;
+				}
+				throw err;
+			}
+			for (const line of content.split("\n")) {
+				const trimmed = line.trim();
+				if (trimmed.length > 0) {
+					lines.push(trimmed);
+				}
+			}
+		}
+		return lines;
+	}
+
+	/** Existing rotated segments, newest (`.1`) first. */
+	private async rotatedSegments(): Promise<string[]> {
+		const segments: string[] = [];
+		for (let i = 1; await exists(`${this.filePath}.${i}`); i++) {
+			segments.push(`${this.filePath}.${i}`);
+		}
+		return segments;
+	}
+
 	private async writeOnce(line: string): Promise<void> {
 		try {
 			if (this.maxFileSizeBytes !== undefined && this.maxFileSizeBytes > 0) {
@@ -186,6 +353,44 @@ export class FileJournal implements Journal {
 	}
 }
 
+/** Parses one JSONL line; blank lines yield `undefined`. */
+function parseLine(line: string, lineNumber: number): Result<unknown, CorruptLine> {
+	const trimmed = line.trim();
+	if (trimmed.length === 0) {
+		return ok(undefined);
+	}
+	try {
+		return ok(JSON.parse(trimmed));
+	} catch {
+		return err({ lineNumber, raw: trimmed.slice(0, 200) });
+	}
+}
+
+/** Index of the last line holding a snapshot entry, or -1. */
+function latestSnapshotLine(lines: readonly string[]): number {
+	for (let i = lines.length - 1; i >= 0; i--) {
+		const line = lines[i] ?? "";
+		if (!line.includes('"snapshot"')) continue;
+		const parsed = parseLine(line, i + 1);
+		if (isOk(parsed) && (parsed.value as { type?: unknown } | null)?.type === "snapshot") {
+			return i;
+		}
+	}
+	return -1;
+}
+
+async function exists(path: string): Promise<boolean> {
+	try {
+		await stat(path);
+		return true;
+	} catch (err: unknown) {
+		if (isNodeError(err) && err.code === "ENOENT") {
+			return false;
+		}
+		throw err;
+	}
+}
+
 function isNodeError(err: unknown): err is NodeJS.ErrnoException {
 	return err instanceof Error && "code" in err;
 }
@@ -1,3 +1,24 @@
 export { FileJournal } from "./file-journal.js";
-export type { CorruptLine, FileJournalConfig, RestoreResult } from "./file-journal.js";
+export type {
+	CompactResult,
+	CorruptLine,
+	FileJournalConfig,
+	RestoreResult,
+} from "./file-journal.js";
+export { MarketTapeReader, MarketTapeRecorder, TAPE_VERSION } from "./market-tape.js";
+export type { MarketTapeConfig, TapeCorruptLine } from "./market-tape.js";
 export { MemoryJournal } from "./memory-journal.js";
+export { SQLITE_JOURNAL_SCHEMA_VERSION, SqliteJournal } from "./sqlite-journal.js";
+export type {
+	ExitReasonSummary,
+	GuardBlockQuery,
+	JournalFillRow,
+	JournalGuardBlockRow,
+	JournalOrderRow,
+	JournalPositionRow,
+	JournalQuery,
+	PositionQuery,
+	SqliteDatabase,
+	SqliteJournalConfig,
+	SqliteStatement,
+} from "./sqlite-journal.js";
@@ -0,0 +1,361 @@
+import { appendFile, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { runStrategyBacktest } from "../backtest/strategy-engine.js";
+import type { OrderbookSnapshot } from "../market/types.js";
+import { Decimal } from "../shared/decimal.js";
+import { ConfigError } from "../shared/errors.js";
+import { conditionId, exchangeOrderId, marketTokenId } from "../shared/identifiers.js";
+import type { MarketTokenId } from "../shared/identifiers.js";
+import { MarketSide } from "../shared/market-side.js";
+import { ExitPipeline } from "../signal/exit-pipeline.js";
+import { CrossSpreadExitPricer } from "../signal/exit-pricing.js";
+import { OrderDirection } from "../signal/types.js";
+import type { SignalDetector } from "../signal/types.js";
+import { StrategyBuilder } from "../strategy/strategy-builder.js";
+import type { WsMessage } from "../websocket/types.js";
+import { MarketTapeReader, MarketTapeRecorder, TAPE_VERSION } from "./market-tape.js";
+
+const CID = conditionId("tape-market");
+const OTHER = conditionId("other-market");
+
+function book(
+	timestampMs: number,
+	bids: [string, string][],
+	asks: [string, string][],
+	cid = CID,
+): WsMessage {
+	return {
+		type: "book_update",
+		conditionId: cid,
+		bids: bids.map(([price, size]) => ({ price, size })),
+		asks: asks.map(([price, size]) => ({ price, size })),
+		timestampMs,
+	};
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+	const out: T[] = [];
+	for await (const item of iterable) {
+		out.push(item);
+	}
+	return out;
+}
+
+describe("MarketTapeRecorder / MarketTapeReader", () => {
+	let tmpDir: string;
+	let filePath: string;
+
+	beforeEach(async () => {
+		tmpDir = await mkdtemp(join(tmpdir(), "market-tape-"));
+		filePath = join(tmpDir, "market.tape");
+	});
+
+	afterEach(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it("roundtrips every message variant in write order", async () => {
+		const messages: WsMessage[] = [
+			book(1000, [["0.44", "100"]], [["0.46", "50"]]),
+			{
+				type: "user_fill",
+				orderId: exchangeOrderId("ex-1"),
+				filledSize: "10",
+				fillPrice: "0.46",
+				timestampMs: 1001,
+			},
+			{
+				type: "user_order_status",
+				orderId: exchangeOrderId("ex-1"),
+				status: "MATCHED",
+				timestampMs: 1002,
+			},
+			{ type: "heartbeat", timestampMs: 1003 },
+			{
+				type: "book_snapshot",
+				conditionId: CID,
+				assetId: marketTokenId("tok-yes"),
+				bids: [{ price: "0.45", size: "10" }],
+				asks: [],
+				timestampMs: 1004,
+				hash: "0xabc",
+				sequence: 41,
+			},
+			{
+				type: "book_update",
+				conditionId: CID,
+				assetId: marketTokenId("tok-yes"),
+				bids: [],
+				asks: [{ price: "0.47", size: "5" }],
+				timestampMs: 1005,
+				hash: "0xdef",
+				sequence: 42,
+			},
+			{
+				type: "trade",
+				conditionId: CID,
+				assetId: marketTokenId("tok-yes"),
+				side: OrderDirection.Sell,
+				price: "0.45",
+				size: "3",
+				timestampMs: 1006,
+			},
+			{
+				type: "tick_size_change",
+				conditionId: CID,
+				assetId: marketTokenId("tok-yes"),
+				oldTickSize: "0.01",
+				newTickSize: "0.001",
+				timestampMs: 1007,
+			},
+		];
+		const recorder = MarketTapeRecorder.create({ filePath });
+		await recorder.record(messages.slice(0, 2));
+		await recorder.record(messages.slice(2));
+		await recorder.close();
+
+		expect(await collect(MarketTapeReader.open(filePath).messages())).toEqual(messages);
+	});
+
+	it("writes a versioned header followed by one compact tuple per message", async () => {
+		const recorder = MarketTapeRecorder.create({ filePath });
+		await recorder.record([
+			book(1000, [["0.44", "100"]], []),
+			{ type: "heartbeat", timestampMs: 2 },
+		]);
+
+		const lines = (await readFile(filePath, "utf-8")).split("\n").filter((l) => l.length > 0);
+		expect(JSON.parse(lines[0] ?? "")).toEqual({ format: "polybot-tape", version: TAPE_VERSION });
+		expect(JSON.parse(lines[1] ?? "")).toEqual(["b", 1000, CID, [["0.44", "100"]], []]);
+		expect(JSON.parse(lines[2] ?? "")).toEqual(["h", 2]);
+	});
+
+	it("ignores empty batches and rejects records after close()", async () => {
+		const recorder = MarketTapeRecorder.create({ filePath });
+		await recorder.record([]);
+		expect(await collect(MarketTapeReader.open(filePath).messages())).toEqual([]);
+
+		await recorder.close();
+		await expect(recorder.record([{ type: "heartbeat", timestampMs: 1 }])).rejects.toThrow(
+			"closed",
+		);
+	});
+
+	it("rotates like FileJournal and reads segments back oldest-first", async () => {
+		const recorder = MarketTapeRecorder.create({ filePath, maxFileSizeBytes: 60, maxFiles: 10 });
+		for (let i = 0; i < 6; i++) {
+			await recorder.record([{ type: "heartbeat", timestampMs: i }]);
+		}
+
+		const rotated = await readFile(`${filePath}.1`, "utf-8");
+		expect(rotated.startsWith('{"format":"polybot-tape"')).toBe(true);
+		const stamps = (await collect(MarketTapeReader.open(filePath).messages())).map(
+			(m) => m.timestampMs,
+		);
+		expect(stamps).toEqual([0, 1, 2, 3, 4, 5]);
+	});
+
+	it("skips corrupt lines and reports them with their segment", async () => {
+		const recorder = MarketTapeRecorder.create({ filePath });
+		await recorder.record([{ type: "heartbeat", timestampMs: 1 }]);
+		await appendFile(filePath, '["b", 2, "x"]\nnot json\n');
+		await recorder.record([{ type: "heartbeat", timestampMs: 3 }]);
+
+		const reader = MarketTapeReader.open(filePath);
+		const stamps = (await collect(reader.messages())).map((m) => m.timestampMs);
+
+		expect(stamps).toEqual([1, 3]);
+		expect(reader.corruptLines()).toEqual([
+			{ file: filePath, lineNumber: 3, raw: '["b", 2, "x"]' },
+			{ file: filePath, lineNumber: 4, raw: "not json" },
+		]);
+	});
+
+	it("rejects files without a tape header or with a newer version", async () => {
+		await writeFile(filePath, '{"type":"guard_blocked"}\n');
+		await expect(collect(MarketTapeReader.open(filePath).messages())).rejects.toBeInstanceOf(
+			ConfigError,
+		);
+
+		await writeFile(filePath, `${JSON.stringify({ format: "polybot-tape", version: 99 })}\n`);
+		await expect(collect(MarketTapeReader.open(filePath).messages())).rejects.toThrow(
+			"Unsupported market tape version",
+		);
+	});
+
+	it("returns nothing for a tape that was never written", async () => {
+		expect(await collect(MarketTapeReader.open(filePath).messages())).toEqual([]);
+	});
+
+	describe("derived streams", () => {
+		async function recordSession(): Promise<void> {
+			const recorder = MarketTapeRecorder.create({ filePath });
+			await recorder.record([
+				book(1000, [["0.44", "100"]], []),
+				book(1500, [["0.10", "5"]], [["0.90", "5"]], OTHER),
+				book(2000, [], [["0.46", "50"]]),
+				{ type: "heartbeat", timestampMs: 2500 },
+				book(
+					3000,
+					[
+						["0.44", "0"],
+						["0.58", "20"],
+					],
+					[
+						["0.46", "0"],
+						["0.60", "30"],
+					],
+				),
+			]);
+		}
+
+		it("snapshots() applies deltas per market and stamps each book", async () => {
+			await recordSession();
+			const books = await collect(MarketTapeReader.open(filePath).snapshots(CID));
+
+			expect(books.map((b) => b.timestampMs)).toEqual([1000, 2000, 3000]);
+			const last = books[2];
+			expect(last?.bids.map((l) => l.price.toString())).toEqual(["0.58"]);
+			expect(last?.asks.map((l) => [l.price.toString(), l.size.toString()])).toEqual([
+				["0.6", "30"],
+			]);
+		});
+
+		it("snapshots() restarts the book from a recorded snapshot", async () => {
+			await recordSession();
+			const recorder = MarketTapeRecorder.create({ filePath });
+			await recorder.record([
+				{
+					type: "book_snapshot",
+					conditionId: CID,
+					assetId: marketTokenId("tok-yes"),
+					bids: [{ price: "0.40", size: "7" }],
+					asks: [],
+					timestampMs: 4000,
+					hash: "0xabc",
+				},
+			]);
+
+			const books = await collect(MarketTapeReader.open(filePath).snapshots(CID));
+
+			const last = books[books.length - 1];
+			expect(last?.timestampMs).toBe(4000);
+			expect(last?.bids.map((l) => l.price.toString())).toEqual(["0.4"]);
+			expect(last?.asks).toEqual([]);
+		});
+
+		it("snapshots() keeps a separate book per token of a market", async () => {
+			const yes = marketTokenId("tok-yes");
+			const no = marketTokenId("tok-no");
+			const snapshot = (assetId: MarketTokenId, bid: string, ask: string, ts: number) => ({
+				type: "book_snapshot" as const,
+				conditionId: CID,
+				assetId,
+				bids: [{ price: bid, size: "10" }],
+				asks: [{ price: ask, size: "10" }],
+				timestampMs: ts,
+				hash: "0x0",
+			});
+			const recorder = MarketTapeRecorder.create({ filePath });
+			await recorder.record([
+				snapshot(yes, "0.48", "0.52", 1000),
+				snapshot(no, "0.47", "0.53", 1001),
+				{
+					type: "book_update",
+					conditionId: CID,
+					assetId: no,
+					bids: [{ price: "0.49", size: "5" }],
+					asks: [],
+					timestampMs: 1002,
+				},
+				{
+					type: "book_update",
+					conditionId: CID,
+					assetId: yes,
+					bids: [],
+					asks: [{ price: "0.51", size: "5" }],
+					timestampMs: 1003,
+				},
+			]);
+			const reader = MarketTapeReader.open(filePath);
+			const touch = (b: OrderbookSnapshot) => [
+				b.bids[0]?.price.toString(),
+				b.asks[0]?.price.toString(),
+			];
+
+			const noBooks = await collect(reader.snapshots(CID, no));
+			const yesTicks = await collect(reader.replayTicks(CID, MarketSide.Yes, yes));
+
+			expect(noBooks.map(touch)).toEqual([
+				["0.47", "0.53"],
+				["0.49", "0.53"],
+			]);
+			expect(yesTicks.map((t) => [t.timestampMs, t.bid.toString(), t.ask.toString()])).toEqual([
+				[1000, "0.48", "0.52"],
+				[1003, "0.48", "0.51"],
+			]);
+			// Without a token the first one recorded is followed
+			expect((await collect(reader.snapshots(CID))).map(touch)).toEqual([
+				["0.48", "0.52"],
+				["0.48", "0.51"],
+			]);
+		});
+
+		it("replayTicks() emits top of book once both sides are quoted", async () => {
+			await recordSession();
+			const ticks = await collect(MarketTapeReader.open(filePath).replayTicks(CID, MarketSide.No));
+
+			expect(ticks.map((t) => [t.timestampMs, t.bid.toNumber(), t.ask.toNumber()])).toEqual([
+				[2000, 0.44, 0.46],
+				[3000, 0.58, 0.6],
+			]);
+			expect(ticks[0]?.side).toBe(MarketSide.No);
+			expect(ticks[0]?.conditionId).toBe(CID);
+		});
+
+		it("replayTicks() feed runStrategyBacktest directly", async () => {
+			await recordSession();
+			const detector: SignalDetector<unknown, Decimal> = {
+				name: "buy-below",
+				detectEntry(ctx) {
+					if (ctx.hasPosition(ctx.conditionId)) return null;
+					const ask = ctx.bestAsk(MarketSide.Yes);
+					return ask?.lt(Decimal.from("0.50")) ? ask : null;
+				},
+				toOrder(ask, ctx) {
+					return {
+						conditionId: ctx.conditionId,
+						tokenId: marketTokenId("tape-yes"),
+						side: MarketSide.Yes,
+						direction: OrderDirection.Buy,
+						price: ask,
+						size: Decimal.from(10),
+					};
+				},
+			};
+			const exits = ExitPipeline.create().with({
+				name: "take-profit",
+				shouldExit: (_position, ctx) => {
+					const spot = ctx.spot(MarketSide.Yes);
+					return spot?.gt(Decimal.from("0.55")) ? { type: "take_profit", roi: spot } : null;
+				},
+			});
+			const builder = StrategyBuilder.create()
+				.withDetector(detector)
+				.withExits(exits)
+				.withExitPricing(CrossSpreadExitPricer.create());
+
+			const result = await runStrategyBacktest(
+				{ initialBalance: Decimal.from(1000), conditionId: CID },
+				MarketTapeReader.open(filePath).replayTicks(CID),
+				builder,
+			);
+
+			expect(result.tradeCount).toBe(1);
+			// bought 10 @ 0.46, sold @ 0.58
+			expect(result.totalPnl.eq(Decimal.from("1.2"))).toBe(true);
+		});
+	});
+});
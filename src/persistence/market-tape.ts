@@ -0,0 +1,512 @@
+/**
+ * Market tape — versioned, append-only JSONL capture of WebSocket market data.
+ *
+ * MarketTapeRecorder appends drained WsMessages (book updates and snapshots,
+ * trades, tick size changes, user fills, order status, heartbeats) as compact
+ * tuples, rotating files like FileJournal.
+ * MarketTapeReader reads the rotated segments back oldest-first and rebuilds
+ * OrderbookSnapshot / ReplayTick streams for the backtest engines.
+ *
+ * File layout: the first line of every segment is a header
+ * `{"format":"polybot-tape","version":3}`; each following line is one message:
+ *
+ *   ["b", ts, conditionId, [[price, size], ...bids], [[price, size], ...asks], assetId?, hash?, sequence?]
+ *   ["s", ts, conditionId, assetId, [[price, size], ...bids], [[price, size], ...asks], hash, sequence?]
+ *   ["t", ts, conditionId, assetId, side, price, size]
+ *   ["k", ts, conditionId, assetId, oldTickSize, newTickSize]
+ *   ["f", ts, orderId, filledSize, fillPrice]
+ *   ["o", ts, orderId, status]
+ *   ["h", ts]
+ *
+ * Version 2 added the "s", "t" and "k" lines and the optional book update fields;
+ * version 3 added the trailing sequence number on "b" and "s" lines.
+ */
+
+import { appendFile, readFile, rename, stat } from "node:fs/promises";
+import type { ReplayTick } from "../backtest/types.js";
+import { applyDelta, bestAsk, bestBid } from "../market/orderbook.js";
+import type { OrderbookLevel, OrderbookSnapshot } from "../market/types.js";
+import { Decimal } from "../shared/decimal.js";
+import { ConfigError } from "../shared/errors.js";
+import {
+	type ConditionId,
+	type MarketTokenId,
+	conditionId,
+	exchangeOrderId,
+	marketTokenId,
+} from "../shared/identifiers.js";
+import { MarketSide } from "../shared/market-side.js";
+import { OrderDirection } from "../signal/types.js";
+import type { WsMessage } from "../websocket/types.js";
+import type { CorruptLine } from "./file-journal.js";
+
+/** Current tape format version written by MarketTapeRecorder. */
+export const TAPE_VERSION = 3;
+
+const TAPE_FORMAT = "polybot-tape";
+
+/** Configuration for creating a MarketTapeRecorder. */
+export interface MarketTapeConfig {
+	readonly filePath: string;
+	readonly maxFileSizeBytes?: number;
+	readonly maxFiles?: number;
+}
+
+/** A tape line that could not be decoded, with the segment it came from. */
+export interface TapeCorruptLine extends CorruptLine {
+	readonly file: string;
+}
+
+type Level = readonly [string, string];
+
+type TapeLine =
+	| readonly ["b", number, string, readonly Level[], readonly Level[]]
+	| readonly [
+			"b",
+			number,
+			string,
+			readonly Level[],
+			readonly Level[],
+			string | null,
+			string | null,
+			...([] | [number]),
+	  ]
+	| readonly [
+			"s",
+			number,
+			string,
+			string,
+			readonly Level[],
+			readonly Level[],
+			string,
+			...([] | [number]),
+	  ]
+	| readonly ["t", number, string, string, OrderDirection, string, string]
+	| readonly ["k", number, string, string, string, string]
+	| readonly ["f", number, string, string, string]
+	| readonly ["o", number, string, string]
+	| readonly ["h", number];
+
+export class MarketTapeRecorder {
+	private readonly config: MarketTapeConfig;
+	private closed = false;
+	private writeQueue: Promise<void> = Promise.resolve();
+	private _writeErrors: Error[] = [];
+
+	private constructor(config: MarketTapeConfig) {
+		this.config = config;
+	}
+
+	private get filePath(): string {
+		return this.config.filePath;
+	}
+
+	private get maxFiles(): number {
+		if (this.config.maxFiles !== undefined) {
+			return this.config.maxFiles;
+		}
+		return this.config.maxFileSizeBytes !== undefined ? 5 : 0;
+	}
+
+	/**
+	 * Creates a recorder appending to the specified file path.
+	 * @param config - Target file path and optional rotation limits
+	 */
+	static create(config: MarketTapeConfig): MarketTapeRecorder {
+		return new MarketTapeRecorder(config);
+	}
+
+	/**
+	 * Appends a batch of messages (typically the result of WsManager.drain()).
+	 * The batch is written with a single append; empty batches are ignored.
+	 */
+	async record(messages: readonly WsMessage[]): Promise<void> {
+		if (this.closed) {
+			throw new Error("MarketTapeRecorder is closed");
+		}
+		if (messages.length === 0) {
+			return;
+		}
+		const lines = messages.map((m) => `${JSON.stringify(encode(m))}\n`).join("");
+		const prev = this.writeQueue;
+		this.writeQueue = prev.catch(() => {}).then(() => this.writeOnce(lines));
+		await this.writeQueue;
+	}
+
+	/** Marks the recorder as closed, draining any pending writes first. */
+	async close(): Promise<void> {
+		this.closed = true;
+		await this.writeQueue.catch(() => {});
+	}
+
+	/** Waits for all pending writes to complete. */
+	async flush(): Promise<void> {
+		await this.writeQueue.catch(() => {});
+	}
+
+	/** Returns the last 10 write errors. */
+	writeErrors(): readonly Error[] {
+		return this._writeErrors;
+	}
+
+	private async writeOnce(lines: string): Promise<void> {
+		try {
+			const size = await this.currentSize();
+			const maxSize = this.config.maxFileSizeBytes;
+			let fresh = size === 0;
+			if (maxSize !== undefined && maxSize > 0 && size >= maxSize) {
+				await this.rotate();
+				fresh = true;
+			}
+			const header = fresh
+				? `${JSON.stringify({ format: TAPE_FORMAT, version: TAPE_VERSION })}\n`
+				: "";
+			await appendFile(this.filePath, header + lines, "utf-8");
+		} catch (err: unknown) {
+			const code = isNodeError(err) ? err.code : "UNKNOWN";
+			const msg = err instanceof Error ? err.message : String(err);
+			const error = new Error(
+				`MarketTapeRecorder write to ${this.filePath} failed: [${code}] ${msg}`,
+			);
+			this._writeErrors.push(error);
+			if (this._writeErrors.length > 10) {
+				this._writeErrors.shift();
+			}
+			throw error;
+		}
+	}
+
+	private async currentSize(): Promise<number> {
+		try {
+			return (await stat(this.filePath)).size;
+		} catch (err: unknown) {
+			if (isNodeError(err) && err.code === "ENOENT") {
+				return 0;
+			}
+			throw err;
+		}
+	}
+
+	private async rotate(): Promise<void> {
+		for (let i = this.maxFiles - 1; i >= 1; i--) {
+			const src = `${this.filePath}.${i}`;
+			const dst = `${this.filePath}.${i + 1}`;
+			try {
+				await rename(src, dst);
+			} catch (err: unknown) {
+				if (!isNodeError(err) || err.code !== "ENOENT") {
+					throw err;
+				}
+			}
+		}
+
+		try {
+			await rename(this.filePath, `${this.filePath}.1`);
+		} catch (err: unknown) {
+			if (!isNodeError(err) || err.code !== "ENOENT") {
+				throw err;
+			}
+		}
+	}
+}
+
+/**
+ * Reads a tape (including rotated segments) back as WsMessages and derived market data.
+ *
+ * @example
+ * ```ts
+ * const reader = MarketTapeReader.open("data/btc.tape");
+ * const ticks = reader.replayTicks(cid);
+ * const result = await runStrategyBacktest({ initialBalance, conditionId: cid }, ticks, builder);
+ * ```
+ */
+export class MarketTapeReader {
+	private readonly filePath: string;
+	private readonly _corruptLines: TapeCorruptLine[] = [];
+
+	private constructor(filePath: string) {
+		this.filePath = filePath;
+	}
+
+	/**
+	 * Opens the tape written at `filePath`; rotated segments `filePath.N … filePath.1`
+	 * are read before `filePath` itself.
+	 */
+	static open(filePath: string): MarketTapeReader {
+		return new MarketTapeReader(filePath);
+	}
+
+	/** Lines skipped as undecodable during iteration so far. */
+	corruptLines(): readonly TapeCorruptLine[] {
+		return this._corruptLines;
+	}
+
+	/**
+	 * Yields every recorded message in write order.
+	 * @throws ConfigError if a segment is not a tape or has a newer version than TAPE_VERSION
+	 */
+	async *messages(): AsyncGenerator<WsMessage> {
+		for (const file of await this.segments()) {
+			const content = await readFile(file, "utf-8");
+			const lines = content.split("\n");
+			checkHeader(file, lines[0] ?? "");
+
+			for (let i = 1; i < lines.length; i++) {
+				const trimmed = lines[i]?.trim() ?? "";
+				if (trimmed.length === 0) {
+					continue;
+				}
+				const message = decode(trimmed);
+				if (message === null) {
+					this._corruptLines.push({ file, lineNumber: i + 1, raw: trimmed.slice(0, 200) });
+					continue;
+				}
+				yield message;
+			}
+		}
+	}
+
+	/**
+	 * Yields the full book of one token of `cid` after each of its book updates
+	 * and snapshots. A market's YES and NO tokens are recorded under the same
+	 * condition id, so each has its own book. Without `tokenId` the first token
+	 * recorded for the market is followed; messages without an assetId always apply.
+	 */
+	async *snapshots(cid: ConditionId, tokenId?: MarketTokenId): AsyncGenerator<OrderbookSnapshot> {
+		let book: OrderbookSnapshot = { bids: [], asks: [], timestampMs: 0 };
+		let token: string | undefined = tokenId;
+		for await (const msg of this.messages()) {
+			if ((msg.type !== "book_update" && msg.type !== "book_snapshot") || msg.conditionId !== cid) {
+				continue;
+			}
+			if (msg.assetId !== undefined) {
+				token ??= msg.assetId;
+				if (msg.assetId !== token) continue;
+			}
+			const base = msg.type === "book_snapshot" ? { bids: [], asks: [], timestampMs: 0 } : book;
+			const delta = { bids: toLevels(msg.bids), asks: toLevels(msg.asks) };
+			book = { ...applyDelta(base, delta), timestampMs: msg.timestampMs };
+			yield book;
+		}
+	}
+
+	/**
+	 * Yields a top-of-book ReplayTick for `cid` whenever both sides of the
+	 * token's book are quoted. `tokenId` picks the token as in snapshots().
+	 */
+	async *replayTicks(
+		cid: ConditionId,
+		side: MarketSide = MarketSide.Yes,
+		tokenId?: MarketTokenId,
+	): AsyncGenerator<ReplayTick> {
+		for await (const book of this.snapshots(cid, tokenId)) {
+			const bid = bestBid(book);
+			const ask = bestAsk(book);
+			if (bid === null || ask === null) {
+				continue;
+			}
+			yield { timestampMs: book.timestampMs, bid, ask, side, conditionId: cid };
+		}
+	}
+
+	private async segments(): Promise<string[]> {
+		const rotated: string[] = [];
+		for (let i = 1; await exists(`${this.filePath}.${i}`); i++) {
+			rotated.push(`${this.filePath}.${i}`);
+		}
+		const files = rotated.reverse();
+		if (await exists(this.filePath)) {
+			files.push(this.filePath);
+		}
+		return files;
+	}
+}
+
+function encode(msg: WsMessage): TapeLine {
+	switch (msg.type) {
+		case "book_update": {
+			const bids = msg.bids.map((l) => [l.price, l.size] as const);
+			const asks = msg.asks.map((l) => [l.price, l.size] as const);
+			if (msg.assetId === undefined && msg.hash === undefined && msg.sequence === undefined) {
+				return ["b", msg.timestampMs, msg.conditionId, bids, asks];
+			}
+			return [
+				"b",
+				msg.timestampMs,
+				msg.conditionId,
+				bids,
+				asks,
+				msg.assetId ?? null,
+				msg.hash ?? null,
+				...(msg.sequence === undefined ? ([] as const) : ([msg.sequence] as const)),
+			];
+		}
+		case "book_snapshot":
+			return [
+				"s",
+				msg.timestampMs,
+				msg.conditionId,
+				msg.assetId,
+				msg.bids.map((l) => [l.price, l.size] as const),
+				msg.asks.map((l) => [l.price, l.size] as const),
+				msg.hash,
+				...(msg.sequence === undefined ? ([] as const) : ([msg.sequence] as const)),
+			];
+		case "trade":
+			return ["t", msg.timestampMs, msg.conditionId, msg.assetId, msg.side, msg.price, msg.size];
+		case "tick_size_change":
+			return ["k", msg.timestampMs, msg.conditionId, msg.assetId, msg.oldTickSize, msg.newTickSize];
+		case "user_fill":
+			return ["f", msg.timestampMs, msg.orderId, msg.filledSize, msg.fillPrice];
+		case "user_order_status":
+			return ["o", msg.timestampMs, msg.orderId, msg.status];
+		case "heartbeat":
+			return ["h", msg.timestampMs];
+	}
+}
+
+function decode(line: string): WsMessage | null {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(line);
+	} catch {
+		return null;
+	}
+	if (!Array.isArray(parsed) || typeof parsed[1] !== "number") {
+		return null;
+	}
+	const timestampMs = parsed[1];
+	const [tag, , a, b, c, d, e, f] = parsed as unknown[];
+
+	if (tag === "b" && typeof a === "string" && isLevels(b) && isLevels(c)) {
+		return {
+			type: "book_update",
+			conditionId: conditionId(a),
+			bids: b.map(([price, size]) => ({ price, size })),
+			asks: c.map(([price, size]) => ({ price, size })),
+			timestampMs,
+			...(typeof d === "string" && { assetId: marketTokenId(d) }),
+			...(typeof e === "string" && { hash: e }),
+			...(typeof f === "number" && { sequence: f }),
+		};
+	}
+	if (
+		tag === "s" &&
+		typeof a === "string" &&
+		typeof b === "string" &&
+		isLevels(c) &&
+		isLevels(d) &&
+		typeof e === "string"
+	) {
+		return {
+			type: "book_snapshot",
+			conditionId: conditionId(a),
+			assetId: marketTokenId(b),
+			bids: c.map(([price, size]) => ({ price, size })),
+			asks: d.map(([price, size]) => ({ price, size })),
+			timestampMs,
+			hash: e,
+			...(typeof f === "number" && { sequence: f }),
+		};
+	}
+	if (
+		tag === "t" &&
+		typeof a === "string" &&
+		typeof b === "string" &&
+		(c === OrderDirection.Buy || c === OrderDirection.Sell) &&
+		typeof d === "string" &&
+		typeof e === "string"
+	) {
+		return {
+			type: "trade",
+			conditionId: conditionId(a),
+			assetId: marketTokenId(b),
+			side: c,
+			price: d,
+			size: e,
+			timestampMs,
+		};
+	}
+	if (
+		tag === "k" &&
+		typeof a === "string" &&
+		typeof b === "string" &&
+		typeof c === "string" &&
+		typeof d === "string"
+	) {
+		return {
+			type: "tick_size_change",
+			conditionId: conditionId(a),
+			assetId: marketTokenId(b),
+			oldTickSize: c,
+			newTickSize: d,
+			timestampMs,
+		};
+	}
+	if (tag === "f" && typeof a === "string" && typeof b === "string" && typeof c === "string") {
+		return {
+			type: "user_fill",
+			orderId: exchangeOrderId(a),
+			filledSize: b,
+			fillPrice: c,
+			timestampMs,
+		};
+	}
+	if (tag === "o" && typeof a === "string" && typeof b === "string") {
+		return { type: "user_order_status", orderId: exchangeOrderId(a), status: b, timestampMs };
+	}
+	if (tag === "h") {
+		return { type: "heartbeat", timestampMs };
+	}
+	return null;
+}
+
+function isLevels(value: unknown): value is Level[] {
+	return (
+		Array.isArray(value) &&
+		value.every(
+			(l) =>
+				Array.isArray(l) && l.length === 2 && typeof l[0] === "string" && typeof l[1] === "string",
+		)
+	);
+}
+
+function toLevels(levels: readonly { price: string; size: string }[]): OrderbookLevel[] {
+	return levels.map((l) => ({ price: Decimal.from(l.price), size: Decimal.from(l.size) }));
+}
+
+function checkHeader(file: string, line: string): void {
+	let header: unknown;
+	try {
+		header = JSON.parse(line);
+	} catch {
+		header = null;
+	}
+	const h = header as { format?: unknown; version?: unknown } | null;
+	if (h === null || typeof h !== "object" || h.format !== TAPE_FORMAT) {
+		throw new ConfigError("File is not a market tape", { file });
+	}
+	if (typeof h.version !== "number" || h.version > TAPE_VERSION) {
+		throw new ConfigError("Unsupported market tape version", {
+			file,
+			version: h.version,
+			supported: TAPE_VERSION,
+		});
+	}
+}
+
+async function exists(path: string): Promise<boolean> {
+	try {
+		await stat(path);
+		return true;
+	} catch (err: unknown) {
+		if (isNodeError(err) && err.code === "ENOENT") {
+			return false;
+		}
+		throw err;
+	}
+}
+
+function isNodeError(err: unknown): err is NodeJS.ErrnoException {
+	return err instanceof Error && "code" in err;
+}
@@ -0,0 +1,284 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Decimal } from "../shared/decimal.js";
+import { clientOrderId, conditionId, marketTokenId } from "../shared/identifiers.js";
+import type { ExitReasonType } from "../signal/types.js";
+import type { JournalEntry } from "../strategy/journal.js";
+import { recoverFromJournal } from "../strategy/recovery.js";
+import { SqliteJournal } from "./sqlite-journal.js";
+
+// ── Test data factories ─────────────────────────────────────────────
+
+const A = conditionId("cond-a");
+const B = conditionId("cond-b");
+
+function submitted(id: string, cid = A, timestamp = 1000): JournalEntry {
+	return {
+		type: "order_submitted",
+		intent: {
+			conditionId: cid,
+			tokenId: marketTokenId(`${cid}-yes`),
+			side: "yes",
+			direction: "buy",
+			price: Decimal.from("0.55"),
+			size: Decimal.from("10"),
+		},
+		clientOrderId: clientOrderId(id),
+		timestamp,
+	};
+}
+
+function filled(id: string, timestamp = 1100): JournalEntry {
+	return {
+		type: "order_filled",
+		clientOrderId: clientOrderId(id),
+		fillPrice: 0.55,
+		size: 10,
+		fee: 0.02,
+		timestamp,
+	};
+}
+
+function opened(cid = A, timestamp = 1200): JournalEntry {
+	return {
+		type: "position_opened",
+		conditionId: cid,
+		tokenId: marketTokenId(`${cid}-yes`),
+		side: "yes",
+		entryPrice: 0.55,
+		size: 10,
+		timestamp,
+	};
+}
+
+function closed(
+	cid: typeof A,
+	timestamp: number,
+	pnl: number,
+	reason: ExitReasonType,
+): JournalEntry {
+	return {
+		type: "position_closed",
+		conditionId: cid,
+		entryPrice: 0.55,
+		exitPrice: 0.55 + pnl / 10,
+		pnl,
+		reason,
+		fee: 0.01,
+		timestamp,
+	};
+}
+
+async function recordAll(journal: SqliteJournal, entries: readonly JournalEntry[]): Promise<void> {
+	for (const entry of entries) {
+		await journal.record(entry);
+	}
+}
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe("SqliteJournal", () => {
+	let journal: SqliteJournal;
+
+	beforeEach(async () => {
+		journal = await SqliteJournal.open({ filePath: ":memory:" });
+	});
+
+	afterEach(async () => {
+		await journal.close();
+	});
+
+	it("restore() returns every entry in recording order", async () => {
+		const entries = [submitted("o-1"), filled("o-1"), opened()];
+		await recordAll(journal, entries);
+
+		const result = await journal.restore();
+
+		expect(result.entries).toEqual(JSON.parse(JSON.stringify(entries)));
+		expect(result.corruptLines).toEqual([]);
+	});
+
+	it("orders() and fills() filter by market and time range", async () => {
+		await recordAll(journal, [
+			submitted("o-1", A, 1000),
+			filled("o-1", 1100),
+			submitted("o-2", B, 2000),
+			filled("o-2", 2100),
+			filled("o-unknown", 2200),
+		]);
+
+		expect(journal.orders({ conditionId: B }).map((o) => o.clientOrderId)).toEqual(["o-2"]);
+		expect(journal.orders()[0]).toEqual({
+			clientOrderId: "o-1",
+			conditionId: A,
+			tokenId: `${A}-yes`,
+			side: "yes",
+			direction: "buy",
+			price: 0.55,
+			size: 10,
+			submittedAtMs: 1000,
+		});
+		expect(journal.fills({ conditionId: A }).map((f) => f.clientOrderId)).toEqual(["o-1"]);
+		expect(journal.fills({ fromMs: 2000, toMs: 2200 }).map((f) => f.clientOrderId)).toEqual([
+			"o-2",
+		]);
+		expect(journal.fills({ fromMs: 2200 })[0]?.conditionId).toBeNull();
+	});
+
+	it("positions() joins opens with their closes and filters by status and exit reason", async () => {
+		await recordAll(journal, [
+			opened(A, 1000),
+			closed(A, 2000, 1, "take_profit"),
+			opened(A, 3000),
+			closed(A, 4000, -0.5, "stop_loss"),
+			opened(B, 5000),
+		]);
+
+		const all = journal.positions();
+		expect(all.map((p) => [p.conditionId, p.openedAtMs, p.closedAtMs])).toEqual([
+			[A, 1000, 2000],
+			[A, 3000, 4000],
+			[B, 5000, null],
+		]);
+		expect(journal.positions({ status: "open" }).map((p) => p.conditionId)).toEqual([B]);
+		const stops = journal.positions({ exitReason: "stop_loss" });
+		expect(stops).toHaveLength(1);
+		expect(stops[0]?.pnl).toBe(-0.5);
+		expect(journal.positions({ conditionId: A, limit: 1 })[0]?.exitReason).toBe("take_profit");
+	});
+
+	it("keeps a close without its open as a position row with unknown entry details", async () => {
+		await journal.record(closed(B, 2000, 1, "emergency"));
+
+		const [row] = journal.positions();
+		expect(row?.conditionId).toBe(B);
+		expect(row?.openedAtMs).toBeNull();
+		expect(row?.size).toBeNull();
+		expect(row?.closedAtMs).toBe(2000);
+	});
+
+	it("guardBlocks() filters by guard name", async () => {
+		await recordAll(journal, [
+			{ type: "guard_blocked", guardName: "KillSwitch", reason: "hard loss limit", timestamp: 1 },
+			{ type: "guard_blocked", guardName: "Cooldown", reason: "cooling down", timestamp: 2 },
+		]);
+
+		expect(journal.guardBlocks({ guardName: "Cooldown" })).toEqual([
+			{ guardName: "Cooldown", reason: "cooling down", blockedAtMs: 2 },
+		]);
+		expect(journal.guardBlocks({ toMs: 2 })).toHaveLength(1);
+	});
+
+	it("exitReasonSummary() totals closed positions per exit reason", async () => {
+		await recordAll(journal, [
+			opened(A, 1000),
+			closed(A, 2000, 1, "take_profit"),
+			opened(B, 1000),
+			closed(B, 2000, 2, "take_profit"),
+			opened(A, 3000),
+			closed(A, 4000, -0.5, "stop_loss"),
+		]);
+
+		const summary = journal.exitReasonSummary();
+		expect(summary.map((s) => [s.exitReason, s.count])).toEqual([
+			["stop_loss", 1],
+			["take_profit", 2],
+		]);
+		expect(summary[1]?.totalPnl).toBeCloseTo(3, 10);
+		expect(summary[1]?.totalFees).toBeCloseTo(0.02, 10);
+	});
+
+	it("records partial exits in positions() and exitReasonSummary()", async () => {
+		const reduced = (timestamp: number, newSize: number, pnl: number): JournalEntry => ({
+			type: "position_reduced",
+			conditionId: A,
+			oldSize: newSize + 4,
+			newSize,
+			exitPrice: 0.65,
+			pnl,
+			reason: "take_profit",
+			fee: 0.005,
+			timestamp,
+		});
+		await recordAll(journal, [opened(A, 1000), reduced(1500, 6, 0.4)]);
+
+		const [open] = journal.positions({ status: "open" });
+		expect(open?.size).toBe(10);
+		expect(open?.remainingSize).toBe(6);
+		expect(open?.pnl).toBeCloseTo(0.4, 10);
+
+		await journal.record(closed(A, 2000, -0.3, "stop_loss"));
+
+		const [row] = journal.positions();
+		expect(row?.remainingSize).toBe(0);
+		expect(row?.pnl).toBeCloseTo(0.1, 10);
+		expect(row?.fee).toBeCloseTo(0.015, 10);
+		const summary = journal.exitReasonSummary();
+		expect(summary.map((s) => [s.exitReason, s.count])).toEqual([
+			["stop_loss", 1],
+			["take_profit", 0],
+		]);
+		expect(summary[1]?.totalPnl).toBeCloseTo(0.4, 10);
+		expect(journal.exitReasonSummary({ fromMs: 1800 }).map((s) => s.exitReason)).toEqual([
+			"stop_loss",
+		]);
+	});
+
+	it("restoreLatest() starts at the latest snapshot", async () => {
+		const snapshot: JournalEntry = {
+			type: "snapshot",
+			version: 1,
+			state: {
+				positions: { open: [], closed: [] },
+				stats: { realizedPnl: 0, totalFees: 0 },
+				guards: { killSwitch: null },
+				pendingOrders: [],
+			},
+			timestamp: 1500,
+		};
+		await recordAll(journal, [opened(A, 1000), snapshot, opened(B, 2000)]);
+
+		const result = await journal.restoreLatest();
+
+		expect(result.entries.map((e) => (e as JournalEntry).type)).toEqual([
+			"snapshot",
+			"position_opened",
+		]);
+	});
+
+	it("rejects records after close()", async () => {
+		await journal.close();
+		await expect(journal.record(opened())).rejects.toThrow("SqliteJournal is closed");
+	});
+});
+
+describe("SqliteJournal on disk", () => {
+	let tmpDir: string;
+	let filePath: string;
+
+	beforeEach(async () => {
+		tmpDir = await mkdtemp(join(tmpdir(), "sqlite-journal-"));
+		filePath = join(tmpDir, "journal.db");
+	});
+
+	afterEach(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it("persists across reopen and feeds state recovery", async () => {
+		const first = await SqliteJournal.open({ filePath });
+		await recordAll(first, [opened(A, 1000), opened(B, 1500), closed(A, 2000, 1, "take_profit")]);
+		await first.close();
+
+		const second = await SqliteJournal.open({ filePath });
+		const state = await recoverFromJournal(second);
+		await second.close();
+
+		expect(state.issues).toEqual([]);
+		expect(state.positionManager.get(A)).toBeNull();
+		expect(state.positionManager.get(B)).not.toBeNull();
+		expect(state.totalFees.eq(Decimal.from("0.01"))).toBe(true);
+	});
+});
@@ -0,0 +1,625 @@
+/**
+ * SqliteJournal -- Journal on an embedded SQLite file with a query API.
+ *
+ * Every entry is kept verbatim in an `events` table (for restore()), and
+ * orders, fills, positions, partial exits and guard blocks are also written to
+ * typed tables that post-trade analysis can query by market, time range and
+ * exit reason.
+ *
+ * The driver is injected as a {@link SqliteDatabase} (better-sqlite3 and
+ * node:sqlite's DatabaseSync both fit); SqliteJournal.open() loads the
+ * optional better-sqlite3 peer dependency on demand.
+ */
+
+import { ConfigError } from "../shared/errors.js";
+import type { ClientOrderId, ConditionId, MarketTokenId } from "../shared/identifiers.js";
+import type { MarketSide } from "../shared/market-side.js";
+import type { ExitReasonType, OrderDirection } from "../signal/types.js";
+import type { Journal, JournalEntry } from "../strategy/journal.js";
+import type { CorruptLine, RestoreResult } from "./file-journal.js";
+
+/** Schema version stored in `PRAGMA user_version`. */
+export const SQLITE_JOURNAL_SCHEMA_VERSION = 2;
+
+type SqliteValue = string | number | bigint | null;
+
+/** Prepared statement subset used by SqliteJournal. */
+export interface SqliteStatement {
+	run(...params: SqliteValue[]): unknown;
+	all(...params: SqliteValue[]): unknown[];
+}
+
+/** Synchronous SQLite connection subset used by SqliteJournal. */
+export interface SqliteDatabase {
+	exec(sql: string): unknown;
+	prepare(sql: string): SqliteStatement;
+	close(): unknown;
+}
+
+/** Configuration for {@link SqliteJournal.create}. */
+export interface SqliteJournalConfig {
+	readonly database: SqliteDatabase;
+}
+
+/** Common filters for journal queries. */
+export interface JournalQuery {
+	readonly conditionId?: ConditionId | undefined;
+	/** Inclusive lower bound on the row timestamp. */
+	readonly fromMs?: number | undefined;
+	/** Exclusive upper bound on the row timestamp. */
+	readonly toMs?: number | undefined;
+	/** Maximum rows returned. Default: all */
+	readonly limit?: number | undefined;
+}
+
+/** Filters for {@link SqliteJournal.positions}; the time range applies to the open time. */
+export interface PositionQuery extends JournalQuery {
+	readonly status?: "open" | "closed" | undefined;
+	readonly exitReason?: ExitReasonType | undefined;
+}
+
+/** Filters for {@link SqliteJournal.guardBlocks}. */
+export interface GuardBlockQuery extends Omit<JournalQuery, "conditionId"> {
+	readonly guardName?: string | undefined;
+}
+
+/** A submitted order. */
+export interface JournalOrderRow {
+	readonly clientOrderId: ClientOrderId;
+	readonly conditionId: ConditionId;
+	readonly tokenId: MarketTokenId;
+	readonly side: MarketSide;
+	readonly direction: OrderDirection;
+	readonly price: number;
+	readonly size: number;
+	readonly submittedAtMs: number;
+}
+
+/** A fill, with the market of its order when the order was journaled. */
+export interface JournalFillRow {
+	readonly clientOrderId: ClientOrderId;
+	readonly conditionId: ConditionId | null;
+	readonly fillPrice: number;
+	readonly size: number;
+	readonly fee: number;
+	readonly filledAtMs: number;
+}
+
+/**
+ * A position from open to close. Fields only known from position_opened are
+ * null when the journal holds a close without its open.
+ */
+export interface JournalPositionRow {
+	readonly conditionId: ConditionId;
+	readonly tokenId: MarketTokenId | null;
+	readonly side: MarketSide | null;
+	readonly entryPrice: number;
+	/** Size as opened. */
+	readonly size: number | null;
+	/** Size still held after partial exits; 0 once closed. */
+	readonly remainingSize: number | null;
+	readonly openedAtMs: number | null;
+	readonly exitPrice: number | null;
+	/** Realized P&L of partial exits plus the close; null while nothing is realized. */
+	readonly pnl: number | null;
+	/** Fees of partial exits plus the close. */
+	readonly fee: number | null;
+	readonly exitReason: ExitReasonType | null;
+	readonly closedAtMs: number | null;
+}
+
+/** A guard block. */
+export interface JournalGuardBlockRow {
+	readonly guardName: string;
+	readonly reason: string;
+	readonly blockedAtMs: number;
+}
+
+/** Exit totals for one exit reason. */
+export interface ExitReasonSummary {
+	readonly exitReason: ExitReasonType;
+	/** Positions closed for this reason; partial exits add to P&L and fees only. */
+	readonly count: number;
+	readonly totalPnl: number;
+	readonly totalFees: number;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS events (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	type TEXT NOT NULL,
+	timestamp INTEGER NOT NULL,
+	payload TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS orders (
+	client_order_id TEXT PRIMARY KEY,
+	condition_id TEXT NOT NULL,
+	token_id TEXT NOT NULL,
+	side TEXT NOT NULL,
+	direction TEXT NOT NULL,
+	price REAL NOT NULL,
+	size REAL NOT NULL,
+	submitted_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS fills (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	client_order_id TEXT NOT NULL,
+	fill_price REAL NOT NULL,
+	size REAL NOT NULL,
+	fee REAL NOT NULL,
+	filled_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS positions (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	condition_id TEXT NOT NULL,
+	token_id TEXT,
+	side TEXT,
+	entry_price REAL NOT NULL,
+	size REAL,
+	opened_at INTEGER,
+	exit_price REAL,
+	pnl REAL,
+	fee REAL,
+	exit_reason TEXT,
+	closed_at INTEGER
+);
+CREATE TABLE IF NOT EXISTS position_reductions (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	position_id INTEGER,
+	condition_id TEXT NOT NULL,
+	old_size REAL NOT NULL,
+	new_size REAL NOT NULL,
+	exit_price REAL NOT NULL,
+	pnl REAL NOT NULL,
+	fee REAL,
+	exit_reason TEXT NOT NULL,
+	reduced_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS guard_blocks (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	guard_name TEXT NOT NULL,
+	reason TEXT NOT NULL,
+	blocked_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_orders_market ON orders (condition_id, submitted_at);
+CREATE INDEX IF NOT EXISTS idx_fills_order ON fills (client_order_id);
+CREATE INDEX IF NOT EXISTS idx_positions_market ON positions (condition_id, opened_at);
+CREATE INDEX IF NOT EXISTS idx_positions_reason ON positions (exit_reason);
+CREATE INDEX IF NOT EXISTS idx_reductions_position ON position_reductions (position_id);
+CREATE INDEX IF NOT EXISTS idx_guard_blocks_time ON guard_blocks (blocked_at);
+`;
+
+interface OrderRecord {
+	readonly client_order_id: string;
+	readonly condition_id: string;
+	readonly token_id: string;
+	readonly side: string;
+	readonly direction: string;
+	readonly price: number;
+	readonly size: number;
+	readonly submitted_at: number;
+}
+
+interface FillRecord {
+	readonly client_order_id: string;
+	readonly condition_id: string | null;
+	readonly fill_price: number;
+	readonly size: number;
+	readonly fee: number;
+	readonly filled_at: number;
+}
+
+interface PositionRecord {
+	readonly condition_id: string;
+	readonly token_id: string | null;
+	readonly side: string | null;
+	readonly entry_price: number;
+	readonly size: number | null;
+	readonly reductions: number;
+	readonly reduced_size: number;
+	readonly reduced_pnl: number;
+	readonly reduced_fee: number;
+	readonly opened_at: number | null;
+	readonly exit_price: number | null;
+	readonly pnl: number | null;
+	readonly fee: number | null;
+	readonly exit_reason: string | null;
+	readonly closed_at: number | null;
+}
+
+interface GuardBlockRecord {
+	readonly guard_name: string;
+	readonly reason: string;
+	readonly blocked_at: number;
+}
+
+interface ExitReasonRecord {
+	readonly exit_reason: string;
+	readonly count: number;
+	readonly total_pnl: number;
+	readonly total_fees: number;
+}
+
+interface Statements {
+	readonly event: SqliteStatement;
+	readonly order: SqliteStatement;
+	readonly fill: SqliteStatement;
+	readonly open: SqliteStatement;
+	readonly openRow: SqliteStatement;
+	readonly closeRow: SqliteStatement;
+	readonly closeOrphan: SqliteStatement;
+	readonly reduce: SqliteStatement;
+	readonly guardBlock: SqliteStatement;
+}
+
+export class SqliteJournal implements Journal {
+	private readonly db: SqliteDatabase;
+	private readonly stmts: Statements;
+	private closed = false;
+
+	private constructor(db: SqliteDatabase) {
+		this.db = db;
+		this.stmts = {
+			event: db.prepare("INSERT INTO events (type, timestamp, payload) VALUES (?, ?, ?)"),
+			order: db.prepare(
+				"INSERT OR REPLACE INTO orders (client_order_id, condition_id, token_id, side, direction, price, size, submitted_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+			),
+			fill: db.prepare(
+				"INSERT INTO fills (client_order_id, fill_price, size, fee, filled_at) VALUES (?, ?, ?, ?, ?)",
+			),
+			open: db.prepare(
+				"INSERT INTO positions (condition_id, token_id, side, entry_price, size, opened_at) VALUES (?, ?, ?, ?, ?, ?)",
+			),
+			openRow: db.prepare(
+				"SELECT id FROM positions WHERE condition_id = ? AND closed_at IS NULL ORDER BY id DESC LIMIT 1",
+			),
+			closeRow: db.prepare(
+				"UPDATE positions SET exit_price = ?, pnl = ?, fee = ?, exit_reason = ?, closed_at = ? WHERE id = ?",
+			),
+			closeOrphan: db.prepare(
+				"INSERT INTO positions (condition_id, entry_price, exit_price, pnl, fee, exit_reason, closed_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
+			),
+			reduce: db.prepare(
+				"INSERT INTO position_reductions (position_id, condition_id, old_size, new_size, exit_price, pnl, fee, exit_reason, reduced_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
+			),
+			guardBlock: db.prepare(
+				"INSERT INTO guard_blocks (guard_name, reason, blocked_at) VALUES (?, ?, ?)",
+			),
+		};
+	}
+
+	/**
+	 * Creates a journal on an open SQLite connection, creating the schema if needed.
+	 * @param config - Connection to write to
+	 * @throws ConfigError if the database holds a newer journal schema
+	 * @example
+	 * import Database from "better-sqlite3";
+	 * const journal = SqliteJournal.create({ database: new Database("journal.db") });
+	 */
+	static create(config: SqliteJournalConfig): SqliteJournal {
+		const db = config.database;
+		const [row] = db.prepare("PRAGMA user_version").all() as { user_version: number }[];
+		const version = row?.user_version ?? 0;
+		if (version > SQLITE_JOURNAL_SCHEMA_VERSION) {
+			throw new ConfigError("Unsupported SQLite journal schema version", {
+				version,
+				supported: SQLITE_JOURNAL_SCHEMA_VERSION,
+			});
+		}
+		db.exec(SCHEMA);
+		db.exec(`PRAGMA user_version = ${SQLITE_JOURNAL_SCHEMA_VERSION}`);
+		return new SqliteJournal(db);
+	}
+
+	/**
+	 * Opens (or creates) a journal file using the optional better-sqlite3 package.
+	 * @param config - Database file path (":memory:" for an in-memory journal)
+	 * @throws ConfigError if better-sqlite3 is not installed
+	 */
+	static async open(config: { readonly filePath: string }): Promise<SqliteJournal> {
+		let Database: new (filename: string) => SqliteDatabase;
+		try {
+			// better-sqlite3 types its statements per binding shape; positional binding fits SqliteDatabase
+			Database = (await import("better-sqlite3")).default as unknown as typeof Database;
+		} catch (cause) {
+			throw new ConfigError("SqliteJournal.open requires the better-sqlite3 package", { cause });
+		}
+		const db = new Database(config.filePath);
+		db.exec("PRAGMA journal_mode = WAL");
+		return SqliteJournal.create({ database: db });
+	}
+
+	async record(event: JournalEntry): Promise<void> {
+		if (this.closed) {
+			throw new Error("SqliteJournal is closed");
+		}
+		this.db.exec("BEGIN");
+		try {
+			this.stmts.event.run(event.type, event.timestamp, JSON.stringify(event));
+			this.writeTyped(event);
+			this.db.exec("COMMIT");
+		} catch (err: unknown) {
+			this.db.exec("ROLLBACK");
+			throw err;
+		}
+	}
+
+	/** No-op: every record() is committed before it resolves. */
+	async flush(): Promise<void> {}
+
+	/** Closes the underlying connection. */
+	async close(): Promise<void> {
+		if (this.closed) return;
+		this.closed = true;
+		this.db.close();
+	}
+
+	/**
+	 * Reads every recorded entry back in order. Rows whose payload cannot be
+	 * parsed are reported with their row id as the line number.
+	 */
+	async restore(): Promise<RestoreResult> {
+		return this.readEvents(0);
+	}
+
+	/** Reads the latest snapshot entry and everything after it (all entries if there is none). */
+	async restoreLatest(): Promise<RestoreResult> {
+		const [row] = this.db
+			.prepare("SELECT MAX(id) AS id FROM events WHERE type = 'snapshot'")
+			.all() as { id: number | null }[];
+		return this.readEvents(row?.id ?? 0);
+	}
+
+	// ── Queries ──────────────────────────────────────────────────
+
+	/** @returns Submitted orders, oldest first */
+	orders(query: JournalQuery = {}): JournalOrderRow[] {
+		const where = new Where().eq("condition_id", query.conditionId).range("submitted_at", query);
+		const rows = this.select<OrderRecord>(
+			`SELECT * FROM orders${where.sql()} ORDER BY submitted_at, rowid${limitSql(query)}`,
+			where.params,
+		);
+		return rows.map((r) => ({
+			clientOrderId: r.client_order_id as ClientOrderId,
+			conditionId: r.condition_id as ConditionId,
+			tokenId: r.token_id as MarketTokenId,
+			side: r.side as MarketSide,
+			direction: r.direction as OrderDirection,
+			price: r.price,
+			size: r.size,
+			submittedAtMs: r.submitted_at,
+		}));
+	}
+
+	/** @returns Fills, oldest first; a conditionId filter matches the fill's order */
+	fills(query: JournalQuery = {}): JournalFillRow[] {
+		const where = new Where().eq("o.condition_id", query.conditionId).range("f.filled_at", query);
+		const rows = this.select<FillRecord>(
+			`SELECT f.*, o.condition_id FROM fills f LEFT JOIN orders o ON o.client_order_id = f.client_order_id${where.sql()} ORDER BY f.filled_at, f.id${limitSql(query)}`,
+			where.params,
+		);
+		return rows.map((r) => ({
+			clientOrderId: r.client_order_id as ClientOrderId,
+			conditionId: r.condition_id as ConditionId | null,
+			fillPrice: r.fill_price,
+			size: r.size,
+			fee: r.fee,
+			filledAtMs: r.filled_at,
+		}));
+	}
+
+	/** @returns Positions ordered by open time (closes without an open sort by close time) */
+	positions(query: PositionQuery = {}): JournalPositionRow[] {
+		const where = new Where()
+			.eq("p.condition_id", query.conditionId)
+			.eq("p.exit_reason", query.exitReason)
+			.range("COALESCE(p.opened_at, p.closed_at)", query);
+		if (query.status === "open") where.raw("p.closed_at IS NULL");
+		if (query.status === "closed") where.raw("p.closed_at IS NOT NULL");
+		const rows = this.select<PositionRecord>(
+			`SELECT p.*, COUNT(r.id) AS reductions, TOTAL(r.old_size - r.new_size) AS reduced_size, TOTAL(r.pnl) AS reduced_pnl, TOTAL(r.fee) AS reduced_fee FROM positions p LEFT JOIN position_reductions r ON r.position_id = p.id${where.sql()} GROUP BY p.id ORDER BY COALESCE(p.opened_at, p.closed_at), p.id${limitSql(query)}`,
+			where.params,
+		);
+		return rows.map(toPositionRow);
+	}
+
+	/** @returns Guard blocks, oldest first */
+	guardBlocks(query: GuardBlockQuery = {}): JournalGuardBlockRow[] {
+		const where = new Where().eq("guard_name", query.guardName).range("blocked_at", query);
+		const rows = this.select<GuardBlockRecord>(
+			`SELECT * FROM guard_blocks${where.sql()} ORDER BY blocked_at, id${limitSql(query)}`,
+			where.params,
+		);
+		return rows.map((r) => ({
+			guardName: r.guard_name,
+			reason: r.reason,
+			blockedAtMs: r.blocked_at,
+		}));
+	}
+
+	/**
+	 * @returns Closed-position count, and P&L and fees of closes and partial exits,
+	 * grouped by exit reason; the time range applies to the exit time
+	 */
+	exitReasonSummary(query: JournalQuery = {}): ExitReasonSummary[] {
+		const where = new Where().eq("condition_id", query.conditionId).range("exited_at", query);
+		const exits =
+			"SELECT condition_id, exit_reason, pnl, fee, closed_at AS exited_at, 1 AS closes FROM positions WHERE closed_at IS NOT NULL UNION ALL SELECT condition_id, exit_reason, pnl, fee, reduced_at, 0 FROM position_reductions";
+		const rows = this.select<ExitReasonRecord>(
+			`SELECT exit_reason, SUM(closes) AS count, TOTAL(pnl) AS total_pnl, TOTAL(fee) AS total_fees FROM (${exits})${where.sql()} GROUP BY exit_reason ORDER BY exit_reason`,
+			where.params,
+		);
+		return rows.map((r) => ({
+			exitReason: r.exit_reason as ExitReasonType,
+			count: r.count,
+			totalPnl: r.total_pnl,
+			totalFees: r.total_fees,
+		}));
+	}
+
+	// ── Internal ────────────────────────────────────────────────
+
+	private writeTyped(event: JournalEntry): void {
+		switch (event.type) {
+			case "order_submitted": {
+				const { intent } = event;
+				this.stmts.order.run(
+					event.clientOrderId,
+					intent.conditionId,
+					intent.tokenId,
+					intent.side,
+					intent.direction,
+					intent.price.toNumber(),
+					intent.size.toNumber(),
+					event.timestamp,
+				);
+				break;
+			}
+			case "order_filled":
+				this.stmts.fill.run(
+					event.clientOrderId,
+					event.fillPrice,
+					event.size,
+					event.fee,
+					event.timestamp,
+				);
+				break;
+			case "position_opened":
+				this.stmts.open.run(
+					event.conditionId,
+					event.tokenId,
+					event.side,
+					event.entryPrice,
+					event.size,
+					event.timestamp,
+				);
+				break;
+			case "position_closed": {
+				const [row] = this.stmts.openRow.all(event.conditionId) as { id: number }[];
+				const fee = event.fee ?? null;
+				if (row) {
+					this.stmts.closeRow.run(
+						event.exitPrice,
+						event.pnl,
+						fee,
+						event.reason,
+						event.timestamp,
+						row.id,
+					);
+				} else {
+					this.stmts.closeOrphan.run(
+						event.conditionId,
+						event.entryPrice,
+						event.exitPrice,
+						event.pnl,
+						fee,
+						event.reason,
+						event.timestamp,
+					);
+				}
+				break;
+			}
+			case "position_reduced": {
+				const [row] = this.stmts.openRow.all(event.conditionId) as { id: number }[];
+				this.stmts.reduce.run(
+					row?.id ?? null,
+					event.conditionId,
+					event.oldSize,
+					event.newSize,
+					event.exitPrice,
+					event.pnl,
+					event.fee ?? null,
+					event.reason,
+					event.timestamp,
+				);
+				break;
+			}
+			case "guard_blocked":
+				this.stmts.guardBlock.run(event.guardName, event.reason, event.timestamp);
+				break;
+			default:
+				break;
+		}
+	}
+
+	private readEvents(fromId: number): RestoreResult {
+		const rows = this.db
+			.prepare("SELECT id, payload FROM events WHERE id >= ? ORDER BY id")
+			.all(fromId) as { id: number; payload: string }[];
+		const entries: unknown[] = [];
+		const corruptLines: CorruptLine[] = [];
+		for (const row of rows) {
+			try {
+				entries.push(JSON.parse(row.payload));
+			} catch {
+				corruptLines.push({ lineNumber: row.id, raw: row.payload.slice(0, 200) });
+			}
+		}
+		return { entries, corruptLines };
+	}
+
+	private select<T>(sql: string, params: readonly SqliteValue[]): T[] {
+		return this.db.prepare(sql).all(...params) as T[];
+	}
+}
+
+/** Accumulates AND-ed WHERE conditions with positional parameters. */
+class Where {
+	private readonly conditions: string[] = [];
+	readonly params: SqliteValue[] = [];
+
+	eq(column: string, value: string | undefined): this {
+		if (value !== undefined) {
+			this.conditions.push(`${column} = ?`);
+			this.params.push(value);
+		}
+		return this;
+	}
+
+	range(column: string, query: JournalQuery): this {
+		if (query.fromMs !== undefined) {
+			this.conditions.push(`${column} >= ?`);
+			this.params.push(query.fromMs);
+		}
+		if (query.toMs !== undefined) {
+			this.conditions.push(`${column} < ?`);
+			this.params.push(query.toMs);
+		}
+		return this;
+	}
+
+	raw(condition: string): this {
+		this.conditions.push(condition);
+		return this;
+	}
+
+	sql(): string {
+		return this.conditions.length === 0 ? "" : ` WHERE ${this.conditions.join(" AND ")}`;
+	}
+}
+
+function limitSql(query: JournalQuery): string {
+	return query.limit === undefined ? "" : ` LIMIT ${Math.max(0, Math.floor(query.limit))}`;
+}
+
+function toPositionRow(r: PositionRecord): JournalPositionRow {
+	return {
+		conditionId: r.condition_id as ConditionId,
+		tokenId: r.token_id as MarketTokenId | null,
+		side: r.side as MarketSide | null,
+		entryPrice: r.entry_price,
+		size: r.size,
+		remainingSize: remainingSize(r),
+		openedAtMs: r.opened_at,
+		exitPrice: r.exit_price,
+		pnl: r.pnl === null && r.reductions === 0 ? null : (r.pnl ?? 0) + r.reduced_pnl,
+		fee: r.fee === null && r.reductions === 0 ? null : (r.fee ?? 0) + r.reduced_fee,
+		exitReason: r.exit_reason as ExitReasonType | null,
+		closedAtMs: r.closed_at,
+	};
+}
+
+function remainingSize(r: PositionRecord): number | null {
+	if (r.closed_at !== null) return 0;
+	return r.size === null ? null : r.size - r.reduced_size;
+}
@@ -185,6 +185,53 @@ describe("PositionManager", () => {
 		});
 	});
 
+	describe("restore", () => {
+		it("rebuilds open positions, closed history and realized P&L", () => {
+			const original = unwrap(
+				managerWithPosition().open(CID2, TID1, MarketSide.No, d("0.40"), d("50"), 1500),
+			).close(CID1, d("0.60"), 2000);
+			expect(original).not.toBeNull();
+			if (!original) return;
+			const source = original.manager;
+
+			const restored = PositionManager.restore({
+				open: source.allOpen(),
+				closed: source.recentClosed(10).slice().reverse(),
+				realizedPnl: source.totalRealizedPnl(),
+			});
+
+			expect(restored.openCount()).toBe(1);
+			expect(restored.get(CID2)?.costBasis.eq(d("20"))).toBe(true);
+			expect(restored.get(CID2)?.entryTimeMs).toBe(1500);
+			expect(restored.recentClosed(1)[0]?.closedAtMs).toBe(2000);
+			expect(restored.totalRealizedPnl().eq(d("10"))).toBe(true);
+			// Restored positions behave like opened ones
+			expect(restored.close(CID2, d("0.50"), 3000)?.pnl.eq(d("5"))).toBe(true);
+		});
+
+		it("keeps only the newest maxClosed entries", () => {
+			const closed = [1, 2, 3].map((i) => ({
+				snapshot: {
+					conditionId: conditionId(`cond-${i}`),
+					tokenId: TID1,
+					side: MarketSide.Yes,
+					entryPrice: d("0.50"),
+					size: d("1"),
+					costBasis: d("0.50"),
+					realizedPnl: d("0"),
+					highWaterMark: d("0.50"),
+					entryTimeMs: i,
+				},
+				exitPrice: d("0.50"),
+				realizedPnl: d("0"),
+				closedAtMs: i * 10,
+			}));
+			const mgr = PositionManager.restore({ open: [], closed, realizedPnl: d("0") }, 2);
+			expect(mgr.closedCount()).toBe(2);
+			expect(mgr.recentClosed(2).map((c) => c.closedAtMs)).toEqual([30, 20]);
+		});
+	});
+
 	describe("aggregate stats", () => {
 		it("computes total notional across open positions", () => {
 			const r1 = PositionManager.create().open(
@@ -7,7 +7,7 @@ import type { ConditionId, MarketTokenId } from "../shared/identifiers.js";
 import type { MarketSide } from "../shared/market-side.js";
 import { type Result, err, isOk, ok, unwrap } from "../shared/result.js";
 import { SdkPosition } from "./sdk-position.js";
-import type { ClosedPosition } from "./types.js";
+import type { ClosedPosition, PositionSnapshot } from "./types.js";
 
 const DEFAULT_MAX_CLOSED = 1000;
 
@@ -39,6 +39,28 @@ export class PositionManager {
 		return new PositionManager(new Map(), [], maxClosed, Decimal.zero());
 	}
 
+	/**
+	 * Rebuilds a manager from previously captured state (e.g. a journal snapshot).
+	 * @param state - Open positions, closed history (oldest first) and accumulated realized P&L
+	 * @param maxClosed - Maximum number of closed positions to retain (default 1000)
+	 * @returns New PositionManager holding the given state
+	 */
+	static restore(
+		state: {
+			readonly open: readonly PositionSnapshot[];
+			readonly closed: readonly ClosedPosition[];
+			readonly realizedPnl: Decimal;
+		},
+		maxClosed = DEFAULT_MAX_CLOSED,
+	): PositionManager {
+		const positions = new Map<string, SdkPosition>();
+		for (const snapshot of state.open) {
+			positions.set(snapshot.conditionId as string, SdkPosition.fromSnapshot(snapshot));
+		}
+		const closed = state.closed.slice(Math.max(0, state.closed.length - maxClosed));
+		return new PositionManager(positions, closed, maxClosed, state.realizedPnl);
+	}
+
 	// ── Lifecycle ──────────────────────────────────────────────
 
 	/**
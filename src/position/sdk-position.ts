@@ -11,6 +11,7 @@ import type { MarketSide } from "../shared/market-side.js";
 import type { Result } from "../shared/result.js";
 import { err, ok } from "../shared/result.js";
 import { CostBasis } from "./cost-basis.js";
+import type { PositionSnapshot } from "./types.js";
 
 /** Immutable position aggregate tracking entry, P&L, and fill history. All mutations return new instances. */
 export class SdkPosition {
@@ -86,6 +87,22 @@ export class SdkPosition {
 		});
 	}
 
+	/**
+	 * Rebuilds a position from a snapshot (e.g. one read back from a journal).
+	 * Fill history is not part of the snapshot; the fill tracker starts from a
+	 * single fill at the entry price for the current size.
+	 * @param snapshot - Position state to restore
+	 * @returns New SdkPosition instance
+	 */
+	static fromSnapshot(snapshot: PositionSnapshot): SdkPosition {
+		const fillTracker = CostBasis.create().addFill({
+			price: snapshot.entryPrice,
+			size: snapshot.size,
+			timestampMs: snapshot.entryTimeMs,
+		});
+		return new SdkPosition({ ...snapshot, fillTracker });
+	}
+
 	// ── P&L ──────────────────────────────────────────────────────
 
 	/**
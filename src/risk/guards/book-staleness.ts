@@ -1,9 +1,10 @@
 import type { EntryGuard, GuardContext, GuardVerdict } from "../types.js";
-import { allow, blockWithValues } from "../types.js";
+import { allow, block, blockWithValues } from "../types.js";
 
 /**
  * Guard that checks if the order book data is stale.
- * Blocks orders when the time since last book update exceeds the threshold.
+ * Blocks orders when the time since last book update exceeds the threshold,
+ * or while the book feed reports the book as invalid (gap, crossed, resyncing).
  */
 export class BookStalenessGuard implements EntryGuard {
 	readonly name = "BookStaleness";
@@ -34,6 +35,9 @@ export class BookStalenessGuard implements EntryGuard {
 	}
 
 	check(ctx: GuardContext): GuardVerdict {
+		if (ctx.isBookValid?.() === false) {
+			return block(this.name, "order book invalid");
+		}
 		const age = ctx.bookAgeMs();
 		if (age === null) return allow();
 
@@ -0,0 +1,71 @@
+import type { SdkOrderIntent } from "../../signal/types.js";
+import type { GuardVerdict, OrderGuard, OrderGuardContext } from "../types.js";
+import { allow, blockWithValues } from "../types.js";
+
+/**
+ * Order guard that rejects a single order consuming too large a share of the
+ * available balance -- catches unit and decimal mistakes in `toOrder`.
+ *
+ * @example
+ * ```ts
+ * const guard = FatFingerGuard.fromPct(10); // at most 10% of balance per order
+ * const verdict = guard.check(intent, ctx);
+ * ```
+ */
+export class FatFingerGuard implements OrderGuard {
+	readonly name = "FatFinger";
+	readonly isSafetyCritical = true;
+	private readonly maxBalanceRatio: number;
+
+	private constructor(maxBalanceRatio: number) {
+		this.maxBalanceRatio = maxBalanceRatio;
+	}
+
+	/**
+	 * Creates a guard with the specified maximum order/balance ratio.
+	 * @param maxBalanceRatio - Maximum order notional as a ratio of balance (e.g., 0.1 for 10%)
+	 */
+	static create(maxBalanceRatio: number): FatFingerGuard {
+		return new FatFingerGuard(maxBalanceRatio);
+	}
+
+	/**
+	 * Creates a guard with the specified maximum order/balance percentage.
+	 * @param pct - Maximum order notional as percentage of balance (e.g., 10 for 10%)
+	 */
+	static fromPct(pct: number): FatFingerGuard {
+		return new FatFingerGuard(pct / 100);
+	}
+
+	/**
+	 * Creates a guard allowing at most 25% of available balance per order.
+	 */
+	static normal(): FatFingerGuard {
+		return FatFingerGuard.fromPct(25);
+	}
+
+	check(intent: SdkOrderIntent, ctx: OrderGuardContext): GuardVerdict {
+		const notional = intent.price.mul(intent.size);
+		const balance = ctx.availableBalance();
+
+		if (balance.isZero() || balance.isNegative()) {
+			return blockWithValues(
+				this.name,
+				"no available balance",
+				notional.toNumber(),
+				this.maxBalanceRatio * 100,
+			);
+		}
+
+		const ratio = notional.div(balance).toNumber();
+		if (ratio > this.maxBalanceRatio) {
+			return blockWithValues(
+				this.name,
+				"order too large for balance",
+				ratio * 100,
+				this.maxBalanceRatio * 100,
+			);
+		}
+		return allow();
+	}
+}
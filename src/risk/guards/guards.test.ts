@@ -306,6 +306,16 @@ describe("BookStalenessGuard", () => {
 		const ctx = makeCtx({ bookAgeMs: null });
 		expect(guard.check(ctx).type).toBe("allow");
 	});
+
+	it("blocks while the feed reports the book invalid", () => {
+		const guard = BookStalenessGuard.fromSecs(5);
+		const ctx = { ...makeCtx({ bookAgeMs: null }), isBookValid: () => false };
+		const result = guard.check(ctx);
+		expect(result.type).toBe("block");
+		if (result.type === "block") {
+			expect(result.reason).toBe("order book invalid");
+		}
+	});
 });
 
 // ── ExposureGuard ──────────────────────────────────────────────────
@@ -0,0 +1,52 @@
+import type { SdkConfig } from "../../shared/config.js";
+import type { SdkOrderIntent } from "../../signal/types.js";
+import type { GuardVerdict, OrderGuard, OrderGuardContext } from "../types.js";
+import { allow, blockWithValues } from "../types.js";
+
+/**
+ * Order guard that caps the notional (price × size) of a single order.
+ *
+ * @example
+ * ```ts
+ * const guard = MaxOrderNotionalGuard.fromConfig(config); // config.maxOrderSizeUsdc
+ * const verdict = guard.check(intent, ctx);
+ * ```
+ */
+export class MaxOrderNotionalGuard implements OrderGuard {
+	readonly name = "MaxOrderNotional";
+	readonly isSafetyCritical = true;
+	private readonly maxNotionalUsdc: number;
+
+	private constructor(maxNotionalUsdc: number) {
+		this.maxNotionalUsdc = maxNotionalUsdc;
+	}
+
+	/**
+	 * Creates a guard with the specified notional cap.
+	 * @param maxNotionalUsdc - Maximum order notional in USDC
+	 */
+	static create(maxNotionalUsdc: number): MaxOrderNotionalGuard {
+		return new MaxOrderNotionalGuard(maxNotionalUsdc);
+	}
+
+	/**
+	 * Creates a guard capped at the SDK-wide `maxOrderSizeUsdc`.
+	 * @param config - SDK configuration
+	 */
+	static fromConfig(config: Pick<SdkConfig, "maxOrderSizeUsdc">): MaxOrderNotionalGuard {
+		return new MaxOrderNotionalGuard(config.maxOrderSizeUsdc);
+	}
+
+	check(intent: SdkOrderIntent, _ctx: OrderGuardContext): GuardVerdict {
+		const notional = intent.price.mul(intent.size).toNumber();
+		if (notional > this.maxNotionalUsdc) {
+			return blockWithValues(
+				this.name,
+				"order notional exceeds limit",
+				notional,
+				this.maxNotionalUsdc,
+			);
+		}
+		return allow();
+	}
+}
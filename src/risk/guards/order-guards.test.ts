@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SDK_CONFIG } from "../../shared/config.js";
+import { Decimal } from "../../shared/decimal.js";
+import { conditionId, marketTokenId } from "../../shared/identifiers.js";
+import { MarketSide } from "../../shared/market-side.js";
+import { OrderDirection } from "../../signal/types.js";
+import type { SdkOrderIntent } from "../../signal/types.js";
+import type { OrderGuardContext } from "../types.js";
+import { FatFingerGuard } from "./fat-finger.js";
+import { MaxOrderNotionalGuard } from "./max-order-notional.js";
+import { PriceCollarGuard } from "./price-collar.js";
+import { TokenExposureGuard } from "./token-exposure.js";
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+const TOKEN = marketTokenId("tok-yes");
+
+function makeIntent(
+	overrides: Partial<{ price: string; size: string; direction: OrderDirection }> = {},
+): SdkOrderIntent {
+	return {
+		conditionId: conditionId("cond-1"),
+		tokenId: TOKEN,
+		side: MarketSide.Yes,
+		direction: overrides.direction ?? OrderDirection.Buy,
+		price: Decimal.from(overrides.price ?? "0.55"),
+		size: Decimal.from(overrides.size ?? "100"),
+	};
+}
+
+function makeCtx(
+	overrides: Partial<{
+		bid: string | null;
+		ask: string | null;
+		balance: string;
+		tokenExposure: string;
+	}> = {},
+): OrderGuardContext {
+	const bid = overrides.bid === undefined ? "0.54" : overrides.bid;
+	const ask = overrides.ask === undefined ? "0.56" : overrides.ask;
+	return {
+		conditionId: conditionId("cond-1"),
+		nowMs: () => 10_000,
+		spot: () => Decimal.from("0.55"),
+		oraclePrice: () => null,
+		bestBid: () => (bid === null ? null : Decimal.from(bid)),
+		bestAsk: () => (ask === null ? null : Decimal.from(ask)),
+		spread: () => null,
+		spreadPct: () => null,
+		timeRemainingMs: () => 300_000,
+		openPositionCount: () => 0,
+		totalExposure: () => Decimal.zero(),
+		availableBalance: () => Decimal.from(overrides.balance ?? "1000"),
+		dailyPnl: () => Decimal.zero(),
+		consecutiveLosses: () => 0,
+		hasPendingOrderFor: () => false,
+		lastTradeTimeMs: () => null,
+		oracleAgeMs: () => null,
+		bookAgeMs: () => 200,
+		tokenExposure: (tokenId) =>
+			tokenId === TOKEN ? Decimal.from(overrides.tokenExposure ?? "0") : Decimal.zero(),
+	};
+}
+
+// ── MaxOrderNotionalGuard ───────────────────────────────────────────
+
+describe("MaxOrderNotionalGuard", () => {
+	it("allows orders up to the cap", () => {
+		const guard = MaxOrderNotionalGuard.create(55);
+		expect(guard.check(makeIntent(), makeCtx()).type).toBe("allow");
+	});
+
+	it("blocks orders above the cap with notional diagnostics", () => {
+		const guard = MaxOrderNotionalGuard.create(50);
+		const result = guard.check(makeIntent(), makeCtx());
+		expect(result.type).toBe("block");
+		if (result.type === "block") {
+			expect(result.guard).toBe("MaxOrderNotional");
+			expect(result.currentValue).toBe(55);
+			expect(result.threshold).toBe(50);
+			expect(result.recoverable).toBe(true);
+		}
+	});
+
+	it("fromConfig() reads maxOrderSizeUsdc", () => {
+		const guard = MaxOrderNotionalGuard.fromConfig(DEFAULT_SDK_CONFIG);
+		const result = guard.check(makeIntent({ size: "1000" }), makeCtx());
+		expect(result.type === "block" && result.threshold).toBe(DEFAULT_SDK_CONFIG.maxOrderSizeUsdc);
+	});
+});
+
+// ── PriceCollarGuard ────────────────────────────────────────────────
+
+describe("PriceCollarGuard", () => {
+	it("allows prices within the collar around mid", () => {
+		const guard = PriceCollarGuard.fromPct(5);
+		expect(guard.check(makeIntent({ price: "0.57" }), makeCtx()).type).toBe("allow");
+	});
+
+	it("blocks prices too far from mid in either direction", () => {
+		const guard = PriceCollarGuard.fromPct(5);
+		const high = guard.check(makeIntent({ price: "0.60" }), makeCtx());
+		const low = guard.check(makeIntent({ price: "0.50" }), makeCtx());
+		expect(high.type).toBe("block");
+		expect(low.type).toBe("block");
+		if (high.type === "block") {
+			expect(high.guard).toBe("PriceCollar");
+			expect(high.currentValue).toBeCloseTo(9.09, 2);
+			expect(high.threshold).toBe(5);
+		}
+	});
+
+	it("allows when the book has no mid", () => {
+		const guard = PriceCollarGuard.tight();
+		expect(guard.check(makeIntent({ price: "0.99" }), makeCtx({ ask: null })).type).toBe("allow");
+	});
+
+	it("factory presets create valid instances", () => {
+		expect(PriceCollarGuard.tight().name).toBe("PriceCollar");
+		expect(PriceCollarGuard.normal().name).toBe("PriceCollar");
+		expect(PriceCollarGuard.wide().name).toBe("PriceCollar");
+	});
+});
+
+// ── FatFingerGuard ──────────────────────────────────────────────────
+
+describe("FatFingerGuard", () => {
+	it("allows orders within the balance share", () => {
+		const guard = FatFingerGuard.fromPct(10);
+		expect(guard.check(makeIntent(), makeCtx()).type).toBe("allow");
+	});
+
+	it("blocks orders consuming too much of the balance", () => {
+		const guard = FatFingerGuard.fromPct(10);
+		const result = guard.check(makeIntent({ size: "1000" }), makeCtx());
+		expect(result.type).toBe("block");
+		if (result.type === "block") {
+			expect(result.guard).toBe("FatFinger");
+			expect(result.currentValue).toBeCloseTo(55, 10);
+			expect(result.threshold).toBe(10);
+		}
+	});
+
+	it("blocks when there is no balance", () => {
+		const guard = FatFingerGuard.normal();
+		expect(guard.check(makeIntent({ size: "1" }), makeCtx({ balance: "0" })).type).toBe("block");
+	});
+});
+
+// ── TokenExposureGuard ──────────────────────────────────────────────
+
+describe("TokenExposureGuard", () => {
+	it("allows buys that stay within the per-token cap", () => {
+		const guard = TokenExposureGuard.create(100);
+		expect(guard.check(makeIntent(), makeCtx({ tokenExposure: "45" })).type).toBe("allow");
+	});
+
+	it("blocks buys that push the token over the cap", () => {
+		const guard = TokenExposureGuard.create(100);
+		const result = guard.check(makeIntent(), makeCtx({ tokenExposure: "50" }));
+		expect(result.type).toBe("block");
+		if (result.type === "block") {
+			expect(result.guard).toBe("TokenExposure");
+			expect(result.currentValue).toBe(105);
+			expect(result.threshold).toBe(100);
+		}
+	});
+
+	it("always allows sells", () => {
+		const guard = TokenExposureGuard.create(10);
+		const intent = makeIntent({ direction: OrderDirection.Sell });
+		expect(guard.check(intent, makeCtx({ tokenExposure: "500" })).type).toBe("allow");
+	});
+});
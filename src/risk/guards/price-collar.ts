@@ -0,0 +1,67 @@
+import { Decimal } from "../../shared/decimal.js";
+import type { SdkOrderIntent } from "../../signal/types.js";
+import type { GuardVerdict, OrderGuard, OrderGuardContext } from "../types.js";
+import { allow, blockWithValues } from "../types.js";
+
+/**
+ * Order guard that rejects limit prices too far from the mid of the order's side.
+ * Orders are allowed when either side of that book is empty (no reference price).
+ *
+ * @example
+ * ```ts
+ * const guard = PriceCollarGuard.fromPct(5); // within 5% of mid
+ * const verdict = guard.check(intent, ctx);
+ * ```
+ */
+export class PriceCollarGuard implements OrderGuard {
+	readonly name = "PriceCollar";
+	private readonly maxDeviationPct: number;
+
+	private constructor(maxDeviationPct: number) {
+		this.maxDeviationPct = maxDeviationPct;
+	}
+
+	/**
+	 * Creates a guard with the specified maximum deviation from mid.
+	 * @param maxDeviationPct - Maximum deviation as a percentage of mid (e.g., 5 for 5%)
+	 */
+	static fromPct(maxDeviationPct: number): PriceCollarGuard {
+		return new PriceCollarGuard(maxDeviationPct);
+	}
+
+	/**
+	 * Creates a tight collar of 5% from mid.
+	 */
+	static tight(): PriceCollarGuard {
+		return new PriceCollarGuard(5);
+	}
+
+	/**
+	 * Creates a normal collar of 10% from mid.
+	 */
+	static normal(): PriceCollarGuard {
+		return new PriceCollarGuard(10);
+	}
+
+	/**
+	 * Creates a wide collar of 25% from mid.
+	 */
+	static wide(): PriceCollarGuard {
+		return new PriceCollarGuard(25);
+	}
+
+	check(intent: SdkOrderIntent, ctx: OrderGuardContext): GuardVerdict {
+		const bid = ctx.bestBid(intent.side);
+		const ask = ctx.bestAsk(intent.side);
+		if (bid === null || ask === null) return allow();
+
+		const mid = bid.add(ask).div(Decimal.from(2));
+		if (mid.isZero()) return allow();
+
+		const deviationPct = intent.price.sub(mid).abs().div(mid).toNumber() * 100;
+		if (deviationPct > this.maxDeviationPct) {
+			return blockWithValues(this.name, "price outside collar", deviationPct, this.maxDeviationPct);
+		}
+		return allow();
+	}
+}
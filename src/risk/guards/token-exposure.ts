@@ -0,0 +1,50 @@
+import { OrderDirection } from "../../signal/types.js";
+import type { SdkOrderIntent } from "../../signal/types.js";
+import type { GuardVerdict, OrderGuard, OrderGuardContext } from "../types.js";
+import { allow, blockWithValues } from "../types.js";
+
+/**
+ * Order guard that caps exposure per outcome token: existing cost basis in the
+ * intent's token plus the order's notional must stay within the limit.
+ * Sells reduce exposure and are always allowed.
+ *
+ * @example
+ * ```ts
+ * const guard = TokenExposureGuard.create(250); // 250 USDC per token
+ * const verdict = guard.check(intent, ctx);
+ * ```
+ */
+export class TokenExposureGuard implements OrderGuard {
+	readonly name = "TokenExposure";
+	private readonly maxExposureUsdc: number;
+
+	private constructor(maxExposureUsdc: number) {
+		this.maxExposureUsdc = maxExposureUsdc;
+	}
+
+	/**
+	 * Creates a guard with the specified per-token exposure cap.
+	 * @param maxExposureUsdc - Maximum exposure per token in USDC
+	 */
+	static create(maxExposureUsdc: number): TokenExposureGuard {
+		return new TokenExposureGuard(maxExposureUsdc);
+	}
+
+	check(intent: SdkOrderIntent, ctx: OrderGuardContext): GuardVerdict {
+		if (intent.direction === OrderDirection.Sell) return allow();
+
+		const projected = ctx
+			.tokenExposure(intent.tokenId)
+			.add(intent.price.mul(intent.size))
+			.toNumber();
+		if (projected > this.maxExposureUsdc) {
+			return blockWithValues(
+				this.name,
+				`token ${intent.tokenId} exposure limit reached`,
+				projected,
+				this.maxExposureUsdc,
+			);
+		}
+		return allow();
+	}
+}
@@ -14,9 +14,18 @@
  * - Risk guards: ToxicityGuard, PortfolioRiskGuard, CircuitBreakerGuard
  * - Safety guards: KillSwitchGuard, BalanceGuard, UsdcRejectionGuard
  *
+ * Order guards ({@link OrderGuardPipeline}, run on the intent before submit):
+ * - MaxOrderNotionalGuard, PriceCollarGuard, FatFingerGuard, TokenExposureGuard
+ *
  * @module
  */
-export type { EntryGuard, GuardContext, GuardVerdict } from "./types.js";
+export type {
+	EntryGuard,
+	GuardContext,
+	GuardVerdict,
+	OrderGuard,
+	OrderGuardContext,
+} from "./types.js";
 export {
 	allow,
 	block,
@@ -29,6 +38,7 @@ export {
 
 export { ConditionalGuard, NotGuard, OrGuard } from "./combinators.js";
 export { GuardPipeline } from "./guard-pipeline.js";
+export { OrderGuardPipeline } from "./order-guard-pipeline.js";
 
 export { BalanceGuard } from "./guards/balance.js";
 export { BookStalenessGuard } from "./guards/book-staleness.js";
@@ -36,15 +46,19 @@ export { CircuitBreakerGuard } from "./guards/circuit-breaker.js";
 export { CooldownGuard } from "./guards/cooldown.js";
 export { DuplicateOrderGuard } from "./guards/duplicate-order.js";
 export { ExposureGuard } from "./guards/exposure.js";
+export { FatFingerGuard } from "./guards/fat-finger.js";
 export { FlowRegimeGuard } from "./guards/flow-regime.js";
 export { KillSwitchGuard, KillSwitchMode } from "./guards/kill-switch.js";
 export { LatencySlaGuard, type LatencyStats } from "./guards/latency-sla.js";
+export { MaxOrderNotionalGuard } from "./guards/max-order-notional.js";
 export { MaxPositionsGuard } from "./guards/max-positions.js";
 export { MaxSpreadGuard } from "./guards/max-spread.js";
 export { MinEdgeGuard } from "./guards/min-edge.js";
 export { PerMarketLimitGuard } from "./guards/per-market-limit.js";
 export { PortfolioRiskGuard } from "./guards/portfolio-risk.js";
+export { PriceCollarGuard } from "./guards/price-collar.js";
 export { RateLimitGuard } from "./guards/rate-limit.js";
 export { StatsGuard, type StatsGuardConfig, type StatsSnapshot } from "./guards/stats.js";
+export { TokenExposureGuard } from "./guards/token-exposure.js";
 export { ToxicityGuard } from "./guards/toxicity.js";
 export { UsdcRejectionGuard } from "./guards/usdc-rejection.js";
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SDK_CONFIG } from "../shared/config.js";
+import { Decimal } from "../shared/decimal.js";
+import { conditionId, marketTokenId } from "../shared/identifiers.js";
+import { MarketSide } from "../shared/market-side.js";
+import { OrderDirection } from "../signal/types.js";
+import type { SdkOrderIntent } from "../signal/types.js";
+import { OrderGuardPipeline } from "./order-guard-pipeline.js";
+import type { OrderGuard, OrderGuardContext } from "./types.js";
+import { allow, block, blockFatal } from "./types.js";
+
+// ── Stubs ───────────────────────────────────────────────────────────
+
+const alwaysAllow: OrderGuard = {
+	name: "AlwaysAllow",
+	check: () => allow(),
+};
+
+const alwaysBlock: OrderGuard = {
+	name: "AlwaysBlock",
+	check: () => block("AlwaysBlock", "always blocked"),
+};
+
+const fatalBlock: OrderGuard = {
+	name: "FatalBlock",
+	check: () => blockFatal("FatalBlock", "fatal"),
+};
+
+const intent: SdkOrderIntent = {
+	conditionId: conditionId("cond-1"),
+	tokenId: marketTokenId("tok-yes"),
+	side: MarketSide.Yes,
+	direction: OrderDirection.Buy,
+	price: Decimal.from("0.55"),
+	size: Decimal.from("10"),
+};
+
+const stubCtx: OrderGuardContext = {
+	conditionId: conditionId("cond-1"),
+	nowMs: () => 1000,
+	spot: () => Decimal.from("0.55"),
+	oraclePrice: () => Decimal.from("0.55"),
+	bestBid: () => Decimal.from("0.54"),
+	bestAsk: () => Decimal.from("0.56"),
+	spread: () => Decimal.from("0.02"),
+	spreadPct: () => 3.6,
+	timeRemainingMs: () => 300_000,
+	openPositionCount: () => 0,
+	totalExposure: () => Decimal.zero(),
+	availableBalance: () => Decimal.from("1000"),
+	dailyPnl: () => Decimal.zero(),
+	consecutiveLosses: () => 0,
+	hasPendingOrderFor: () => false,
+	lastTradeTimeMs: () => null,
+	oracleAgeMs: () => 500,
+	bookAgeMs: () => 200,
+	tokenExposure: () => Decimal.zero(),
+};
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe("OrderGuardPipeline", () => {
+	it("starts empty and builds immutably with .with()", () => {
+		const p1 = OrderGuardPipeline.create();
+		const p2 = p1.with(alwaysAllow);
+		expect(p1.isEmpty()).toBe(true);
+		expect(p2.len()).toBe(1);
+		expect(p2.guardNames()).toEqual(["AlwaysAllow"]);
+	});
+
+	it("allows when every guard allows", () => {
+		const pipeline = OrderGuardPipeline.create().with(alwaysAllow).with(alwaysAllow);
+		expect(pipeline.evaluate(intent, stubCtx).type).toBe("allow");
+	});
+
+	it("returns the first block and passes the intent to each guard", () => {
+		const seen: SdkOrderIntent[] = [];
+		const recording: OrderGuard = {
+			name: "Recording",
+			check: (i) => {
+				seen.push(i);
+				return allow();
+			},
+		};
+		const pipeline = OrderGuardPipeline.create().with(recording).with(fatalBlock).with(alwaysBlock);
+
+		const verdict = pipeline.evaluate(intent, stubCtx);
+		expect(verdict.type === "block" && verdict.guard).toBe("FatalBlock");
+		expect(seen).toEqual([intent]);
+	});
+
+	it("standard() caps order notional at config.maxOrderSizeUsdc", () => {
+		const pipeline = OrderGuardPipeline.standard({ ...DEFAULT_SDK_CONFIG, maxOrderSizeUsdc: 5 });
+		expect(pipeline.guardNames()).toEqual(["MaxOrderNotional", "PriceCollar", "FatFinger"]);
+
+		const verdict = pipeline.evaluate(intent, stubCtx);
+		expect(verdict.type === "block" && verdict.guard).toBe("MaxOrderNotional");
+	});
+});
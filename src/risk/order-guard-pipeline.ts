@@ -0,0 +1,91 @@
+import type { SdkConfig } from "../shared/config.js";
+import type { SdkOrderIntent } from "../signal/types.js";
+import { FatFingerGuard } from "./guards/fat-finger.js";
+import { MaxOrderNotionalGuard } from "./guards/max-order-notional.js";
+import { PriceCollarGuard } from "./guards/price-collar.js";
+import type { GuardVerdict, OrderGuard, OrderGuardContext } from "./types.js";
+import { allow } from "./types.js";
+
+/**
+ * Second guard stage that evaluates the concrete order intent before submission.
+ *
+ * Runs after `detector.toOrder` and before `executor.submit`; the first guard to
+ * block stops execution, exactly like {@link GuardPipeline}.
+ *
+ * @example
+ * ```ts
+ * const orderGuards = OrderGuardPipeline.standard(config)
+ *   .with(TokenExposureGuard.create(250));
+ * const verdict = orderGuards.evaluate(intent, context);
+ * ```
+ */
+export class OrderGuardPipeline {
+	private readonly guards: readonly OrderGuard[];
+
+	private constructor(guards: readonly OrderGuard[]) {
+		this.guards = guards;
+	}
+
+	/** Returns all guards in the pipeline. */
+	all(): readonly OrderGuard[] {
+		return this.guards;
+	}
+
+	/** Creates an empty pipeline with no guards. */
+	static create(): OrderGuardPipeline {
+		return new OrderGuardPipeline([]);
+	}
+
+	/**
+	 * Appends a guard to the pipeline, returning a new pipeline instance.
+	 * @param guard The guard to add
+	 * @returns New pipeline with the guard appended
+	 */
+	with(guard: OrderGuard): OrderGuardPipeline {
+		return new OrderGuardPipeline([...this.guards, guard]);
+	}
+
+	/**
+	 * Evaluates all guards in sequence, returning the first block verdict or allow.
+	 * @param intent The order about to be submitted
+	 * @param ctx Guard context with market, position and risk data
+	 * @returns GuardVerdict allowing or blocking the order
+	 */
+	evaluate(intent: SdkOrderIntent, ctx: OrderGuardContext): GuardVerdict {
+		for (const guard of this.guards) {
+			const verdict = guard.check(intent, ctx);
+			if (verdict.type === "block") return verdict;
+		}
+		return allow();
+	}
+
+	/** @returns True if no guards are configured */
+	isEmpty(): boolean {
+		return this.guards.length === 0;
+	}
+
+	/** @returns Number of guards in the pipeline */
+	len(): number {
+		return this.guards.length;
+	}
+
+	/** @returns Array of guard names in evaluation order */
+	guardNames(): readonly string[] {
+		return this.guards.map((g) => g.name);
+	}
+
+	// ── Presets ────────────────────────────────────────────────────
+
+	/**
+	 * Standard preset: sanity limits on every order.
+	 * - MaxOrderNotional: config.maxOrderSizeUsdc
+	 * - PriceCollar: normal (10% from mid)
+	 * - FatFinger: normal (25% of available balance)
+	 */
+	static standard(config: Pick<SdkConfig, "maxOrderSizeUsdc">): OrderGuardPipeline {
+		return OrderGuardPipeline.create()
+			.with(MaxOrderNotionalGuard.fromConfig(config))
+			.with(PriceCollarGuard.normal())
+			.with(FatFingerGuard.normal());
+	}
+}
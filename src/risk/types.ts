@@ -6,8 +6,9 @@
  */
 
 import type { Decimal } from "../shared/decimal.js";
-import type { ConditionId } from "../shared/identifiers.js";
+import type { ConditionId, MarketTokenId } from "../shared/identifiers.js";
 import type { MarketSide } from "../shared/market-side.js";
+import type { SdkOrderIntent } from "../signal/types.js";
 
 // ── Guard verdict (discriminated union) ─────────────────────────────
 
@@ -92,6 +93,8 @@ export interface GuardContext {
 	lastTradeTimeMs(conditionId: ConditionId): number | null;
 	oracleAgeMs(): number | null;
 	bookAgeMs(): number | null;
+	/** False while the book feed has detected corruption and not yet resynced. Default: valid */
+	isBookValid?(): boolean;
 }
 
 // ── Entry guard interface ───────────────────────────────────────────
@@ -102,3 +105,21 @@ export interface EntryGuard {
 	check(ctx: GuardContext): GuardVerdict;
 	readonly isSafetyCritical?: boolean;
 }
+
+// ── Order guard interface ───────────────────────────────────────────
+
+/** GuardContext plus the per-token view order guards need to judge a concrete intent. */
+export interface OrderGuardContext extends GuardContext {
+	/** Cost basis of open positions held in `tokenId`. */
+	tokenExposure(tokenId: MarketTokenId): Decimal;
+}
+
+/**
+ * Pre-submit risk check on the order the detector produced -- runs after
+ * `toOrder` and before `executor.submit`, so it can judge size, price and notional.
+ */
+export interface OrderGuard {
+	readonly name: string;
+	check(intent: SdkOrderIntent, ctx: OrderGuardContext): GuardVerdict;
+	readonly isSafetyCritical?: boolean;
+}
@@ -138,6 +138,21 @@ describe("ExitPipeline", () => {
 		});
 	});
 
+	describe("onPositionClosed", () => {
+		it("forwards to the policies that implement it", () => {
+			const closed: PositionLike[] = [];
+			const tracker: ExitPolicy = {
+				name: "Tracker",
+				shouldExit: () => null,
+				onPositionClosed: (position) => closed.push(position),
+			};
+
+			ExitPipeline.create().with(neverExit).with(tracker).onPositionClosed(stubPosition);
+
+			expect(closed).toEqual([stubPosition]);
+		});
+	});
+
 	describe("presets", () => {
 		it("standard() has take-profit, stop-loss, trailing-stop, time-exit", () => {
 			const pipeline = ExitPipeline.standard();
@@ -35,6 +35,13 @@ export class ExitPipeline {
 		return null;
 	}
 
+	/** Tells every policy that a position has closed. */
+	onPositionClosed(position: PositionLike): void {
+		for (const policy of this.policies) {
+			policy.onPositionClosed?.(position);
+		}
+	}
+
 	isEmpty(): boolean {
 		return this.policies.length === 0;
 	}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { Decimal } from "../shared/decimal.js";
+import { ConfigError } from "../shared/errors.js";
+import { conditionId, marketTokenId } from "../shared/identifiers.js";
+import { MarketSide } from "../shared/market-side.js";
+import {
+	AggressiveExitPricer,
+	CrossSpreadExitPricer,
+	PassiveExitPricer,
+	UrgencyExitPricer,
+	exitUrgency,
+} from "./exit-pricing.js";
+import type { ExitPrice, ExitPricingInput } from "./exit-pricing.js";
+import { ExitUrgency } from "./types.js";
+import type { DetectorContextLike, PositionLike } from "./types.js";
+
+const d = Decimal.from;
+
+const position: PositionLike = {
+	conditionId: conditionId("cond-1"),
+	tokenId: marketTokenId("no-tok"),
+	side: MarketSide.No,
+	entryPrice: d("0.40"),
+	size: d(100),
+	highWaterMark: d("0.40"),
+	entryTimeMs: 0,
+	pnlTotal: () => d(0),
+	drawdown: () => d(0),
+};
+
+function ctx(nowMs: number, bid: string | null, ask: string | null): DetectorContextLike {
+	const book = (side: MarketSide, price: string | null) =>
+		side === MarketSide.No && price !== null ? d(price) : null;
+	return {
+		conditionId: position.conditionId,
+		nowMs: () => nowMs,
+		spot: () => d("0.60"),
+		oraclePrice: () => null,
+		timeRemainingMs: () => 60_000,
+		bestBid: (side) => book(side, bid),
+		bestAsk: (side) => book(side, ask),
+		spread: () => null,
+	};
+}
+
+function input(overrides: Partial<ExitPricingInput> = {}): ExitPricingInput {
+	return {
+		position,
+		ctx: ctx(1000, "0.38", "0.42"),
+		reason: { type: "take_profit", roi: d("0.1") },
+		urgency: ExitUrgency.Low,
+		exitSinceMs: 1000,
+		...overrides,
+	};
+}
+
+function fmt(price: ExitPrice | null): string | null {
+	if (price === null) return null;
+	return [price.price.toString(), price.orderKind, price.expiresAtMs].filter(Boolean).join(" ");
+}
+
+describe("exitUrgency", () => {
+	it("maps exit reasons to urgency", () => {
+		expect(exitUrgency({ type: "take_profit", roi: d("0.1") })).toBe(ExitUrgency.Low);
+		expect(exitUrgency({ type: "time_exit", remainingSecs: 10 })).toBe(ExitUrgency.Medium);
+		expect(exitUrgency({ type: "stop_loss", loss: d("0.1") })).toBe(ExitUrgency.High);
+		expect(exitUrgency({ type: "emergency", reason: "x" })).toBe(ExitUrgency.Emergency);
+	});
+});
+
+describe("CrossSpreadExitPricer", () => {
+	it("sells at the best bid of the held token", () => {
+		const pricer = CrossSpreadExitPricer.create();
+
+		expect(fmt(pricer.price(input()))).toBe("0.38");
+		expect(pricer.price(input({ ctx: ctx(1000, null, "0.42") }))).toBeNull();
+	});
+});
+
+describe("PassiveExitPricer", () => {
+	const pricer = PassiveExitPricer.create({ escalateAfterMs: 5000 });
+
+	it("joins the best ask until the wait is over", () => {
+		expect(fmt(pricer.price(input({ ctx: ctx(3000, "0.38", "0.42") })))).toBe("0.42 gtd 6000");
+	});
+
+	it("escalates to the bid once the wait is over or the offer is empty", () => {
+		expect(fmt(pricer.price(input({ ctx: ctx(6000, "0.38", "0.42") })))).toBe("0.38");
+		expect(fmt(pricer.price(input({ ctx: ctx(3000, "0.38", null) })))).toBe("0.38");
+	});
+
+	it("rejects a negative wait", () => {
+		expect(() => PassiveExitPricer.create({ escalateAfterMs: -1 })).toThrow(ConfigError);
+	});
+});
+
+describe("AggressiveExitPricer", () => {
+	it("sweeps down to the slippage floor as IOC, rounded onto the tick grid", () => {
+		const pricer = AggressiveExitPricer.create({ maxSlippageBps: 1000 });
+
+		// 0.38 × 0.9 = 0.342 → 0.35
+		expect(fmt(pricer.price(input()))).toBe("0.35 ioc");
+		expect(pricer.price(input({ ctx: ctx(1000, null, "0.42") }))).toBeNull();
+	});
+
+	it("rejects invalid configuration", () => {
+		expect(() => AggressiveExitPricer.create({ maxSlippageBps: -1 })).toThrow(ConfigError);
+		expect(() => AggressiveExitPricer.create({ maxSlippageBps: 10_000 })).toThrow(ConfigError);
+		expect(() => AggressiveExitPricer.create({ maxSlippageBps: 100, tickSize: d(0) })).toThrow(
+			ConfigError,
+		);
+	});
+});
+
+describe("UrgencyExitPricer", () => {
+	it("routes each urgency to its pricer", () => {
+		const pricer = UrgencyExitPricer.create();
+
+		expect(fmt(pricer.price(input()))).toBe("0.42 gtd 31000");
+		expect(fmt(pricer.price(input({ urgency: ExitUrgency.Medium })))).toBe("0.42 gtd 11000");
+		expect(fmt(pricer.price(input({ urgency: ExitUrgency.High })))).toBe("0.38");
+		expect(fmt(pricer.price(input({ urgency: ExitUrgency.Emergency })))).toBe("0.37 ioc");
+	});
+
+	it("accepts per-urgency overrides", () => {
+		const pricer = UrgencyExitPricer.create({ [ExitUrgency.Low]: CrossSpreadExitPricer.create() });
+
+		expect(fmt(pricer.price(input()))).toBe("0.38");
+	});
+});
@@ -0,0 +1,226 @@
+/**
+ * Exit pricing — how aggressively an exit order is priced.
+ *
+ * An ExitPricer turns an exit decision into a limit price (and time-in-force)
+ * on the held token's book. The urgency of the exit reason picks the pricer:
+ * low-urgency exits join the offer and escalate to the bid after a while,
+ * urgent exits cross the spread, and emergencies sweep the book down to a
+ * slippage floor.
+ */
+
+import { OrderKind } from "../order/types.js";
+import { Decimal } from "../shared/decimal.js";
+import { ConfigError } from "../shared/errors.js";
+import { ExitUrgency } from "./types.js";
+import type { DetectorContextLike, ExitReason, PositionLike } from "./types.js";
+
+/** What an ExitPricer sees when pricing an exit. */
+export interface ExitPricingInput {
+	readonly position: PositionLike;
+	readonly ctx: DetectorContextLike;
+	readonly reason: ExitReason;
+	readonly urgency: ExitUrgency;
+	/** When the exit first triggered for this position; escalation runs from here. */
+	readonly exitSinceMs: number;
+}
+
+/** Limit price and time-in-force for an exit order. */
+export interface ExitPrice {
+	readonly price: Decimal;
+	/** Default: GTC */
+	readonly orderKind?: OrderKind | undefined;
+	/** Required with GTD. */
+	readonly expiresAtMs?: number | undefined;
+}
+
+/** Prices an exit order; null when the book gives nothing to price against. */
+export interface ExitPricer {
+	readonly name: string;
+	price(input: ExitPricingInput): ExitPrice | null;
+}
+
+/**
+ * Default urgency of an exit reason: take-profit can wait, losses and expiry
+ * cannot, emergencies get out at any reasonable price.
+ *
+ * @example
+ * ```ts
+ * exitUrgency({ type: "stop_loss", loss: d("0.1") }); // "high"
+ * ```
+ */
+export function exitUrgency(reason: ExitReason): ExitUrgency {
+	switch (reason.type) {
+		case "take_profit":
+			return ExitUrgency.Low;
+		case "time_exit":
+		case "edge_reversal":
+			return ExitUrgency.Medium;
+		case "stop_loss":
+		case "trailing_stop":
+		case "near_expiry":
+			return ExitUrgency.High;
+		case "emergency":
+			return ExitUrgency.Emergency;
+	}
+}
+
+/**
+ * Sells at the best bid of the held token.
+ *
+ * @example
+ * ```ts
+ * const pricer = CrossSpreadExitPricer.create();
+ * ```
+ */
+export class CrossSpreadExitPricer implements ExitPricer {
+	readonly name = "CrossSpread";
+
+	private constructor() {}
+
+	static create(): CrossSpreadExitPricer {
+		return new CrossSpreadExitPricer();
+	}
+
+	price({ position, ctx }: ExitPricingInput): ExitPrice | null {
+		const bid = ctx.bestBid(position.side);
+		return bid === null ? null : { price: bid };
+	}
+}
+
+/** Configuration for PassiveExitPricer. */
+export interface PassiveExitConfig {
+	/** How long to wait at the offer before handing over to `escalateTo`. */
+	readonly escalateAfterMs: number;
+	/** Default: CrossSpreadExitPricer */
+	readonly escalateTo?: ExitPricer | undefined;
+}
+
+/**
+ * Joins the best ask of the held token as a GTD order that expires when the
+ * wait is over; from then on the exit is priced by `escalateTo`.
+ *
+ * @example
+ * ```ts
+ * const pricer = PassiveExitPricer.create({ escalateAfterMs: Duration.seconds(30) });
+ * ```
+ */
+export class PassiveExitPricer implements ExitPricer {
+	readonly name = "Passive";
+	private readonly escalateAfterMs: number;
+	private readonly escalateTo: ExitPricer;
+
+	private constructor(config: PassiveExitConfig) {
+		this.escalateAfterMs = config.escalateAfterMs;
+		this.escalateTo = config.escalateTo ?? CrossSpreadExitPricer.create();
+	}
+
+	/**
+	 * Creates a passive exit pricer.
+	 * @throws ConfigError if escalateAfterMs is negative
+	 */
+	static create(config: PassiveExitConfig): PassiveExitPricer {
+		if (config.escalateAfterMs < 0) {
+			throw new ConfigError("PassiveExitPricer: escalateAfterMs must be non-negative", {
+				escalateAfterMs: config.escalateAfterMs,
+			});
+		}
+		return new PassiveExitPricer(config);
+	}
+
+	price(input: ExitPricingInput): ExitPrice | null {
+		const escalateAtMs = input.exitSinceMs + this.escalateAfterMs;
+		const ask = input.ctx.bestAsk(input.position.side);
+		if (ask === null || input.ctx.nowMs() >= escalateAtMs) {
+			return this.escalateTo.price(input);
+		}
+		return { price: ask, orderKind: OrderKind.GTD, expiresAtMs: escalateAtMs };
+	}
+}
+
+/** Configuration for AggressiveExitPricer. */
+export interface AggressiveExitConfig {
+	/** Lowest acceptable price, in bps below the best bid. */
+	readonly maxSlippageBps: number;
+	/** Default: 0.01 */
+	readonly tickSize?: Decimal | undefined;
+}
+
+/**
+ * Sweeps the bids down to a slippage floor below the best bid as an IOC order;
+ * whatever does not fill is re-priced on the next tick.
+ *
+ * @example
+ * ```ts
+ * const pricer = AggressiveExitPricer.create({ maxSlippageBps: 500 });
+ * ```
+ */
+export class AggressiveExitPricer implements ExitPricer {
+	readonly name = "Aggressive";
+	private readonly maxSlippage: Decimal;
+	private readonly tickSize: Decimal;
+
+	private constructor(config: AggressiveExitConfig) {
+		this.maxSlippage = Decimal.from(config.maxSlippageBps).div(Decimal.from(10_000));
+		this.tickSize = config.tickSize ?? Decimal.from("0.01");
+	}
+
+	/**
+	 * Creates an aggressive exit pricer.
+	 * @throws ConfigError if maxSlippageBps is outside [0, 10000) or tickSize is not positive
+	 */
+	static create(config: AggressiveExitConfig): AggressiveExitPricer {
+		if (config.maxSlippageBps < 0 || config.maxSlippageBps >= 10_000) {
+			throw new ConfigError("AggressiveExitPricer: maxSlippageBps must be in [0, 10000)", {
+				maxSlippageBps: config.maxSlippageBps,
+			});
+		}
+		if (config.tickSize !== undefined && !config.tickSize.isPositive()) {
+			throw new ConfigError("AggressiveExitPricer: tickSize must be positive");
+		}
+		return new AggressiveExitPricer(config);
+	}
+
+	price({ position, ctx }: ExitPricingInput): ExitPrice | null {
+		const bid = ctx.bestBid(position.side);
+		if (bid === null) return null;
+		const floor = bid.mul(Decimal.one().sub(this.maxSlippage));
+		const steps = Math.ceil(floor.div(this.tickSize).toNumber());
+		const price = Decimal.max(Decimal.from(steps).mul(this.tickSize), this.tickSize);
+		return { price: Decimal.min(price, bid), orderKind: OrderKind.IOC };
+	}
+}
+
+/**
+ * Routes each exit to a pricer by urgency. Defaults: Low joins the offer for
+ * 30s, Medium for 10s, High crosses the spread, Emergency sweeps down to
+ * 500 bps below the bid.
+ *
+ * @example
+ * ```ts
+ * const pricer = UrgencyExitPricer.create({
+ *   [ExitUrgency.Emergency]: AggressiveExitPricer.create({ maxSlippageBps: 1000 }),
+ * });
+ * ```
+ */
+export class UrgencyExitPricer implements ExitPricer {
+	readonly name = "Urgency";
+	private readonly pricers: Readonly<Record<ExitUrgency, ExitPricer>>;
+
+	private constructor(pricers: Readonly<Record<ExitUrgency, ExitPricer>>) {
+		this.pricers = pricers;
+	}
+
+	static create(overrides: Partial<Record<ExitUrgency, ExitPricer>> = {}): UrgencyExitPricer {
+		return new UrgencyExitPricer({
+			[ExitUrgency.Low]: PassiveExitPricer.create({ escalateAfterMs: 30_000 }),
+			[ExitUrgency.Medium]: PassiveExitPricer.create({ escalateAfterMs: 10_000 }),
+			[ExitUrgency.High]: CrossSpreadExitPricer.create(),
+			[ExitUrgency.Emergency]: AggressiveExitPricer.create({ maxSlippageBps: 500 }),
+			...overrides,
+		});
+	}
+
+	price(input: ExitPricingInput): ExitPrice | null {
+		return this.pricers[input.urgency].price(input);
+	}
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { Decimal } from "../../shared/decimal.js";
+import { ConfigError } from "../../shared/errors.js";
+import { conditionId, marketTokenId } from "../../shared/identifiers.js";
+import { MarketSide } from "../../shared/market-side.js";
+import type { DetectorContextLike, PositionLike } from "../types.js";
+import { ScaleOutExit } from "./scale-out.js";
+
+const d = Decimal.from;
+
+function position(size: number): PositionLike {
+	const entryPrice = d("0.50");
+	return {
+		conditionId: conditionId("cond-1"),
+		tokenId: marketTokenId("tok-1"),
+		side: MarketSide.Yes,
+		entryPrice,
+		size: d(size),
+		highWaterMark: entryPrice,
+		entryTimeMs: 1000,
+		pnlTotal: (exit) => exit.sub(entryPrice).mul(d(size)),
+		drawdown: () => d(0),
+	};
+}
+
+function ctx(bid: string | null): DetectorContextLike {
+	return {
+		conditionId: conditionId("cond-1"),
+		nowMs: () => 10_000,
+		spot: () => null,
+		oraclePrice: () => null,
+		timeRemainingMs: () => 300_000,
+		bestBid: () => (bid === null ? null : d(bid)),
+		bestAsk: () => null,
+		spread: () => null,
+	};
+}
+
+describe("ScaleOutExit", () => {
+	const levels = [
+		{ roi: d("0.4"), fraction: d(1) },
+		{ roi: d("0.2"), fraction: d("0.5") },
+	];
+
+	it("sells a fraction of the position at each ROI level", () => {
+		const exit = ScaleOutExit.create(levels);
+
+		expect(exit.shouldExit(position(100), ctx("0.55"))).toBeNull();
+		const first = exit.shouldExit(position(100), ctx("0.60"));
+		expect(first?.type).toBe("take_profit");
+		expect(first?.fraction?.toString()).toBe("0.5");
+
+		// Once the first level has filled, the next one waits for its own ROI
+		expect(exit.shouldExit(position(50), ctx("0.60"))).toBeNull();
+		expect(exit.shouldExit(position(50), ctx("0.70"))?.fraction?.toString()).toBe("1");
+	});
+
+	it("fires a level again while the position has not shrunk", () => {
+		const exit = ScaleOutExit.create(levels);
+
+		exit.shouldExit(position(100), ctx("0.60"));
+
+		expect(exit.shouldExit(position(100), ctx("0.60"))?.fraction?.toString()).toBe("0.5");
+	});
+
+	it("sells the rest of a level whose exit filled in part", () => {
+		const exit = ScaleOutExit.create(levels);
+
+		exit.shouldExit(position(100), ctx("0.60"));
+
+		// 20 of the 50 filled: the level fires again for the 30 left, not the next level
+		expect(exit.shouldExit(position(80), ctx("0.70"))?.fraction?.toString()).toBe("0.375");
+		expect(exit.shouldExit(position(50), ctx("0.60"))).toBeNull();
+	});
+
+	it("starts over once the position has closed", () => {
+		const exit = ScaleOutExit.create(levels);
+		exit.shouldExit(position(100), ctx("0.60"));
+		exit.shouldExit(position(50), ctx("0.70"));
+
+		exit.onPositionClosed(position(0));
+
+		expect(exit.shouldExit(position(100), ctx("0.60"))?.fraction?.toString()).toBe("0.5");
+	});
+
+	it("does not exit without a bid", () => {
+		expect(ScaleOutExit.create(levels).shouldExit(position(100), ctx(null))).toBeNull();
+	});
+
+	it("rejects invalid levels", () => {
+		expect(() => ScaleOutExit.create([])).toThrow(ConfigError);
+		expect(() => ScaleOutExit.create([{ roi: d("0.2"), fraction: d(0) }])).toThrow(ConfigError);
+		expect(() => ScaleOutExit.create([{ roi: d("0.2"), fraction: d("1.5") }])).toThrow(ConfigError);
+	});
+});
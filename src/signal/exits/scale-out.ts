@@ -0,0 +1,95 @@
+import { Decimal } from "../../shared/decimal.js";
+import { ConfigError } from "../../shared/errors.js";
+import type { DetectorContextLike, ExitPolicy, ExitReason, PositionLike } from "../types.js";
+
+/** One scale-out step: sell `fraction` of the position once ROI reaches `roi`. */
+export interface ScaleOutLevel {
+	readonly roi: Decimal;
+	/** Share of the position held at that point, in (0, 1]. */
+	readonly fraction: Decimal;
+}
+
+/** The latest level fired for one position, and the size it leaves once filled. */
+interface ScaleOutProgress {
+	readonly level: number;
+	readonly targetSize: Decimal;
+}
+
+/**
+ * Exit policy that takes profit in steps instead of closing at once.
+ * Each level fires once per position as a partial `take_profit` exit; a level
+ * counts as taken once the position is down to the size that level leaves,
+ * so an exit that filled only in part fires again for the rest. Progress is
+ * dropped when the position closes. Combine with a trailing stop to manage
+ * the rest.
+ *
+ * @example
+ * ```ts
+ * // Take 50% at +20% ROI, trail the rest
+ * const exits = ExitPipeline.create()
+ *   .with(ScaleOutExit.create([{ roi: Decimal.from("0.2"), fraction: Decimal.from("0.5") }]))
+ *   .with(TrailingStopExit.normal());
+ * ```
+ */
+export class ScaleOutExit implements ExitPolicy {
+	readonly name = "ScaleOut";
+	private readonly levels: readonly ScaleOutLevel[];
+	private readonly progress = new Map<string, ScaleOutProgress>();
+
+	private constructor(levels: readonly ScaleOutLevel[]) {
+		this.levels = levels;
+	}
+
+	/**
+	 * Creates a scale-out exit. Levels are sorted by ROI.
+	 * @param levels ROI thresholds with the share of the position to sell at each
+	 * @throws ConfigError if there are no levels or a fraction is outside (0, 1]
+	 */
+	static create(levels: readonly ScaleOutLevel[]): ScaleOutExit {
+		if (levels.length === 0) {
+			throw new ConfigError("ScaleOutExit: at least one level is required");
+		}
+		for (const level of levels) {
+			if (!level.fraction.isPositive() || level.fraction.gt(Decimal.one())) {
+				throw new ConfigError("ScaleOutExit: fraction must be in (0, 1]", {
+					fraction: level.fraction.toString(),
+				});
+			}
+		}
+		return new ScaleOutExit([...levels].sort((a, b) => a.roi.toNumber() - b.roi.toNumber()));
+	}
+
+	shouldExit(position: PositionLike, ctx: DetectorContextLike): ExitReason | null {
+		const currentPrice = ctx.bestBid(position.side);
+		if (currentPrice === null) return null;
+
+		const costBasis = position.entryPrice.mul(position.size);
+		if (costBasis.isZero()) return null;
+
+		const key = progressKey(position);
+		const last = this.progress.get(key);
+		const unfilled = last !== undefined && position.size.gt(last.targetSize) ? last : null;
+		const index = unfilled ? unfilled.level : last ? last.level + 1 : 0;
+		const next = this.levels[index];
+		if (!next) return null;
+
+		const roi = position.pnlTotal(currentPrice).div(costBasis);
+		if (roi.lt(next.roi)) return null;
+
+		if (unfilled) {
+			const rest = position.size.sub(unfilled.targetSize).div(position.size);
+			return { type: "take_profit", roi, fraction: rest };
+		}
+		const targetSize = position.size.mul(Decimal.one().sub(next.fraction));
+		this.progress.set(key, { level: index, targetSize });
+		return { type: "take_profit", roi, fraction: next.fraction };
+	}
+
+	onPositionClosed(position: PositionLike): void {
+		this.progress.delete(progressKey(position));
+	}
+}
+
+function progressKey(position: PositionLike): string {
+	return `${position.conditionId}:${position.entryTimeMs}`;
+}
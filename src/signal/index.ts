@@ -17,6 +17,20 @@ export {
 } from "./types.js";
 
 export { ExitPipeline } from "./exit-pipeline.js";
+export {
+	AggressiveExitPricer,
+	CrossSpreadExitPricer,
+	PassiveExitPricer,
+	UrgencyExitPricer,
+	exitUrgency,
+} from "./exit-pricing.js";
+export type {
+	AggressiveExitConfig,
+	ExitPrice,
+	ExitPricer,
+	ExitPricingInput,
+	PassiveExitConfig,
+} from "./exit-pricing.js";
 
 export { EdgeReversalExit } from "./exits/edge-reversal.js";
 export { EmergencyExit } from "./exits/emergency.js";
@@ -24,6 +38,7 @@ export { GammaRiskExit, type GammaRiskConfig } from "./exits/gamma-risk.js";
 export { MaxHoldTimeExit } from "./exits/max-hold-time.js";
 export { NearExpiryExit } from "./exits/near-expiry.js";
 export { ProfitLockerExit } from "./exits/profit-locker.js";
+export { ScaleOutExit, type ScaleOutLevel } from "./exits/scale-out.js";
 export { StopLossExit } from "./exits/stop-loss.js";
 export { TakeProfitExit } from "./exits/take-profit.js";
 export { TimeExit } from "./exits/time-exit.js";
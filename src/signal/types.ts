@@ -52,15 +52,22 @@ export type ExitUrgency = (typeof ExitUrgency)[keyof typeof ExitUrgency];
 
 // ── Exit reason (discriminated union, 7 variants) ───────────────────
 
-/** Discriminated union of all exit reasons with variant-specific data. */
-export type ExitReason =
+/**
+ * Discriminated union of all exit reasons with variant-specific data.
+ * `fraction` scales the exit out: the share of the current position to sell.
+ */
+export type ExitReason = (
 	| { readonly type: "take_profit"; readonly roi: Decimal }
 	| { readonly type: "stop_loss"; readonly loss: Decimal }
 	| { readonly type: "trailing_stop"; readonly drawdownPct: Decimal }
 	| { readonly type: "time_exit"; readonly remainingSecs: number }
 	| { readonly type: "edge_reversal"; readonly newEdge: number }
 	| { readonly type: "near_expiry"; readonly remainingSecs: number }
-	| { readonly type: "emergency"; readonly reason: string };
+	| { readonly type: "emergency"; readonly reason: string }
+) & {
+	/** Share of the current position to sell, in (0, 1]. Default: 1 (close) */
+	readonly fraction?: Decimal | undefined;
+};
 
 /** String literal union of all exit reason discriminants. */
 export type ExitReasonType = ExitReason["type"];
@@ -71,6 +78,8 @@ export type ExitReasonType = ExitReason["type"];
 export interface ExitPolicy {
 	readonly name: string;
 	shouldExit(position: PositionLike, ctx: DetectorContextLike): ExitReason | null;
+	/** Releases any state the policy keeps for a position once it has closed. */
+	onPositionClosed?(position: PositionLike): void;
 }
 
 // ── Signal kind ─────────────────────────────────────────────────────
@@ -106,6 +115,8 @@ export interface SdkOrderIntent {
 	readonly price: Decimal;
 	readonly size: Decimal;
 	readonly orderKind?: OrderKind;
+	/** Expiry (epoch ms) for GTD orders; required when orderKind is GTD. */
+	readonly expiresAtMs?: number | undefined;
 }
 
 // ── Signal detector interface (THE interface users implement) ───────
@@ -184,6 +184,7 @@ describe("BuiltStrategy — hardening", () => {
 				}
 				return { type: "take_profit", roi: Decimal.from(0.2) } as const;
 			},
+			onPositionClosed: () => {},
 		} as unknown as ExitPipeline;
 
 		const strategy = new BuiltStrategy({
@@ -354,7 +355,7 @@ describe("BuiltStrategy — hardening", () => {
 			conditionId: string;
 		}>;
 		expect(orderEvents).toHaveLength(1);
-		expect(orderEvents[0]?.side).toBe("no");
+		expect(orderEvents[0]?.side).toBe("yes");
 	});
 
 	it("should journal exit_signal before executing exit (HARD-19)", async () => {
@@ -484,7 +485,7 @@ describe("BuiltStrategy — hardening", () => {
 		expect(sdkEvents("position_closed")).toHaveLength(1);
 	});
 
-	it("should emit tick_dropped when tick is already in progress (L2)", async () => {
+	it("should emit tick_dropped when the market's order is still in flight (L2)", async () => {
 		const ctx = createMockContext();
 
 		let resolveFirst: (() => void) | null = null;
@@ -513,9 +514,10 @@ describe("BuiltStrategy — hardening", () => {
 		const firstTick = blockingStrategy.tick(ctx);
 		await blockingStrategy.tick(ctx);
 
-		const dropped = sdkEvents("tick_dropped") as Array<{ reason: string }>;
+		const dropped = sdkEvents("tick_dropped") as Array<{ reason: string; conditionId: string }>;
 		expect(dropped).toHaveLength(1);
-		expect(dropped[0]?.reason).toContain("re-entrancy");
+		expect(dropped[0]?.reason).toContain("in flight");
+		expect(dropped[0]?.conditionId).toBe(ctx.conditionId);
 
 		resolveFirst?.();
 		await firstTick;
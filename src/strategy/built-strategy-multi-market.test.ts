@@ -0,0 +1,283 @@
+import { describe, expect, it } from "vitest";
+import { PaperExecutor } from "../execution/paper-executor.js";
+import type { WsState } from "../lib/websocket/types.js";
+import { MemoryJournal } from "../persistence/memory-journal.js";
+import { GuardPipeline } from "../risk/guard-pipeline.js";
+import { DuplicateOrderGuard } from "../risk/guards/duplicate-order.js";
+import { KillSwitchGuard } from "../risk/guards/kill-switch.js";
+import { MaxPositionsGuard } from "../risk/guards/max-positions.js";
+import { Decimal } from "../shared/decimal.js";
+import type { TradingError } from "../shared/errors.js";
+import { type ConditionId, conditionId, marketTokenId } from "../shared/identifiers.js";
+import { MarketSide } from "../shared/market-side.js";
+import { type Result, ok, unwrap } from "../shared/result.js";
+import { FakeClock } from "../shared/time.js";
+import { ExitPipeline } from "../signal/exit-pipeline.js";
+import type { SignalDetector } from "../signal/types.js";
+import { MultiMarketManager } from "../websocket/multi-market.js";
+import { WsManager } from "../websocket/ws-manager.js";
+import { StrategyBuilder } from "./strategy-builder.js";
+import { createTickContextProvider } from "./tick-context.js";
+
+const BTC = conditionId("btc-up");
+const ETH = conditionId("eth-up");
+const SOL = conditionId("sol-up");
+
+class FakeWsClient {
+	private messageHandler: ((data: string) => void) | null = null;
+	private state: WsState = "closed";
+
+	async connect(): Promise<void> {
+		this.state = "open";
+	}
+
+	send(_data: string): Result<void, TradingError> {
+		return ok(undefined);
+	}
+
+	close(): void {
+		this.state = "closed";
+	}
+
+	getState(): WsState {
+		return this.state;
+	}
+
+	onMessage(h: (data: string) => void): void {
+		this.messageHandler = h;
+	}
+
+	onClose(): void {}
+
+	onError(): void {}
+
+	pushBook(cid: ConditionId, bid: string, ask: string, ts: number, size = "100"): void {
+		this.messageHandler?.(
+			JSON.stringify({
+				type: "book_update",
+				conditionId: cid,
+				bids: [{ price: bid, size }],
+				asks: [{ price: ask, size }],
+				timestampMs: ts,
+			}),
+		);
+	}
+
+	pushTokenBook(cid: ConditionId, assetId: string, bid: string, ask: string, ts: number): void {
+		this.messageHandler?.(
+			JSON.stringify({
+				type: "book_update",
+				conditionId: cid,
+				assetId,
+				bids: [{ price: bid, size: "100" }],
+				asks: [{ price: ask, size: "100" }],
+				timestampMs: ts,
+			}),
+		);
+	}
+}
+
+const buyBelow50: SignalDetector<unknown, Decimal> = {
+	name: "buy-below",
+	detectEntry(ctx) {
+		const ask = ctx.bestAsk(MarketSide.Yes);
+		return ask?.lt(Decimal.from("0.50")) ? ask : null;
+	},
+	toOrder(ask, ctx) {
+		return {
+			conditionId: ctx.conditionId,
+			tokenId: marketTokenId(`${ctx.conditionId}-yes`),
+			side: MarketSide.Yes,
+			direction: "buy",
+			price: ask,
+			size: Decimal.from(10),
+		};
+	},
+};
+
+async function setup(
+	opts: {
+		guards?: GuardPipeline;
+		exits?: ExitPipeline;
+		markets?: ConditionId[];
+		fillProbability?: number;
+	} = {},
+) {
+	const clock = new FakeClock(1_700_000_000_000);
+	const client = new FakeWsClient();
+	const wsManager = new WsManager(client, { clock });
+	await wsManager.connect();
+	const multi = new MultiMarketManager(wsManager);
+	const markets = opts.markets ?? [BTC, ETH, SOL];
+	for (const cid of markets) unwrap(multi.addMarket(cid));
+
+	const executor = new PaperExecutor({ clock, fillProbability: opts.fillProbability ?? 1 });
+	const journal = new MemoryJournal();
+	let builder = StrategyBuilder.create()
+		.withClock(clock)
+		.withDetector(buyBelow50)
+		.withExecutor(executor)
+		.withJournal(journal);
+	if (opts.guards) builder = builder.withGuards(opts.guards);
+	if (opts.exits) builder = builder.withExits(opts.exits);
+	const strategy = builder.build();
+
+	const contextFor = createTickContextProvider({
+		strategy,
+		books: multi,
+		availableBalance: () => Decimal.from(1000),
+		clock,
+	});
+	const tick = async () => {
+		multi.processUpdates();
+		await strategy.tickMarkets(multi.activeMarkets(), contextFor);
+	};
+	return { clock, client, multi, executor, journal, strategy, contextFor, tick };
+}
+
+describe("BuiltStrategy.tickMarkets", () => {
+	it("evaluates entries for every market into one shared PositionManager", async () => {
+		const { clock, client, strategy, executor, tick } = await setup();
+		client.pushBook(BTC, "0.40", "0.42", clock.now());
+		client.pushBook(ETH, "0.60", "0.62", clock.now());
+		client.pushBook(SOL, "0.30", "0.33", clock.now());
+
+		await tick();
+
+		const pm = strategy.getPositionManager();
+		expect(pm.openCount()).toBe(2);
+		expect(pm.get(BTC)?.entryPrice.eq(Decimal.from("0.42"))).toBe(true);
+		expect(pm.get(SOL)?.entryPrice.eq(Decimal.from("0.33"))).toBe(true);
+		expect(pm.get(ETH)).toBeNull();
+		expect(executor.fillHistory()).toHaveLength(2);
+	});
+
+	it("skips markets without a book", async () => {
+		const { clock, client, strategy, tick } = await setup();
+		client.pushBook(ETH, "0.40", "0.45", clock.now());
+
+		await tick();
+
+		expect(strategy.getPositionManager().openCount()).toBe(1);
+		expect(strategy.getPositionManager().get(ETH)).not.toBeNull();
+	});
+
+	it("skips markets whose provider returns null", async () => {
+		const { clock, client, multi, strategy, contextFor } = await setup();
+		client.pushBook(BTC, "0.40", "0.42", clock.now());
+		client.pushBook(ETH, "0.40", "0.42", clock.now());
+		multi.processUpdates();
+
+		await strategy.tickMarkets([BTC, ETH], (cid) => (cid === ETH ? contextFor(cid) : null));
+
+		expect(strategy.getPositionManager().get(BTC)).toBeNull();
+		expect(strategy.getPositionManager().get(ETH)).not.toBeNull();
+	});
+
+	it("later markets see positions opened earlier in the same tick", async () => {
+		const guards = GuardPipeline.create().with(MaxPositionsGuard.create(1));
+		const { clock, client, strategy, journal, tick } = await setup({ guards });
+		client.pushBook(BTC, "0.40", "0.42", clock.now());
+		client.pushBook(ETH, "0.40", "0.42", clock.now());
+		client.pushBook(SOL, "0.40", "0.42", clock.now());
+
+		await tick();
+
+		expect(strategy.getPositionManager().openCount()).toBe(1);
+		expect(strategy.getPositionManager().get(BTC)).not.toBeNull();
+		const blocked = journal.entries().filter((e) => e.type === "guard_blocked");
+		expect(blocked).toHaveLength(2);
+	});
+
+	it("blocks a second entry while the first one rests on the book", async () => {
+		const guards = GuardPipeline.create().with(new DuplicateOrderGuard());
+		const { clock, client, strategy, journal, contextFor, tick } = await setup({
+			guards,
+			markets: [BTC],
+			fillProbability: 0.5,
+		});
+		client.pushBook(BTC, "0.40", "0.42", clock.now());
+
+		await tick();
+		expect(strategy.workingOrderCount()).toBe(1);
+		expect(contextFor(BTC)?.hasPendingOrderFor(BTC, MarketSide.Yes)).toBe(true);
+		expect(contextFor(BTC)?.hasPendingOrderFor(BTC, MarketSide.No)).toBe(false);
+
+		await tick();
+		const blocked = journal.entries().filter((e) => e.type === "guard_blocked");
+		expect(blocked).toHaveLength(1);
+		expect(strategy.workingOrderCount()).toBe(1);
+	});
+
+	it("a non-recoverable block halts entries for all remaining markets", async () => {
+		const killSwitch = KillSwitchGuard.create();
+		const guards = GuardPipeline.create().with(killSwitch);
+		const { clock, client, strategy, journal, tick } = await setup({ guards });
+		killSwitch.engage("manual", clock.now());
+		client.pushBook(BTC, "0.40", "0.42", clock.now());
+		client.pushBook(ETH, "0.40", "0.42", clock.now());
+
+		await tick();
+
+		expect(strategy.getPositionManager().openCount()).toBe(0);
+		expect(journal.entries().filter((e) => e.type === "guard_blocked")).toHaveLength(1);
+	});
+
+	it("evaluates each exit against its own market's context", async () => {
+		const exitAbove = ExitPipeline.create().with({
+			name: "take-profit",
+			shouldExit: (_position, ctx) => {
+				const spot = ctx.spot(MarketSide.Yes);
+				return spot?.gt(Decimal.from("0.60")) ? { type: "take_profit", roi: spot } : null;
+			},
+		});
+		const { clock, client, strategy, tick } = await setup({ exits: exitAbove });
+		client.pushBook(BTC, "0.40", "0.42", clock.now());
+		client.pushBook(ETH, "0.40", "0.42", clock.now());
+		await tick();
+		expect(strategy.getPositionManager().openCount()).toBe(2);
+
+		client.pushBook(BTC, "0.40", "0.42", clock.now(), "0");
+		client.pushBook(BTC, "0.70", "0.72", clock.now());
+		clock.advance(500);
+		await tick();
+
+		const pm = strategy.getPositionManager();
+		expect(pm.get(BTC)).toBeNull();
+		expect(pm.get(ETH)).not.toBeNull();
+		expect(pm.closedCount()).toBe(1);
+	});
+
+	it("contexts share portfolio risk state across markets", async () => {
+		const { clock, client, tick, contextFor } = await setup();
+		client.pushBook(BTC, "0.40", "0.42", clock.now());
+		await tick();
+
+		const ethCtx = contextFor(ETH);
+		expect(ethCtx.conditionId).toBe(ETH);
+		expect(ethCtx.spot(MarketSide.Yes)).toBeNull();
+		expect(ethCtx.openPositionCount()).toBe(1);
+		expect(ethCtx.totalExposure().eq(Decimal.from("4.2"))).toBe(true);
+		expect(ethCtx.lastTradeTimeMs(BTC)).toBe(clock.now());
+	});
+
+	it("prices YES and NO from their own token books", async () => {
+		const { clock, client, multi, contextFor } = await setup({ markets: [] });
+		unwrap(
+			multi.addMarket({
+				conditionId: BTC,
+				yesTokenId: marketTokenId("btc-yes"),
+				noTokenId: marketTokenId("btc-no"),
+			}),
+		);
+		client.pushTokenBook(BTC, "btc-yes", "0.40", "0.42", clock.now() - 2_000);
+		client.pushTokenBook(BTC, "btc-no", "0.57", "0.61", clock.now() - 5_000);
+		multi.processUpdates();
+
+		const ctx = contextFor(BTC);
+		expect(ctx.bestAsk(MarketSide.Yes)?.toString()).toBe("0.42");
+		expect(ctx.bestAsk(MarketSide.No)?.toString()).toBe("0.61");
+		expect(ctx.bestBid(MarketSide.No)?.toString()).toBe("0.57");
+		expect(ctx.bookAgeMs()).toBe(5_000);
+	});
+});
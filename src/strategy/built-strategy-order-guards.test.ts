@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from "vitest";
+import { MemoryJournal } from "../persistence/memory-journal.js";
+import { MaxOrderNotionalGuard } from "../risk/guards/max-order-notional.js";
+import { TokenExposureGuard } from "../risk/guards/token-exposure.js";
+import { OrderGuardPipeline } from "../risk/order-guard-pipeline.js";
+import type { OrderGuard } from "../risk/types.js";
+import { blockFatal } from "../risk/types.js";
+import { Decimal } from "../shared/decimal.js";
+import { conditionId } from "../shared/identifiers.js";
+import { FakeClock } from "../shared/time.js";
+import type { SdkOrderIntent, SignalDetector } from "../signal/types.js";
+import { CID, FILLED_RESULT, TOKEN_ID, createMockContext } from "./built-strategy-test-helpers.js";
+import { StrategyBuilder } from "./strategy-builder.js";
+
+/** Always signals; orders `size` shares at 0.55 on the context's market. */
+function sizedDetector(size: string): SignalDetector<unknown, unknown> {
+	return {
+		name: "sized",
+		detectEntry: () => ({}),
+		toOrder: (_signal, ctx) => ({
+			conditionId: ctx.conditionId,
+			tokenId: TOKEN_ID,
+			side: "yes",
+			direction: "buy",
+			price: Decimal.from("0.55"),
+			size: Decimal.from(size),
+		}),
+	};
+}
+
+function setup(opts: { size: string; orderGuards?: OrderGuardPipeline; maxOrderUsdc?: number }) {
+	const submit = vi.fn(async (_intent: SdkOrderIntent) => FILLED_RESULT);
+	const journal = new MemoryJournal();
+	let builder = StrategyBuilder.create()
+		.withClock(new FakeClock(1_700_000_000_000))
+		.withDetector(sizedDetector(opts.size))
+		.withExecutor({ submit, cancel: vi.fn() })
+		.withJournal(journal);
+	if (opts.orderGuards) builder = builder.withOrderGuards(opts.orderGuards);
+	if (opts.maxOrderUsdc !== undefined) {
+		builder = builder.withConfig({ maxOrderSizeUsdc: opts.maxOrderUsdc });
+	}
+	return { strategy: builder.build(), submit, journal };
+}
+
+describe("BuiltStrategy — order guards", () => {
+	it("default pipeline enforces config.maxOrderSizeUsdc on the real intent", async () => {
+		const { strategy, submit, journal } = setup({ size: "100", maxOrderUsdc: 50 });
+
+		await strategy.tick(createMockContext());
+
+		expect(submit).not.toHaveBeenCalled();
+		expect(strategy.getPositionManager().openCount()).toBe(0);
+		expect(journal.entries()).toContainEqual(
+			expect.objectContaining({ type: "guard_blocked", guardName: "MaxOrderNotional" }),
+		);
+	});
+
+	it("submits intents that pass every order guard", async () => {
+		const { strategy, submit } = setup({ size: "10", maxOrderUsdc: 50 });
+
+		await strategy.tick(createMockContext());
+
+		expect(submit).toHaveBeenCalledTimes(1);
+		expect(strategy.getPositionManager().get(CID)).not.toBeNull();
+	});
+
+	it("order guards receive the intent and per-token exposure from open positions", async () => {
+		const other = conditionId("other-market");
+		const orderGuards = OrderGuardPipeline.create()
+			.with(MaxOrderNotionalGuard.create(1_000))
+			.with(TokenExposureGuard.create(8));
+		const { strategy, submit, journal } = setup({ size: "10", orderGuards });
+
+		await strategy.tick(createMockContext());
+		expect(submit).toHaveBeenCalledTimes(1);
+
+		// Same token on another market: 5.5 held + 5.5 new > 8
+		await strategy.tick(createMockContext({ conditionId: other }));
+		expect(submit).toHaveBeenCalledTimes(1);
+		expect(strategy.getPositionManager().get(other)).toBeNull();
+		expect(journal.entries()).toContainEqual(
+			expect.objectContaining({ type: "guard_blocked", guardName: "TokenExposure" }),
+		);
+	});
+
+	it("order guards read the tick context's market view", async () => {
+		const seen: string[] = [];
+		const probe: OrderGuard = {
+			name: "Probe",
+			check: (_intent, ctx) => {
+				seen.push(`${ctx.conditionId}:${ctx.bestAsk("yes")?.toString()}:${ctx.isBookValid?.()}`);
+				return { type: "allow" };
+			},
+		};
+		const { strategy } = setup({
+			size: "10",
+			orderGuards: OrderGuardPipeline.create().with(probe),
+		});
+
+		await strategy.tick(createMockContext({ bestAsk: () => Decimal.from("0.56") }));
+
+		expect(seen).toEqual([`${CID}:0.56:true`]);
+	});
+
+	it("a non-recoverable order guard block stops entries on the remaining markets", async () => {
+		const check = vi.fn(() => blockFatal("Halt", "halted"));
+		const halt: OrderGuard = { name: "Halt", check };
+		const { strategy, submit } = setup({
+			size: "10",
+			orderGuards: OrderGuardPipeline.create().with(halt),
+		});
+		const markets = [conditionId("a"), conditionId("b")];
+
+		await strategy.tickMarkets(markets, (cid) => createMockContext({ conditionId: cid }));
+
+		expect(check).toHaveBeenCalledTimes(1);
+		expect(submit).not.toHaveBeenCalled();
+	});
+
+	it("a throwing order guard skips submission", async () => {
+		const throwing: OrderGuard = {
+			name: "Throws",
+			check: () => {
+				throw new Error("boom");
+			},
+		};
+		const { strategy, submit } = setup({
+			size: "10",
+			orderGuards: OrderGuardPipeline.create().with(throwing),
+		});
+
+		await strategy.tick(createMockContext());
+
+		expect(submit).not.toHaveBeenCalled();
+	});
+});
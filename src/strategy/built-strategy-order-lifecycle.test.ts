@@ -0,0 +1,334 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Executor } from "../execution/types.js";
+import type { OrderResult } from "../order/types.js";
+import { MemoryJournal } from "../persistence/memory-journal.js";
+import { clientOrderId, exchangeOrderId } from "../shared/identifiers.js";
+import { ok } from "../shared/result.js";
+import { FakeClock } from "../shared/time.js";
+import type { SdkOrderIntent } from "../signal/types.js";
+import type { UserFill } from "../websocket/types.js";
+import {
+	type BuildOverrides,
+	type BuiltStrategy,
+	Decimal,
+	EventDispatcher,
+	PositionManager,
+	type SignalDetector,
+	TOKEN_ID,
+	buildWithDispatcher,
+	createMockContext,
+	createMockDetector,
+	openPosition,
+} from "./built-strategy-test-helpers.js";
+import { DEFAULT_ORDER_TIMEOUT_MS } from "./built-strategy.js";
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Executor whose n-th order rests as "paper-n" / "ex-n", with `filled` shares
+ * already matched at submission.
+ */
+function restingExecutor(filled = "0", fillPrice = "0.55") {
+	let n = 0;
+	const submit = vi.fn(async (_intent: SdkOrderIntent) => {
+		n++;
+		const partial = filled !== "0";
+		return ok<OrderResult>({
+			clientOrderId: clientOrderId(`paper-${n}`),
+			exchangeOrderId: exchangeOrderId(`ex-${n}`),
+			finalState: partial ? "partially_filled" : "open",
+			totalFilled: Decimal.from(filled),
+			avgFillPrice: partial ? Decimal.from(fillPrice) : null,
+		});
+	});
+	const cancel = vi.fn(async () => ok(undefined));
+	return { submit, cancel } satisfies Executor;
+}
+
+/** Always signals; buys 10 YES at the context's spot price. */
+const spotDetector: SignalDetector<unknown, unknown> = {
+	name: "spot",
+	detectEntry: () => ({}),
+	toOrder: (_signal, ctx) => ({
+		conditionId: ctx.conditionId,
+		tokenId: TOKEN_ID,
+		side: "yes",
+		direction: "buy",
+		price: ctx.spot() ?? Decimal.from("0.55"),
+		size: Decimal.from(10),
+	}),
+};
+
+function fill(orderId: string, size: string, price: string): UserFill {
+	return {
+		type: "user_fill",
+		orderId: exchangeOrderId(orderId),
+		filledSize: size,
+		fillPrice: price,
+		timestampMs: 0,
+	};
+}
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe("BuiltStrategy — order lifecycle", () => {
+	let clock: FakeClock;
+	let journal: MemoryJournal;
+	let events: Array<{ type: string } & Record<string, unknown>>;
+
+	beforeEach(() => {
+		clock = new FakeClock(1_700_000_000_000);
+		journal = new MemoryJournal();
+		events = [];
+	});
+
+	function build(overrides: BuildOverrides): BuiltStrategy {
+		const dispatcher = new EventDispatcher();
+		dispatcher.onSdk("*", (event) => {
+			events.push(event as (typeof events)[number]);
+		});
+		return buildWithDispatcher(dispatcher, { clock, journal, ...overrides });
+	}
+
+	function ofType(type: string) {
+		return events.filter((e) => e.type === type);
+	}
+
+	it("keeps a resting entry pending until user fills complete it", async () => {
+		const executor = restingExecutor();
+		const strategy = build({ executor, detector: spotDetector });
+
+		await strategy.tick(createMockContext());
+		expect(ofType("order_placed")).toHaveLength(1);
+		expect(strategy.getPositionManager().openCount()).toBe(0);
+		expect(strategy.workingOrderCount()).toBe(1);
+
+		// A working order blocks further entries on the market
+		await strategy.tick(createMockContext());
+		expect(executor.submit).toHaveBeenCalledTimes(1);
+
+		strategy.onUserFill(fill("ex-1", "4", "0.50"));
+		await strategy.settled();
+		expect(strategy.getPositionManager().openCount()).toBe(0);
+
+		strategy.onUserFill(fill("ex-1", "6", "0.60"));
+		await strategy.settled();
+
+		const position = strategy.getPositionManager().allOpen()[0];
+		expect(position?.size.eq(Decimal.from(10))).toBe(true);
+		expect(position?.entryPrice.eq(Decimal.from("0.56"))).toBe(true);
+		expect(ofType("fill_received").map((e) => e.remainingSize)).toEqual([6, 0]);
+		expect(journal.entries().map((e) => e.type)).toEqual([
+			"entry_signal",
+			"order_submitted",
+			"order_filled",
+			"position_opened",
+		]);
+		expect(strategy.workingOrderCount()).toBe(0);
+	});
+
+	it("sizes the position by what filled when the rest is cancelled", async () => {
+		const strategy = build({ executor: restingExecutor("4"), detector: spotDetector });
+
+		await strategy.tick(createMockContext());
+		strategy.userFeed().processMessages([
+			{
+				type: "user_order_status",
+				orderId: exchangeOrderId("ex-1"),
+				status: "CANCELED",
+				timestampMs: 0,
+			},
+		]);
+		await strategy.settled();
+
+		expect(strategy.getPositionManager().allOpen()[0]?.size.eq(Decimal.from(4))).toBe(true);
+		expect(ofType("order_cancelled")).toEqual([
+			expect.objectContaining({ clientOrderId: "paper-1", reason: "exchange" }),
+		]);
+		expect(ofType("position_opened")[0]?.size).toBe(4);
+	});
+
+	it("cancels a partially filled entry after the default timeout and opens what filled", async () => {
+		const strategy = build({ executor: restingExecutor("4"), detector: spotDetector });
+
+		await strategy.tick(createMockContext());
+		clock.advance(DEFAULT_ORDER_TIMEOUT_MS - 1);
+		await strategy.tick(createMockContext());
+		expect(strategy.getPositionManager().openCount()).toBe(0);
+
+		clock.advance(1);
+		await strategy.tick(createMockContext());
+
+		expect(strategy.getPositionManager().allOpen()[0]?.size.eq(Decimal.from(4))).toBe(true);
+		expect(ofType("order_cancelled")).toEqual([expect.objectContaining({ reason: "timeout" })]);
+	});
+
+	it("keeps an order working through a matched status until its fills arrive", async () => {
+		const strategy = build({ executor: restingExecutor(), detector: spotDetector });
+
+		await strategy.tick(createMockContext());
+		strategy.onOrderStatus({
+			type: "user_order_status",
+			orderId: exchangeOrderId("ex-1"),
+			status: "matched",
+			timestampMs: 0,
+		});
+		await strategy.settled();
+		expect(strategy.workingOrderCount()).toBe(1);
+
+		strategy.onUserFill(fill("ex-1", "10", "0.55"));
+		await strategy.settled();
+		expect(strategy.getPositionManager().allOpen()[0]?.size.eq(Decimal.from(10))).toBe(true);
+	});
+
+	it("opens nothing when the executor reports a cancelled order with no fill", async () => {
+		const executor: Executor = {
+			submit: vi.fn(async () =>
+				ok<OrderResult>({
+					clientOrderId: clientOrderId("paper-1"),
+					exchangeOrderId: exchangeOrderId("ex-1"),
+					finalState: "cancelled",
+					totalFilled: Decimal.zero(),
+					avgFillPrice: null,
+				}),
+			),
+			cancel: vi.fn(),
+		};
+		const strategy = build({ executor, detector: spotDetector });
+
+		await strategy.tick(createMockContext());
+
+		expect(strategy.getPositionManager().openCount()).toBe(0);
+		expect(ofType("order_cancelled")).toHaveLength(1);
+		expect(ofType("position_opened")).toHaveLength(0);
+	});
+
+	it("cancels entries resting past the timeout and re-prices from fresh data", async () => {
+		const executor = restingExecutor();
+		const strategy = build({ executor, detector: spotDetector, orderTimeoutMs: 5_000 });
+
+		await strategy.tick(createMockContext({ spot: () => Decimal.from("0.55") }));
+		clock.advance(4_999);
+		await strategy.tick(createMockContext({ spot: () => Decimal.from("0.56") }));
+		expect(executor.cancel).not.toHaveBeenCalled();
+
+		clock.advance(1);
+		await strategy.tick(createMockContext({ spot: () => Decimal.from("0.57") }));
+
+		expect(executor.cancel).toHaveBeenCalledWith(clientOrderId("paper-1"));
+		expect(ofType("order_cancelled")).toEqual([expect.objectContaining({ reason: "timeout" })]);
+		expect(journal.entries().filter((e) => e.type === "order_closed")).toEqual([
+			expect.objectContaining({
+				clientOrderId: clientOrderId("paper-1"),
+				state: "cancelled",
+				reason: "timeout",
+			}),
+		]);
+		expect(executor.submit).toHaveBeenCalledTimes(2);
+		expect(executor.submit.mock.calls[1]?.[0].price.eq(Decimal.from("0.57"))).toBe(true);
+		expect(strategy.workingOrderCount()).toBe(1);
+	});
+
+	it("reduces the position by a partially filled exit and re-submits the remainder", async () => {
+		const executor = restingExecutor("4", "0.60");
+		const strategy = build({
+			executor,
+			detector: createMockDetector(null),
+			positionManager: openPosition(PositionManager.create()),
+			exitReason: { type: "take_profit", roi: Decimal.from(0.2) },
+			orderTimeoutMs: 1_000,
+		});
+
+		await strategy.tick(createMockContext());
+		expect(strategy.getPositionManager().allOpen()[0]?.size.eq(Decimal.from(10))).toBe(true);
+
+		clock.advance(1_000);
+		await strategy.tick(createMockContext());
+
+		expect(ofType("position_reduced")).toEqual([
+			expect.objectContaining({ oldSize: 10, newSize: 6, price: 0.6 }),
+		]);
+		expect(ofType("position_closed")).toHaveLength(0);
+		expect(executor.submit).toHaveBeenCalledTimes(2);
+		expect(executor.submit.mock.calls[1]?.[0].size.eq(Decimal.from(6))).toBe(true);
+	});
+
+	it("scales out a fraction of the position and journals the partial P&L", async () => {
+		const executor = restingExecutor();
+		const strategy = build({
+			executor,
+			detector: createMockDetector(null),
+			positionManager: openPosition(PositionManager.create()),
+			exitReason: { type: "take_profit", roi: Decimal.from(0.2), fraction: Decimal.from("0.4") },
+		});
+
+		await strategy.tick(createMockContext());
+		expect(executor.submit.mock.calls[0]?.[0].size.eq(Decimal.from(4))).toBe(true);
+
+		strategy.onUserFill(fill("ex-1", "4", "0.60"));
+		await strategy.settled();
+
+		expect(strategy.getPositionManager().allOpen()[0]?.size.eq(Decimal.from(6))).toBe(true);
+		expect(ofType("position_reduced")).toEqual([
+			expect.objectContaining({ oldSize: 10, newSize: 6, price: 0.6, reason: "take_profit" }),
+		]);
+		const reduced = journal.entries().find((e) => e.type === "position_reduced");
+		expect(reduced).toMatchObject({ oldSize: 10, newSize: 6, exitPrice: 0.6 });
+		expect(reduced?.type === "position_reduced" && reduced.pnl).toBeCloseTo(0.4);
+		expect(ofType("position_closed")).toHaveLength(0);
+	});
+
+	it("closes the position once a resting exit fills", async () => {
+		const strategy = build({
+			executor: restingExecutor(),
+			detector: createMockDetector(null),
+			positionManager: openPosition(PositionManager.create()),
+			exitReason: { type: "take_profit", roi: Decimal.from(0.2) },
+		});
+
+		await strategy.tick(createMockContext());
+		expect(strategy.getPositionManager().openCount()).toBe(1);
+
+		strategy.onUserFill(fill("ex-1", "10", "0.60"));
+		await strategy.settled();
+
+		expect(strategy.getPositionManager().openCount()).toBe(0);
+		expect(ofType("position_closed")).toEqual([
+			expect.objectContaining({ exitPrice: 0.6, reason: "take_profit" }),
+		]);
+	});
+
+	it("expires a resting GTD entry on the clock and keeps what filled", async () => {
+		const detector: SignalDetector<unknown, unknown> = {
+			...spotDetector,
+			toOrder: (signal, ctx) => ({
+				...spotDetector.toOrder(signal, ctx),
+				orderKind: "gtd",
+				expiresAtMs: clock.now() + 60_000,
+			}),
+		};
+		const strategy = build({ executor: restingExecutor("4"), detector });
+
+		await strategy.tick(createMockContext());
+		clock.advance(59_999);
+		await strategy.tick(createMockContext());
+		expect(strategy.workingOrderCount()).toBe(1);
+
+		clock.advance(1);
+		await strategy.tick(createMockContext());
+
+		expect(ofType("order_cancelled")).toEqual([
+			expect.objectContaining({ clientOrderId: "paper-1", reason: "expired" }),
+		]);
+		expect(ofType("position_opened")[0]?.size).toBe(4);
+	});
+
+	it("ignores fills for orders it did not place", async () => {
+		const strategy = build({ executor: restingExecutor(), detector: spotDetector });
+
+		strategy.onUserFill(fill("ex-unknown", "10", "0.55"));
+		await strategy.settled();
+
+		expect(ofType("fill_received")).toHaveLength(0);
+	});
+});
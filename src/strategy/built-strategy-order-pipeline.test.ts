@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Executor } from "../execution/types.js";
+import type { ConditionId } from "../shared/identifiers.js";
+import {
+	clientOrderId,
+	conditionId,
+	exchangeOrderId,
+	marketTokenId,
+} from "../shared/identifiers.js";
+import { ok } from "../shared/result.js";
+import type { SignalDetector } from "../signal/types.js";
+import {
+	type BuildOverrides,
+	type BuiltStrategy,
+	Decimal,
+	EventDispatcher,
+	MarketSide,
+	buildWithDispatcher,
+	createMockContext,
+} from "./built-strategy-test-helpers.js";
+
+const BTC = conditionId("btc-up");
+const ETH = conditionId("eth-up");
+
+const buyEveryMarket: SignalDetector<unknown, unknown> = {
+	name: "buy-every-market",
+	detectEntry: () => ({}),
+	toOrder: (_signal, ctx) => ({
+		conditionId: ctx.conditionId,
+		tokenId: marketTokenId(`${ctx.conditionId}-yes`),
+		side: MarketSide.Yes,
+		direction: "buy" as const,
+		price: Decimal.from(0.55),
+		size: Decimal.from(10),
+	}),
+};
+
+/** Executor whose submits hang until released, per market. */
+function gatedExecutor() {
+	const submitted: ConditionId[] = [];
+	const gates = new Map<ConditionId, () => void>();
+	const executor: Executor = {
+		submit: (intent) => {
+			const cid = intent.conditionId;
+			submitted.push(cid);
+			return new Promise((resolve) => {
+				gates.set(cid, () =>
+					resolve(
+						ok({
+							clientOrderId: clientOrderId(`client-${cid}`),
+							exchangeOrderId: exchangeOrderId(`exchange-${cid}`),
+							finalState: "filled" as const,
+							totalFilled: Decimal.from(10),
+							avgFillPrice: Decimal.from(0.55),
+							tradeId: `trade-${cid}`,
+							fee: Decimal.from(0),
+						}),
+					),
+				);
+			});
+		},
+		cancel: async () => ok(undefined),
+	};
+	const release = (cid: ConditionId) => gates.get(cid)?.();
+	return { executor, submitted, release };
+}
+
+async function flush(): Promise<void> {
+	for (let i = 0; i < 50; i++) await Promise.resolve();
+}
+
+describe("BuiltStrategy — order pipeline", () => {
+	let eventDispatcher: EventDispatcher;
+	let events: Array<{ type: string; [key: string]: unknown }>;
+
+	beforeEach(() => {
+		eventDispatcher = new EventDispatcher();
+		events = [];
+		eventDispatcher.onSdk("*", (event) => events.push(event));
+	});
+
+	function build(overrides: BuildOverrides = {}): BuiltStrategy {
+		return buildWithDispatcher(eventDispatcher, { detector: buyEveryMarket, ...overrides });
+	}
+
+	function tick(strategy: BuiltStrategy): Promise<void> {
+		return strategy.tickMarkets([BTC, ETH], (cid) => createMockContext({ conditionId: cid }));
+	}
+
+	function ofType(type: string) {
+		return events.filter((e) => e.type === type);
+	}
+
+	it("submits one market at a time by default", async () => {
+		const { executor, submitted, release } = gatedExecutor();
+		const strategy = build({ executor });
+
+		const pending = tick(strategy);
+		await flush();
+		expect(submitted).toEqual([BTC]);
+
+		release(BTC);
+		await flush();
+		expect(submitted).toEqual([BTC, ETH]);
+
+		release(ETH);
+		await pending;
+		expect(ofType("position_opened")).toHaveLength(2);
+	});
+
+	it("does not let a slow market stall independent markets", async () => {
+		const { executor, submitted, release } = gatedExecutor();
+		const strategy = build({ executor, orderPipeline: { concurrency: 2 } });
+
+		const pending = tick(strategy);
+		await flush();
+		expect(submitted).toEqual([BTC, ETH]);
+
+		release(ETH);
+		await flush();
+		expect(ofType("position_opened").map((e) => e.conditionId)).toEqual([ETH]);
+
+		release(BTC);
+		await pending;
+		expect(ofType("position_opened")).toHaveLength(2);
+	});
+
+	it("drops work for markets still busy from an earlier tick", async () => {
+		const { executor, submitted, release } = gatedExecutor();
+		const strategy = build({ executor });
+
+		const first = tick(strategy);
+		await flush();
+		await tick(strategy);
+
+		expect(ofType("tick_dropped")).toEqual([
+			expect.objectContaining({ conditionId: BTC, queued: 1 }),
+			expect.objectContaining({ conditionId: ETH, queued: 1 }),
+		]);
+		expect(ofType("tick_dropped")[0]?.reason).toContain("in flight");
+
+		release(BTC);
+		await flush();
+		release(ETH);
+		await first;
+		expect(submitted).toEqual([BTC, ETH]);
+	});
+
+	it("reports work beyond a full queue as dropped", async () => {
+		const { executor, release } = gatedExecutor();
+		const strategy = build({ executor, orderPipeline: { maxQueued: 0 } });
+
+		const pending = tick(strategy);
+		await flush();
+		release(BTC);
+		await pending;
+
+		expect(ofType("position_opened")).toHaveLength(1);
+		expect(ofType("tick_dropped")).toEqual([
+			expect.objectContaining({ conditionId: ETH, reason: "order pipeline queue full" }),
+		]);
+	});
+});
@@ -10,6 +10,7 @@ import { EventDispatcher } from "../events/event-dispatcher.js";
 import type { Executor } from "../execution/types.js";
 import { StrategyStateMachine } from "../lifecycle/state-machine.js";
 import type { ConnectivityWatchdog as ConnectivityWatchdogType } from "../lifecycle/watchdog.js";
+import type { OrderPipelineConfig } from "../order/order-pipeline.js";
 import { OrderRegistry } from "../order/order-registry.js";
 import { PositionManager } from "../position/position-manager.js";
 import type { GuardPipeline } from "../risk/guard-pipeline.js";
@@ -84,6 +85,7 @@ export function createMockGuardPipeline(verdict: GuardVerdict): GuardPipeline {
 export function createMockExitPipeline(reason: ExitReason | null): ExitPipeline {
 	return {
 		evaluate: vi.fn(() => reason),
+		onPositionClosed: vi.fn(),
 		isEmpty: () => false,
 		len: () => 1,
 		policyNames: () => ["mock-exit"],
@@ -167,6 +169,8 @@ export interface BuildOverrides {
 	clock?: import("../shared/time.js").Clock;
 	stateMachine?: StrategyStateMachine;
 	maxSlippageBps?: number;
+	orderTimeoutMs?: number;
+	orderPipeline?: OrderPipelineConfig;
 }
 
 export function buildWithDispatcher(
@@ -199,6 +203,8 @@ export function buildWithDispatcher(
 		journal: overrides.journal === undefined ? createMockJournal() : overrides.journal,
 		...(overrides.clock !== undefined && { clock: overrides.clock }),
 		...(overrides.maxSlippageBps !== undefined && { maxSlippageBps: overrides.maxSlippageBps }),
+		...(overrides.orderTimeoutMs !== undefined && { orderTimeoutMs: overrides.orderTimeoutMs }),
+		...(overrides.orderPipeline !== undefined && { orderPipeline: overrides.orderPipeline }),
 	});
 }
 
@@ -2,6 +2,7 @@ import { beforeEach, describe, expect, it, vi } from "vitest";
 import type { Executor } from "../execution/types.js";
 import { conditionId, marketTokenId } from "../shared/identifiers.js";
 import { err, ok } from "../shared/result.js";
+import type { SdkOrderIntent } from "../signal/types.js";
 import {
 	type BuildOverrides,
 	BuiltStrategy,
@@ -22,6 +23,7 @@ import {
 	createMockContext,
 	createMockDetector,
 	createMockExecutor,
+	createMockExitPipeline,
 	createMockFeeModel,
 	createMockJournal,
 	createMockStateMachine,
@@ -53,7 +55,7 @@ describe("BuiltStrategy — tick", () => {
 		return capturedEvents.get(type) ?? [];
 	}
 
-	it("should return early when tick is already in progress (re-entrancy guard)", async () => {
+	it("should not resubmit for a market whose order is still in flight", async () => {
 		let executorCallCount = 0;
 
 		const slowExecutor: Executor = {
@@ -369,7 +371,7 @@ describe("BuiltStrategy — tick", () => {
 		expect(errors.some((e) => (e as { code: string }).code === "JOURNAL_WRITE_FAILED")).toBe(true);
 	});
 
-	it("should reset tickInProgress after detector throws and recover on next tick", async () => {
+	it("should recover on next tick after detector throws", async () => {
 		let callCount = 0;
 		const flakyDetector: SignalDetector<unknown, unknown> = {
 			name: "flaky",
@@ -442,6 +444,21 @@ describe("BuiltStrategy — tick", () => {
 		expect(closedEntry).toBeDefined();
 	});
 
+	it("should tell the exit pipeline when a position closes", async () => {
+		const exitPipeline = createMockExitPipeline({ type: "take_profit", roi: Decimal.from(0.2) });
+		const strategy = build({
+			exitPipeline,
+			positionManager: openPosition(PositionManager.create()),
+			detector: createMockDetector(null),
+		});
+
+		await strategy.tick(createMockContext());
+
+		expect(exitPipeline.onPositionClosed).toHaveBeenCalledWith(
+			expect.objectContaining({ conditionId: CID }),
+		);
+	});
+
 	it("should use intent price when avgFillPrice is undefined", async () => {
 		const noFillPriceResult = ok({
 			clientOrderId: CID as unknown as import("../shared/identifiers.js").ClientOrderId,
@@ -487,7 +504,7 @@ describe("BuiltStrategy — tick", () => {
 		expect(sdkEvents("position_closed")).toHaveLength(2);
 	});
 
-	it("should use ctx.spot() as sell price instead of entry price", async () => {
+	it("should join the held token's best ask for a low-urgency exit", async () => {
 		const pm = openPosition(PositionManager.create());
 		const executor = createMockExecutor();
 
@@ -498,35 +515,52 @@ describe("BuiltStrategy — tick", () => {
 			detector: createMockDetector(null),
 		});
 
-		await strategy.tick(createMockContext());
+		await strategy.tick(createMockContext({ spot: () => null }));
 
 		const submitCalls = (executor.submit as ReturnType<typeof vi.fn>).mock.calls;
 		expect(submitCalls).toHaveLength(1);
-		const intent = submitCalls[0]?.[0] as { price: { toNumber: () => number } };
-		expect(intent.price.toNumber()).toBe(0.55);
+		const intent = submitCalls[0]?.[0] as SdkOrderIntent;
+		expect(intent.side).toBe("yes");
+		expect(intent.price.toNumber()).toBe(0.56);
+		expect(intent.orderKind).toBe("gtd");
+		expect(intent.expiresAtMs).toBeGreaterThan(Date.now());
 	});
 
-	it("should fallback to entry price when ctx.spot() is null and emit warning", async () => {
+	it("should cross to the best bid for a stop loss", async () => {
 		const pm = openPosition(PositionManager.create());
 		const executor = createMockExecutor();
 
 		const strategy = build({
 			positionManager: pm,
-			exitReason: { type: "take_profit", roi: Decimal.from(0.2) },
+			exitReason: { type: "stop_loss", loss: Decimal.from(0.1) },
 			executor,
 			detector: createMockDetector(null),
 		});
 
-		const ctx = createMockContext({ spot: () => null });
-		await strategy.tick(ctx);
+		await strategy.tick(createMockContext());
 
-		const submitCalls = (executor.submit as ReturnType<typeof vi.fn>).mock.calls;
-		expect(submitCalls).toHaveLength(1);
-		const intent = submitCalls[0]?.[0] as { price: { toNumber: () => number } };
-		expect(intent.price.toNumber()).toBe(0.5);
+		const intent = (executor.submit as ReturnType<typeof vi.fn>).mock
+			.calls[0]?.[0] as SdkOrderIntent;
+		expect(intent.price.toNumber()).toBe(0.54);
+		expect(intent.orderKind).toBeUndefined();
+	});
+
+	it("should skip the exit and emit a warning when the held token has no bid", async () => {
+		const pm = openPosition(PositionManager.create());
+		const executor = createMockExecutor();
+
+		const strategy = build({
+			positionManager: pm,
+			exitReason: { type: "stop_loss", loss: Decimal.from(0.1) },
+			executor,
+			detector: createMockDetector(null),
+		});
+
+		await strategy.tick(createMockContext({ bestBid: () => null }));
 
+		expect(executor.submit).not.toHaveBeenCalled();
 		const errors = sdkEvents("error_occurred") as Array<{ code: string }>;
-		expect(errors.some((e) => e.code === "SPOT_PRICE_UNAVAILABLE")).toBe(true);
+		expect(errors.some((e) => e.code === "EXIT_PRICE_UNAVAILABLE")).toBe(true);
 	});
 
 	describe("Error paths in tick()", () => {
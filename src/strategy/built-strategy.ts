@@ -3,25 +3,54 @@
  *
  * Orchestrates: PositionAggregate, RiskAggregate, LifecycleAggregate,
  * MonitorAggregate, AccountingAggregate + Executor + SignalDetector + optional Journal
+ *
+ * Orders go through the order lifecycle (coordinator, registry, tracker): positions
+ * change only by the size that actually filled, and orders left resting on the book
+ * stay pending until user-feed fills or status updates settle them.
+ *
+ * Exits and entries run through an OrderPipeline: order work for one market is
+ * serialized, while independent markets proceed concurrently up to the
+ * configured limit. A market still busy from an earlier tick is skipped and
+ * reported as `tick_dropped`.
  */
 
 import { computeFee } from "../accounting/fee-model.js";
 import type { FeeModel } from "../accounting/fee-model.js";
 import type { EventDispatcher } from "../events/event-dispatcher.js";
 import type { Executor } from "../execution/types.js";
-import { StrategyState, type StrategyStateMachine } from "../lifecycle/index.js";
+import {
+	type StateError,
+	type StateTransition,
+	StrategyState,
+	type StrategyStateMachine,
+} from "../lifecycle/index.js";
 import type { ConnectivityWatchdog } from "../lifecycle/watchdog.js";
+import { OrderPipeline } from "../order/order-pipeline.js";
+import type { OrderPipelineConfig } from "../order/order-pipeline.js";
+import { CancelReason, PendingState } from "../order/types.js";
 import type { PositionManager } from "../position/position-manager.js";
 import type { SdkPosition } from "../position/sdk-position.js";
 import type { GuardPipeline } from "../risk/guard-pipeline.js";
-import type { GuardContext, GuardVerdict } from "../risk/types.js";
+import { OrderGuardPipeline } from "../risk/order-guard-pipeline.js";
+import type { GuardContext, GuardVerdict, OrderGuardContext } from "../risk/types.js";
 import { Decimal } from "../shared/decimal.js";
 import type { TradingError } from "../shared/errors.js";
-import { isErr } from "../shared/result.js";
+import type { ConditionId, MarketTokenId } from "../shared/identifiers.js";
+import type { MarketSide } from "../shared/market-side.js";
+import { type Result, isErr } from "../shared/result.js";
 import type { Clock } from "../shared/time.js";
 import { SystemClock } from "../shared/time.js";
 import type { ExitPipeline } from "../signal/exit-pipeline.js";
-import type { DetectorContextLike, SdkOrderIntent, SignalDetector } from "../signal/types.js";
+import { UrgencyExitPricer, exitUrgency } from "../signal/exit-pricing.js";
+import type { ExitPricer } from "../signal/exit-pricing.js";
+import type {
+	DetectorContextLike,
+	ExitReason,
+	SdkOrderIntent,
+	SignalDetector,
+} from "../signal/types.js";
+import type { UserFill, UserOrderStatus } from "../websocket/types.js";
+import { UserFeed } from "../websocket/user-feed.js";
 import type { Journal } from "./journal.js";
 import type {
 	AccountingAggregate,
@@ -30,6 +59,12 @@ import type {
 	PositionAggregate,
 	RiskAggregate,
 } from "./types.js";
+import {
+	type OrderSettlement,
+	type WorkingOrder,
+	WorkingOrders,
+	averageFillPrice,
+} from "./working-orders.js";
 
 /**
  * TickContext — the full context required by the tick loop.
@@ -39,6 +74,16 @@ import type {
  */
 export type TickContext = DetectorContextLike & GuardContext;
 
+/** Supplies the TickContext for a market, or null when the market has no data this tick. */
+export type TickContextProvider = (conditionId: ConditionId) => TickContext | null;
+
+/**
+ * Resting orders are cancelled after a minute unless configured otherwise. A
+ * partially filled entry only becomes a position once its order settles, so
+ * without a timeout it could stay invisible to exits and risk indefinitely.
+ */
+export const DEFAULT_ORDER_TIMEOUT_MS = 60_000;
+
 /** All dependencies required to construct a BuiltStrategy. */
 export interface StrategyAggregates {
 	position: PositionAggregate;
@@ -52,6 +97,20 @@ export interface StrategyAggregates {
 	clock?: Clock | undefined;
 	warmupTicks?: number | undefined;
 	maxSlippageBps?: number | undefined;
+	/**
+	 * Cancel orders still resting this long after submission. Any partial fill is
+	 * settled, and the next evaluation of the market re-prices from fresh data.
+	 * Pass Infinity to let orders rest until filled or cancelled by the exchange.
+	 * Default: DEFAULT_ORDER_TIMEOUT_MS
+	 */
+	orderTimeoutMs?: number | undefined;
+	/** Prices exit orders by the urgency of the exit reason. Default: UrgencyExitPricer.create() */
+	exitPricer?: ExitPricer | undefined;
+	/**
+	 * Concurrency of order work across markets; orders for the same market are
+	 * always serialized. Default: one market at a time.
+	 */
+	orderPipeline?: OrderPipelineConfig | undefined;
 }
 
 /** Minimal view into strategy lifecycle state for the tick loop. */
@@ -65,25 +124,33 @@ export class BuiltStrategy {
 	// Intentionally mutable: PositionManager is immutable (open/close return new instances)
 	private positionManager: PositionManager;
 	private readonly guardPipeline: GuardPipeline;
+	private readonly orderGuardPipeline: OrderGuardPipeline;
 	private readonly exitPipeline: ExitPipeline;
 	private readonly stateMachine: StrategyStateMachine;
 	private readonly stateView: StateView;
 	private readonly watchdog: ConnectivityWatchdog;
 	private readonly eventDispatcher: EventDispatcher;
 	private readonly feeModel: FeeModel;
-	private readonly executor: Executor;
 	private readonly detector: SignalDetector;
 	private readonly journal: Journal | null;
 	private readonly clock: Clock;
 	private readonly warmupTicks: number;
 	private readonly maxSlippageBps: number | undefined;
+	private readonly orderTimeoutMs: number;
+	private readonly exitPricer: ExitPricer;
+	private readonly workingOrders: WorkingOrders;
+	private readonly pipeline: OrderPipeline;
+	/** When the exit first triggered, per market; drives passive-exit escalation. */
+	private readonly exitSince = new Map<string, number>();
+	private settling: Promise<void> = Promise.resolve();
 	private tickCount = 0;
-
-	private tickInProgress = false;
+	/** Working-order maintenance in progress, shared by overlapping ticks. */
+	private maintaining: Promise<void> | null = null;
 
 	public constructor(deps: StrategyAggregates) {
 		this.positionManager = deps.position.positionManager;
 		this.guardPipeline = deps.risk.guardPipeline;
+		this.orderGuardPipeline = deps.risk.orderGuardPipeline ?? OrderGuardPipeline.create();
 		this.exitPipeline = deps.risk.exitPipeline;
 		this.stateMachine = deps.lifecycle.stateMachine;
 		this.stateView = {
@@ -93,12 +160,15 @@ export class BuiltStrategy {
 		this.watchdog = deps.lifecycle.watchdog;
 		this.eventDispatcher = deps.monitor.eventDispatcher;
 		this.feeModel = deps.accounting.feeModel;
-		this.executor = deps.executor;
 		this.detector = deps.detector;
 		this.journal = deps.journal;
 		this.clock = deps.clock ?? SystemClock;
 		this.warmupTicks = deps.warmupTicks ?? 0;
 		this.maxSlippageBps = deps.maxSlippageBps;
+		this.orderTimeoutMs = deps.orderTimeoutMs ?? DEFAULT_ORDER_TIMEOUT_MS;
+		this.exitPricer = deps.exitPricer ?? UrgencyExitPricer.create();
+		this.workingOrders = new WorkingOrders(deps.monitor.orderRegistry, deps.executor, this.clock);
+		this.pipeline = OrderPipeline.create(deps.orderPipeline);
 	}
 
 	/** Returns the guard pipeline. For testing purposes. */
@@ -106,92 +176,274 @@ export class BuiltStrategy {
 		return this.guardPipeline;
 	}
 
+	/** Returns the order guard pipeline. For testing purposes. */
+	getOrderGuardPipeline(): OrderGuardPipeline {
+		return this.orderGuardPipeline;
+	}
+
+	/** Returns the current (immutable) position manager snapshot. */
+	getPositionManager(): PositionManager {
+		return this.positionManager;
+	}
+
+	/** Number of submitted orders still resting on the book. */
+	workingOrderCount(): number {
+		return this.workingOrders.count();
+	}
+
+	/** True while an order for the market, or for one side of it, is working or awaiting settlement. */
+	hasPendingOrder(conditionId: ConditionId, side?: MarketSide): boolean {
+		return this.workingOrders.hasPending(conditionId, side);
+	}
+
+	/**
+	 * Applies a fill from the user feed to the matching working order.
+	 * Positions change once the order completes; use `settled()` to await journaling.
+	 */
+	onUserFill(fill: UserFill): void {
+		const applied = this.workingOrders.applyFill(fill);
+		if (!applied) return;
+		this.eventDispatcher.emitSdk({
+			type: "fill_received",
+			timestamp: this.clock.now(),
+			clientOrderId: applied.order.clientOrderId,
+			exchangeOrderId: applied.exchangeOrderId,
+			price: applied.fill.fillPrice.toNumber(),
+			filledSize: applied.fill.filledSize.toNumber(),
+			remainingSize: applied.fill.remainingSize.toNumber(),
+			fee: applied.fill.fee?.toNumber() ?? 0,
+		});
+		this.scheduleSettlement();
+	}
+
+	/** Applies an order status update (open, cancelled, expired, rejected) from the user feed. */
+	onOrderStatus(status: UserOrderStatus): void {
+		this.workingOrders.applyStatus(status);
+		this.scheduleSettlement();
+	}
+
+	/** A UserFeed routing fills and order status updates to this strategy. */
+	userFeed(): UserFeed {
+		return new UserFeed({
+			onFill: (fill) => this.onUserFill(fill),
+			onOrderStatus: (status) => this.onOrderStatus(status),
+		});
+	}
+
+	/** Resolves once settlements triggered by user-feed updates are applied and journaled. */
+	settled(): Promise<void> {
+		return this.settling;
+	}
+
+	/** Returns the current lifecycle state. */
+	state(): StrategyState {
+		return this.stateMachine.state();
+	}
+
+	/**
+	 * Applies an external lifecycle transition (pause, resume, halt, shutdown, ...).
+	 * Emits `state_changed` on success; the state machine error is returned unchanged on failure.
+	 */
+	transition(t: StateTransition): Result<StrategyState, StateError> {
+		const from = this.stateMachine.state();
+		const result = this.stateMachine.transition(t);
+		if (result.ok) {
+			this.eventDispatcher.emitSdk({
+				type: "state_changed",
+				from,
+				to: result.value,
+				transition: t.type,
+				timestamp: this.clock.now(),
+			});
+		}
+		return result;
+	}
+
 	public async tick(ctx: TickContext): Promise<void> {
-		if (this.tickInProgress) {
+		await this.runTick([ctx.conditionId], () => ctx);
+	}
+
+	/**
+	 * Portfolio tick: evaluates exits for every open position and entries for every
+	 * listed market in one pass, sharing positions, guards and kill switch.
+	 *
+	 * Contexts are requested lazily, so a market evaluated later in the tick sees
+	 * positions opened earlier in the same tick. Markets (and positions) for which
+	 * `contextFor` returns null are skipped.
+	 */
+	public async tickMarkets(
+		markets: readonly ConditionId[],
+		contextFor: TickContextProvider,
+	): Promise<void> {
+		await this.runTick(markets, contextFor);
+	}
+
+	private async runTick(
+		markets: readonly ConditionId[],
+		contextFor: TickContextProvider,
+	): Promise<void> {
+		if (
+			this.maintaining === null &&
+			(this.workingOrders.count() > 0 || this.workingOrders.hasSettlements())
+		) {
+			this.maintaining = this.maintainWorkingOrders().finally(() => {
+				this.maintaining = null;
+			});
+			await this.maintaining;
+		}
+
+		const dataStale = this.watchdog.shouldBlockEntries();
+		this.watchdog.touch();
+		this.advanceLifecycle();
+
+		if (!this.stateView.canOpen() && !this.stateView.canClose()) {
+			return;
+		}
+
+		// Phase 1: Process exits for open positions
+		if (this.stateView.canClose()) {
+			await this.processExits(contextFor);
+		}
+
+		// Phase 2: Attempt entry if allowed
+		if (!this.stateView.canOpen()) {
+			return;
+		}
+
+		if (dataStale) {
 			this.eventDispatcher.emitSdk({
-				type: "tick_dropped",
+				type: "error_occurred",
 				timestamp: this.clock.now(),
-				reason: "tick already in progress (re-entrancy guard)",
+				code: "WATCHDOG_ALERT",
+				message: "Data feed stale, blocking entries",
+				category: "non_retryable",
 			});
 			return;
 		}
 
-		this.tickInProgress = true;
+		// Set when a block should stop entries on markets not yet started
+		let halted = false;
+		const entries = markets.map((cid) =>
+			this.schedule(cid, async () => {
+				if (halted) return;
+				const ctx = contextFor(cid);
+				if (ctx === null) {
+					return;
+				}
 
-		try {
-			const dataStale = this.watchdog.shouldBlockEntries();
-			this.watchdog.touch();
-			this.advanceLifecycle();
+				const verdict = await this.evaluateGuards(ctx);
+				if (verdict === null) {
+					halted = true;
+					return;
+				}
+				if (verdict.type === "block") {
+					// Non-recoverable blocks (kill switch, circuit breaker) apply portfolio-wide
+					if (!verdict.recoverable) halted = true;
+					return;
+				}
 
-			if (!this.stateView.canOpen() && !this.stateView.canClose()) {
-				return;
-			}
+				const proceed = await this.processEntry(ctx);
+				if (!proceed) halted = true;
+			}),
+		);
+		await Promise.all(entries);
+	}
 
-			// Phase 1: Process exits for open positions
-			if (this.stateView.canClose()) {
-				await this.processExits(ctx);
-			}
+	/**
+	 * Runs order work for a market through the pipeline. Work for a market still
+	 * busy from an earlier tick, or beyond a full queue, is dropped and reported
+	 * as `tick_dropped`.
+	 */
+	private schedule(cid: ConditionId, task: () => Promise<void>): Promise<void> {
+		const busy = this.pipeline.isBusy(cid);
+		const run = busy ? null : this.pipeline.run(cid, task);
+		if (run === null) {
+			this.eventDispatcher.emitSdk({
+				type: "tick_dropped",
+				timestamp: this.clock.now(),
+				reason: busy ? `order work for ${cid} still in flight` : "order pipeline queue full",
+				conditionId: cid,
+				queued: this.pipeline.queued(),
+			});
+			return Promise.resolve();
+		}
+		return run;
+	}
 
-			// Phase 2: Attempt entry if allowed
-			if (!this.stateView.canOpen()) {
-				return;
-			}
+	/** Runs the guard pipeline and reports blocks. Returns null if the pipeline threw. */
+	private async evaluateGuards(ctx: TickContext): Promise<GuardVerdict | null> {
+		let guardVerdict: GuardVerdict;
+		try {
+			guardVerdict = this.guardPipeline.evaluate(ctx);
+		} catch (e: unknown) {
+			const detail = e instanceof Error ? e.message : String(e);
+			this.eventDispatcher.emitSdk({
+				type: "error_occurred",
+				timestamp: this.clock.now(),
+				code: "GUARD_THREW",
+				message: `Guard pipeline threw: ${detail}`,
+				category: "fatal",
+			});
+			return null;
+		}
 
-			if (dataStale) {
-				this.eventDispatcher.emitSdk({
-					type: "error_occurred",
-					timestamp: this.clock.now(),
-					code: "WATCHDOG_ALERT",
-					message: "Data feed stale, blocking entries",
-					category: "non_retryable",
-				});
-				return;
-			}
+		if (guardVerdict.type === "block") {
+			await this.reportBlock(guardVerdict);
+		}
+		return guardVerdict;
+	}
 
-			let guardVerdict: GuardVerdict;
-			try {
-				guardVerdict = this.guardPipeline.evaluate(ctx);
-			} catch (e: unknown) {
-				const detail = e instanceof Error ? e.message : String(e);
-				this.eventDispatcher.emitSdk({
-					type: "error_occurred",
-					timestamp: this.clock.now(),
-					code: "GUARD_THREW",
-					message: `Guard pipeline threw: ${detail}`,
-					category: "fatal",
-				});
-				return;
-			}
+	/** Runs the order guard pipeline on a concrete intent. Returns null if it threw. */
+	private evaluateOrderGuards(intent: SdkOrderIntent, ctx: TickContext): GuardVerdict | null {
+		const orderCtx = orderGuardContext(ctx, (tokenId) => this.tokenExposure(tokenId));
+		let verdict: GuardVerdict;
+		try {
+			verdict = this.orderGuardPipeline.evaluate(intent, orderCtx);
+		} catch (e: unknown) {
+			const detail = e instanceof Error ? e.message : String(e);
+			this.eventDispatcher.emitSdk({
+				type: "error_occurred",
+				timestamp: this.clock.now(),
+				code: "ORDER_GUARD_THREW",
+				message: `Order guard pipeline threw: ${detail}`,
+				category: "fatal",
+			});
+			return null;
+		}
+		return verdict;
+	}
 
-			if (guardVerdict.type === "block") {
-				this.eventDispatcher.emitSdk({
-					type: "guard_blocked",
-					timestamp: this.clock.now(),
-					guardName: guardVerdict.guard,
-					reason: guardVerdict.reason,
-					recoverable: guardVerdict.recoverable,
-					...(guardVerdict.currentValue !== undefined && {
-						currentValue: guardVerdict.currentValue,
-					}),
-					...(guardVerdict.threshold !== undefined && {
-						threshold: guardVerdict.threshold,
-					}),
-				});
+	private async reportBlock(verdict: GuardVerdict & { readonly type: "block" }): Promise<void> {
+		this.eventDispatcher.emitSdk({
+			type: "guard_blocked",
+			timestamp: this.clock.now(),
+			guardName: verdict.guard,
+			reason: verdict.reason,
+			recoverable: verdict.recoverable,
+			...(verdict.currentValue !== undefined && {
+				currentValue: verdict.currentValue,
+			}),
+			...(verdict.threshold !== undefined && {
+				threshold: verdict.threshold,
+			}),
+		});
 
-				await this.safeJournal({
-					type: "guard_blocked",
-					guardName: guardVerdict.guard,
-					reason: guardVerdict.reason,
-					timestamp: this.clock.now(),
-				});
+		await this.safeJournal({
+			type: "guard_blocked",
+			guardName: verdict.guard,
+			reason: verdict.reason,
+			timestamp: this.clock.now(),
+		});
+	}
 
-				return;
+	private tokenExposure(tokenId: MarketTokenId): Decimal {
+		let total = Decimal.zero();
+		for (const pos of this.positionManager.allOpen()) {
+			if (pos.tokenId === tokenId) {
+				total = total.add(pos.notional());
 			}
-
-			await this.processEntry(ctx);
-		} finally {
-			this.tickInProgress = false;
 		}
+		return total;
 	}
 
 	private advanceLifecycle(): void {
@@ -244,102 +496,72 @@ export class BuiltStrategy {
 		}
 	}
 
-	private async processExits(ctx: TickContext): Promise<void> {
+	private async processExits(contextFor: TickContextProvider): Promise<void> {
 		const positions = this.positionManager.allOpen();
-		for (const position of positions) {
-			try {
-				const exitReason = this.exitPipeline.evaluate(position, ctx);
-				if (!exitReason) {
-					continue;
-				}
-
-				await this.safeJournal({
-					type: "exit_signal",
-					conditionId: position.conditionId,
-					reason: exitReason,
-					timestamp: this.clock.now(),
-				});
-
-				const intent = this.buildSellIntent(position, ctx);
-
-				const result = await this.executor.submit(intent);
+		const open = new Set(positions.map((p) => p.conditionId as string));
+		for (const key of this.exitSince.keys()) {
+			if (!open.has(key)) this.exitSince.delete(key);
+		}
+		await Promise.all(
+			positions.map((position) =>
+				this.schedule(position.conditionId, () => this.processExit(position, contextFor)),
+			),
+		);
+	}
 
-				if (isErr(result)) {
-					await this.emitExecutionError("exit_submit_failed", result.error, position.conditionId);
-					continue;
-				}
+	private async processExit(position: SdkPosition, contextFor: TickContextProvider): Promise<void> {
+		try {
+			if (this.workingOrders.hasPending(position.conditionId)) {
+				return;
+			}
 
-				const orderResult = result.value;
-				const exitPrice = orderResult.avgFillPrice ?? intent.price;
-
-				const exitSlippageBps = this.checkSlippage(intent.price, exitPrice);
-				if (exitSlippageBps !== null && exitSlippageBps > (this.maxSlippageBps ?? 0)) {
-					this.eventDispatcher.emitSdk({
-						type: "error_occurred",
-						timestamp: this.clock.now(),
-						code: "SLIPPAGE_WARNING",
-						message: `Exit slippage ${exitSlippageBps.toFixed(1)} bps exceeds max ${this.maxSlippageBps} bps (intent=${intent.price.toString()} fill=${exitPrice.toString()})`,
-						category: "non_retryable",
-					});
-				}
+			const ctx = contextFor(position.conditionId);
+			if (ctx === null) {
+				return;
+			}
 
-				const closeResult = this.positionManager.close(
-					position.conditionId,
-					exitPrice,
-					this.clock.now(),
-				);
+			const exitReason = this.exitPipeline.evaluate(position, ctx);
+			if (!exitReason) {
+				this.exitSince.delete(position.conditionId);
+				return;
+			}
 
-				if (!closeResult) {
-					this.emitError("POSITION_CLOSE_FAILED", "Position close returned null after fill");
-					continue;
-				}
+			await this.safeJournal({
+				type: "exit_signal",
+				conditionId: position.conditionId,
+				reason: exitReason,
+				timestamp: this.clock.now(),
+			});
 
-				this.positionManager = closeResult.manager;
-				const fee = computeFee(this.feeModel, position.notional(), closeResult.pnl);
-
-				this.eventDispatcher.emitSdk({
-					type: "order_placed",
-					timestamp: this.clock.now(),
-					clientOrderId: orderResult.clientOrderId,
-					conditionId: intent.conditionId,
-					tokenId: intent.tokenId,
-					side: intent.side,
-					price: intent.price.toNumber(),
-					size: intent.size.toNumber(),
-				});
+			const intent = this.buildSellIntent(position, ctx, exitReason);
+			if (intent === null) {
+				return;
+			}
 
-				this.eventDispatcher.emitSdk({
-					type: "position_closed",
-					timestamp: this.clock.now(),
-					conditionId: position.conditionId,
-					tokenId: position.tokenId,
-					entryPrice: position.entryPrice.toNumber(),
-					exitPrice: exitPrice.toNumber(),
-					pnl: closeResult.pnl.toNumber(),
-					reason: exitReason.type,
-					fee: fee.toNumber(),
-				});
+			const result = await this.workingOrders.submit(intent, exitReason);
 
-				await this.safeJournal({
-					type: "position_closed",
-					conditionId: position.conditionId,
-					entryPrice: position.entryPrice.toNumber(),
-					exitPrice: exitPrice.toNumber(),
-					pnl: closeResult.pnl.toNumber(),
-					reason: exitReason.type,
-					fee: fee.toNumber(),
-					timestamp: this.clock.now(),
-				});
-			} catch (e: unknown) {
-				const detail = e instanceof Error ? e.message : String(e);
-				this.eventDispatcher.emitSdk({
-					type: "error_occurred",
-					timestamp: this.clock.now(),
-					code: "EXIT_PIPELINE_THREW",
-					message: `Exit pipeline threw for ${position.conditionId}: ${detail}`,
-					category: "non_retryable",
-				});
+			if (isErr(result)) {
+				await this.emitExecutionError("exit_submit_failed", result.error, position.conditionId);
+				return;
 			}
+
+			this.emitOrderPlaced(result.value);
+			await this.safeJournal({
+				type: "order_submitted",
+				intent,
+				clientOrderId: result.value.clientOrderId,
+				timestamp: this.clock.now(),
+			});
+			await this.drainSettlements();
+		} catch (e: unknown) {
+			const detail = e instanceof Error ? e.message : String(e);
+			this.eventDispatcher.emitSdk({
+				type: "error_occurred",
+				timestamp: this.clock.now(),
+				code: "EXIT_PIPELINE_THREW",
+				message: `Exit pipeline threw for ${position.conditionId}: ${detail}`,
+				category: "non_retryable",
+			});
 		}
 	}
 
@@ -353,11 +575,20 @@ export class BuiltStrategy {
 		return intentPrice.sub(fillPrice).div(intentPrice).mul(Decimal.from(10000)).abs().toNumber();
 	}
 
-	private async processEntry(ctx: TickContext): Promise<void> {
+	/**
+	 * Detects, guards and submits an entry for one market. Markets with an order
+	 * still working are skipped. Returns false when a non-recoverable order guard block (or a throwing order
+	 * guard) should stop entries on the remaining markets this tick.
+	 */
+	private async processEntry(ctx: TickContext): Promise<boolean> {
 		try {
+			if (this.workingOrders.hasPending(ctx.conditionId)) {
+				return true;
+			}
+
 			const signal = this.detector.detectEntry(ctx);
 			if (!signal) {
-				return;
+				return true;
 			}
 
 			const intent = this.detector.toOrder(signal, ctx);
@@ -367,129 +598,362 @@ export class BuiltStrategy {
 					"INVALID_INTENT",
 					`Detector returned invalid size: ${intent.size.toString()}`,
 				);
-				return;
+				return true;
 			}
 			if (intent.price.isZero() || intent.price.isNegative()) {
 				this.emitError(
 					"INVALID_INTENT",
 					`Detector returned invalid price: ${intent.price.toString()}`,
 				);
-				return;
+				return true;
+			}
+
+			const verdict = this.evaluateOrderGuards(intent, ctx);
+			if (verdict === null) {
+				return false;
+			}
+			if (verdict.type === "block") {
+				await this.reportBlock(verdict);
+				return verdict.recoverable;
 			}
 
-			const result = await this.executor.submit(intent);
+			const result = await this.workingOrders.submit(intent, null);
 
 			if (isErr(result)) {
 				await this.emitExecutionError("entry_submit_failed", result.error, intent.conditionId);
-				return;
+				return true;
 			}
 
-			const orderResult = result.value;
-			const entryPrice = orderResult.avgFillPrice ?? intent.price;
-
-			const entrySlippageBps = this.checkSlippage(intent.price, entryPrice);
-			if (entrySlippageBps !== null && entrySlippageBps > (this.maxSlippageBps ?? 0)) {
-				this.eventDispatcher.emitSdk({
-					type: "error_occurred",
-					timestamp: this.clock.now(),
-					code: "SLIPPAGE_WARNING",
-					message: `Entry slippage ${entrySlippageBps.toFixed(1)} bps exceeds max ${this.maxSlippageBps} bps (intent=${intent.price.toString()} fill=${entryPrice.toString()})`,
-					category: "non_retryable",
-				});
+			this.emitOrderPlaced(result.value);
+			await this.safeJournal({
+				type: "entry_signal",
+				signal,
+				intent,
+				timestamp: this.clock.now(),
+			});
+			await this.safeJournal({
+				type: "order_submitted",
+				intent,
+				clientOrderId: result.value.clientOrderId,
+				timestamp: this.clock.now(),
+			});
+			await this.drainSettlements();
+			return true;
+		} catch (e: unknown) {
+			const detail = e instanceof Error ? e.message : String(e);
+			this.eventDispatcher.emitSdk({
+				type: "error_occurred",
+				timestamp: this.clock.now(),
+				code: "DETECTOR_THREW",
+				message: `Detector threw: ${detail}`,
+				category: "non_retryable",
+			});
+			return true;
+		}
+	}
+
+	/**
+	 * Expires GTD orders past their expiry, cancels orders resting past
+	 * `orderTimeoutMs`, then applies queued settlements. Only runs when orders are
+	 * working, keeping idle ticks free of extra awaits.
+	 */
+	private async maintainWorkingOrders(): Promise<void> {
+		this.workingOrders.expireDue();
+		for (const order of this.workingOrders.overdue(this.orderTimeoutMs)) {
+			const result = await this.workingOrders.cancel(order, CancelReason.Timeout);
+			if (isErr(result)) {
+				// Typically the order filled meanwhile; its fill settles it
+				await this.emitExecutionError(
+					"order_cancel_failed",
+					result.error,
+					order.intent.conditionId,
+				);
 			}
+		}
+		await this.drainSettlements();
+	}
 
-			const openResult = this.positionManager.open(
-				intent.conditionId,
-				intent.tokenId,
-				intent.side,
-				entryPrice,
-				intent.size,
-				this.clock.now(),
-			);
+	private scheduleSettlement(): void {
+		if (!this.workingOrders.hasSettlements()) return;
+		this.settling = this.settling.then(() => this.drainSettlements());
+	}
 
-			if (isErr(openResult)) {
+	private async drainSettlements(): Promise<void> {
+		let settlement = this.workingOrders.nextSettlement();
+		while (settlement !== undefined) {
+			try {
+				await this.settle(settlement);
+			} catch (e: unknown) {
+				const detail = e instanceof Error ? e.message : String(e);
 				this.emitError(
-					"POSITION_OPEN_FAILED",
-					`Position open failed after fill: ${openResult.error}`,
+					"SETTLEMENT_THREW",
+					`Settling ${settlement.order.clientOrderId} threw: ${detail}`,
 				);
-				return;
 			}
+			settlement = this.workingOrders.nextSettlement();
+		}
+	}
 
-			this.positionManager = openResult.value;
-
-			this.eventDispatcher.emitSdk({
-				type: "order_placed",
-				timestamp: this.clock.now(),
-				clientOrderId: orderResult.clientOrderId,
-				conditionId: intent.conditionId,
-				tokenId: intent.tokenId,
-				side: intent.side,
-				price: intent.price.toNumber(),
-				size: intent.size.toNumber(),
-			});
-
+	/**
+	 * Applies a completed order to positions by the size that actually filled.
+	 * Position state changes before the first await, so ticks never see a stale book.
+	 */
+	private async settle({ order, finalState }: OrderSettlement): Promise<void> {
+		if (finalState === PendingState.Cancelled || finalState === PendingState.Expired) {
 			this.eventDispatcher.emitSdk({
-				type: "position_opened",
+				type: "order_cancelled",
 				timestamp: this.clock.now(),
-				conditionId: intent.conditionId,
-				tokenId: intent.tokenId,
-				side: intent.side,
-				entryPrice: entryPrice.toNumber(),
-				size: intent.size.toNumber(),
+				clientOrderId: order.clientOrderId,
+				reason: order.cancelReason ?? finalState,
 			});
+		}
 
+		const fillPrice = averageFillPrice(order);
+		if (fillPrice === null) {
+			// Nothing filled: entries are dropped, exits are re-evaluated next tick
 			await this.safeJournal({
-				type: "entry_signal",
-				signal,
-				intent,
+				type: "order_closed",
+				clientOrderId: order.clientOrderId,
+				state: finalState,
+				reason: order.cancelReason ?? finalState,
 				timestamp: this.clock.now(),
 			});
-			await this.safeJournal({
-				type: "order_submitted",
-				intent,
-				clientOrderId: orderResult.clientOrderId,
+			return;
+		}
+
+		if (order.exitReason === null) {
+			await this.settleEntry(order, fillPrice);
+		} else {
+			await this.settleExit(order, order.exitReason, fillPrice);
+		}
+	}
+
+	private async settleEntry(order: WorkingOrder, entryPrice: Decimal): Promise<void> {
+		const { intent } = order;
+		this.warnSlippage("Entry", intent.price, entryPrice);
+
+		const openResult = this.positionManager.open(
+			intent.conditionId,
+			intent.tokenId,
+			intent.side,
+			entryPrice,
+			order.filledSize,
+			this.clock.now(),
+		);
+
+		if (isErr(openResult)) {
+			this.emitError(
+				"POSITION_OPEN_FAILED",
+				`Position open failed after fill: ${openResult.error}`,
+			);
+			return;
+		}
+
+		this.positionManager = openResult.value;
+
+		this.eventDispatcher.emitSdk({
+			type: "position_opened",
+			timestamp: this.clock.now(),
+			conditionId: intent.conditionId,
+			tokenId: intent.tokenId,
+			side: intent.side,
+			entryPrice: entryPrice.toNumber(),
+			size: order.filledSize.toNumber(),
+		});
+
+		await this.journalFill(order, entryPrice);
+		await this.safeJournal({
+			type: "position_opened",
+			conditionId: intent.conditionId,
+			tokenId: intent.tokenId,
+			side: intent.side,
+			entryPrice: entryPrice.toNumber(),
+			size: order.filledSize.toNumber(),
+			timestamp: this.clock.now(),
+		});
+	}
+
+	private async settleExit(
+		order: WorkingOrder,
+		exitReason: ExitReason,
+		exitPrice: Decimal,
+	): Promise<void> {
+		const { intent } = order;
+		this.warnSlippage("Exit", intent.price, exitPrice);
+
+		const position = this.positionManager.get(intent.conditionId);
+		if (!position) {
+			this.emitError(
+				"POSITION_CLOSE_FAILED",
+				`No open position for exit fill on ${intent.conditionId}`,
+			);
+			return;
+		}
+
+		if (order.filledSize.lt(position.size)) {
+			const reduced = this.positionManager.reduce(intent.conditionId, order.filledSize, exitPrice);
+			if (!reduced) {
+				this.emitError(
+					"POSITION_REDUCE_FAILED",
+					"Position reduce returned null after partial fill",
+				);
+				return;
+			}
+			this.positionManager = reduced.manager;
+			const notional = position.notional().mul(order.filledSize).div(position.size);
+			const fee = computeFee(this.feeModel, notional, reduced.pnl);
+			const newSize = position.size.sub(order.filledSize);
+			this.eventDispatcher.emitSdk({
+				type: "position_reduced",
 				timestamp: this.clock.now(),
+				conditionId: position.conditionId,
+				tokenId: position.tokenId,
+				oldSize: position.size.toNumber(),
+				newSize: newSize.toNumber(),
+				price: exitPrice.toNumber(),
+				pnl: reduced.pnl.toNumber(),
+				reason: exitReason.type,
+				fee: fee.toNumber(),
 			});
+			await this.journalFill(order, exitPrice);
 			await this.safeJournal({
-				type: "position_opened",
-				conditionId: intent.conditionId,
-				tokenId: intent.tokenId,
-				side: intent.side,
-				entryPrice: entryPrice.toNumber(),
-				size: intent.size.toNumber(),
+				type: "position_reduced",
+				conditionId: position.conditionId,
+				oldSize: position.size.toNumber(),
+				newSize: newSize.toNumber(),
+				exitPrice: exitPrice.toNumber(),
+				pnl: reduced.pnl.toNumber(),
+				reason: exitReason.type,
+				fee: fee.toNumber(),
 				timestamp: this.clock.now(),
 			});
-		} catch (e: unknown) {
-			const detail = e instanceof Error ? e.message : String(e);
+			return;
+		}
+
+		const closeResult = this.positionManager.close(
+			position.conditionId,
+			exitPrice,
+			this.clock.now(),
+		);
+
+		if (!closeResult) {
+			this.emitError("POSITION_CLOSE_FAILED", "Position close returned null after fill");
+			return;
+		}
+
+		this.positionManager = closeResult.manager;
+		this.exitPipeline.onPositionClosed(position);
+		const fee = computeFee(this.feeModel, position.notional(), closeResult.pnl);
+
+		this.eventDispatcher.emitSdk({
+			type: "position_closed",
+			timestamp: this.clock.now(),
+			conditionId: position.conditionId,
+			tokenId: position.tokenId,
+			entryPrice: position.entryPrice.toNumber(),
+			exitPrice: exitPrice.toNumber(),
+			pnl: closeResult.pnl.toNumber(),
+			reason: exitReason.type,
+			fee: fee.toNumber(),
+		});
+
+		await this.journalFill(order, exitPrice);
+		await this.safeJournal({
+			type: "position_closed",
+			conditionId: position.conditionId,
+			entryPrice: position.entryPrice.toNumber(),
+			exitPrice: exitPrice.toNumber(),
+			pnl: closeResult.pnl.toNumber(),
+			reason: exitReason.type,
+			fee: fee.toNumber(),
+			timestamp: this.clock.now(),
+		});
+	}
+
+	private emitOrderPlaced(order: WorkingOrder): void {
+		const { intent } = order;
+		this.eventDispatcher.emitSdk({
+			type: "order_placed",
+			timestamp: this.clock.now(),
+			clientOrderId: order.clientOrderId,
+			conditionId: intent.conditionId,
+			tokenId: intent.tokenId,
+			side: intent.side,
+			price: intent.price.toNumber(),
+			size: intent.size.toNumber(),
+		});
+	}
+
+	private async journalFill(order: WorkingOrder, fillPrice: Decimal): Promise<void> {
+		await this.safeJournal({
+			type: "order_filled",
+			clientOrderId: order.clientOrderId,
+			fillPrice: fillPrice.toNumber(),
+			size: order.filledSize.toNumber(),
+			fee: order.fee.toNumber(),
+			timestamp: this.clock.now(),
+		});
+	}
+
+	private warnSlippage(leg: "Entry" | "Exit", intentPrice: Decimal, fillPrice: Decimal): void {
+		const slippageBps = this.checkSlippage(intentPrice, fillPrice);
+		if (slippageBps !== null && slippageBps > (this.maxSlippageBps ?? 0)) {
 			this.eventDispatcher.emitSdk({
 				type: "error_occurred",
 				timestamp: this.clock.now(),
-				code: "DETECTOR_THREW",
-				message: `Detector threw: ${detail}`,
+				code: "SLIPPAGE_WARNING",
+				message: `${leg} slippage ${slippageBps.toFixed(1)} bps exceeds max ${this.maxSlippageBps} bps (intent=${intentPrice.toString()} fill=${fillPrice.toString()})`,
 				category: "non_retryable",
 			});
 		}
 	}
 
-	private buildSellIntent(position: SdkPosition, ctx: TickContext): SdkOrderIntent {
-		const oppositeSide = position.side === "yes" ? "no" : "yes";
-		const spotPrice = ctx.spot();
-		if (spotPrice === null) {
+	/**
+	 * Sells the held token (all of it, or the reason's `fraction`) at the price the
+	 * exit pricer picks for this reason's urgency. Returns null (and warns) when
+	 * the book has nothing to price against.
+	 */
+	private buildSellIntent(
+		position: SdkPosition,
+		ctx: TickContext,
+		reason: ExitReason,
+	): SdkOrderIntent | null {
+		const now = this.clock.now();
+		const size = exitSize(position, reason);
+		if (!size.isPositive()) {
 			this.eventDispatcher.emitSdk({
 				type: "error_occurred",
-				timestamp: this.clock.now(),
-				code: "SPOT_PRICE_UNAVAILABLE",
-				message: `Using entry price as fallback for exit on ${position.conditionId}`,
+				timestamp: now,
+				code: "INVALID_EXIT_FRACTION",
+				message: `Exit fraction ${reason.fraction?.toString()} on ${position.conditionId} is not positive`,
+				category: "non_retryable",
+			});
+			return null;
+		}
+		const exitSinceMs = this.exitSince.get(position.conditionId) ?? now;
+		this.exitSince.set(position.conditionId, exitSinceMs);
+
+		const urgency = exitUrgency(reason);
+		const quote = this.exitPricer.price({ position, ctx, reason, urgency, exitSinceMs });
+		if (quote === null) {
+			this.eventDispatcher.emitSdk({
+				type: "error_occurred",
+				timestamp: now,
+				code: "EXIT_PRICE_UNAVAILABLE",
+				message: `No ${position.side} book to price the ${urgency} exit on ${position.conditionId}`,
 				category: "non_retryable",
 			});
+			return null;
 		}
 		return {
 			conditionId: position.conditionId,
 			tokenId: position.tokenId,
-			side: oppositeSide,
+			side: position.side,
 			direction: "sell",
-			price: spotPrice ?? position.entryPrice,
-			size: position.size,
+			price: quote.price,
+			size,
+			...(quote.orderKind !== undefined && { orderKind: quote.orderKind }),
+			...(quote.expiresAtMs !== undefined && { expiresAtMs: quote.expiresAtMs }),
 		};
 	}
 
@@ -539,3 +1003,39 @@ export class BuiltStrategy {
 		}
 	}
 }
+
+/** Size an exit sells: the whole position unless the reason scales out a fraction of it. */
+/** The guard view of a tick context, plus the per-token exposure order guards check. */
+function orderGuardContext(
+	ctx: TickContext,
+	tokenExposure: (tokenId: MarketTokenId) => Decimal,
+): OrderGuardContext {
+	return {
+		conditionId: ctx.conditionId,
+		nowMs: () => ctx.nowMs(),
+		spot: () => ctx.spot(),
+		oraclePrice: () => ctx.oraclePrice(),
+		bestBid: (side) => ctx.bestBid(side),
+		bestAsk: (side) => ctx.bestAsk(side),
+		spread: (side) => ctx.spread(side),
+		spreadPct: (side) => ctx.spreadPct(side),
+		timeRemainingMs: () => ctx.timeRemainingMs(),
+		openPositionCount: () => ctx.openPositionCount(),
+		totalExposure: () => ctx.totalExposure(),
+		availableBalance: () => ctx.availableBalance(),
+		dailyPnl: () => ctx.dailyPnl(),
+		consecutiveLosses: () => ctx.consecutiveLosses(),
+		hasPendingOrderFor: (conditionId, side) => ctx.hasPendingOrderFor(conditionId, side),
+		lastTradeTimeMs: (conditionId) => ctx.lastTradeTimeMs(conditionId),
+		oracleAgeMs: () => ctx.oracleAgeMs(),
+		bookAgeMs: () => ctx.bookAgeMs(),
+		isBookValid: () => ctx.isBookValid?.() ?? true,
+		tokenExposure,
+	};
+}
+
+function exitSize(position: SdkPosition, reason: ExitReason): Decimal {
+	const { fraction } = reason;
+	if (fraction === undefined || fraction.gte(Decimal.one())) return position.size;
+	return position.size.mul(fraction);
+}
@@ -6,13 +6,59 @@ export type {
 	RiskAggregate,
 } from "./types.js";
 
-export { BuiltStrategy } from "./built-strategy.js";
-export type { StrategyAggregates, StateView, TickContext } from "./built-strategy.js";
+export { BuiltStrategy, DEFAULT_ORDER_TIMEOUT_MS } from "./built-strategy.js";
+export type {
+	StrategyAggregates,
+	StateView,
+	TickContext,
+	TickContextProvider,
+} from "./built-strategy.js";
+
+export { StrategyRunner } from "./strategy-runner.js";
+export type { StrategyRunnerConfig } from "./strategy-runner.js";
+
+export { createTickContextProvider } from "./tick-context.js";
+export type {
+	BookSource,
+	OracleReading,
+	OracleSource,
+	TickContextProviderConfig,
+} from "./tick-context.js";
+
+export { SpreadQuoter } from "./quoting-strategy.js";
+export type {
+	FlowToxicity,
+	QuoteDecision,
+	QuoteInput,
+	QuoteLadder,
+	QuoteLevel,
+	QuotingStrategy,
+	SpreadQuoterConfig,
+} from "./quoting-strategy.js";
+
+export { MarketMaker } from "./market-maker.js";
+export type { MarketMakerConfig, MarketMakerTick, MarketMakerUpdate } from "./market-maker.js";
 
 export { StrategyBuilder } from "./strategy-builder.js";
 export type { StrategyComponents } from "./strategy-builder.js";
 
-export type { Journal, JournalEntry } from "./journal.js";
+export type {
+	Journal,
+	JournalEntry,
+	SnapshotClosedPosition,
+	SnapshotEntry,
+	SnapshotPosition,
+	SnapshotState,
+} from "./journal.js";
+
+export { SNAPSHOT_VERSION, StateReplayer, recoverFromJournal, recoverState } from "./recovery.js";
+export type {
+	RecoveredKillSwitch,
+	RecoveredState,
+	RecoveryIssue,
+	RecoveryIssueCode,
+	RecoveryOptions,
+} from "./recovery.js";
 
 export { conservative, aggressive, scalper, evHunter } from "./presets.js";
 
@@ -6,6 +6,8 @@
  * numbers for prices/sizes (standard serialization boundary practice).
  */
 
+import type { PendingState } from "../order/types.js";
+import type { KillSwitchMode } from "../risk/guards/kill-switch.js";
 import type { ClientOrderId, ConditionId, MarketTokenId } from "../shared/identifiers.js";
 import type { MarketSide } from "../shared/market-side.js";
 import type { ExitReason, ExitReasonType, SdkOrderIntent } from "../signal/types.js";
@@ -44,6 +46,14 @@ export type JournalEntry =
 			readonly fee: number;
 			readonly timestamp: number;
 	  }
+	| {
+			/** An order that settled with nothing filled, e.g. cancelled or expired. */
+			readonly type: "order_closed";
+			readonly clientOrderId: ClientOrderId;
+			readonly state: PendingState;
+			readonly reason: string;
+			readonly timestamp: number;
+	  }
 	| {
 			readonly type: "position_opened";
 			readonly conditionId: ConditionId;
@@ -63,6 +73,18 @@ export type JournalEntry =
 			readonly fee?: number;
 			readonly timestamp: number;
 	  }
+	| {
+			readonly type: "position_reduced";
+			readonly conditionId: ConditionId;
+			readonly oldSize: number;
+			readonly newSize: number;
+			readonly exitPrice: number;
+			/** Realized P&L of the sold part. */
+			readonly pnl: number;
+			readonly reason: ExitReasonType;
+			readonly fee?: number;
+			readonly timestamp: number;
+	  }
 	| {
 			readonly type: "guard_blocked";
 			readonly guardName: string;
@@ -74,4 +96,62 @@ export type JournalEntry =
 			readonly code: string;
 			readonly message: string;
 			readonly timestamp: number;
+	  }
+	| {
+			readonly type: "snapshot";
+			readonly version: number;
+			readonly state: SnapshotState;
+			readonly timestamp: number;
 	  };
+
+/** A journal entry carrying a full state snapshot. */
+export type SnapshotEntry = Extract<JournalEntry, { readonly type: "snapshot" }>;
+
+/** Position state as recorded in a snapshot entry. */
+export interface SnapshotPosition {
+	readonly conditionId: ConditionId;
+	readonly tokenId: MarketTokenId;
+	readonly side: MarketSide;
+	readonly entryPrice: number;
+	readonly size: number;
+	readonly costBasis: number;
+	readonly realizedPnl: number;
+	readonly highWaterMark: number;
+	readonly entryTimeMs: number;
+}
+
+/** Closed position as recorded in a snapshot entry. */
+export interface SnapshotClosedPosition {
+	readonly position: SnapshotPosition;
+	readonly exitPrice: number;
+	readonly realizedPnl: number;
+	readonly closedAtMs: number;
+}
+
+/**
+ * Strategy state captured by a snapshot entry. Entries before the snapshot
+ * are not needed to rebuild this state.
+ */
+export interface SnapshotState {
+	readonly positions: {
+		readonly open: readonly SnapshotPosition[];
+		/** Oldest first. */
+		readonly closed: readonly SnapshotClosedPosition[];
+	};
+	readonly stats: {
+		readonly realizedPnl: number;
+		readonly totalFees: number;
+	};
+	readonly guards: {
+		readonly killSwitch: {
+			readonly reason: string;
+			readonly mode: KillSwitchMode;
+			readonly engagedAtMs: number;
+		} | null;
+	};
+	/** Submitted orders not yet filled or closed, so fills after the snapshot still match. */
+	readonly pendingOrders: readonly {
+		readonly clientOrderId: ClientOrderId;
+		readonly size: number | null;
+	}[];
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import { BookPaperExecutor } from "../execution/book-paper-executor.js";
+import type { OrderbookSnapshot } from "../market/types.js";
+import { ToxicityGuard } from "../risk/guards/toxicity.js";
+import { Decimal } from "../shared/decimal.js";
+import { conditionId, marketTokenId } from "../shared/identifiers.js";
+import { FakeClock } from "../shared/time.js";
+import { MarketMaker } from "./market-maker.js";
+import type { MarketMakerConfig, MarketMakerTick } from "./market-maker.js";
+import { SpreadQuoter } from "./quoting-strategy.js";
+
+const d = Decimal.from;
+const MARKET = {
+	conditionId: conditionId("cond-1"),
+	yesTokenId: marketTokenId("yes-tok"),
+	noTokenId: marketTokenId("no-tok"),
+};
+
+function book(bid: string, ask: string): OrderbookSnapshot {
+	return {
+		bids: [{ price: d(bid), size: d(1000) }],
+		asks: [{ price: d(ask), size: d(1000) }],
+		timestampMs: 0,
+	};
+}
+
+function setup(overrides: Partial<MarketMakerConfig> = {}) {
+	const clock = new FakeClock(1000);
+	let current: OrderbookSnapshot | null = book("0.45", "0.55");
+	const executor = new BookPaperExecutor({ books: { getBook: () => current }, clock });
+	const mm = new MarketMaker({
+		market: MARKET,
+		strategy: SpreadQuoter.create({
+			spread: {
+				baseSpreadBps: d(400),
+				volMultiplier: d(0),
+				minSpreadBps: d(50),
+				maxSpreadBps: d(2000),
+			},
+			sizePerLevel: d(50),
+			maxInventory: d(100),
+			maxAbsOfi: d(5000),
+		}),
+		executor,
+		clock,
+		...overrides,
+	});
+	const feed = mm.userFeed();
+	const setBook = (next: OrderbookSnapshot | null) => {
+		current = next;
+		feed.processMessages(executor.drain());
+	};
+	return { executor, mm, setBook };
+}
+
+const TICK: MarketMakerTick = { fairValue: d("0.5"), volatility: d(0), timeRemainingMs: 3_600_000 };
+
+function quotes(mm: MarketMaker): string[] {
+	return mm
+		.liveQuotes()
+		.map((q) => `${q.tokenId}:${q.side}@${q.price.toString()}x${q.size.toString()}`);
+}
+
+describe("MarketMaker", () => {
+	it("bids on the paper executor and offers nothing while flat", async () => {
+		const { executor, mm } = setup();
+
+		const update = await mm.tick(TICK);
+
+		expect(update.pulled).toBeNull();
+		expect(quotes(mm)).toEqual(["yes-tok:buy@0.48x50"]);
+		expect(executor.restingOrderCount()).toBe(1);
+	});
+
+	it("tracks inventory from fills and skews the next quotes", async () => {
+		const { mm, setBook } = setup();
+		await mm.tick(TICK);
+
+		// The book trades down through the bid: 50 bought at 0.48
+		setBook(book("0.40", "0.47"));
+		expect(mm.inventory(MARKET.yesTokenId).toString()).toBe("50");
+		setBook(book("0.45", "0.55"));
+
+		await mm.tick(TICK);
+		// skew 0.5 lowers the bid to 0.47; capacity 50 left, and the 50 held are offered
+		expect(quotes(mm)).toEqual(["yes-tok:buy@0.47x50", "yes-tok:sell@0.52x50"]);
+	});
+
+	it("stops bidding once max inventory is reached", async () => {
+		const { mm, setBook } = setup();
+		await mm.tick(TICK);
+		setBook(book("0.40", "0.47"));
+		// The skewed bid at 0.47 is marketable and fills on submission
+		await mm.tick(TICK);
+		expect(mm.inventory(MARKET.yesTokenId).toString()).toBe("100");
+
+		await mm.tick(TICK);
+
+		expect(quotes(mm).filter((q) => q.includes(":buy@"))).toEqual([]);
+	});
+
+	it("quotes the NO token at the complementary fair value", async () => {
+		const { mm, setBook } = setup({ quoteNo: true });
+		setBook(book("0.30", "0.70"));
+
+		await mm.tick({ ...TICK, fairValue: d("0.6") });
+
+		// The NO bid is the flat book's short side of YES
+		expect(quotes(mm)).toEqual(["yes-tok:buy@0.57x50", "no-tok:buy@0.38x50"]);
+	});
+
+	it("pulls every quote on toxic order flow", async () => {
+		const { executor, mm } = setup();
+		await mm.tick({ ...TICK, book: book("0.45", "0.55") });
+
+		// Bid queue grows by 9000 → OFI 9000 >= 5000
+		const bidHeavy = { ...book("0.45", "0.55"), bids: [{ price: d("0.45"), size: d(10_000) }] };
+		const update = await mm.tick({ ...TICK, book: bidHeavy });
+
+		expect(update.pulled).toBe("|ofi| 9000 >= 5000");
+		expect(update.cancelled).toHaveLength(1);
+		expect(executor.restingOrderCount()).toBe(0);
+	});
+
+	it("pulls quotes while the market is marked toxic", async () => {
+		const toxicityGuard = ToxicityGuard.create();
+		const { mm } = setup({ toxicityGuard });
+		await mm.tick(TICK);
+
+		toxicityGuard.markToxic(MARKET.conditionId as string);
+		const pulled = await mm.tick(TICK);
+		expect(pulled.pulled).toBe("market marked as toxic");
+		expect(mm.liveQuotes()).toEqual([]);
+
+		toxicityGuard.unmarkToxic(MARKET.conditionId as string);
+		await mm.tick(TICK);
+		expect(mm.liveQuotes()).toHaveLength(1);
+	});
+
+	it("pulls quotes when VPIN from trade prints turns one-sided", async () => {
+		const strategy = SpreadQuoter.create({
+			spread: {
+				baseSpreadBps: d(400),
+				volMultiplier: d(0),
+				minSpreadBps: d(50),
+				maxSpreadBps: d(2000),
+			},
+			sizePerLevel: d(50),
+			maxInventory: d(100),
+			maxVpin: d("0.9"),
+		});
+		const { mm } = setup({ strategy, vpin: { bucketSize: d(100), numBuckets: 2 } });
+		await mm.tick(TICK);
+
+		for (const price of ["0.50", "0.51", "0.52", "0.53"]) {
+			mm.onTrade({ price: d(price), size: d(50), timestampMs: 1000 });
+		}
+		const update = await mm.tick(TICK);
+
+		expect(update.pulled).toContain("vpin");
+		expect(mm.liveQuotes()).toEqual([]);
+	});
+
+	it("drops quotes the exchange cancelled", async () => {
+		const { executor, mm, setBook } = setup();
+		await mm.tick(TICK);
+
+		await executor.cancelAll();
+		setBook(book("0.45", "0.55"));
+
+		expect(mm.liveQuotes()).toEqual([]);
+	});
+});
@@ -0,0 +1,278 @@
+/**
+ * MarketMaker — runs a QuotingStrategy against an Executor.
+ *
+ * Each `tick()` asks the strategy for a ladder per quoted token and hands the
+ * result to a QuoteManager, which diffs it against the live quotes and places
+ * or cancels through the executor. Fills arriving on the user feed update the
+ * quotes' OrderRegistry entries and the per-token inventory fed back into the
+ * strategy. Flow toxicity comes from an OfiTracker (book updates) and an
+ * optional VpinTracker (trade prints); a pull from the strategy, or a market
+ * marked on the ToxicityGuard, cancels every quote immediately.
+ *
+ * With a BookPaperExecutor this is a paper market maker; with a ClobExecutor it
+ * quotes live.
+ */
+
+import { OfiTracker } from "../analytics/ofi.js";
+import { VpinTracker } from "../analytics/vpin.js";
+import type { TradeUpdate, VpinConfig } from "../analytics/vpin.js";
+import type { TokenInfo } from "../ctf/types.js";
+import type { Executor } from "../execution/types.js";
+import type { TokenBucketRateLimiter } from "../lib/http/rate-limiter.js";
+import type { OrderbookSnapshot } from "../market/types.js";
+import type { DesiredOrder, DiffConfig, LiveOrder } from "../order/order-differ.js";
+import { OrderRegistry } from "../order/order-registry.js";
+import { OrderTracker } from "../order/order-tracker.js";
+import { isActive } from "../order/pending-state-machine.js";
+import { QuoteManager } from "../order/quote-manager.js";
+import type { QuoteUpdate } from "../order/quote-manager.js";
+import { CancelReason, OrderSide } from "../order/types.js";
+import type { FillInfo, OrderKind, OrderResult, PendingOrder } from "../order/types.js";
+import type { ToxicityGuard } from "../risk/guards/toxicity.js";
+import { Decimal } from "../shared/decimal.js";
+import type { MarketTokenId } from "../shared/identifiers.js";
+import type { Clock } from "../shared/time.js";
+import { SystemClock } from "../shared/time.js";
+import type { UserFill, UserOrderStatus } from "../websocket/types.js";
+import { UserFeed } from "../websocket/user-feed.js";
+import type { FlowToxicity, QuoteLadder, QuotingStrategy } from "./quoting-strategy.js";
+
+/** Configuration for a MarketMaker. */
+export interface MarketMakerConfig {
+	readonly market: TokenInfo;
+	readonly strategy: QuotingStrategy;
+	readonly executor: Executor;
+	/** Also quote the NO token, at a fair value of 1 - fairValue. Default: false */
+	readonly quoteNo?: boolean | undefined;
+	/** Caps quote churn; see QuoteManager. Default: unlimited */
+	readonly rateLimiter?: TokenBucketRateLimiter | undefined;
+	/** Tolerances below which live quotes are kept. */
+	readonly diff?: DiffConfig | undefined;
+	/** Time-in-force for quotes. Default: GTC */
+	readonly orderKind?: OrderKind | undefined;
+	/** Enables VPIN from trade prints passed to `onTrade()`. Default: no VPIN */
+	readonly vpin?: VpinConfig | undefined;
+	/** Pulls every quote while the market is marked toxic. */
+	readonly toxicityGuard?: ToxicityGuard | undefined;
+	readonly clock?: Clock | undefined;
+}
+
+/** Market state for one MarketMaker tick. */
+export interface MarketMakerTick {
+	/** Fair price of the YES token in [0, 1]. */
+	readonly fairValue: Decimal;
+	readonly volatility: Decimal;
+	readonly timeRemainingMs: number;
+	/** Latest YES book, fed to the OFI tracker. */
+	readonly book?: OrderbookSnapshot | null | undefined;
+}
+
+/** Outcome of a MarketMaker tick. */
+export interface MarketMakerUpdate extends QuoteUpdate {
+	/** Why quotes were pulled this tick, or null if the strategy quoted. */
+	readonly pulled: string | null;
+}
+
+/**
+ * Two-sided quoting runtime for one market.
+ *
+ * @example
+ * ```ts
+ * const mm = new MarketMaker({
+ *   market: { conditionId, yesTokenId, noTokenId },
+ *   strategy: SpreadQuoter.create(quoterConfig),
+ *   executor: paperExecutor,
+ *   vpin: { bucketSize: d(500), numBuckets: 20 },
+ * });
+ * const feed = mm.userFeed();
+ * // every tick:
+ * const update = await mm.tick({ fairValue, volatility, timeRemainingMs, book });
+ * ```
+ */
+export class MarketMaker {
+	private readonly market: TokenInfo;
+	private readonly strategy: QuotingStrategy;
+	private readonly quoteNo: boolean;
+	private readonly registry: OrderRegistry;
+	private readonly tracker: OrderTracker;
+	private readonly quotes: QuoteManager;
+	private readonly ofi: OfiTracker;
+	private readonly vpin: VpinTracker | null;
+	private readonly toxicityGuard: ToxicityGuard | null;
+	private readonly inventories = new Map<string, Decimal>();
+	private readonly filled = new Map<string, Decimal>();
+	private lastOfi: Decimal | null = null;
+
+	constructor(config: MarketMakerConfig) {
+		const clock = config.clock ?? SystemClock;
+		this.market = config.market;
+		this.strategy = config.strategy;
+		this.quoteNo = config.quoteNo ?? false;
+		this.registry = OrderRegistry.create(clock);
+		this.tracker = new OrderTracker(this.registry, clock);
+		this.quotes = new QuoteManager({
+			market: config.market,
+			executor: config.executor,
+			registry: this.registry,
+			rateLimiter: config.rateLimiter,
+			diff: config.diff,
+			orderKind: config.orderKind,
+			clock,
+		});
+		this.ofi = OfiTracker.create();
+		this.vpin = config.vpin ? VpinTracker.create(config.vpin) : null;
+		this.toxicityGuard = config.toxicityGuard ?? null;
+	}
+
+	/** Re-quotes the market: pulls everything on toxicity, otherwise moves quotes toward the new ladders. */
+	async tick(input: MarketMakerTick): Promise<MarketMakerUpdate> {
+		if (input.book) {
+			this.lastOfi = this.ofi.update({
+				bestBid: input.book.bids[0] ?? null,
+				bestAsk: input.book.asks[0] ?? null,
+			});
+		}
+
+		if (this.toxicityGuard?.isToxic(this.market.conditionId as string)) {
+			return { ...(await this.quotes.cancelAll()), pulled: "market marked as toxic" };
+		}
+
+		const toxicity: FlowToxicity = { vpin: this.vpin?.value() ?? null, ofi: this.lastOfi };
+		const desired: DesiredOrder[] = [];
+		for (const { tokenId, fairValue } of this.quotedTokens(input.fairValue)) {
+			const decision = this.strategy.quote({
+				tokenId,
+				fairValue,
+				inventory: this.inventory(tokenId),
+				volatility: input.volatility,
+				timeRemainingMs: input.timeRemainingMs,
+				toxicity,
+			});
+			if (decision.type === "pull") {
+				return { ...(await this.quotes.cancelAll()), pulled: decision.reason };
+			}
+			desired.push(...toDesired(tokenId, decision.ladder));
+		}
+
+		const update = await this.quotes.update(desired);
+		this.applyImmediateFills(update.results);
+		return { ...update, pulled: null };
+	}
+
+	/** Feeds a trade print to the VPIN tracker. */
+	onTrade(trade: TradeUpdate): void {
+		this.vpin?.update(trade);
+	}
+
+	/** Applies a fill on one of the quotes to the registry and the token's inventory. */
+	onUserFill(fill: UserFill): void {
+		const order = this.registry.byExchangeOrderId(fill.orderId);
+		if (!order) return;
+
+		const key = order.clientOrderId as string;
+		const filledSize = Decimal.from(fill.filledSize);
+		const filled = (this.filled.get(key) ?? Decimal.zero()).add(filledSize);
+		this.filled.set(key, filled);
+
+		const remaining = order.originalSize.sub(filled);
+		const info: FillInfo = {
+			filledSize,
+			fillPrice: Decimal.from(fill.fillPrice),
+			remainingSize: remaining.isNegative() ? Decimal.zero() : remaining,
+			timestampMs: fill.timestampMs,
+		};
+		if (info.remainingSize.isZero()) {
+			this.tracker.handleFilled(order.clientOrderId, info);
+			this.filled.delete(key);
+		} else {
+			this.tracker.handlePartialFill(order.clientOrderId, info);
+		}
+
+		this.addInventory(order, filledSize);
+	}
+
+	/** Applies an exchange status update (cancelled, expired, rejected) to the quote's registry entry. */
+	onOrderStatus(status: UserOrderStatus): void {
+		const order = this.registry.byExchangeOrderId(status.orderId);
+		if (!order) return;
+
+		switch (status.status.toLowerCase()) {
+			case "cancelled":
+			case "canceled":
+				this.tracker.handleCancelled(order.clientOrderId, CancelReason.Exchange);
+				break;
+			case "expired":
+				this.tracker.handleExpired(order.clientOrderId);
+				break;
+			case "rejected":
+				this.tracker.handleRejected(order.clientOrderId, status.status);
+				break;
+		}
+	}
+
+	/** A UserFeed routing fills and order status updates to this market maker. */
+	userFeed(): UserFeed {
+		return new UserFeed({
+			onFill: (fill) => this.onUserFill(fill),
+			onOrderStatus: (status) => this.onOrderStatus(status),
+		});
+	}
+
+	/** Net inventory of a token accumulated from quote fills (positive = long). */
+	inventory(tokenId: MarketTokenId): Decimal {
+		return this.inventories.get(tokenId as string) ?? Decimal.zero();
+	}
+
+	/** Quotes currently working. */
+	liveQuotes(): readonly LiveOrder[] {
+		return this.quotes.liveOrders();
+	}
+
+	/** Cancels every live quote, bypassing the rate limiter. */
+	cancelAll(): Promise<QuoteUpdate> {
+		return this.quotes.cancelAll();
+	}
+
+	/** Quotes that matched on submission: their fills never reach the user feed as increments. */
+	private applyImmediateFills(results: readonly OrderResult[]): void {
+		for (const result of results) {
+			const order = this.registry.get(result.clientOrderId);
+			if (!order || !result.totalFilled.isPositive()) continue;
+			if (isActive(order.state)) {
+				this.filled.set(order.clientOrderId as string, result.totalFilled);
+			}
+			this.addInventory(order, result.totalFilled);
+		}
+	}
+
+	private addInventory(order: PendingOrder, size: Decimal): void {
+		const signed = order.side === OrderSide.Buy ? size : size.neg();
+		this.inventories.set(order.tokenId as string, this.inventory(order.tokenId).add(signed));
+	}
+
+	private quotedTokens(fairValue: Decimal): Array<{ tokenId: MarketTokenId; fairValue: Decimal }> {
+		const tokens = [{ tokenId: this.market.yesTokenId, fairValue }];
+		if (this.quoteNo) {
+			tokens.push({ tokenId: this.market.noTokenId, fairValue: Decimal.one().sub(fairValue) });
+		}
+		return tokens;
+	}
+}
+
+function toDesired(tokenId: MarketTokenId, ladder: QuoteLadder): DesiredOrder[] {
+	const id = tokenId as string;
+	return [
+		...ladder.bids.map((l) => ({
+			tokenId: id,
+			side: "buy" as const,
+			price: l.price,
+			size: l.size,
+		})),
+		...ladder.asks.map((l) => ({
+			tokenId: id,
+			side: "sell" as const,
+			price: l.price,
+			size: l.size,
+		})),
+	];
+}
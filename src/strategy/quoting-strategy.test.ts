@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import type { SpreadConfig } from "../pricing/dynamic-spread.js";
+import { Decimal } from "../shared/decimal.js";
+import { ConfigError } from "../shared/errors.js";
+import { marketTokenId } from "../shared/identifiers.js";
+import { SpreadQuoter } from "./quoting-strategy.js";
+import type { QuoteDecision, QuoteInput, SpreadQuoterConfig } from "./quoting-strategy.js";
+
+const d = Decimal.from;
+const SPREAD: SpreadConfig = {
+	baseSpreadBps: d(400),
+	volMultiplier: d(0),
+	minSpreadBps: d(50),
+	maxSpreadBps: d(2000),
+};
+
+function quoter(overrides: Partial<SpreadQuoterConfig> = {}): SpreadQuoter {
+	return SpreadQuoter.create({
+		spread: SPREAD,
+		sizePerLevel: d(50),
+		maxInventory: d(200),
+		...overrides,
+	});
+}
+
+function input(overrides: Partial<QuoteInput> = {}): QuoteInput {
+	return {
+		tokenId: marketTokenId("yes"),
+		fairValue: d("0.5"),
+		inventory: d(0),
+		volatility: d(0),
+		timeRemainingMs: 3_600_000,
+		...overrides,
+	};
+}
+
+function ladder(decision: QuoteDecision): { bids: string[]; asks: string[] } {
+	if (decision.type !== "quote") throw new Error(`pulled: ${decision.reason}`);
+	const fmt = (l: { price: Decimal; size: Decimal }) =>
+		`${l.size.toString()}@${l.price.toString()}`;
+	return { bids: decision.ladder.bids.map(fmt), asks: decision.ladder.asks.map(fmt) };
+}
+
+describe("SpreadQuoter", () => {
+	it("bids below fair value and offers nothing when flat", () => {
+		expect(ladder(quoter().quote(input()))).toEqual({ bids: ["50@0.48"], asks: [] });
+	});
+
+	it("builds a ladder with spacing between levels", () => {
+		const decision = quoter({ levels: 3, levelSpacingBps: d(200) }).quote(input());
+
+		expect(ladder(decision).bids).toEqual(["50@0.48", "50@0.47", "50@0.46"]);
+	});
+
+	it("skews quotes away from the inventory side", () => {
+		// skew 0.5 → bid offset 500bps, ask offset 300bps
+		const decision = quoter().quote(input({ inventory: d(100) }));
+
+		expect(ladder(decision)).toEqual({ bids: ["50@0.47"], asks: ["50@0.52"] });
+	});
+
+	it("stops bidding at max inventory and sizes the ladder to the remaining capacity", () => {
+		const atMax = quoter({ levels: 3, levelSpacingBps: d(200) }).quote(
+			input({ inventory: d(200) }),
+		);
+		expect(ladder(atMax).bids).toEqual([]);
+
+		const near = quoter({ levels: 3, levelSpacingBps: d(200) }).quote(input({ inventory: d(130) }));
+		expect(ladder(near).bids.map((l) => l.split("@")[0])).toEqual(["50", "20"]);
+	});
+
+	it("never offers more than the inventory held", () => {
+		const short = quoter().quote(input({ inventory: d(-50) }));
+		expect(ladder(short).asks).toEqual([]);
+		expect(ladder(short).bids).toHaveLength(1);
+
+		const held = quoter({ levels: 3, levelSpacingBps: d(200) }).quote(input({ inventory: d(80) }));
+		expect(ladder(held).asks.map((l) => l.split("@")[0])).toEqual(["50", "30"]);
+	});
+
+	it("rounds to the tick grid and never quotes at fair value", () => {
+		const tight = { ...SPREAD, baseSpreadBps: d(1), minSpreadBps: d(1) };
+		const decision = quoter({ spread: tight }).quote(input({ inventory: d(50) }));
+
+		expect(ladder(decision)).toEqual({ bids: ["50@0.49"], asks: ["50@0.51"] });
+	});
+
+	it("drops levels that would fall off the price grid", () => {
+		const decision = quoter().quote(input({ fairValue: d("0.01"), inventory: d(50) }));
+
+		expect(ladder(decision).bids).toEqual([]);
+		expect(ladder(decision).asks).toEqual(["50@0.02"]);
+	});
+
+	it("widens with calcExpirySpread near expiry", () => {
+		const expirySpread = {
+			baseSpreadBps: d(400),
+			buckets: [{ maxRemainingMs: 600_000, multiplier: d(2) }],
+		};
+		const decision = quoter({ expirySpread }).quote(input({ timeRemainingMs: 300_000 }));
+
+		expect(ladder(decision).bids).toEqual(["50@0.46"]);
+	});
+
+	it("pulls quotes on toxic flow", () => {
+		const q = quoter({ maxVpin: d("0.7"), maxAbsOfi: d(500) });
+
+		expect(q.quote(input({ toxicity: { vpin: d("0.8"), ofi: null } }))).toEqual({
+			type: "pull",
+			reason: "vpin 0.800 >= 0.7",
+		});
+		expect(q.quote(input({ toxicity: { vpin: null, ofi: d(-600) } })).type).toBe("pull");
+		expect(q.quote(input({ toxicity: { vpin: d("0.5"), ofi: d(100) } })).type).toBe("quote");
+	});
+
+	it("rejects invalid configuration", () => {
+		expect(() => quoter({ levels: 0 })).toThrow(ConfigError);
+		expect(() => quoter({ sizePerLevel: d(0) })).toThrow(ConfigError);
+		expect(() => quoter({ tickSize: d(0) })).toThrow(ConfigError);
+	});
+});
@@ -0,0 +1,228 @@
+/**
+ * QuotingStrategy — two-sided quoting: bid/ask ladders per token from fair
+ * value, inventory and volatility.
+ *
+ * A QuotingStrategy is pure: it maps a QuoteInput to a ladder, or to a pull
+ * when quoting is unsafe. MarketMaker runs it against an Executor (paper or
+ * live) and quotingReplayStrategy runs it in runBookReplay backtests.
+ *
+ * SpreadQuoter is the built-in implementation: calcDynamicSpread offsets around
+ * fair value, skewed by inventory, bids capped by maxInventory, asks capped by
+ * the inventory held, and pulled on toxic flow (VPIN / OFI thresholds).
+ */
+
+import { calcDynamicSpread } from "../pricing/dynamic-spread.js";
+import type { SpreadConfig } from "../pricing/dynamic-spread.js";
+import { calcExpirySpread } from "../pricing/expiry-spreader.js";
+import type { ExpirySpreadConfig } from "../pricing/expiry-spreader.js";
+import { Decimal } from "../shared/decimal.js";
+import { ConfigError } from "../shared/errors.js";
+import type { MarketTokenId } from "../shared/identifiers.js";
+
+/** One price level of a quote ladder. */
+export interface QuoteLevel {
+	readonly price: Decimal;
+	readonly size: Decimal;
+}
+
+/** Bids best (highest) first, asks best (lowest) first. */
+export interface QuoteLadder {
+	readonly bids: readonly QuoteLevel[];
+	readonly asks: readonly QuoteLevel[];
+}
+
+/** Order-flow toxicity readings; null while a tracker is still warming up. */
+export interface FlowToxicity {
+	/** VpinTracker value in [0, 1]. */
+	readonly vpin: Decimal | null;
+	/** Latest OfiTracker delta (positive = buying pressure). */
+	readonly ofi: Decimal | null;
+}
+
+/** Market state handed to a QuotingStrategy for one token. */
+export interface QuoteInput {
+	readonly tokenId: MarketTokenId;
+	/** Fair price of the token in [0, 1]. */
+	readonly fairValue: Decimal;
+	/** Net token inventory (positive = long). */
+	readonly inventory: Decimal;
+	readonly volatility: Decimal;
+	readonly timeRemainingMs: number;
+	readonly toxicity?: FlowToxicity | undefined;
+}
+
+/** Result of quoting one token: a ladder to work, or a reason to pull every quote. */
+export type QuoteDecision =
+	| { readonly type: "quote"; readonly ladder: QuoteLadder }
+	| { readonly type: "pull"; readonly reason: string };
+
+/** Produces two-sided quotes for a token. Implementations must be side-effect free. */
+export interface QuotingStrategy {
+	readonly name: string;
+	quote(input: QuoteInput): QuoteDecision;
+}
+
+/**
+ * Configuration for SpreadQuoter.
+ *
+ * Spread offsets are in basis points of fair value. Inventory skew is
+ * `inventory / maxInventory`, clamped to [-1, 1]: long inventory lowers the
+ * bid and tightens the ask so fills work the position back toward flat.
+ * Asks never offer more than the inventory held, since the CLOB cannot
+ * sell tokens short.
+ */
+export interface SpreadQuoterConfig {
+	readonly spread: SpreadConfig;
+	/** Size quoted at each level. */
+	readonly sizePerLevel: Decimal;
+	/** Inventory beyond which no bid may add to the position. */
+	readonly maxInventory: Decimal;
+	/** Levels per side. Default: 1 */
+	readonly levels?: number | undefined;
+	/** Extra offset per level beyond the first. Default: spread.minSpreadBps */
+	readonly levelSpacingBps?: Decimal | undefined;
+	/** Price grid quotes are rounded to (bids down, asks up). Default: 0.01 */
+	readonly tickSize?: Decimal | undefined;
+	/** Replaces spread.baseSpreadBps with calcExpirySpread(timeRemainingMs) when set. */
+	readonly expirySpread?: ExpirySpreadConfig | undefined;
+	/** Pull quotes when VPIN reaches this value. Default: never */
+	readonly maxVpin?: Decimal | undefined;
+	/** Pull quotes when |OFI| reaches this value. Default: never */
+	readonly maxAbsOfi?: Decimal | undefined;
+}
+
+const BPS = Decimal.from(10_000);
+
+/**
+ * Built-in QuotingStrategy quoting a symmetric ladder around fair value.
+ *
+ * @example
+ * ```ts
+ * const quoter = SpreadQuoter.create({
+ *   spread: { baseSpreadBps: d(100), volMultiplier: d(2), minSpreadBps: d(50), maxSpreadBps: d(500) },
+ *   sizePerLevel: d(50),
+ *   maxInventory: d(500),
+ *   levels: 3,
+ *   maxVpin: d("0.7"),
+ * });
+ * const decision = quoter.quote({ tokenId, fairValue: d("0.5"), inventory: d(0), volatility: d("0.02"), timeRemainingMs });
+ * ```
+ */
+export class SpreadQuoter implements QuotingStrategy {
+	readonly name = "SpreadQuoter";
+	private readonly config: SpreadQuoterConfig;
+	private readonly levels: number;
+	private readonly tickSize: Decimal;
+	private readonly levelSpacingBps: Decimal;
+
+	private constructor(config: SpreadQuoterConfig) {
+		this.config = config;
+		this.levels = config.levels ?? 1;
+		this.tickSize = config.tickSize ?? Decimal.from("0.01");
+		this.levelSpacingBps = config.levelSpacingBps ?? config.spread.minSpreadBps;
+	}
+
+	/**
+	 * Creates a SpreadQuoter with validated configuration.
+	 * @throws ConfigError if levels < 1 or sizePerLevel, maxInventory or tickSize is not positive
+	 */
+	static create(config: SpreadQuoterConfig): SpreadQuoter {
+		const levels = config.levels ?? 1;
+		if (!Number.isInteger(levels) || levels < 1) {
+			throw new ConfigError("SpreadQuoter: levels must be a positive integer", { levels });
+		}
+		if (!config.sizePerLevel.isPositive() || !config.maxInventory.isPositive()) {
+			throw new ConfigError("SpreadQuoter: sizePerLevel and maxInventory must be positive");
+		}
+		if (config.tickSize !== undefined && !config.tickSize.isPositive()) {
+			throw new ConfigError("SpreadQuoter: tickSize must be positive");
+		}
+		return new SpreadQuoter(config);
+	}
+
+	quote(input: QuoteInput): QuoteDecision {
+		const toxic = this.toxicityReason(input.toxicity);
+		if (toxic !== null) return { type: "pull", reason: toxic };
+
+		const { maxInventory } = this.config;
+		const skew = clampUnit(input.inventory.div(maxInventory));
+		const spreadConfig = this.config.expirySpread
+			? {
+					...this.config.spread,
+					baseSpreadBps: calcExpirySpread(input.timeRemainingMs, this.config.expirySpread),
+				}
+			: this.config.spread;
+		const { bidOffset, askOffset } = calcDynamicSpread(
+			{ volatility: input.volatility, timeRemainingMs: input.timeRemainingMs, inventorySkew: skew },
+			spreadConfig,
+		);
+
+		return {
+			type: "quote",
+			ladder: {
+				bids: this.side(input.fairValue, bidOffset, maxInventory.sub(input.inventory), true),
+				asks: this.side(
+					input.fairValue,
+					askOffset,
+					Decimal.max(input.inventory, Decimal.zero()),
+					false,
+				),
+			},
+		};
+	}
+
+	private toxicityReason(toxicity: FlowToxicity | undefined): string | null {
+		const { maxVpin, maxAbsOfi } = this.config;
+		const vpin = toxicity?.vpin ?? null;
+		const ofi = toxicity?.ofi ?? null;
+		if (maxVpin !== undefined && vpin !== null && vpin.gte(maxVpin)) {
+			return `vpin ${vpin.toFixed(3)} >= ${maxVpin.toString()}`;
+		}
+		if (maxAbsOfi !== undefined && ofi !== null && ofi.abs().gte(maxAbsOfi)) {
+			return `|ofi| ${ofi.abs().toString()} >= ${maxAbsOfi.toString()}`;
+		}
+		return null;
+	}
+
+	/** Builds one side of the ladder, sized so that full fills stay within `capacity`. */
+	private side(
+		fairValue: Decimal,
+		offsetBps: Decimal,
+		capacity: Decimal,
+		isBid: boolean,
+	): QuoteLevel[] {
+		const levels: QuoteLevel[] = [];
+		const tick = this.tickSize;
+		const ceiling = Decimal.one().sub(tick);
+		let remaining = capacity;
+		let previous: Decimal | null = null;
+
+		for (let i = 0; i < this.levels && remaining.isPositive(); i++) {
+			const bps = offsetBps.add(this.levelSpacingBps.mul(Decimal.from(i)));
+			const distance = fairValue.mul(bps).div(BPS);
+			let price = isBid
+				? roundToTick(fairValue.sub(distance), tick, false)
+				: roundToTick(fairValue.add(distance), tick, true);
+			// Never quote at or through fair value
+			if (isBid && price.gte(fairValue)) price = price.sub(tick);
+			if (!isBid && price.lte(fairValue)) price = price.add(tick);
+			if (previous !== null && price.eq(previous)) continue;
+			if (price.lt(tick) || price.gt(ceiling)) break;
+
+			const size = Decimal.min(this.config.sizePerLevel, remaining);
+			levels.push({ price, size });
+			remaining = remaining.sub(size);
+			previous = price;
+		}
+		return levels;
+	}
+}
+
+function clampUnit(value: Decimal): Decimal {
+	return Decimal.max(Decimal.one().neg(), Decimal.min(Decimal.one(), value));
+}
+
+function roundToTick(price: Decimal, tick: Decimal, up: boolean): Decimal {
+	const steps = price.div(tick).toNumber();
+	return Decimal.from(up ? Math.ceil(steps) : Math.floor(steps)).mul(tick);
+}
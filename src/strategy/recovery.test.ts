@@ -0,0 +1,418 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FileJournal } from "../persistence/file-journal.js";
+import { GuardPipeline } from "../risk/guard-pipeline.js";
+import { KillSwitchGuard, KillSwitchMode } from "../risk/guards/kill-switch.js";
+import { Decimal } from "../shared/decimal.js";
+import { clientOrderId, conditionId, marketTokenId } from "../shared/identifiers.js";
+import { MarketSide } from "../shared/market-side.js";
+import { FakeClock } from "../shared/time.js";
+import { ExitPipeline } from "../signal/exit-pipeline.js";
+import type { SdkOrderIntent, SignalDetector } from "../signal/types.js";
+import { FILLED_RESULT, createMockContext } from "./built-strategy-test-helpers.js";
+import type { JournalEntry } from "./journal.js";
+import { SNAPSHOT_VERSION, StateReplayer, recoverFromJournal, recoverState } from "./recovery.js";
+import { StrategyBuilder } from "./strategy-builder.js";
+import { createTickContextProvider } from "./tick-context.js";
+
+const A = conditionId("market-a");
+const B = conditionId("market-b");
+const DAY = 86_400_000;
+const T0 = 20_000 * DAY + 3_600_000; // 01:00 UTC
+
+function opened(cid = A, timestamp = T0, entryPrice = 0.4, size = 10): JournalEntry {
+	return {
+		type: "position_opened",
+		conditionId: cid,
+		tokenId: marketTokenId(`${cid}-yes`),
+		side: MarketSide.Yes,
+		entryPrice,
+		size,
+		timestamp,
+	};
+}
+
+function closed(cid: typeof A, timestamp: number, exitPrice: number, pnl: number): JournalEntry {
+	return {
+		type: "position_closed",
+		conditionId: cid,
+		entryPrice: 0.4,
+		exitPrice,
+		pnl,
+		reason: "take_profit",
+		fee: 0.01,
+		timestamp,
+	};
+}
+
+function orderSubmitted(id: string, timestamp = T0, size = 10): JournalEntry {
+	return {
+		type: "order_submitted",
+		intent: {
+			conditionId: A,
+			tokenId: marketTokenId("a-yes"),
+			side: MarketSide.Yes,
+			direction: "buy",
+			price: Decimal.from("0.4"),
+			size: Decimal.from(size),
+		},
+		clientOrderId: clientOrderId(id),
+		timestamp,
+	};
+}
+
+function orderFilled(id: string, size: number, timestamp = T0): JournalEntry {
+	return {
+		type: "order_filled",
+		clientOrderId: clientOrderId(id),
+		fillPrice: 0.4,
+		size,
+		fee: 0,
+		timestamp,
+	};
+}
+
+function killSwitchBlock(reason: string, timestamp: number): JournalEntry {
+	return { type: "guard_blocked", guardName: "KillSwitch", reason, timestamp };
+}
+
+describe("recoverState", () => {
+	it("rebuilds open positions and closed history", () => {
+		const state = recoverState([
+			opened(A, T0),
+			opened(B, T0 + 1_000, 0.5, 4),
+			closed(A, T0 + 2_000, 0.5, 1),
+		]);
+
+		const pm = state.positionManager;
+		expect(pm.openCount()).toBe(1);
+		expect(pm.get(B)?.entryPrice.eq(Decimal.from("0.5"))).toBe(true);
+		expect(pm.get(B)?.entryTimeMs).toBe(T0 + 1_000);
+		expect(pm.get(A)).toBeNull();
+		expect(pm.recentClosed(1)[0]?.closedAtMs).toBe(T0 + 2_000);
+		expect(pm.totalRealizedPnl().eq(Decimal.from(1))).toBe(true);
+		expect(state.totalFees.eq(Decimal.from("0.01"))).toBe(true);
+		expect(state.lastTimestampMs).toBe(T0 + 2_000);
+		expect(state.entriesReplayed).toBe(3);
+		expect(state.issues).toEqual([]);
+	});
+
+	it("replays partial exits before the close", () => {
+		const reduced: JournalEntry = {
+			type: "position_reduced",
+			conditionId: A,
+			oldSize: 10,
+			newSize: 4,
+			exitPrice: 0.6,
+			pnl: 1.2,
+			reason: "take_profit",
+			fee: 0.02,
+			timestamp: T0 + 1_000,
+		};
+
+		const partial = recoverState([opened(A, T0), reduced]);
+		expect(partial.positionManager.get(A)?.size.eq(Decimal.from(4))).toBe(true);
+		expect(partial.positionManager.totalRealizedPnl().eq(Decimal.from("1.2"))).toBe(true);
+
+		const state = recoverState([opened(A, T0), reduced, closed(A, T0 + 2_000, 0.5, 0.4)]);
+		expect(state.positionManager.get(A)).toBeNull();
+		expect(state.positionManager.totalRealizedPnl().eq(Decimal.from("1.6"))).toBe(true);
+		expect(state.totalFees.eq(Decimal.from("0.03"))).toBe(true);
+		expect(state.issues).toEqual([]);
+
+		const orphan = recoverState([reduced]);
+		expect(orphan.issues.map((i) => i.code)).toEqual(["close_without_open"]);
+	});
+
+	it("derived daily P&L, consecutive losses and last trade time survive the restart", () => {
+		const state = recoverState([
+			opened(A, T0),
+			closed(A, T0 + 1_000, 0.3, -1),
+			opened(B, T0 + 2_000),
+			closed(B, T0 + 3_000, 0.35, -0.5),
+		]);
+		const strategy = StrategyBuilder.create().withRestoredState(state).build();
+		const contextFor = createTickContextProvider({
+			strategy,
+			books: { getBook: () => null },
+			availableBalance: () => Decimal.from(1000),
+			clock: new FakeClock(T0 + 4_000),
+		});
+
+		const ctx = contextFor(A);
+		expect(ctx.dailyPnl().eq(Decimal.from("-1.5"))).toBe(true);
+		expect(ctx.consecutiveLosses()).toBe(2);
+		expect(ctx.lastTradeTimeMs(B)).toBe(T0 + 3_000);
+	});
+
+	it("reports inconsistent entries without aborting the replay", () => {
+		const submitted: JournalEntry = {
+			type: "order_submitted",
+			intent: {
+				conditionId: A,
+				tokenId: marketTokenId("a-yes"),
+				side: MarketSide.Yes,
+				direction: "buy",
+				price: Decimal.from("0.4"),
+				size: Decimal.from(10),
+			},
+			clientOrderId: clientOrderId("c-1"),
+			timestamp: T0,
+		};
+		const fill = (id: string, size: number, timestamp: number): JournalEntry => ({
+			type: "order_filled",
+			clientOrderId: clientOrderId(id),
+			fillPrice: 0.4,
+			size,
+			fee: 0,
+			timestamp,
+		});
+
+		const state = recoverState([
+			submitted,
+			fill("c-1", 12, T0),
+			fill("c-2", 1, T0),
+			opened(A, T0),
+			opened(A, T0 + 1),
+			closed(B, T0 + 2, 0.5, 1),
+			closed(A, T0 + 3, 0.5, 99),
+			{ type: "nonsense" },
+			opened(B, T0 - 1),
+		]);
+
+		expect(state.issues.map((i) => [i.index, i.code])).toEqual([
+			[1, "fill_mismatch"],
+			[2, "fill_without_order"],
+			[4, "duplicate_open"],
+			[5, "close_without_open"],
+			[6, "pnl_mismatch"],
+			[7, "malformed"],
+			[8, "out_of_order"],
+		]);
+		// Recomputed P&L wins over the journaled value
+		expect(state.positionManager.totalRealizedPnl().eq(Decimal.from(1))).toBe(true);
+		expect(state.positionManager.get(B)).not.toBeNull();
+	});
+
+	describe("kill switch", () => {
+		it("recovers a hard engagement recorded today", () => {
+			const state = recoverState([
+				killSwitchBlock("soft loss limit", T0),
+				killSwitchBlock("hard loss limit", T0 + 1_000),
+				killSwitchBlock("hard threshold breached", T0 + 2_000),
+			]);
+			expect(state.killSwitch).toEqual({
+				reason: "hard threshold breached",
+				mode: KillSwitchMode.Full,
+				engagedAtMs: T0,
+			});
+		});
+
+		it("recovers a soft engagement as exits-only", () => {
+			const state = recoverState([killSwitchBlock("soft loss limit", T0)]);
+			expect(state.killSwitch?.mode).toBe(KillSwitchMode.ExitsOnly);
+		});
+
+		it("ignores engagements from a previous UTC day", () => {
+			const state = recoverState([killSwitchBlock("hard loss limit", T0)], { nowMs: T0 + DAY });
+			expect(state.killSwitch).toBeNull();
+		});
+
+		it("withRestoredState() re-engages KillSwitchGuards in the pipeline", () => {
+			const killSwitch = KillSwitchGuard.create();
+			const state = recoverState([killSwitchBlock("hard loss limit", T0)]);
+
+			StrategyBuilder.create()
+				.withGuards(GuardPipeline.create().with(killSwitch))
+				.withRestoredState(state)
+				.build();
+
+			expect(killSwitch.isEngaged()).toBe(true);
+			expect(killSwitch.currentMode()).toBe(KillSwitchMode.Full);
+			expect(killSwitch.engagementReason()).toBe("hard loss limit");
+		});
+	});
+});
+
+describe("snapshots", () => {
+	it("a snapshot restores the same state as replaying the entries it covers", () => {
+		const history = [
+			opened(A, T0),
+			closed(A, T0 + 1_000, 0.3, -1),
+			opened(B, T0 + 2_000, 0.5, 4),
+			killSwitchBlock("soft loss limit", T0 + 3_000),
+		];
+		const replayer = StateReplayer.create();
+		for (const entry of history) replayer.apply(entry);
+		const snapshot = JSON.parse(JSON.stringify(replayer.snapshot(T0 + 3_000))) as unknown;
+		const tail = [closed(B, T0 + 4_000, 0.6, 0.4)];
+
+		const full = recoverState([...history, ...tail]);
+		const fromSnapshot = recoverState([snapshot, ...tail]);
+
+		expect(fromSnapshot.issues).toEqual([]);
+		expect(fromSnapshot.snapshotTimestampMs).toBe(T0 + 3_000);
+		expect(fromSnapshot.positionManager.openCount()).toBe(0);
+		expect(fromSnapshot.positionManager.closedCount()).toBe(2);
+		expect(
+			fromSnapshot.positionManager.totalRealizedPnl().eq(full.positionManager.totalRealizedPnl()),
+		).toBe(true);
+		expect(fromSnapshot.totalFees.eq(full.totalFees)).toBe(true);
+		expect(fromSnapshot.killSwitch).toEqual(full.killSwitch);
+	});
+
+	it("accepts partial fills but reports fills larger than the order", () => {
+		const state = recoverState([
+			orderSubmitted("c-1"),
+			orderFilled("c-1", 6),
+			orderSubmitted("c-2"),
+			orderFilled("c-2", 10.5),
+		]);
+
+		expect(state.issues.map((i) => [i.index, i.code])).toEqual([[3, "fill_mismatch"]]);
+	});
+
+	it("drops orders that closed unfilled from the snapshot's pending orders", () => {
+		const replayer = StateReplayer.create();
+		replayer.apply(orderSubmitted("c-1"));
+		replayer.apply(orderSubmitted("c-2"));
+		replayer.apply({
+			type: "order_closed",
+			clientOrderId: clientOrderId("c-1"),
+			state: "cancelled",
+			reason: "timeout",
+			timestamp: T0 + 1,
+		} satisfies JournalEntry);
+
+		expect(replayer.snapshot(T0 + 2).state.pendingOrders).toEqual([
+			{ clientOrderId: clientOrderId("c-2"), size: 10 },
+		]);
+		expect(replayer.state().issues).toEqual([]);
+	});
+
+	it("fills after a snapshot match orders submitted before it", () => {
+		const replayer = StateReplayer.create();
+		replayer.apply({
+			type: "order_submitted",
+			intent: {
+				conditionId: A,
+				tokenId: marketTokenId("a-yes"),
+				side: MarketSide.Yes,
+				direction: "buy",
+				price: Decimal.from("0.4"),
+				size: Decimal.from(10),
+			},
+			clientOrderId: clientOrderId("c-1"),
+			timestamp: T0,
+		} satisfies JournalEntry);
+
+		const state = recoverState([
+			replayer.snapshot(T0),
+			{
+				type: "order_filled",
+				clientOrderId: clientOrderId("c-1"),
+				fillPrice: 0.4,
+				size: 10,
+				fee: 0,
+				timestamp: T0 + 1,
+			} satisfies JournalEntry,
+		]);
+
+		expect(state.issues).toEqual([]);
+	});
+
+	it("reports snapshots with an unsupported version", () => {
+		const snapshot = { ...StateReplayer.create().snapshot(T0), version: SNAPSHOT_VERSION + 1 };
+		const state = recoverState([opened(A, T0), snapshot]);
+
+		expect(state.issues.map((i) => i.code)).toEqual(["unsupported_snapshot"]);
+		expect(state.positionManager.get(A)).not.toBeNull();
+	});
+});
+
+describe("recoverFromJournal", () => {
+	let tmpDir: string;
+	let filePath: string;
+
+	beforeEach(async () => {
+		tmpDir = await mkdtemp(join(tmpdir(), "recovery-"));
+		filePath = join(tmpDir, "journal.jsonl");
+	});
+
+	afterEach(async () => {
+		await rm(tmpDir, { recursive: true, force: true });
+	});
+
+	const alwaysBuy: SignalDetector<unknown, unknown> = {
+		name: "always-buy",
+		detectEntry: (ctx) => (ctx.hasPosition?.(ctx.conditionId) ? null : {}),
+		toOrder: (_signal, ctx) => ({
+			conditionId: ctx.conditionId,
+			tokenId: marketTokenId("tok-yes"),
+			side: MarketSide.Yes,
+			direction: "buy",
+			price: Decimal.from("0.55"),
+			size: Decimal.from(10),
+		}),
+	};
+
+	it("restores a position opened before the restart and exits it afterwards", async () => {
+		const clock = new FakeClock(T0);
+		const submit = vi.fn(async (_intent: SdkOrderIntent) => FILLED_RESULT);
+		const journal = FileJournal.create({ filePath });
+		const before = StrategyBuilder.create()
+			.withClock(clock)
+			.withDetector(alwaysBuy)
+			.withExecutor({ submit, cancel: vi.fn() })
+			.withJournal(journal)
+			.build();
+		await before.tick(createMockContext({ conditionId: A }));
+		await journal.close();
+		expect(before.getPositionManager().openCount()).toBe(1);
+
+		// Restart: new process, same journal file
+		const state = await recoverFromJournal(FileJournal.create({ filePath }));
+		expect(state.issues).toEqual([]);
+		expect(state.corruptLines).toEqual([]);
+
+		const exits = ExitPipeline.create().with({
+			name: "always",
+			shouldExit: () => ({ type: "emergency", reason: "restart test" }),
+		});
+		const after = StrategyBuilder.create()
+			.withClock(clock)
+			.withDetector({ ...alwaysBuy, detectEntry: () => null })
+			.withExits(exits)
+			.withExecutor({ submit, cancel: vi.fn() })
+			.withRestoredState(state)
+			.build();
+		const restored = after.getPositionManager().get(A);
+		expect(restored?.size.eq(Decimal.from(10))).toBe(true);
+
+		clock.advance(1_000);
+		await after.tick(createMockContext({ conditionId: A }));
+
+		expect(after.getPositionManager().get(A)).toBeNull();
+		expect(submit).toHaveBeenCalledTimes(2);
+		expect(submit.mock.calls[1]?.[0].direction).toBe("sell");
+	});
+
+	it("restores from the latest snapshot plus tail of a compacted journal", async () => {
+		const journal = FileJournal.create({ filePath, snapshotEvery: 2, compactOnSnapshot: true });
+		await journal.record(opened(A, T0));
+		await journal.record(opened(B, T0 + 1_000, 0.5, 4));
+		await journal.record(closed(A, T0 + 2_000, 0.5, 1));
+		await journal.close();
+
+		const state = await recoverFromJournal(FileJournal.create({ filePath }));
+
+		expect(state.snapshotTimestampMs).toBe(T0 + 1_000);
+		expect(state.entriesReplayed).toBe(2);
+		expect(state.issues).toEqual([]);
+		expect(state.positionManager.get(A)).toBeNull();
+		expect(state.positionManager.get(B)?.size.eq(Decimal.from(4))).toBe(true);
+		expect(state.positionManager.totalRealizedPnl().eq(Decimal.from(1))).toBe(true);
+	});
+});
@@ -0,0 +1,486 @@
+/**
+ * State recovery — rebuilds strategy state from journal entries after a restart.
+ *
+ * Replays position_opened / position_reduced / position_closed / order_submitted /
+ * order_filled / order_closed / guard_blocked records into a fresh PositionManager. Daily P&L, consecutive
+ * losses and cooldown timers are derived from the restored open/closed history
+ * by the tick context, so they survive the restart without separate state.
+ * Kill-switch engagement is recovered from KillSwitch guard blocks recorded
+ * during the current UTC day.
+ *
+ * A snapshot entry replaces everything replayed before it, so a journal only
+ * needs its latest snapshot plus the entries after it (see FileJournal.compact).
+ */
+
+import type { CorruptLine, RestoreResult } from "../persistence/file-journal.js";
+import { PositionManager } from "../position/position-manager.js";
+import type { ClosedPosition, PositionSnapshot } from "../position/types.js";
+import { KillSwitchMode } from "../risk/guards/kill-switch.js";
+import { Decimal } from "../shared/decimal.js";
+import type { ClientOrderId } from "../shared/identifiers.js";
+import { isErr } from "../shared/result.js";
+import { Duration } from "../shared/time.js";
+import type { SdkOrderIntent } from "../signal/types.js";
+import type { JournalEntry, SnapshotEntry, SnapshotPosition, SnapshotState } from "./journal.js";
+
+/** Current version of snapshot entries written by {@link StateReplayer.snapshot}. */
+export const SNAPSHOT_VERSION = 1;
+
+/** Kill-switch engagement found in the journal. */
+export interface RecoveredKillSwitch {
+	readonly reason: string;
+	readonly mode: KillSwitchMode;
+	readonly engagedAtMs: number;
+}
+
+/** Kinds of journal inconsistency detected during replay. */
+export type RecoveryIssueCode =
+	| "duplicate_open"
+	| "close_without_open"
+	| "pnl_mismatch"
+	| "fill_without_order"
+	| "fill_mismatch"
+	| "out_of_order"
+	| "unsupported_snapshot"
+	| "malformed";
+
+/** A journal entry that could not be applied cleanly. */
+export interface RecoveryIssue {
+	/** Position of the entry in the replayed sequence. */
+	readonly index: number;
+	/** Null when the entry is not a recognizable JournalEntry. */
+	readonly entryType: JournalEntry["type"] | null;
+	readonly code: RecoveryIssueCode;
+	readonly message: string;
+}
+
+/** Strategy state rebuilt from a journal. */
+export interface RecoveredState {
+	readonly positionManager: PositionManager;
+	readonly killSwitch: RecoveredKillSwitch | null;
+	/** Sum of journaled fees (entries and exits). */
+	readonly totalFees: Decimal;
+	/** Timestamp of the last replayed entry, or null for an empty journal. */
+	readonly lastTimestampMs: number | null;
+	/** Timestamp of the latest snapshot the state was rebuilt from, or null if none was replayed. */
+	readonly snapshotTimestampMs: number | null;
+	readonly entriesReplayed: number;
+	readonly issues: readonly RecoveryIssue[];
+}
+
+/** Options for {@link recoverState}. */
+export interface RecoveryOptions {
+	/** Reference time for the kill-switch day window. Default: last entry timestamp */
+	readonly nowMs?: number | undefined;
+	/** Closed-position history to retain. Default: PositionManager default */
+	readonly maxClosed?: number | undefined;
+	/** Absolute difference tolerated between journaled and recomputed values. Default: 1e-6 */
+	readonly tolerance?: number | undefined;
+}
+
+/** KillSwitch blocks seen during the latest UTC day that had any. */
+interface KillSwitchDay {
+	readonly dayStartMs: number;
+	readonly engagedAtMs: number;
+	readonly reason: string;
+	readonly hard: boolean;
+}
+
+const KILL_SWITCH_GUARD = "KillSwitch";
+const ENTRY_TYPES: ReadonlySet<string> = new Set<JournalEntry["type"]>([
+	"entry_signal",
+	"exit_signal",
+	"order_submitted",
+	"order_filled",
+	"order_closed",
+	"position_opened",
+	"position_reduced",
+	"position_closed",
+	"guard_blocked",
+	"error",
+	"snapshot",
+]);
+const SOFT_LIMIT_REASONS = new Set(["soft loss limit", "soft threshold breached"]);
+
+/**
+ * Incrementally replays journal entries into strategy state.
+ *
+ * {@link recoverState} replays a whole journal at once; a long-lived replayer
+ * lets a journal keep its state current as entries are recorded and write
+ * snapshots of it (see FileJournalConfig.snapshotEvery).
+ */
+export class StateReplayer {
+	private readonly options: RecoveryOptions;
+	private readonly tolerance: number;
+	private readonly issueLog: RecoveryIssue[] = [];
+	private submitted = new Map<ClientOrderId, number | null>();
+	private killSwitchDay: KillSwitchDay | null = null;
+	private pm: PositionManager;
+	private totalFees = Decimal.zero();
+	private lastTimestampMs: number | null = null;
+	private snapshotTimestampMs: number | null = null;
+	private applied = 0;
+
+	private constructor(options: RecoveryOptions) {
+		this.options = options;
+		this.tolerance = options.tolerance ?? 1e-6;
+		this.pm = this.emptyManager();
+	}
+
+	/**
+	 * Creates a replayer with empty state.
+	 * @param options - Recovery options shared with {@link recoverState}
+	 */
+	static create(options: RecoveryOptions = {}): StateReplayer {
+		return new StateReplayer(options);
+	}
+
+	/**
+	 * Applies one entry. Entries that are malformed or contradict the state built
+	 * so far are skipped (or, for P&L and fill mismatches, applied using the
+	 * recomputed values) and reported in `issues`.
+	 * @param raw - A JournalEntry or its parsed JSON form
+	 */
+	apply(raw: unknown): void {
+		const index = this.applied++;
+		if (!isJournalEntry(raw)) {
+			this.issueLog.push({
+				index,
+				entryType: null,
+				code: "malformed",
+				message: "not a journal entry",
+			});
+			return;
+		}
+		const entry = raw;
+		const report = (code: RecoveryIssueCode, message: string): void => {
+			this.issueLog.push({ index, entryType: entry.type, code, message });
+		};
+
+		if (this.lastTimestampMs !== null && entry.timestamp < this.lastTimestampMs) {
+			report("out_of_order", `timestamp ${entry.timestamp} precedes ${this.lastTimestampMs}`);
+		}
+		this.lastTimestampMs = Math.max(this.lastTimestampMs ?? entry.timestamp, entry.timestamp);
+
+		switch (entry.type) {
+			case "order_submitted":
+				this.submitted.set(entry.clientOrderId, sizeOf(entry.intent));
+				break;
+
+			case "order_filled": {
+				this.totalFees = this.totalFees.add(Decimal.from(entry.fee));
+				const size = this.submitted.get(entry.clientOrderId);
+				if (size === undefined) {
+					report("fill_without_order", `no order_submitted for ${entry.clientOrderId}`);
+					break;
+				}
+				this.submitted.delete(entry.clientOrderId);
+				// Partial fills (IOC remainders, timed-out orders, scale-out slices) are valid
+				if (size !== null && entry.size - size > this.tolerance) {
+					report("fill_mismatch", `${entry.clientOrderId} filled ${entry.size}, more than ${size}`);
+				}
+				break;
+			}
+
+			case "order_closed":
+				this.submitted.delete(entry.clientOrderId);
+				break;
+
+			case "position_opened": {
+				const result = this.pm.open(
+					entry.conditionId,
+					entry.tokenId,
+					entry.side,
+					Decimal.from(entry.entryPrice),
+					Decimal.from(entry.size),
+					entry.timestamp,
+				);
+				if (isErr(result)) {
+					report("duplicate_open", result.error);
+					break;
+				}
+				this.pm = result.value;
+				break;
+			}
+
+			case "position_reduced": {
+				const reduced = this.pm.reduce(
+					entry.conditionId,
+					Decimal.from(entry.oldSize).sub(Decimal.from(entry.newSize)),
+					Decimal.from(entry.exitPrice),
+				);
+				if (!reduced) {
+					report(
+						"close_without_open",
+						`cannot reduce ${entry.conditionId} from ${entry.oldSize} to ${entry.newSize}`,
+					);
+					break;
+				}
+				this.pm = reduced.manager;
+				this.totalFees = this.totalFees.add(Decimal.from(entry.fee ?? 0));
+				if (Math.abs(reduced.pnl.toNumber() - entry.pnl) > this.tolerance) {
+					report(
+						"pnl_mismatch",
+						`${entry.conditionId} journaled reduce pnl ${entry.pnl}, recomputed ${reduced.pnl.toString()}`,
+					);
+				}
+				break;
+			}
+
+			case "position_closed": {
+				const closed = this.pm.close(
+					entry.conditionId,
+					Decimal.from(entry.exitPrice),
+					entry.timestamp,
+				);
+				if (!closed) {
+					report("close_without_open", `no open position for ${entry.conditionId}`);
+					break;
+				}
+				this.pm = closed.manager;
+				this.totalFees = this.totalFees.add(Decimal.from(entry.fee ?? 0));
+				if (Math.abs(closed.pnl.toNumber() - entry.pnl) > this.tolerance) {
+					report(
+						"pnl_mismatch",
+						`${entry.conditionId} journaled pnl ${entry.pnl}, recomputed ${closed.pnl.toString()}`,
+					);
+				}
+				break;
+			}
+
+			case "guard_blocked":
+				if (entry.guardName === KILL_SWITCH_GUARD) {
+					this.recordKillSwitchBlock(entry.reason, entry.timestamp);
+				}
+				break;
+
+			case "snapshot":
+				if (entry.version !== SNAPSHOT_VERSION) {
+					report(
+						"unsupported_snapshot",
+						`snapshot version ${entry.version}, supported ${SNAPSHOT_VERSION}`,
+					);
+					break;
+				}
+				if (!isSnapshotState(entry.state)) {
+					report("malformed", "snapshot state is incomplete");
+					break;
+				}
+				this.load(entry.state, entry.timestamp);
+				break;
+
+			default:
+				break;
+		}
+	}
+
+	/** @returns The state built from every entry applied so far */
+	state(): RecoveredState {
+		return {
+			positionManager: this.pm,
+			killSwitch: this.killSwitchAt(this.options.nowMs ?? this.lastTimestampMs),
+			totalFees: this.totalFees,
+			lastTimestampMs: this.lastTimestampMs,
+			snapshotTimestampMs: this.snapshotTimestampMs,
+			entriesReplayed: this.applied,
+			issues: [...this.issueLog],
+		};
+	}
+
+	/**
+	 * Captures the current state as a snapshot entry.
+	 * @param timestampMs - Snapshot timestamp; also the reference time for the kill switch
+	 */
+	snapshot(timestampMs: number): SnapshotEntry {
+		const killSwitch = this.killSwitchAt(timestampMs);
+		const closed = this.pm.recentClosed(this.pm.closedCount()).slice().reverse();
+		return {
+			type: "snapshot",
+			version: SNAPSHOT_VERSION,
+			state: {
+				positions: {
+					open: this.pm.allOpen().map(toSnapshotPosition),
+					closed: closed.map((c) => ({
+						position: toSnapshotPosition(c.snapshot),
+						exitPrice: c.exitPrice.toNumber(),
+						realizedPnl: c.realizedPnl.toNumber(),
+						closedAtMs: c.closedAtMs,
+					})),
+				},
+				stats: {
+					realizedPnl: this.pm.totalRealizedPnl().toNumber(),
+					totalFees: this.totalFees.toNumber(),
+				},
+				guards: { killSwitch },
+				pendingOrders: [...this.submitted].map(([clientOrderId, size]) => ({
+					clientOrderId,
+					size,
+				})),
+			},
+			timestamp: timestampMs,
+		};
+	}
+
+	private load(state: SnapshotState, timestampMs: number): void {
+		const closed: ClosedPosition[] = state.positions.closed.map((c) => ({
+			snapshot: fromSnapshotPosition(c.position),
+			exitPrice: Decimal.from(c.exitPrice),
+			realizedPnl: Decimal.from(c.realizedPnl),
+			closedAtMs: c.closedAtMs,
+		}));
+		const restored = {
+			open: state.positions.open.map(fromSnapshotPosition),
+			closed,
+			realizedPnl: Decimal.from(state.stats.realizedPnl),
+		};
+		this.pm =
+			this.options.maxClosed === undefined
+				? PositionManager.restore(restored)
+				: PositionManager.restore(restored, this.options.maxClosed);
+		this.totalFees = Decimal.from(state.stats.totalFees);
+		this.submitted = new Map(state.pendingOrders.map((o) => [o.clientOrderId, o.size]));
+
+		const ks = state.guards.killSwitch;
+		this.killSwitchDay = ks
+			? {
+					dayStartMs: dayStart(ks.engagedAtMs),
+					engagedAtMs: ks.engagedAtMs,
+					reason: ks.reason,
+					hard: ks.mode === KillSwitchMode.Full,
+				}
+			: null;
+		this.snapshotTimestampMs = timestampMs;
+	}
+
+	private recordKillSwitchBlock(reason: string, timestamp: number): void {
+		const hard = !SOFT_LIMIT_REASONS.has(reason);
+		const day = this.killSwitchDay;
+		if (day !== null && day.dayStartMs === dayStart(timestamp)) {
+			this.killSwitchDay = { ...day, reason, hard: day.hard || hard };
+			return;
+		}
+		this.killSwitchDay = { dayStartMs: dayStart(timestamp), engagedAtMs: timestamp, reason, hard };
+	}
+
+	/** Kill-switch engagement if KillSwitch blocks were recorded during the UTC day of `nowMs`. */
+	private killSwitchAt(nowMs: number | null): RecoveredKillSwitch | null {
+		const day = this.killSwitchDay;
+		if (nowMs === null || day === null) return null;
+		if (day.dayStartMs !== dayStart(nowMs) || day.engagedAtMs > nowMs) return null;
+		return {
+			reason: day.reason,
+			mode: day.hard ? KillSwitchMode.Full : KillSwitchMode.ExitsOnly,
+			engagedAtMs: day.engagedAtMs,
+		};
+	}
+
+	private emptyManager(): PositionManager {
+		return this.options.maxClosed === undefined
+			? PositionManager.create()
+			: PositionManager.create(this.options.maxClosed);
+	}
+}
+
+/**
+ * Replays journal entries into a fresh strategy state.
+ *
+ * Accepts typed entries (MemoryJournal) or raw parsed JSON (FileJournal.restore).
+ * Entries that are malformed or contradict the state built so far are skipped
+ * (or, for P&L and fill mismatches, applied using the recomputed values) and
+ * reported in `issues`. A snapshot entry replaces the state built before it.
+ *
+ * @example
+ * ```ts
+ * const { entries } = await journal.restore();
+ * const state = recoverState(entries);
+ * const strategy = builder.withRestoredState(state).build();
+ * ```
+ */
+export function recoverState(
+	entries: readonly unknown[],
+	options: RecoveryOptions = {},
+): RecoveredState {
+	const replayer = StateReplayer.create(options);
+	for (const entry of entries) {
+		replayer.apply(entry);
+	}
+	return replayer.state();
+}
+
+/**
+ * Restores a journal (e.g. FileJournal) and replays it with {@link recoverState}.
+ * Journals that provide `restoreLatest()` are read from their latest snapshot.
+ * Corrupt lines reported by the journal are passed through unchanged.
+ */
+export async function recoverFromJournal(
+	journal: { restore(): Promise<RestoreResult>; restoreLatest?(): Promise<RestoreResult> },
+	options: RecoveryOptions = {},
+): Promise<RecoveredState & { readonly corruptLines: readonly CorruptLine[] }> {
+	const { entries, corruptLines } = journal.restoreLatest
+		? await journal.restoreLatest()
+		: await journal.restore();
+	return { ...recoverState(entries, options), corruptLines };
+}
+
+function isJournalEntry(value: unknown): value is JournalEntry {
+	if (typeof value !== "object" || value === null) return false;
+	const { type, timestamp } = value as { type?: unknown; timestamp?: unknown };
+	return typeof type === "string" && ENTRY_TYPES.has(type) && typeof timestamp === "number";
+}
+
+function isSnapshotState(value: unknown): value is SnapshotState {
+	if (typeof value !== "object" || value === null) return false;
+	const { positions, stats, guards, pendingOrders } = value as Partial<SnapshotState>;
+	return (
+		Array.isArray(positions?.open) &&
+		Array.isArray(positions?.closed) &&
+		typeof stats?.realizedPnl === "number" &&
+		typeof stats?.totalFees === "number" &&
+		typeof guards === "object" &&
+		guards !== null &&
+		Array.isArray(pendingOrders)
+	);
+}
+
+function toSnapshotPosition(p: PositionSnapshot): SnapshotPosition {
+	return {
+		conditionId: p.conditionId,
+		tokenId: p.tokenId,
+		side: p.side,
+		entryPrice: p.entryPrice.toNumber(),
+		size: p.size.toNumber(),
+		costBasis: p.costBasis.toNumber(),
+		realizedPnl: p.realizedPnl.toNumber(),
+		highWaterMark: p.highWaterMark.toNumber(),
+		entryTimeMs: p.entryTimeMs,
+	};
+}
+
+function fromSnapshotPosition(p: SnapshotPosition): PositionSnapshot {
+	return {
+		conditionId: p.conditionId,
+		tokenId: p.tokenId,
+		side: p.side,
+		entryPrice: Decimal.from(p.entryPrice),
+		size: Decimal.from(p.size),
+		costBasis: Decimal.from(p.costBasis),
+		realizedPnl: Decimal.from(p.realizedPnl),
+		highWaterMark: Decimal.from(p.highWaterMark),
+		entryTimeMs: p.entryTimeMs,
+	};
+}
+
+/** Intent size as a number; journals restored from JSON carry a serialized Decimal. */
+function sizeOf(intent: SdkOrderIntent): number | null {
+	const size: unknown = intent?.size;
+	if (size instanceof Decimal) return size.toNumber();
+	if (typeof size === "number" || typeof size === "string") {
+		const n = Number(size);
+		return Number.isFinite(n) ? n : null;
+	}
+	return null;
+}
+
+function dayStart(ms: number): number {
+	return ms - (ms % Duration.hours(24));
+}
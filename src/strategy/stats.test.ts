@@ -323,4 +323,33 @@ describe("StrategyStats", () => {
 			expect(snapshot3.tradeCount).toBe(2);
 		});
 	});
+
+	describe("Partial exits", () => {
+		it("folds partial exit P&L and fees into the position's trade", () => {
+			const dispatcher = new EventDispatcher();
+			const stats = new StrategyStats(dispatcher);
+
+			dispatcher.emitSdk({
+				type: "position_reduced",
+				timestamp: FIXED_TIMESTAMP,
+				conditionId: "test-condition" as import("../shared/identifiers.js").ConditionId,
+				tokenId: "ETH-USD" as import("../shared/identifiers.js").MarketTokenId,
+				oldSize: 10,
+				newSize: 5,
+				price: 1020,
+				pnl: 100,
+				reason: "take_profit",
+				fee: 1,
+			});
+			expect(stats.snapshot().tradeCount).toBe(0);
+
+			dispatcher.emitSdk(createPositionClosed(-40, 2));
+			const snapshot = stats.snapshot();
+
+			expect(snapshot.tradeCount).toBe(1);
+			expect(snapshot.winCount).toBe(1);
+			expect(snapshot.totalPnl.toNumber()).toBe(60);
+			expect(snapshot.totalFees.toNumber()).toBe(3);
+		});
+	});
 });
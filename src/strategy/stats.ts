@@ -1,5 +1,5 @@
 import type { EventDispatcher } from "../events/event-dispatcher.js";
-import type { PositionClosed, SdkEvent } from "../events/sdk-events.js";
+import type { PositionClosed, PositionReduced, SdkEvent } from "../events/sdk-events.js";
 import { Decimal } from "../shared/decimal.js";
 
 export interface StatsSnapshot {
@@ -25,6 +25,8 @@ export class StrategyStats {
 	private maxDrawdown = Decimal.zero();
 	private bestTrade = Decimal.zero();
 	private worstTrade = Decimal.zero();
+	/** P&L and fees of partial exits, folded into the trade when the position closes. */
+	private readonly partials = new Map<string, { pnl: Decimal; fee: Decimal }>();
 
 	constructor(eventDispatcher: EventDispatcher) {
 		eventDispatcher.onSdk("position_closed", (event: SdkEvent) => {
@@ -32,6 +34,24 @@ export class StrategyStats {
 				this.handlePositionClosed(event);
 			}
 		});
+		eventDispatcher.onSdk("position_reduced", (event: SdkEvent) => {
+			if (event.type === "position_reduced") {
+				this.handlePositionReduced(event);
+			}
+		});
+	}
+
+	private handlePositionReduced(event: PositionReduced): void {
+		if (!Number.isFinite(event.pnl)) return;
+		if (event.fee !== undefined && !Number.isFinite(event.fee)) return;
+
+		const key = event.conditionId as string;
+		const partial = this.partials.get(key) ?? { pnl: Decimal.zero(), fee: Decimal.zero() };
+		const rawFee = Decimal.from(event.fee ?? 0);
+		this.partials.set(key, {
+			pnl: partial.pnl.add(Decimal.from(event.pnl)),
+			fee: partial.fee.add(rawFee.isNegative() ? Decimal.zero() : rawFee),
+		});
 	}
 
 	private handlePositionClosed(event: PositionClosed): void {
@@ -42,9 +62,11 @@ export class StrategyStats {
 			return;
 		}
 
-		const pnl = Decimal.from(event.pnl);
+		const partial = this.partials.get(event.conditionId as string);
+		this.partials.delete(event.conditionId as string);
 		const rawFee = event.fee !== undefined ? Decimal.from(event.fee) : Decimal.zero();
-		const fee = rawFee.isNegative() ? Decimal.zero() : rawFee;
+		const pnl = Decimal.from(event.pnl).add(partial?.pnl ?? Decimal.zero());
+		const fee = (rawFee.isNegative() ? Decimal.zero() : rawFee).add(partial?.fee ?? Decimal.zero());
 
 		this.tradeCount++;
 
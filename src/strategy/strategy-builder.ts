@@ -5,13 +5,16 @@ import type { Executor } from "../execution/types.js";
 import { createLogger } from "../lib/logger/index.js";
 import { StrategyStateMachine } from "../lifecycle/state-machine.js";
 import { ConnectivityWatchdog, DEFAULT_WATCHDOG_CONFIG } from "../lifecycle/watchdog.js";
+import type { OrderPipelineConfig } from "../order/order-pipeline.js";
 import { OrderRegistry } from "../order/order-registry.js";
 import { PendingState } from "../order/types.js";
 import type { OrderResult } from "../order/types.js";
 import { PositionManager } from "../position/position-manager.js";
 import { GuardPipeline } from "../risk/guard-pipeline.js";
-import { KillSwitchGuard } from "../risk/guards/kill-switch.js";
+import { KillSwitchGuard, KillSwitchMode } from "../risk/guards/kill-switch.js";
+import { MaxOrderNotionalGuard } from "../risk/guards/max-order-notional.js";
 import { MaxPositionsGuard } from "../risk/guards/max-positions.js";
+import { OrderGuardPipeline } from "../risk/order-guard-pipeline.js";
 import type { SdkConfig } from "../shared/config.js";
 import { DEFAULT_SDK_CONFIG, maxDailyLossUsdcToPct } from "../shared/config.js";
 import { Decimal } from "../shared/decimal.js";
@@ -21,10 +24,12 @@ import { type Result, err, ok } from "../shared/result.js";
 import type { Clock } from "../shared/time.js";
 import { SystemClock } from "../shared/time.js";
 import { ExitPipeline } from "../signal/exit-pipeline.js";
+import type { ExitPricer } from "../signal/exit-pricing.js";
 import type { SdkOrderIntent, SignalDetector } from "../signal/types.js";
 import { BuiltStrategy } from "./built-strategy.js";
 import type { StrategyAggregates } from "./built-strategy.js";
 import type { Journal } from "./journal.js";
+import type { RecoveredState } from "./recovery.js";
 import type {
 	AccountingAggregate,
 	LifecycleAggregate,
@@ -77,11 +82,16 @@ export interface StrategyComponents {
 	feeModel?: FeeModel | undefined;
 	journal?: Journal | null | undefined;
 	guards?: GuardPipeline | undefined;
+	orderGuards?: OrderGuardPipeline | undefined;
 	exits?: ExitPipeline | undefined;
 	detector?: SignalDetector | undefined;
 	warmupTicks?: number | undefined;
+	orderTimeoutMs?: number | undefined;
+	exitPricer?: ExitPricer | undefined;
+	orderPipeline?: OrderPipelineConfig | undefined;
 	config?: SdkConfig | undefined;
 	dryRun?: boolean | undefined;
+	restored?: RecoveredState | undefined;
 }
 
 /** Fluent, immutable builder for assembling a BuiltStrategy from its components. */
@@ -91,11 +101,16 @@ export class StrategyBuilder {
 	private readonly feeModel: FeeModel | undefined;
 	private readonly journal: Journal | null;
 	private readonly guards: GuardPipeline | undefined;
+	private readonly orderGuards: OrderGuardPipeline | undefined;
 	private readonly exits: ExitPipeline | undefined;
 	private readonly detector: SignalDetector | undefined;
 	private readonly warmupTicks: number | undefined;
+	private readonly orderTimeoutMs: number | undefined;
+	private readonly exitPricer: ExitPricer | undefined;
+	private readonly orderPipeline: OrderPipelineConfig | undefined;
 	private readonly config: SdkConfig;
 	private readonly dryRun: boolean;
+	private readonly restored: RecoveredState | undefined;
 
 	constructor(deps: StrategyComponents = {}) {
 		this.clock = deps.clock ?? SystemClock;
@@ -103,11 +118,16 @@ export class StrategyBuilder {
 		this.feeModel = deps.feeModel;
 		this.journal = deps.journal ?? null;
 		this.guards = deps.guards;
+		this.orderGuards = deps.orderGuards;
 		this.exits = deps.exits;
 		this.detector = deps.detector;
 		this.warmupTicks = deps.warmupTicks;
+		this.orderTimeoutMs = deps.orderTimeoutMs;
+		this.exitPricer = deps.exitPricer;
+		this.orderPipeline = deps.orderPipeline;
 		this.config = deps.config ?? DEFAULT_SDK_CONFIG;
 		this.dryRun = deps.dryRun ?? false;
+		this.restored = deps.restored;
 	}
 
 	static create(deps?: StrategyComponents): StrategyBuilder {
@@ -122,6 +142,10 @@ export class StrategyBuilder {
 		return new StrategyBuilder({ ...this.snapshot(), guards });
 	}
 
+	withOrderGuards(orderGuards: OrderGuardPipeline): StrategyBuilder {
+		return new StrategyBuilder({ ...this.snapshot(), orderGuards });
+	}
+
 	withExits(exits: ExitPipeline): StrategyBuilder {
 		return new StrategyBuilder({ ...this.snapshot(), exits });
 	}
@@ -146,6 +170,21 @@ export class StrategyBuilder {
 		return new StrategyBuilder({ ...this.snapshot(), warmupTicks: n });
 	}
 
+	/** Cancels orders still resting `ms` after submission; see StrategyAggregates.orderTimeoutMs. */
+	withOrderTimeout(ms: number): StrategyBuilder {
+		return new StrategyBuilder({ ...this.snapshot(), orderTimeoutMs: ms });
+	}
+
+	/** Prices exit orders; see StrategyAggregates.exitPricer. */
+	withExitPricing(exitPricer: ExitPricer): StrategyBuilder {
+		return new StrategyBuilder({ ...this.snapshot(), exitPricer });
+	}
+
+	/** Submits orders for independent markets concurrently; see StrategyAggregates.orderPipeline. */
+	withOrderPipeline(orderPipeline: OrderPipelineConfig): StrategyBuilder {
+		return new StrategyBuilder({ ...this.snapshot(), orderPipeline });
+	}
+
 	withConfig(config: Partial<SdkConfig>): StrategyBuilder {
 		const mergedConfig: SdkConfig = {
 			...DEFAULT_SDK_CONFIG,
@@ -159,14 +198,25 @@ export class StrategyBuilder {
 		return new StrategyBuilder({ ...this.snapshot(), dryRun });
 	}
 
+	/**
+	 * Starts built strategies from a recovered snapshot: open and closed positions
+	 * are restored, and a recovered kill-switch engagement is re-applied to any
+	 * KillSwitchGuard in the guard pipeline.
+	 */
+	withRestoredState(restored: RecoveredState): StrategyBuilder {
+		return new StrategyBuilder({ ...this.snapshot(), restored });
+	}
+
 	build(): BuiltStrategy {
 		const positionAggregate: PositionAggregate = {
-			positionManager: PositionManager.create(),
+			positionManager: this.initialPositionManager(),
 		};
 
 		const guardPipeline = this.createGuardPipeline();
+		this.applyRestoredKillSwitch(guardPipeline);
 		const riskAggregate: RiskAggregate = {
 			guardPipeline,
+			orderGuardPipeline: this.createOrderGuardPipeline(),
 			exitPipeline: this.exits ?? ExitPipeline.create(),
 		};
 
@@ -200,6 +250,9 @@ export class StrategyBuilder {
 			clock: this.clock,
 			warmupTicks: this.warmupTicks,
 			maxSlippageBps: this.config.maxSlippageBps,
+			orderTimeoutMs: this.orderTimeoutMs,
+			exitPricer: this.exitPricer,
+			orderPipeline: this.orderPipeline,
 		};
 
 		return new BuiltStrategy(deps);
@@ -224,10 +277,15 @@ export class StrategyBuilder {
 
 		const eventDispatcher = this.createEventDispatcher();
 		const executor = this.dryRun ? createDryRunExecutor(this.executor, this.clock) : this.executor;
+		this.applyRestoredKillSwitch(this.guards);
 
 		const deps: StrategyAggregates = {
-			position: { positionManager: PositionManager.create() },
-			risk: { guardPipeline: this.guards, exitPipeline: this.exits },
+			position: { positionManager: this.initialPositionManager() },
+			risk: {
+				guardPipeline: this.guards,
+				orderGuardPipeline: this.createOrderGuardPipeline(),
+				exitPipeline: this.exits,
+			},
 			lifecycle: {
 				stateMachine: new StrategyStateMachine(this.clock),
 				watchdog: new ConnectivityWatchdog(DEFAULT_WATCHDOG_CONFIG, this.clock),
@@ -243,6 +301,9 @@ export class StrategyBuilder {
 			clock: this.clock,
 			warmupTicks: this.warmupTicks,
 			maxSlippageBps: this.config.maxSlippageBps,
+			orderTimeoutMs: this.orderTimeoutMs,
+			exitPricer: this.exitPricer,
+			orderPipeline: this.orderPipeline,
 		};
 
 		return ok(new BuiltStrategy(deps));
@@ -255,14 +316,36 @@ export class StrategyBuilder {
 			feeModel: this.feeModel,
 			journal: this.journal,
 			guards: this.guards,
+			orderGuards: this.orderGuards,
 			exits: this.exits,
 			detector: this.detector,
 			warmupTicks: this.warmupTicks,
+			orderTimeoutMs: this.orderTimeoutMs,
+			exitPricer: this.exitPricer,
+			orderPipeline: this.orderPipeline,
 			config: this.config,
 			dryRun: this.dryRun,
+			restored: this.restored,
 		};
 	}
 
+	private initialPositionManager(): PositionManager {
+		return this.restored?.positionManager ?? PositionManager.create();
+	}
+
+	private applyRestoredKillSwitch(guards: GuardPipeline): void {
+		const killSwitch = this.restored?.killSwitch;
+		if (!killSwitch) return;
+		for (const guard of guards.all()) {
+			if (!(guard instanceof KillSwitchGuard) || guard.isEngaged()) continue;
+			if (killSwitch.mode === KillSwitchMode.ExitsOnly) {
+				guard.engageExitsOnly(killSwitch.reason, killSwitch.engagedAtMs);
+			} else {
+				guard.engage(killSwitch.reason, killSwitch.engagedAtMs);
+			}
+		}
+	}
+
 	private createGuardPipeline(): GuardPipeline {
 		if (this.guards) {
 			return this.guards;
@@ -273,6 +356,13 @@ export class StrategyBuilder {
 		return GuardPipeline.create().with(maxPositionsGuard).with(killSwitchGuard);
 	}
 
+	private createOrderGuardPipeline(): OrderGuardPipeline {
+		if (this.orderGuards) {
+			return this.orderGuards;
+		}
+		return OrderGuardPipeline.create().with(MaxOrderNotionalGuard.fromConfig(this.config));
+	}
+
 	private createEventDispatcher(): EventDispatcher {
 		return createSafeDispatcher(this.clock);
 	}
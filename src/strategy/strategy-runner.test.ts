@@ -0,0 +1,494 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { TokenInfo } from "../ctf/types.js";
+import { BookPaperExecutor } from "../execution/book-paper-executor.js";
+import { PaperExecutor } from "../execution/paper-executor.js";
+import type { WsState } from "../lib/websocket/types.js";
+import { StrategyState } from "../lifecycle/types.js";
+import { ConnectivityWatchdog } from "../lifecycle/watchdog.js";
+import { MarketTapeReader, MarketTapeRecorder } from "../persistence/market-tape.js";
+import { Decimal } from "../shared/decimal.js";
+import type { TradingError } from "../shared/errors.js";
+import { conditionId, marketTokenId } from "../shared/identifiers.js";
+import { MarketSide } from "../shared/market-side.js";
+import { type Result, ok, unwrap } from "../shared/result.js";
+import { FakeClock } from "../shared/time.js";
+import { ExitPipeline } from "../signal/exit-pipeline.js";
+import type { DetectorContextLike, SignalDetector } from "../signal/types.js";
+import { BookInvalidReason, MarketFeed } from "../websocket/market-feed.js";
+import { WsManager } from "../websocket/ws-manager.js";
+import { StrategyBuilder } from "./strategy-builder.js";
+import { StrategyRunner } from "./strategy-runner.js";
+
+const CID = conditionId("cond-1");
+const TOKEN = marketTokenId("tok-yes");
+const MARKET = { conditionId: CID, yesTokenId: TOKEN, noTokenId: marketTokenId("tok-no") };
+
+class FakeWsClient {
+	private messageHandler: ((data: string) => void) | null = null;
+	private state: WsState = "closed";
+	readonly sent: string[] = [];
+	closed = 0;
+
+	async connect(): Promise<void> {
+		this.state = "open";
+	}
+
+	send(data: string): Result<void, TradingError> {
+		this.sent.push(data);
+		return ok(undefined);
+	}
+
+	close(): void {
+		this.state = "closed";
+		this.closed++;
+	}
+
+	getState(): WsState {
+		return this.state;
+	}
+
+	onMessage(h: (data: string) => void): void {
+		this.messageHandler = h;
+	}
+
+	onClose(): void {}
+
+	onError(): void {}
+
+	pushBook(bid: string, ask: string, ts: number, size = "100", assetId?: string): void {
+		this.messageHandler?.(
+			JSON.stringify({
+				type: "book_update",
+				conditionId: CID,
+				assetId,
+				bids: [{ price: bid, size }],
+				asks: [{ price: ask, size }],
+				timestampMs: ts,
+			}),
+		);
+	}
+}
+
+function buyBelow(threshold: string): SignalDetector<unknown, Decimal> & {
+	seen: DetectorContextLike[];
+} {
+	const seen: DetectorContextLike[] = [];
+	return {
+		name: "buy-below",
+		seen,
+		detectEntry(ctx) {
+			seen.push(ctx);
+			const ask = ctx.bestAsk(MarketSide.Yes);
+			return ask?.lt(Decimal.from(threshold)) ? ask : null;
+		},
+		toOrder(ask, ctx) {
+			return {
+				conditionId: ctx.conditionId,
+				tokenId: TOKEN,
+				side: MarketSide.Yes,
+				direction: "buy",
+				price: ask,
+				size: Decimal.from(10),
+			};
+		},
+	};
+}
+
+function setup(
+	opts: {
+		threshold?: string;
+		marketEndMs?: number;
+		exits?: ExitPipeline;
+		recorder?: MarketTapeRecorder;
+		onError?: (error: unknown) => void;
+		market?: TokenInfo;
+	} = {},
+) {
+	const clock = new FakeClock(1_700_000_000_000);
+	const client = new FakeWsClient();
+	const wsManager = new WsManager(client, { clock });
+	const marketFeed = new MarketFeed(new ConnectivityWatchdog(undefined, clock));
+	const detector = buyBelow(opts.threshold ?? "0.50");
+	const executor = new PaperExecutor({ clock });
+	let builder = StrategyBuilder.create()
+		.withClock(clock)
+		.withDetector(detector)
+		.withExecutor(executor);
+	if (opts.exits) builder = builder.withExits(opts.exits);
+	const strategy = builder.build();
+	const runner = new StrategyRunner({
+		strategy,
+		wsManager,
+		marketFeed,
+		conditionId: CID,
+		availableBalance: () => Decimal.from(1000),
+		tickIntervalMs: 500,
+		clock,
+		...(opts.marketEndMs !== undefined && { marketEndMs: opts.marketEndMs }),
+		recorder: opts.recorder,
+		onError: opts.onError,
+		market: opts.market,
+	});
+	return { clock, client, wsManager, marketFeed, detector, executor, strategy, runner };
+}
+
+describe("StrategyRunner", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("rejects a non-positive tick interval", () => {
+		const { strategy, wsManager, marketFeed } = setup();
+		expect(
+			() =>
+				new StrategyRunner({
+					strategy,
+					wsManager,
+					marketFeed,
+					conditionId: CID,
+					availableBalance: () => Decimal.zero(),
+					tickIntervalMs: 0,
+				}),
+		).toThrow("tickIntervalMs must be > 0");
+	});
+
+	it("start() connects, subscribes to the book channel and schedules ticks", async () => {
+		vi.useFakeTimers();
+		const { client, runner, detector } = setup();
+
+		unwrap(await runner.start());
+		expect(runner.isRunning()).toBe(true);
+		expect(JSON.parse(client.sent[0] ?? "")).toEqual({
+			action: "subscribe",
+			channel: "book",
+			assets: ["cond-1"],
+		});
+
+		await vi.advanceTimersByTimeAsync(1_000);
+		expect(detector.seen).toHaveLength(2);
+		await runner.stop();
+	});
+
+	it("subscribes to the market's tokens and reads its YES book", async () => {
+		const { clock, client, marketFeed, runner, executor } = setup({ market: MARKET });
+		await runner.start();
+		expect(JSON.parse(client.sent[0] ?? "").assets).toEqual(["tok-yes", "tok-no"]);
+
+		client.pushBook("0.44", "0.46", clock.now(), "100", "tok-no");
+		client.pushBook("0.54", "0.56", clock.now(), "100", "tok-yes");
+		await runner.step();
+
+		expect(marketFeed.getMarketBooks(CID)?.no?.asks[0]?.price.toString()).toBe("0.46");
+		expect(executor.fillHistory()).toHaveLength(0);
+		await runner.stop();
+	});
+
+	it("rejects a market of another condition", () => {
+		const { strategy, wsManager, marketFeed } = setup();
+		expect(
+			() =>
+				new StrategyRunner({
+					strategy,
+					wsManager,
+					marketFeed,
+					conditionId: CID,
+					market: { ...MARKET, conditionId: conditionId("cond-2") },
+					availableBalance: () => Decimal.zero(),
+				}),
+		).toThrow("market must belong to conditionId");
+	});
+
+	it("step() feeds drained book updates into the tick context and opens a position", async () => {
+		const { clock, client, runner, strategy, executor } = setup();
+		await runner.start();
+
+		client.pushBook("0.44", "0.46", clock.now());
+		await runner.step();
+
+		expect(strategy.state()).toBe(StrategyState.Active);
+		expect(executor.fillHistory()).toHaveLength(1);
+		const pos = strategy.getPositionManager().get(CID);
+		expect(pos?.entryPrice.eq(Decimal.from("0.46"))).toBe(true);
+		await runner.stop();
+	});
+
+	it("does not enter when the book does not satisfy the detector", async () => {
+		const { clock, client, runner, executor } = setup();
+		await runner.start();
+
+		client.pushBook("0.54", "0.56", clock.now());
+		await runner.step();
+
+		expect(executor.fillHistory()).toHaveLength(0);
+		await runner.stop();
+	});
+
+	it("distrusts the book after the socket reconnects until it resyncs", async () => {
+		const { clock, client, wsManager, marketFeed, runner } = setup();
+		await runner.start();
+		client.pushBook("0.54", "0.56", clock.now());
+		await runner.step();
+		expect(marketFeed.isBookValid(CID)).toBe(true);
+
+		await wsManager.reconnect();
+		await runner.step();
+
+		expect(marketFeed.invalidReason(CID)).toBe(BookInvalidReason.Reconnect);
+		expect(runner.buildContext().bookAgeMs()).toBeNull();
+		await runner.stop();
+	});
+
+	it("pause() blocks entries and resume() re-enables them", async () => {
+		const { clock, client, runner, strategy, executor } = setup();
+		await runner.start();
+		await runner.step();
+		expect(strategy.state()).toBe(StrategyState.Active);
+
+		expect(unwrap(runner.pause())).toBe(StrategyState.Paused);
+		client.pushBook("0.44", "0.46", clock.now());
+		clock.advance(500);
+		await runner.step();
+		expect(executor.fillHistory()).toHaveLength(0);
+
+		expect(unwrap(runner.resume())).toBe(StrategyState.Active);
+		clock.advance(500);
+		await runner.step();
+		expect(executor.fillHistory()).toHaveLength(1);
+		await runner.stop();
+	});
+
+	it("resume() without a pause returns the state machine error", () => {
+		const { runner } = setup();
+		const result = runner.resume();
+		expect(result.ok).toBe(false);
+	});
+
+	it("stop() clears the timer, closes the socket and shuts the strategy down", async () => {
+		vi.useFakeTimers();
+		const { client, runner, strategy, detector } = setup();
+		await runner.start();
+		await vi.advanceTimersByTimeAsync(500);
+
+		const result = await runner.stop();
+		expect(unwrap(result)).toBe(StrategyState.Shutdown);
+		expect(runner.isRunning()).toBe(false);
+		expect(client.closed).toBe(1);
+		expect(strategy.state()).toBe(StrategyState.Shutdown);
+
+		const seen = detector.seen.length;
+		await vi.advanceTimersByTimeAsync(2_000);
+		expect(detector.seen).toHaveLength(seen);
+	});
+
+	it("stop() still shuts down when an in-flight step fails", async () => {
+		const { client, strategy, wsManager, marketFeed } = setup();
+		const runner = new StrategyRunner({
+			strategy,
+			wsManager,
+			marketFeed,
+			conditionId: CID,
+			availableBalance: () => {
+				throw new Error("balance unavailable");
+			},
+			tickIntervalMs: 100,
+		});
+		await runner.start();
+
+		const failing = runner.step();
+		const result = await runner.stop();
+
+		await expect(failing).rejects.toThrow("balance unavailable");
+		expect(unwrap(result)).toBe(StrategyState.Shutdown);
+		expect(client.closed).toBe(1);
+	});
+
+	it("routes errors from timer-driven steps to onError", async () => {
+		vi.useFakeTimers();
+		const { strategy, wsManager, marketFeed } = setup();
+		const onError = vi.fn();
+		const runner = new StrategyRunner({
+			strategy,
+			wsManager,
+			marketFeed,
+			conditionId: CID,
+			availableBalance: () => {
+				throw new Error("balance unavailable");
+			},
+			tickIntervalMs: 100,
+			onError,
+		});
+		await runner.start();
+		await vi.advanceTimersByTimeAsync(100);
+
+		expect(onError).toHaveBeenCalledWith(
+			expect.objectContaining({ message: "balance unavailable" }),
+		);
+		await runner.stop();
+	});
+
+	describe("paper trading against the book", () => {
+		it("routes resting fills from the paper executor through the user feed", async () => {
+			const clock = new FakeClock(1_700_000_000_000);
+			const client = new FakeWsClient();
+			const marketFeed = new MarketFeed(new ConnectivityWatchdog(undefined, clock));
+			const paperExecutor = new BookPaperExecutor({ books: marketFeed, clock });
+			const strategy = StrategyBuilder.create()
+				.withClock(clock)
+				.withDetector(buyBelow("0.50"))
+				.withExecutor(paperExecutor)
+				.build();
+			const runner = new StrategyRunner({
+				strategy,
+				wsManager: new WsManager(client, { clock }),
+				marketFeed,
+				userFeed: strategy.userFeed(),
+				paperExecutor,
+				conditionId: CID,
+				availableBalance: () => Decimal.from(1000),
+				clock,
+			});
+			await runner.start();
+
+			// Only 4 of 10 shares are offered at 0.46: the rest of the order rests
+			client.pushBook("0.44", "0.46", clock.now(), "4");
+			await runner.step();
+			expect(strategy.getPositionManager().get(CID)).toBeNull();
+			expect(paperExecutor.restingOrderCount()).toBe(1);
+
+			// A new offer below the resting bid fills the remainder at its limit
+			client.pushBook("0.44", "0.45", clock.now(), "20");
+			await runner.step();
+
+			const pos = strategy.getPositionManager().get(CID);
+			expect(pos?.size.eq(Decimal.from(10))).toBe(true);
+			expect(pos?.entryPrice.eq(Decimal.from("0.46"))).toBe(true);
+			await runner.stop();
+		});
+	});
+
+	describe("recorder", () => {
+		it("writes each drained batch to the tape before ticking", async () => {
+			const dir = await mkdtemp(join(tmpdir(), "runner-tape-"));
+			try {
+				const filePath = join(dir, "market.tape");
+				const { clock, client, runner, executor } = setup({
+					recorder: MarketTapeRecorder.create({ filePath }),
+				});
+				await runner.start();
+				client.pushBook("0.44", "0.46", clock.now());
+				await runner.step();
+
+				expect(executor.fillHistory()).toHaveLength(1);
+				const recorded = [];
+				for await (const msg of MarketTapeReader.open(filePath).messages()) {
+					recorded.push(msg);
+				}
+				expect(recorded).toEqual([
+					{
+						type: "book_update",
+						conditionId: CID,
+						bids: [{ price: "0.44", size: "100" }],
+						asks: [{ price: "0.46", size: "100" }],
+						timestampMs: clock.now(),
+					},
+				]);
+				await runner.stop();
+			} finally {
+				await rm(dir, { recursive: true, force: true });
+			}
+		});
+
+		it("routes write failures to onError and still ticks", async () => {
+			const onError = vi.fn();
+			const recorder = MarketTapeRecorder.create({ filePath: join(tmpdir(), "missing-dir", "x") });
+			const { clock, client, runner, executor } = setup({ recorder, onError });
+			await runner.start();
+			client.pushBook("0.44", "0.46", clock.now());
+			await runner.step();
+
+			expect(onError).toHaveBeenCalledTimes(1);
+			expect(recorder.writeErrors()).toHaveLength(1);
+			expect(executor.fillHistory()).toHaveLength(1);
+			await runner.stop();
+		});
+	});
+
+	describe("buildContext()", () => {
+		it("exposes book age, oracle age and time remaining relative to the clock", () => {
+			const { clock, client, wsManager, marketFeed, strategy } = setup();
+			const observedAt = clock.now() - 200;
+			const runner = new StrategyRunner({
+				strategy,
+				wsManager,
+				marketFeed,
+				conditionId: CID,
+				availableBalance: () => Decimal.from(250),
+				marketEndMs: clock.now() + 60_000,
+				oracle: { read: () => ({ price: Decimal.from("0.6"), timestampMs: observedAt }) },
+				clock,
+			});
+			client.pushBook("0.40", "0.42", clock.now());
+			marketFeed.processMessages(wsManager.drain());
+			clock.advance(1_000);
+
+			const ctx = runner.buildContext();
+			expect(ctx.bestBid(MarketSide.Yes)?.eq(Decimal.from("0.40"))).toBe(true);
+			expect(ctx.bookAgeMs()).toBe(1_000);
+			expect(ctx.oraclePrice()?.eq(Decimal.from("0.6"))).toBe(true);
+			expect(ctx.oracleAgeMs()).toBe(1_200);
+			expect(ctx.timeRemainingMs()).toBe(59_000);
+			expect(ctx.availableBalance().eq(Decimal.from(250))).toBe(true);
+		});
+
+		it("returns null book data before any update arrives", () => {
+			const { runner } = setup();
+			const ctx = runner.buildContext();
+			expect(ctx.spot()).toBeNull();
+			expect(ctx.bookAgeMs()).toBeNull();
+			expect(ctx.oraclePrice()).toBeNull();
+		});
+
+		it("derives open positions and last trade time from the strategy", async () => {
+			const { clock, client, runner } = setup();
+			await runner.start();
+			client.pushBook("0.44", "0.46", clock.now());
+			await runner.step();
+
+			const ctx = runner.buildContext();
+			expect(ctx.openPositionCount()).toBe(1);
+			expect(ctx.totalExposure().eq(Decimal.from("4.6"))).toBe(true);
+			expect(ctx.lastTradeTimeMs(CID)).toBe(clock.now());
+			expect(ctx.lastTradeTimeMs(conditionId("other"))).toBeNull();
+			expect(ctx.dailyPnl().isZero()).toBe(true);
+			expect(ctx.consecutiveLosses()).toBe(0);
+			await runner.stop();
+		});
+
+		it("derives daily P&L and consecutive losses from closed positions", async () => {
+			const exits = ExitPipeline.create().with({
+				name: "always",
+				shouldExit: () => ({ type: "emergency", reason: "test" }),
+			});
+			const { clock, client, runner } = setup({ exits });
+			await runner.start();
+			client.pushBook("0.44", "0.46", clock.now());
+			await runner.step();
+
+			client.pushBook("0.44", "0.46", clock.now(), "0");
+			client.pushBook("0.30", "0.50", clock.now());
+			clock.advance(500);
+			await runner.step();
+
+			const ctx = runner.buildContext();
+			expect(ctx.openPositionCount()).toBe(0);
+			// emergency exit 500 bps under the 0.30 bid fills at 0.29 on 10 @ 0.46 → -1.7
+			expect(ctx.dailyPnl().eq(Decimal.from("-1.7"))).toBe(true);
+			expect(ctx.consecutiveLosses()).toBe(1);
+			expect(ctx.lastTradeTimeMs(CID)).toBe(clock.now());
+			await runner.stop();
+		});
+	});
+});
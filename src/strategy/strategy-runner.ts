@@ -0,0 +1,218 @@
+/**
+ * StrategyRunner — live runtime that drives BuiltStrategy.tick from WebSocket feeds.
+ *
+ * Owns the tick timer, drains WsManager into MarketFeed/UserFeed, builds the
+ * TickContext snapshot (book, positions, oracle, risk) and maps
+ * start/pause/resume/stop onto StrategyStateMachine transitions.
+ */
+
+import type { TokenInfo } from "../ctf/types.js";
+import type { BookPaperExecutor } from "../execution/book-paper-executor.js";
+import { PauseReason, type StateError, type StrategyState } from "../lifecycle/types.js";
+import type { MarketTapeRecorder } from "../persistence/market-tape.js";
+import { DEFAULT_SDK_CONFIG } from "../shared/config.js";
+import type { Decimal } from "../shared/decimal.js";
+import { ConfigError, type TradingError } from "../shared/errors.js";
+import type { ConditionId } from "../shared/identifiers.js";
+import { type Result, ok } from "../shared/result.js";
+import type { Clock } from "../shared/time.js";
+import { SystemClock } from "../shared/time.js";
+import { BookInvalidReason, type MarketFeed } from "../websocket/market-feed.js";
+import type { UserFeed } from "../websocket/user-feed.js";
+import type { WsManager } from "../websocket/ws-manager.js";
+import type { BuiltStrategy, TickContext } from "./built-strategy.js";
+import { type OracleSource, createTickContextProvider } from "./tick-context.js";
+
+/** Dependencies and settings for a StrategyRunner. */
+export interface StrategyRunnerConfig {
+	readonly strategy: BuiltStrategy;
+	readonly wsManager: WsManager;
+	readonly marketFeed: MarketFeed;
+	readonly userFeed?: UserFeed | undefined;
+	/**
+	 * Paper executor matching against `marketFeed`. After each book update its
+	 * simulated fills and cancels are drained into `userFeed`.
+	 */
+	readonly paperExecutor?: BookPaperExecutor | undefined;
+	readonly conditionId: ConditionId;
+	/**
+	 * The market's YES and NO tokens. Registered with `marketFeed`, so the
+	 * token books are told apart, and subscribed on the book channel.
+	 */
+	readonly market?: TokenInfo | undefined;
+	/**
+	 * Asset ids to subscribe on the book channel. Polymarket subscribes by
+	 * token id. Default: the tokens of `market`, else [conditionId]
+	 */
+	readonly assets?: readonly string[] | undefined;
+	/** Market resolution time (epoch ms) used for timeRemainingMs. Default: never expires */
+	readonly marketEndMs?: number | undefined;
+	readonly oracle?: OracleSource | undefined;
+	/** Available USDC balance provider for the RiskView. */
+	readonly availableBalance: () => Decimal;
+	/** Default: DEFAULT_SDK_CONFIG.tickIntervalMs */
+	readonly tickIntervalMs?: number | undefined;
+	readonly clock?: Clock | undefined;
+	/** Receives every drained message batch before the tick. Write failures go to onError. */
+	readonly recorder?: MarketTapeRecorder | undefined;
+	/** Called when a timer-driven step throws. Default: ignored */
+	readonly onError?: ((error: unknown) => void) | undefined;
+}
+
+/**
+ * Runs a BuiltStrategy against live (or fake) feeds on a fixed tick interval.
+ *
+ * Lifecycle: construct → start() → pause()/resume() → stop().
+ * `step()` performs a single drain-and-tick cycle and can be driven manually in tests.
+ *
+ * @example
+ * ```ts
+ * const runner = new StrategyRunner({
+ *   strategy, wsManager, marketFeed, conditionId: cid, market: tokens,
+ *   availableBalance: () => Decimal.from(1000),
+ * });
+ * await runner.start();
+ * ```
+ */
+export class StrategyRunner {
+	private readonly strategy: BuiltStrategy;
+	private readonly wsManager: WsManager;
+	private readonly marketFeed: MarketFeed;
+	private readonly userFeed: UserFeed | null;
+	private readonly paperExecutor: BookPaperExecutor | null;
+	private readonly conditionId: ConditionId;
+	private readonly assets: readonly string[];
+	private readonly contextFor: (conditionId: ConditionId) => TickContext;
+	private readonly tickIntervalMs: number;
+	private readonly recorder: MarketTapeRecorder | null;
+	private readonly onError: (error: unknown) => void;
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private readonly inFlight: Set<Promise<void>> = new Set();
+	/** Socket generation seen by the last step; a change means the socket reconnected */
+	private generation: number | null = null;
+
+	constructor(config: StrategyRunnerConfig) {
+		this.strategy = config.strategy;
+		this.wsManager = config.wsManager;
+		this.marketFeed = config.marketFeed;
+		this.userFeed = config.userFeed ?? null;
+		this.paperExecutor = config.paperExecutor ?? null;
+		this.conditionId = config.conditionId;
+		const market = config.market ?? null;
+		if (market !== null && market.conditionId !== config.conditionId) {
+			throw new ConfigError("market must belong to conditionId", {
+				conditionId: config.conditionId,
+				marketConditionId: market.conditionId,
+			});
+		}
+		this.assets =
+			config.assets ??
+			(market === null
+				? [config.conditionId as string]
+				: [market.yesTokenId as string, market.noTokenId as string]);
+		const marketEndMs = config.marketEndMs ?? null;
+		const oracle = config.oracle ?? null;
+		this.contextFor = createTickContextProvider({
+			strategy: config.strategy,
+			books: config.marketFeed,
+			availableBalance: config.availableBalance,
+			oracle: () => oracle?.read() ?? null,
+			marketEndMs: () => marketEndMs,
+			clock: config.clock ?? SystemClock,
+		});
+		this.tickIntervalMs = config.tickIntervalMs ?? DEFAULT_SDK_CONFIG.tickIntervalMs;
+		this.recorder = config.recorder ?? null;
+		this.onError = config.onError ?? (() => {});
+		if (this.tickIntervalMs <= 0) {
+			throw new ConfigError("tickIntervalMs must be > 0", { tickIntervalMs: this.tickIntervalMs });
+		}
+		if (market !== null) config.marketFeed.registerMarket(market);
+	}
+
+	/** Whether the tick timer is currently scheduled. */
+	isRunning(): boolean {
+		return this.timer !== null;
+	}
+
+	/**
+	 * Connects the WebSocket, subscribes to the book channel and starts the tick timer.
+	 * The strategy leaves Initializing on the first tick. Calling start() twice is a no-op.
+	 */
+	async start(): Promise<Result<void, TradingError>> {
+		if (this.timer !== null) return ok(undefined);
+
+		await this.wsManager.connect();
+		const subResult = this.wsManager.subscribe({ channel: "book", assets: this.assets });
+		if (!subResult.ok) return subResult;
+
+		this.timer = setInterval(() => {
+			this.step().catch(this.onError);
+		}, this.tickIntervalMs);
+		return ok(undefined);
+	}
+
+	/** Pauses new entries (exits keep running) via the `pause` transition. */
+	pause(reason: PauseReason = PauseReason.UserRequested): Result<StrategyState, StateError> {
+		return this.strategy.transition({ type: "pause", reason });
+	}
+
+	/** Resumes entries via the `resume` transition. */
+	resume(): Result<StrategyState, StateError> {
+		return this.strategy.transition({ type: "resume" });
+	}
+
+	/**
+	 * Stops the timer, waits for in-flight ticks, shuts the strategy down and closes the socket.
+	 * A tick that fails while stopping does not prevent the shutdown; its error is left
+	 * to whoever awaited it. Safe to call more than once; later calls return the state
+	 * machine's terminal error.
+	 */
+	async stop(): Promise<Result<StrategyState, StateError>> {
+		if (this.timer !== null) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+		await Promise.allSettled([...this.inFlight]);
+		this.wsManager.close();
+		return this.strategy.transition({ type: "shutdown" });
+	}
+
+	/** Drains pending feed messages, builds a TickContext and runs one strategy tick. */
+	async step(): Promise<void> {
+		const run = this.runStep();
+		this.inFlight.add(run);
+		try {
+			await run;
+		} finally {
+			this.inFlight.delete(run);
+		}
+	}
+
+	/** Builds the TickContext for the current feed, position and risk state. */
+	buildContext(): TickContext {
+		return this.contextFor(this.conditionId);
+	}
+
+	private async runStep(): Promise<void> {
+		const messages = this.wsManager.drain();
+		// Updates sent while the socket was down are lost; distrust the books until they resync
+		const generation = this.wsManager.generation;
+		if (this.generation !== null && generation !== this.generation) {
+			this.marketFeed.invalidateAll(BookInvalidReason.Reconnect);
+		}
+		this.generation = generation;
+		this.marketFeed.processMessages(messages);
+		this.userFeed?.processMessages(messages);
+		if (this.paperExecutor !== null) {
+			this.userFeed?.processMessages(this.paperExecutor.drain());
+		}
+		if (this.recorder !== null) {
+			try {
+				await this.recorder.record(messages);
+			} catch (error) {
+				this.onError(error);
+			}
+		}
+		await this.strategy.tick(this.buildContext());
+	}
+}
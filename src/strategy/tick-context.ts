@@ -0,0 +1,147 @@
+/**
+ * Tick context construction — builds per-market TickContext snapshots from
+ * order books, oracle readings and the strategy's shared position state.
+ *
+ * Used by StrategyRunner for a single market and by portfolio loops driving
+ * BuiltStrategy.tickMarkets from a MultiMarketManager.
+ */
+
+import { DetectorContext } from "../context/detector-context.js";
+import { bestAsk, bestBid } from "../market/orderbook.js";
+import type { BookSource, MarketBooks, OrderbookSnapshot } from "../market/types.js";
+import type { PositionManager } from "../position/position-manager.js";
+import { Decimal } from "../shared/decimal.js";
+import type { ConditionId } from "../shared/identifiers.js";
+import type { MarketSide } from "../shared/market-side.js";
+import type { Clock } from "../shared/time.js";
+import { Duration, SystemClock } from "../shared/time.js";
+import type { BuiltStrategy, TickContext } from "./built-strategy.js";
+
+/** Latest oracle observation, or null when the source has no price yet. */
+export interface OracleReading {
+	readonly price: Decimal;
+	readonly timestampMs: number;
+}
+
+/** Pluggable fair-value source (WeightedOracle, Chainlink, custom feeds). */
+export interface OracleSource {
+	read(): OracleReading | null;
+}
+
+export type { BookSource } from "../market/types.js";
+
+/** Inputs for createTickContextProvider. */
+export interface TickContextProviderConfig {
+	readonly strategy: BuiltStrategy;
+	readonly books: BookSource;
+	/** Available USDC balance provider for the RiskView (shared across markets). */
+	readonly availableBalance: () => Decimal;
+	/** Per-market oracle reading. Default: no oracle */
+	readonly oracle?: ((conditionId: ConditionId) => OracleReading | null) | undefined;
+	/** Per-market resolution time (epoch ms). Default: never expires */
+	readonly marketEndMs?: ((conditionId: ConditionId) => number | null) | undefined;
+	readonly clock?: Clock | undefined;
+}
+
+/**
+ * Returns a function building the TickContext for a market at call time.
+ *
+ * Book, oracle and timing data are per market; sources that serve both sides
+ * of a market (getMarketBooks) price YES and NO separately. Positions, daily
+ * P&L, loss streak and exposure come from the strategy's shared
+ * PositionManager, so every market sees the same portfolio risk state; pending
+ * orders come from the strategy's working orders.
+ *
+ * @example
+ * ```ts
+ * const contextFor = createTickContextProvider({
+ *   strategy, books: multiMarket, availableBalance: () => balance,
+ * });
+ * multiMarket.processUpdates();
+ * await strategy.tickMarkets(multiMarket.activeMarkets(), contextFor);
+ * ```
+ */
+export function createTickContextProvider(
+	config: TickContextProviderConfig,
+): (conditionId: ConditionId) => TickContext {
+	const clock = config.clock ?? SystemClock;
+
+	return (cid) => {
+		const now = clock.now();
+		const market = config.books.getMarketBooks?.(cid) ?? null;
+		const book = market === null ? config.books.getBook(cid) : null;
+		const pm = config.strategy.getPositionManager();
+		const reading = config.oracle?.(cid) ?? null;
+		const endMs = config.marketEndMs?.(cid) ?? null;
+
+		const detector = DetectorContext.create({
+			conditionId: cid,
+			clock,
+			...(market === null
+				? { bestBid: book ? bestBid(book) : null, bestAsk: book ? bestAsk(book) : null }
+				: { book: { yes: touch(market.yes), no: touch(market.no) } }),
+			oraclePrice: reading?.price ?? null,
+			oracleAgeMs: reading ? now - reading.timestampMs : null,
+			timeRemainingMs: endMs === null ? Number.MAX_SAFE_INTEGER : endMs - now,
+			positions: pm.allOpen(),
+			state: config.strategy.state(),
+			dailyPnl: dailyRealizedPnl(pm, now),
+			consecutiveLosses: consecutiveLosses(pm),
+			availableBalance: config.availableBalance(),
+		});
+
+		return Object.assign(detector, {
+			openPositionCount: () => detector.openCount(),
+			totalExposure: () => detector.totalNotional(),
+			hasPendingOrderFor: (id: ConditionId, side: MarketSide) =>
+				config.strategy.hasPendingOrder(id, side),
+			lastTradeTimeMs: (id: ConditionId) => lastTradeTimeMs(pm, id),
+			bookAgeMs: () => {
+				const oldest = market === null ? book : oldestBook(market);
+				return oldest ? now - oldest.timestampMs : null;
+			},
+			isBookValid: () => config.books.isBookValid?.(cid) ?? true,
+		}) as TickContext;
+	};
+}
+
+/** Best bid and ask of one side's book; both null without a book. */
+function touch(book: OrderbookSnapshot | null): { bid: Decimal | null; ask: Decimal | null } {
+	return { bid: book ? bestBid(book) : null, ask: book ? bestAsk(book) : null };
+}
+
+/** The staler of a market's two books; a side without a book does not count. */
+function oldestBook(market: MarketBooks): OrderbookSnapshot | null {
+	if (market.yes === null || market.no === null) return market.yes ?? market.no;
+	return market.yes.timestampMs <= market.no.timestampMs ? market.yes : market.no;
+}
+
+/** Realized P&L of positions closed since 00:00 UTC of the current day. */
+function dailyRealizedPnl(pm: PositionManager, nowMs: number): Decimal {
+	const dayStart = nowMs - (nowMs % Duration.hours(24));
+	let total = Decimal.zero();
+	for (const closed of pm.recentClosed(pm.closedCount())) {
+		if (closed.closedAtMs < dayStart) break;
+		total = total.add(closed.realizedPnl);
+	}
+	return total;
+}
+
+/** Number of most recent closed positions in a row with negative P&L. */
+function consecutiveLosses(pm: PositionManager): number {
+	let count = 0;
+	for (const closed of pm.recentClosed(pm.closedCount())) {
+		if (!closed.realizedPnl.isNegative()) break;
+		count++;
+	}
+	return count;
+}
+
+function lastTradeTimeMs(pm: PositionManager, cid: ConditionId): number | null {
+	const open = pm.get(cid);
+	if (open) return open.entryTimeMs;
+	for (const closed of pm.recentClosed(pm.closedCount())) {
+		if ((closed.snapshot.conditionId as string) === (cid as string)) return closed.closedAtMs;
+	}
+	return null;
+}
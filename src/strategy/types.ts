@@ -12,6 +12,7 @@ import type { ConnectivityWatchdog } from "../lifecycle/watchdog.js";
 import type { OrderRegistry } from "../order/order-registry.js";
 import type { PositionManager } from "../position/position-manager.js";
 import type { GuardPipeline } from "../risk/guard-pipeline.js";
+import type { OrderGuardPipeline } from "../risk/order-guard-pipeline.js";
 import type { ExitPipeline } from "../signal/exit-pipeline.js";
 
 /** Aggregate owning position lifecycle and tracking. */
@@ -22,6 +23,8 @@ export interface PositionAggregate {
 /** Aggregate owning guard pipeline and exit pipeline. */
 export interface RiskAggregate {
 	readonly guardPipeline: GuardPipeline;
+	/** Evaluated on each intent after `toOrder`, before submit. Default: no order guards */
+	readonly orderGuardPipeline?: OrderGuardPipeline | undefined;
 	readonly exitPipeline: ExitPipeline;
 }
 
@@ -0,0 +1,247 @@
+/**
+ * WorkingOrders — strategy orders between submission and settlement.
+ *
+ * Routes submissions through OrderCoordinator / OrderRegistry / OrderTracker,
+ * applies user-feed fills and status updates, and queues a settlement once an
+ * order reaches a terminal state. BuiltStrategy drains the queue to open, close
+ * or reduce positions by the size that actually filled.
+ */
+
+import type { Executor } from "../execution/types.js";
+import { OrderCoordinator } from "../order/order-coordinator.js";
+import type { OrderRegistry } from "../order/order-registry.js";
+import { OrderTracker } from "../order/order-tracker.js";
+import { CancelReason, PendingState } from "../order/types.js";
+import type { FillInfo, OrderResult } from "../order/types.js";
+import { Decimal } from "../shared/decimal.js";
+import { OrderNotFoundError } from "../shared/errors.js";
+import type { TradingError } from "../shared/errors.js";
+import type { ClientOrderId, ConditionId, ExchangeOrderId } from "../shared/identifiers.js";
+import type { MarketSide } from "../shared/market-side.js";
+import { type Result, err, ok } from "../shared/result.js";
+import type { Clock } from "../shared/time.js";
+import type { ExitReason, SdkOrderIntent } from "../signal/types.js";
+import type { UserFill, UserOrderStatus } from "../websocket/types.js";
+
+/** A strategy order that has been submitted but not yet settled. */
+export interface WorkingOrder {
+	/** Registry id assigned by the coordinator. */
+	readonly orderId: ClientOrderId;
+	/** Id reported by the executor; used in events and the journal. */
+	readonly clientOrderId: ClientOrderId;
+	readonly intent: SdkOrderIntent;
+	/** Why the position is being exited; null for entries. */
+	readonly exitReason: ExitReason | null;
+	readonly submittedAtMs: number;
+	readonly filledSize: Decimal;
+	/** Sum of fill price × fill size, for the volume-weighted fill price. */
+	readonly filledNotional: Decimal;
+	readonly fee: Decimal;
+	readonly cancelReason: string | null;
+}
+
+/** A working order that reached a terminal state and awaits settlement. */
+export interface OrderSettlement {
+	readonly order: WorkingOrder;
+	readonly finalState: PendingState;
+}
+
+/** A user-feed fill matched to a working order. */
+export interface AppliedFill {
+	readonly order: WorkingOrder;
+	readonly fill: FillInfo;
+	readonly exchangeOrderId: ExchangeOrderId;
+}
+
+/** Average fill price of a working order, or null when nothing filled. */
+export function averageFillPrice(order: WorkingOrder): Decimal | null {
+	return order.filledSize.isZero() ? null : order.filledNotional.div(order.filledSize);
+}
+
+export class WorkingOrders {
+	private readonly registry: OrderRegistry;
+	private readonly tracker: OrderTracker;
+	private readonly coordinator: OrderCoordinator;
+	private readonly executor: Executor;
+	private readonly clock: Clock;
+	private readonly orders = new Map<string, WorkingOrder>();
+	private readonly settlements: OrderSettlement[] = [];
+
+	constructor(registry: OrderRegistry, executor: Executor, clock: Clock) {
+		this.registry = registry;
+		this.executor = executor;
+		this.clock = clock;
+		this.tracker = new OrderTracker(registry, clock, 0);
+		this.coordinator = new OrderCoordinator(registry, clock, this.tracker);
+	}
+
+	/**
+	 * Submits an intent. Fills reported by the executor are recorded immediately;
+	 * a terminal result queues its settlement before this resolves.
+	 */
+	async submit(
+		intent: SdkOrderIntent,
+		exitReason: ExitReason | null,
+	): Promise<Result<WorkingOrder, TradingError>> {
+		const tracked: WorkingOrder[] = [];
+		const submitted = await this.coordinator.submit(intent, this.executor, (builder, result) => {
+			const order = this.track(builder.build().clientOrderId, intent, exitReason, result);
+			tracked.push(order);
+			const key = order.orderId as string;
+			return builder
+				.onFill((fill) => this.recordFill(key, fill))
+				.onCancel((reason) => this.update(key, { cancelReason: reason }))
+				.onComplete((r) => this.complete(key, r.finalState));
+		});
+		if (!submitted.ok) return submitted;
+
+		const [order] = tracked;
+		if (!order) {
+			return err(new OrderNotFoundError("Submitted order was not tracked", { intent }));
+		}
+		return ok(order);
+	}
+
+	/** Matches a user-feed fill to a working order and advances its lifecycle. */
+	applyFill(fill: UserFill): AppliedFill | null {
+		const pending = this.registry.byExchangeOrderId(fill.orderId);
+		const order = pending ? this.orders.get(pending.clientOrderId as string) : undefined;
+		if (!pending || !order) return null;
+
+		if (pending.state === PendingState.Submitted) {
+			this.tracker.handleOpened(pending.clientOrderId, fill.orderId);
+		}
+
+		const filledSize = Decimal.from(fill.filledSize);
+		const remaining = order.intent.size.sub(order.filledSize).sub(filledSize);
+		const info: FillInfo = {
+			filledSize,
+			fillPrice: Decimal.from(fill.fillPrice),
+			remainingSize: remaining.isNegative() ? Decimal.zero() : remaining,
+			timestampMs: fill.timestampMs,
+		};
+		if (info.remainingSize.isZero()) {
+			this.tracker.handleFilled(pending.clientOrderId, info);
+		} else {
+			this.tracker.handlePartialFill(pending.clientOrderId, info);
+		}
+		return { order, fill: info, exchangeOrderId: fill.orderId };
+	}
+
+	/**
+	 * Applies an exchange status update (open, matched, cancelled, expired,
+	 * rejected). "matched" only confirms the order is live and trading; the
+	 * matched size arrives with the trade's user fill.
+	 */
+	applyStatus(status: UserOrderStatus): void {
+		const pending = this.registry.byExchangeOrderId(status.orderId);
+		if (!pending || !this.orders.has(pending.clientOrderId as string)) return;
+
+		switch (status.status.toLowerCase()) {
+			case "open":
+			case "live":
+			case "matched":
+				this.tracker.handleOpened(pending.clientOrderId, status.orderId);
+				break;
+			case "cancelled":
+			case "canceled":
+				this.tracker.handleCancelled(pending.clientOrderId, CancelReason.Exchange);
+				break;
+			case "expired":
+				this.tracker.handleExpired(pending.clientOrderId);
+				break;
+			case "rejected":
+				this.tracker.handleRejected(pending.clientOrderId, status.status);
+				break;
+		}
+	}
+
+	/** Cancels a resting order; its settlement is queued once the cancel succeeds. */
+	cancel(order: WorkingOrder, reason: CancelReason): Promise<Result<void, TradingError>> {
+		return this.coordinator.cancel(order.orderId, this.executor, reason);
+	}
+
+	/** Expires GTD orders whose expiry has passed; their settlements are queued. */
+	expireDue(): void {
+		this.tracker.expireDue();
+	}
+
+	/** Orders resting for at least `timeoutMs`. */
+	overdue(timeoutMs: number): readonly WorkingOrder[] {
+		const now = this.clock.now();
+		return [...this.orders.values()].filter((o) => now - o.submittedAtMs >= timeoutMs);
+	}
+
+	/**
+	 * True while an order for the market is working or awaiting settlement.
+	 * With `side`, only orders for that side of the market count.
+	 */
+	hasPending(conditionId: ConditionId, side?: MarketSide): boolean {
+		const matches = (order: WorkingOrder) =>
+			order.intent.conditionId === conditionId &&
+			(side === undefined || order.intent.side === side);
+		for (const order of this.orders.values()) {
+			if (matches(order)) return true;
+		}
+		return this.settlements.some((s) => matches(s.order));
+	}
+
+	/** Number of orders still working. */
+	count(): number {
+		return this.orders.size;
+	}
+
+	/** True when at least one settlement is queued. */
+	hasSettlements(): boolean {
+		return this.settlements.length > 0;
+	}
+
+	/** Removes and returns the oldest queued settlement. */
+	nextSettlement(): OrderSettlement | undefined {
+		return this.settlements.shift();
+	}
+
+	private track(
+		orderId: ClientOrderId,
+		intent: SdkOrderIntent,
+		exitReason: ExitReason | null,
+		result: OrderResult,
+	): WorkingOrder {
+		const price = result.avgFillPrice ?? intent.price;
+		const order: WorkingOrder = {
+			orderId,
+			clientOrderId: result.clientOrderId,
+			intent,
+			exitReason,
+			submittedAtMs: this.clock.now(),
+			filledSize: result.totalFilled,
+			filledNotional: result.totalFilled.mul(price),
+			fee: result.fee ?? Decimal.zero(),
+			cancelReason: null,
+		};
+		this.orders.set(orderId as string, order);
+		return order;
+	}
+
+	private recordFill(key: string, fill: FillInfo): void {
+		const order = this.orders.get(key);
+		if (!order) return;
+		this.update(key, {
+			filledSize: order.filledSize.add(fill.filledSize),
+			filledNotional: order.filledNotional.add(fill.filledSize.mul(fill.fillPrice)),
+			fee: fill.fee ? order.fee.add(fill.fee) : order.fee,
+		});
+	}
+
+	private update(key: string, changes: Partial<WorkingOrder>): void {
+		const order = this.orders.get(key);
+		if (order) this.orders.set(key, { ...order, ...changes });
+	}
+
+	private complete(key: string, finalState: PendingState): void {
+		const order = this.orders.get(key);
+		if (!order) return;
+		this.orders.delete(key);
+		this.settlements.push({ order, finalState });
+	}
+}
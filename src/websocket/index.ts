@@ -1,7 +1,10 @@
 export type {
+	BookSnapshot,
 	BookUpdate,
 	Heartbeat,
+	MarketTrade,
 	Subscription,
+	TickSizeChange,
 	UserFill,
 	UserOrderStatus,
 	WsMessage,
@@ -9,8 +12,12 @@ export type {
 export { ReconnectionPolicy } from "./reconnection.js";
 export type { ReconnectionConfig } from "./reconnection.js";
 export { WsManager } from "./ws-manager.js";
-export type { BufferedMessage, WsClientLike, WsManagerConfig } from "./ws-manager.js";
-export { MarketFeed } from "./market-feed.js";
+export type { BufferedMessage, WsClientLike, WsManagerConfig, WsProtocol } from "./ws-manager.js";
+export { PolymarketProtocol } from "./polymarket-protocol.js";
+export type { PolymarketProtocolConfig } from "./polymarket-protocol.js";
+export { BookInvalidReason, MarketFeed } from "./market-feed.js";
+export type { BookHasher, MarketFeedConfig } from "./market-feed.js";
 export { UserFeed } from "./user-feed.js";
 export type { UserFeedConfig } from "./user-feed.js";
 export { MultiMarketManager } from "./multi-market.js";
+export type { MultiMarketManagerConfig } from "./multi-market.js";
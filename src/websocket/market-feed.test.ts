@@ -1,10 +1,13 @@
 import { describe, expect, it } from "vitest";
 import { ConnectivityWatchdog } from "../lifecycle/watchdog.js";
+import type { OrderbookSnapshot } from "../market/types.js";
 import { Decimal } from "../shared/decimal.js";
-import { conditionId, exchangeOrderId } from "../shared/identifiers.js";
-import type { ConditionId } from "../shared/identifiers.js";
+import { NetworkError } from "../shared/errors.js";
+import { conditionId, exchangeOrderId, marketTokenId } from "../shared/identifiers.js";
+import type { ConditionId, MarketTokenId } from "../shared/identifiers.js";
 import { Duration, FakeClock } from "../shared/time.js";
-import { MarketFeed } from "./market-feed.js";
+import { BookInvalidReason, MarketFeed } from "./market-feed.js";
+import type { MarketFeedConfig } from "./market-feed.js";
 import type { BookUpdate, WsMessage } from "./types.js";
 
 function makeBookUpdate(cid: ConditionId, ts = 1000): BookUpdate {
@@ -43,6 +46,29 @@ describe("MarketFeed", () => {
 		expect(book?.asks[0]?.price.eq(Decimal.from("0.55"))).toBe(true);
 	});
 
+	it("replaces the stored orderbook with a BookSnapshot", () => {
+		const { feed } = setup();
+		const cid = conditionId("cond-1");
+
+		feed.processMessages([
+			{ ...makeBookUpdate(cid), assetId: marketTokenId("tok-1") },
+			{
+				type: "book_snapshot",
+				conditionId: cid,
+				assetId: marketTokenId("tok-1"),
+				bids: [{ price: "0.48", size: "30" }],
+				asks: [],
+				timestampMs: 2000,
+				hash: "0xabc",
+			},
+		]);
+		const book = feed.getBook(cid);
+
+		expect(book?.bids.map((l) => l.price.toString())).toEqual(["0.48"]);
+		expect(book?.asks).toEqual([]);
+		expect(book?.timestampMs).toBe(2000);
+	});
+
 	it("getBook returns null for unknown conditionId", () => {
 		const { feed } = setup();
 		expect(feed.getBook(conditionId("unknown"))).toBeNull();
@@ -212,4 +238,340 @@ describe("MarketFeed", () => {
 		feed.processMessages([makeBookUpdate(conditionId("cond-100"), 2000)]);
 		expect(feed.getBook(conditionId("cond-0"))).toBeNull();
 	});
+
+	describe("book validation", () => {
+		const cid = conditionId("cond-1");
+
+		function update(
+			sequence: number | undefined,
+			bids: BookUpdate["bids"],
+			asks: BookUpdate["asks"],
+			timestampMs = 1000,
+		): BookUpdate {
+			return {
+				type: "book_update",
+				conditionId: cid,
+				assetId: marketTokenId("tok-1"),
+				bids,
+				asks,
+				timestampMs,
+				...(sequence !== undefined && { sequence }),
+			};
+		}
+
+		function restBook(timestampMs: number): OrderbookSnapshot {
+			return {
+				bids: [{ price: Decimal.from("0.45"), size: Decimal.from("10") }],
+				asks: [{ price: Decimal.from("0.60"), size: Decimal.from("10") }],
+				timestampMs,
+			};
+		}
+
+		function setupWith(config: MarketFeedConfig = {}) {
+			const clock = new FakeClock(1000);
+			const watchdog = new ConnectivityWatchdog(
+				{ warningMs: Duration.seconds(15), criticalMs: Duration.seconds(30) },
+				clock,
+			);
+			return { feed: new MarketFeed(watchdog, { clock, ...config }), clock };
+		}
+
+		it("invalidates the book when a sequence number is skipped", () => {
+			const { feed } = setupWith();
+
+			feed.processMessages([
+				update(1, [{ price: "0.50", size: "100" }], [{ price: "0.55", size: "200" }]),
+				update(3, [{ price: "0.49", size: "10" }], []),
+			]);
+
+			expect(feed.isBookValid(cid)).toBe(false);
+			expect(feed.invalidReason(cid)).toBe(BookInvalidReason.Gap);
+			expect(feed.getBook(cid)).toBeNull();
+		});
+
+		it("accepts consecutive sequence numbers", () => {
+			const { feed } = setupWith();
+
+			feed.processMessages([
+				update(1, [{ price: "0.50", size: "100" }], [{ price: "0.55", size: "200" }]),
+				update(2, [{ price: "0.49", size: "10" }], []),
+			]);
+
+			expect(feed.isBookValid(cid)).toBe(true);
+			expect(feed.getBook(cid)?.bids).toHaveLength(2);
+		});
+
+		it("invalidates a crossed book", () => {
+			const { feed } = setupWith();
+
+			feed.processMessages([
+				update(undefined, [{ price: "0.50", size: "100" }], [{ price: "0.55", size: "200" }]),
+				update(undefined, [{ price: "0.56", size: "5" }], []),
+			]);
+
+			expect(feed.invalidReason(cid)).toBe(BookInvalidReason.Crossed);
+		});
+
+		it("invalidates the book when the hasher disagrees with the message hash", () => {
+			const hasher = (book: OrderbookSnapshot) => `levels:${book.bids.length + book.asks.length}`;
+			const { feed } = setupWith({ hasher });
+
+			feed.processMessages([
+				{ ...update(undefined, [{ price: "0.50", size: "1" }], []), hash: "levels:1" },
+			]);
+			expect(feed.isBookValid(cid)).toBe(true);
+
+			feed.processMessages([
+				{ ...update(undefined, [{ price: "0.49", size: "1" }], []), hash: "levels:1" },
+			]);
+			expect(feed.invalidReason(cid)).toBe(BookInvalidReason.HashMismatch);
+		});
+
+		it("revalidates the book on the next snapshot message", () => {
+			const { feed } = setupWith();
+			feed.processMessages([
+				update(1, [{ price: "0.50", size: "100" }], []),
+				update(5, [{ price: "0.49", size: "10" }], []),
+			]);
+
+			feed.processMessages([
+				{
+					type: "book_snapshot",
+					conditionId: cid,
+					assetId: marketTokenId("tok-1"),
+					bids: [{ price: "0.47", size: "30" }],
+					asks: [{ price: "0.53", size: "30" }],
+					timestampMs: 2000,
+					hash: "0xabc",
+					sequence: 10,
+				},
+				update(11, [{ price: "0.48", size: "5" }], [], 2100),
+			]);
+
+			expect(feed.isBookValid(cid)).toBe(true);
+			expect(feed.getBook(cid)?.bids.map((l) => l.price.toString())).toEqual(["0.48", "0.47"]);
+		});
+
+		it("resyncs from the snapshot provider and replays newer buffered updates", async () => {
+			const requested: ConditionId[] = [];
+			const { feed } = setupWith({
+				snapshotProvider: {
+					getSnapshot: async (id) => {
+						requested.push(id);
+						return restBook(1500);
+					},
+				},
+			});
+
+			feed.processMessages([
+				update(1, [{ price: "0.50", size: "100" }], [], 1000),
+				update(3, [{ price: "0.44", size: "1" }], [], 1400),
+				update(4, [{ price: "0.46", size: "7" }], [], 1600),
+			]);
+			expect(feed.getBook(cid)).toBeNull();
+
+			await feed.resynced();
+
+			expect(requested).toEqual([cid]);
+			expect(feed.isBookValid(cid)).toBe(true);
+			const book = feed.getBook(cid);
+			expect(book?.bids.map((l) => l.price.toString())).toEqual(["0.46", "0.45"]);
+			expect(book?.asks.map((l) => l.price.toString())).toEqual(["0.6"]);
+			expect(book?.timestampMs).toBe(1600);
+		});
+
+		it("waits resyncIntervalMs before requesting another snapshot", async () => {
+			let calls = 0;
+			const { feed, clock } = setupWith({
+				resyncIntervalMs: 5_000,
+				snapshotProvider: {
+					getSnapshot: async () => {
+						calls += 1;
+						throw new NetworkError("connection reset");
+					},
+				},
+			});
+			feed.processMessages([update(1, [{ price: "0.50", size: "1" }], []), update(3, [], [])]);
+			await feed.resynced();
+
+			feed.processMessages([update(4, [], [])]);
+			await feed.resynced();
+			expect(calls).toBe(1);
+
+			clock.advance(Duration.seconds(5));
+			feed.processMessages([update(5, [], [])]);
+			await feed.resynced();
+			expect(calls).toBe(2);
+			expect(feed.isBookValid(cid)).toBe(false);
+			expect(feed.drainResyncErrors().map((e) => e.message)).toEqual([
+				"connection reset",
+				"connection reset",
+			]);
+			expect(feed.drainResyncErrors()).toEqual([]);
+		});
+
+		it("invalidateAll distrusts every held book until it resyncs", async () => {
+			const { feed } = setupWith({ snapshotProvider: { getSnapshot: async () => restBook(900) } });
+			const other = conditionId("cond-2");
+			feed.processMessages([makeBookUpdate(cid), makeBookUpdate(other)]);
+
+			feed.invalidateAll(BookInvalidReason.Reconnect);
+
+			expect(feed.invalidReason(cid)).toBe(BookInvalidReason.Reconnect);
+			expect(feed.invalidReason(other)).toBe(BookInvalidReason.Reconnect);
+			await feed.resynced();
+			expect(feed.isBookValid(cid)).toBe(true);
+			expect(feed.isBookValid(other)).toBe(true);
+		});
+
+		it("treats books it never received as valid", () => {
+			const { feed } = setupWith();
+
+			expect(feed.isBookValid(conditionId("unknown"))).toBe(true);
+			expect(feed.invalidReason(conditionId("unknown"))).toBeNull();
+		});
+	});
+
+	describe("token-level books", () => {
+		const cid = conditionId("cond-1");
+		const yesToken = marketTokenId("tok-yes");
+		const noToken = marketTokenId("tok-no");
+		const market = { conditionId: cid, yesTokenId: yesToken, noTokenId: noToken };
+
+		function tokenUpdate(
+			assetId: MarketTokenId,
+			bids: BookUpdate["bids"],
+			asks: BookUpdate["asks"],
+			timestampMs = 1000,
+		): BookUpdate {
+			return { type: "book_update", conditionId: cid, assetId, bids, asks, timestampMs };
+		}
+
+		function setupWith(config: MarketFeedConfig = {}) {
+			const clock = new FakeClock(1000);
+			const watchdog = new ConnectivityWatchdog(
+				{ warningMs: Duration.seconds(15), criticalMs: Duration.seconds(30) },
+				clock,
+			);
+			return new MarketFeed(watchdog, { clock, markets: [market], ...config });
+		}
+
+		it("holds one book per registered token and serves the YES side from getBook()", () => {
+			const feed = setupWith();
+
+			feed.processMessages([
+				tokenUpdate(yesToken, [{ price: "0.48", size: "30" }], [{ price: "0.52", size: "25" }]),
+				tokenUpdate(noToken, [{ price: "0.47", size: "10" }], [{ price: "0.53", size: "10" }]),
+			]);
+
+			const books = feed.getMarketBooks(cid);
+			expect(books?.yes?.bids[0]?.price.toString()).toBe("0.48");
+			expect(books?.no?.bids[0]?.price.toString()).toBe("0.47");
+			expect(feed.getTokenBook(noToken)).toBe(books?.no);
+			expect(feed.getBook(cid)).toBe(books?.yes);
+		});
+
+		it("keeps a book per token for markets whose tokens are not registered", () => {
+			const feed = setupWith({ markets: [] });
+
+			feed.processMessages([
+				tokenUpdate(yesToken, [{ price: "0.48", size: "30" }], []),
+				tokenUpdate(noToken, [{ price: "0.47", size: "10" }], []),
+			]);
+
+			expect(feed.getMarketBooks(cid)).toBeNull();
+			const book = feed.getBook(cid);
+			expect(book?.bids).toHaveLength(1);
+			expect(book?.bids[0]?.price.eq(Decimal.from("0.48"))).toBe(true);
+		});
+
+		it("mirrors a missing side when enabled", () => {
+			const feed = setupWith({ mirror: true });
+
+			feed.processMessages([
+				tokenUpdate(yesToken, [{ price: "0.48", size: "30" }], [{ price: "0.52", size: "25" }]),
+			]);
+
+			const no = feed.getMarketBooks(cid)?.no;
+			expect(no?.bids.map((l) => l.price.toString())).toEqual(["0.48"]);
+			expect(no?.asks.map((l) => l.price.toString())).toEqual(["0.52"]);
+			expect(feed.getMarketBooks(cid)?.no).toBe(no);
+			expect(feed.getTokenBook(noToken)).toBeNull();
+		});
+
+		it("leaves a missing side empty without mirroring", () => {
+			const feed = setupWith();
+
+			feed.processMessages([tokenUpdate(yesToken, [{ price: "0.48", size: "30" }], [])]);
+
+			expect(feed.getMarketBooks(cid)?.no).toBeNull();
+		});
+
+		it("invalidates both books when they disagree beyond maxDisagreement", () => {
+			const feed = setupWith({ maxDisagreement: Decimal.from("0.02") });
+
+			feed.processMessages([
+				tokenUpdate(yesToken, [{ price: "0.48", size: "30" }], [{ price: "0.52", size: "25" }]),
+				tokenUpdate(noToken, [{ price: "0.47", size: "10" }], [{ price: "0.53", size: "10" }]),
+			]);
+			expect(feed.disagreement(cid)?.toString()).toBe("0.01");
+			expect(feed.isBookValid(cid)).toBe(true);
+
+			feed.processMessages([
+				tokenUpdate(
+					noToken,
+					[
+						{ price: "0.47", size: "0" },
+						{ price: "0.40", size: "10" },
+					],
+					[],
+					2000,
+				),
+			]);
+
+			expect(feed.invalidReason(cid)).toBe(BookInvalidReason.Disagreement);
+			expect(feed.getMarketBooks(cid)).toEqual({ yes: null, no: null });
+		});
+
+		it("checks agreement after the whole batch", () => {
+			const feed = setupWith({ maxDisagreement: Decimal.from("0.02") });
+
+			feed.processMessages([
+				tokenUpdate(yesToken, [{ price: "0.48", size: "30" }], [{ price: "0.52", size: "25" }]),
+				tokenUpdate(noToken, [{ price: "0.47", size: "10" }], [{ price: "0.53", size: "10" }]),
+			]);
+			// The YES touch moves up ten cents; the NO book follows in the next message
+			feed.processMessages([
+				tokenUpdate(yesToken, [{ price: "0.58", size: "30" }], [{ price: "0.52", size: "0" }]),
+				tokenUpdate(noToken, [{ price: "0.47", size: "0" }], [{ price: "0.42", size: "10" }]),
+			]);
+
+			expect(feed.isBookValid(cid)).toBe(true);
+		});
+
+		it("requests the invalid token's snapshot", async () => {
+			const requested: Array<[ConditionId, MarketTokenId | undefined]> = [];
+			const feed = setupWith({
+				snapshotProvider: {
+					getSnapshot: async (id, tokenId) => {
+						requested.push([id, tokenId]);
+						return { bids: [], asks: [], timestampMs: 900 };
+					},
+				},
+			});
+			feed.processMessages([
+				tokenUpdate(yesToken, [{ price: "0.48", size: "30" }], []),
+				tokenUpdate(noToken, [{ price: "0.47", size: "10" }], []),
+			]);
+
+			feed.invalidate(cid, BookInvalidReason.Reconnect);
+			await feed.resynced();
+
+			expect(requested).toEqual([
+				[cid, yesToken],
+				[cid, noToken],
+			]);
+			expect(feed.isBookValid(cid)).toBe(true);
+		});
+	});
 });
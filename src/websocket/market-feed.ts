@@ -1,31 +1,135 @@
+import type { TokenInfo } from "../ctf/types.js";
 import type { ConnectivityWatchdog } from "../lifecycle/watchdog.js";
-import { applyDelta } from "../market/orderbook.js";
-import type { OrderbookDelta, OrderbookLevel, OrderbookSnapshot } from "../market/types.js";
+import { applyDelta, bestAsk, bestBid, bookDisagreement } from "../market/orderbook.js";
+import { TokenBookIndex } from "../market/token-books.js";
+import type {
+	BookSnapshotProvider,
+	MarketBooks,
+	OrderbookDelta,
+	OrderbookLevel,
+	OrderbookSnapshot,
+} from "../market/types.js";
 import { Decimal } from "../shared/decimal.js";
-import type { ConditionId } from "../shared/identifiers.js";
-import type { BookUpdate, WsMessage } from "./types.js";
+import { classifyError } from "../shared/errors.js";
+import type { TradingError } from "../shared/errors.js";
+import type { ConditionId, MarketTokenId } from "../shared/identifiers.js";
+import { SystemClock } from "../shared/time.js";
+import type { Clock } from "../shared/time.js";
+import type { BookSnapshot, BookUpdate, WsMessage } from "./types.js";
+
+/** Why MarketFeed stopped trusting a book. */
+export const BookInvalidReason = {
+	/** A BookUpdate skipped a sequence number */
+	Gap: "gap",
+	/** The book's hash disagrees with the hash the feed reported */
+	HashMismatch: "hash_mismatch",
+	/** The best bid reached the best ask */
+	Crossed: "crossed",
+	/** The connection dropped, so updates may have been missed */
+	Reconnect: "reconnect",
+	/** The YES and NO books of a market price the outcome differently */
+	Disagreement: "disagreement",
+} as const;
+
+export type BookInvalidReason = (typeof BookInvalidReason)[keyof typeof BookInvalidReason];
+
+/**
+ * Computes the feed's hash of a book, to compare with the hash a message carries.
+ * Receives the book after the message was applied.
+ */
+export type BookHasher = (book: OrderbookSnapshot, message: BookUpdate | BookSnapshot) => string;
 
 export interface MarketFeedConfig {
 	maxBooks?: number;
+	/** Fetches a fresh book when one is invalidated. Without one, only a BookSnapshot message revalidates it */
+	snapshotProvider?: BookSnapshotProvider;
+	/** Verifies message hashes. Without one, hashes are not checked */
+	hasher?: BookHasher;
+	/** Minimum time between snapshot requests for one book. Default: 1000 */
+	resyncIntervalMs?: number;
+	clock?: Clock;
+	/** Markets whose YES and NO tokens are known; register more with registerMarket() */
+	markets?: readonly TokenInfo[];
+	/** Derive a missing side of a registered market from the other side. Default: false */
+	mirror?: boolean;
+	/**
+	 * Invalidates both books of a registered market when the NO book strays
+	 * further than this from the mirrored YES book. Default: not checked
+	 */
+	maxDisagreement?: Decimal;
 }
 
 const DEFAULT_MAX_BOOKS = 100;
+const DEFAULT_RESYNC_INTERVAL_MS = 1_000;
+
+/** Updates held per invalid book while a snapshot is fetched; older ones are dropped. */
+const MAX_BUFFERED_UPDATES = 1_000;
+
+/** Maximum number of resync errors kept until drained. */
+const MAX_RESYNC_ERRORS = 100;
+
+interface BookEntry {
+	readonly conditionId: ConditionId;
+	/** Set for books held per token, null for a market's single book */
+	readonly tokenId: MarketTokenId | null;
+	book: OrderbookSnapshot;
+	sequence: number | null;
+	invalid: BookInvalidReason | null;
+	/** Updates received while invalid, replayed on top of the next fetched snapshot */
+	buffered: BookUpdate[];
+	resyncing: boolean;
+	lastResyncAtMs: number | null;
+}
 
 /**
- * Maintains per-condition orderbook snapshots from BookUpdate messages.
+ * Maintains orderbook snapshots from BookUpdate and BookSnapshot messages.
  *
  * Each incoming BookUpdate is parsed into Decimal levels, applied as a delta
  * to the stored snapshot, and touches the watchdog to signal feed liveness.
+ * A BookSnapshot replaces the stored snapshot outright.
+ *
+ * Books are held per token, keyed by the message's assetId; messages without
+ * one update a single book per condition. Registered markets are read through
+ * getMarketBooks() or getTokenBook(), and getBook() serves their YES side.
+ * For other markets the feed cannot tell YES from NO, so getBook() serves the
+ * book it received first; register the market to pick the side.
+ *
+ * Books are checked after every message: a skipped sequence number, a hash
+ * mismatch or a crossed book marks the book invalid. An invalid book is not
+ * served by getBook() and reports isBookValid() false, so BookStalenessGuard
+ * blocks entries. It becomes valid again on the next BookSnapshot message or,
+ * with a snapshot provider, once a fetched snapshot has been applied together
+ * with the updates received in the meantime.
  */
 export class MarketFeed {
 	private readonly watchdog: ConnectivityWatchdog;
 	private readonly maxBooks: number;
-	private readonly books: Map<string, OrderbookSnapshot> = new Map();
+	private readonly snapshotProvider: BookSnapshotProvider | null;
+	private readonly hasher: BookHasher | null;
+	private readonly resyncIntervalMs: number;
+	private readonly clock: Clock;
+	private readonly books: Map<string, BookEntry> = new Map();
 	private readonly accessOrder: string[] = [];
+	private readonly inFlight: Set<Promise<void>> = new Set();
+	private readonly _resyncErrors: TradingError[] = [];
+	private readonly tokens: TokenBookIndex;
+	private readonly maxDisagreement: Decimal | null;
 
 	constructor(watchdog: ConnectivityWatchdog, config: MarketFeedConfig = {}) {
 		this.watchdog = watchdog;
 		this.maxBooks = config.maxBooks ?? DEFAULT_MAX_BOOKS;
+		this.snapshotProvider = config.snapshotProvider ?? null;
+		this.hasher = config.hasher ?? null;
+		this.resyncIntervalMs = config.resyncIntervalMs ?? DEFAULT_RESYNC_INTERVAL_MS;
+		this.clock = config.clock ?? SystemClock;
+		this.tokens = new TokenBookIndex(config.mirror ?? false);
+		this.maxDisagreement = config.maxDisagreement ?? null;
+		for (const market of config.markets ?? []) this.tokens.register(market);
+	}
+
+	/** Tells the feed which of the market's tokens is YES and which is NO. */
+	registerMarket(market: TokenInfo): void {
+		this.tokens.register(market);
 	}
 
 	/**
@@ -33,38 +137,151 @@ export class MarketFeed {
 	 * @param messages - Array of WebSocket messages to process
 	 */
 	processMessages(messages: readonly WsMessage[]): void {
+		const touched = new Set<ConditionId>();
 		for (const msg of messages) {
 			if (msg.type === "book_update") {
 				this.applyBookUpdate(msg);
 				this.watchdog.touch();
+				touched.add(msg.conditionId);
+			} else if (msg.type === "book_snapshot") {
+				this.applyBookSnapshot(msg);
+				this.watchdog.touch();
+				touched.add(msg.conditionId);
 			}
 		}
+		// Checked per batch: a price change moves both books in consecutive messages
+		for (const cid of touched) this.checkAgreement(cid);
 	}
 
 	/**
 	 * Returns the current orderbook snapshot for a condition.
 	 * @param cid - The condition ID to look up
-	 * @returns The orderbook snapshot, or null if no data received yet
+	 * @returns The orderbook snapshot (the YES side for registered markets, the
+	 *   first book received otherwise), or null if no data received yet or the book is invalid
 	 */
 	getBook(cid: ConditionId): OrderbookSnapshot | null {
-		const key = cid as string;
-		const book = this.books.get(key) ?? null;
-		if (book !== null) {
-			this.touch(key);
+		const market = this.getMarketBooks(cid);
+		if (market !== null) return market.yes;
+		const [first] = this.keysOf(cid);
+		return first === undefined ? null : this.read(first);
+	}
+
+	/** The book held for a token, or null if none is held or it is invalid. */
+	getTokenBook(tokenId: MarketTokenId): OrderbookSnapshot | null {
+		return this.read(tokenId as string);
+	}
+
+	/** Both sides of a registered market, or null for markets whose tokens are not registered. */
+	getMarketBooks(cid: ConditionId): MarketBooks | null {
+		return this.tokens.marketBooks(cid, (tokenId) => this.read(tokenId as string));
+	}
+
+	/**
+	 * How far the NO book strays from the mirrored YES book (see bookDisagreement),
+	 * or null unless both valid token books of a registered market are held.
+	 */
+	disagreement(cid: ConditionId): Decimal | null {
+		const info = this.tokens.tokensOf(cid);
+		if (info === null) return null;
+		const yes = this.peek(info.yesTokenId as string);
+		const no = this.peek(info.noTokenId as string);
+		return yes === null || no === null ? null : bookDisagreement(yes, no);
+	}
+
+	/** False while a book for `cid` is invalid; books never received count as valid. */
+	isBookValid(cid: ConditionId): boolean {
+		return this.invalidReason(cid) === null;
+	}
+
+	/** Why a book for `cid` is invalid, or null when it is valid or unknown. */
+	invalidReason(cid: ConditionId): BookInvalidReason | null {
+		for (const key of this.keysOf(cid)) {
+			const reason = this.books.get(key)?.invalid ?? null;
+			if (reason !== null) return reason;
+		}
+		return null;
+	}
+
+	/**
+	 * Marks a market's books invalid and requests fresh snapshots, e.g. when the
+	 * caller knows messages were lost. Unknown books are ignored.
+	 */
+	invalidate(cid: ConditionId, reason: BookInvalidReason): void {
+		for (const key of this.keysOf(cid)) {
+			const entry = this.books.get(key);
+			if (entry !== undefined) this.markInvalid(key, entry, reason);
+		}
+	}
+
+	/** Invalidates every held book, e.g. after the WebSocket reconnected. */
+	invalidateAll(reason: BookInvalidReason): void {
+		for (const [key, entry] of this.books) {
+			this.markInvalid(key, entry, reason);
+		}
+	}
+
+	/** Resolves once in-flight snapshot requests have been applied. */
+	async resynced(): Promise<void> {
+		while (this.inFlight.size > 0) {
+			await Promise.all([...this.inFlight]);
 		}
-		return book;
+	}
+
+	/** Drains and returns snapshot request failures, clearing the internal list. */
+	drainResyncErrors(): TradingError[] {
+		return this._resyncErrors.splice(0);
 	}
 
 	/**
-	 * Explicitly removes an orderbook snapshot for a condition.
+	 * Explicitly removes the orderbook snapshots held for a condition.
 	 * @param cid - The condition ID to remove
 	 */
 	removeBook(cid: ConditionId): void {
-		const key = cid as string;
-		this.books.delete(key);
-		const idx = this.accessOrder.indexOf(key);
-		if (idx !== -1) {
-			this.accessOrder.splice(idx, 1);
+		for (const key of new Set([cid as string, ...this.keysOf(cid)])) {
+			this.books.delete(key);
+			const idx = this.accessOrder.indexOf(key);
+			if (idx !== -1) {
+				this.accessOrder.splice(idx, 1);
+			}
+		}
+	}
+
+	/**
+	 * Book keys of a market: its two tokens when registered, otherwise every
+	 * book held for the condition in the order they were first received.
+	 */
+	private keysOf(cid: ConditionId): string[] {
+		const info = this.tokens.tokensOf(cid);
+		if (info !== null) return [info.yesTokenId as string, info.noTokenId as string];
+		const keys: string[] = [];
+		for (const [key, entry] of this.books) {
+			if (entry.conditionId === cid) keys.push(key);
+		}
+		return keys;
+	}
+
+	/** The token a message updates, or null when it updates the market's single book. */
+	private tokenOf(message: BookUpdate | BookSnapshot): MarketTokenId | null {
+		return message.assetId ?? null;
+	}
+
+	/** The valid book under `key`, marking it recently used. */
+	private read(key: string): OrderbookSnapshot | null {
+		if (!this.books.has(key)) return null;
+		this.touch(key);
+		return this.peek(key);
+	}
+
+	private peek(key: string): OrderbookSnapshot | null {
+		const entry = this.books.get(key);
+		return entry !== undefined && entry.invalid === null ? entry.book : null;
+	}
+
+	private checkAgreement(cid: ConditionId): void {
+		if (this.maxDisagreement === null) return;
+		const disagreement = this.disagreement(cid);
+		if (disagreement?.gt(this.maxDisagreement)) {
+			this.invalidate(cid, BookInvalidReason.Disagreement);
 		}
 	}
 
@@ -86,14 +303,135 @@ export class MarketFeed {
 	}
 
 	private applyBookUpdate(update: BookUpdate): void {
-		const key = update.conditionId as string;
-		const existing = this.books.get(key) ?? emptyBook(update.timestampMs);
-		const delta = toDelta(update);
-		const updated = applyDelta(existing, delta);
-		this.books.set(key, { ...updated, timestampMs: update.timestampMs });
+		const tokenId = this.tokenOf(update);
+		const key = (tokenId ?? update.conditionId) as string;
+		let entry = this.books.get(key);
+		if (entry === undefined) {
+			entry = newEntry(update.conditionId, tokenId, emptyBook(update.timestampMs), null);
+			this.books.set(key, entry);
+		}
 		this.touch(key);
 		this.evictIfNeeded();
+
+		if (entry.invalid !== null) {
+			entry.buffered.push(update);
+			if (entry.buffered.length > MAX_BUFFERED_UPDATES) entry.buffered.shift();
+			this.requestSnapshot(key, entry);
+			return;
+		}
+		if (update.sequence !== undefined && entry.sequence !== null) {
+			if (update.sequence !== entry.sequence + 1) {
+				this.markInvalid(key, entry, BookInvalidReason.Gap);
+				entry.buffered.push(update);
+				return;
+			}
+		}
+		entry.book = { ...applyDelta(entry.book, toDelta(update)), timestampMs: update.timestampMs };
+		entry.sequence = update.sequence ?? entry.sequence;
+		this.verify(key, entry, update);
 	}
+
+	private applyBookSnapshot(snapshot: BookSnapshot): void {
+		const tokenId = this.tokenOf(snapshot);
+		const key = (tokenId ?? snapshot.conditionId) as string;
+		const book = applyDelta(emptyBook(snapshot.timestampMs), toDelta(snapshot));
+		const previous = this.books.get(key);
+		const entry = newEntry(snapshot.conditionId, tokenId, book, snapshot.sequence ?? null);
+		entry.lastResyncAtMs = previous?.lastResyncAtMs ?? null;
+		this.books.set(key, entry);
+		this.touch(key);
+		this.evictIfNeeded();
+		this.verify(key, entry, snapshot);
+	}
+
+	/** Checks a book after a message was applied and invalidates it if it is inconsistent. */
+	private verify(key: string, entry: BookEntry, message: BookUpdate | BookSnapshot | null): void {
+		const bid = bestBid(entry.book);
+		const ask = bestAsk(entry.book);
+		if (bid !== null && ask !== null && bid.gte(ask)) {
+			this.markInvalid(key, entry, BookInvalidReason.Crossed);
+			return;
+		}
+		if (message?.hash !== undefined && this.hasher !== null) {
+			if (this.hasher(entry.book, message) !== message.hash) {
+				this.markInvalid(key, entry, BookInvalidReason.HashMismatch);
+			}
+		}
+	}
+
+	private markInvalid(key: string, entry: BookEntry, reason: BookInvalidReason): void {
+		entry.invalid = reason;
+		entry.buffered = [];
+		this.requestSnapshot(key, entry);
+	}
+
+	/**
+	 * Fetches a snapshot unless one is already on its way or was requested
+	 * within resyncIntervalMs; later updates retry.
+	 */
+	private requestSnapshot(key: string, entry: BookEntry): void {
+		const provider = this.snapshotProvider;
+		if (provider === null || entry.resyncing) return;
+		const now = this.clock.now();
+		if (entry.lastResyncAtMs !== null && now - entry.lastResyncAtMs < this.resyncIntervalMs) {
+			return;
+		}
+		entry.resyncing = true;
+		entry.lastResyncAtMs = now;
+
+		const request = provider
+			.getSnapshot(entry.conditionId, entry.tokenId ?? undefined)
+			.then(
+				(snapshot) => this.installSnapshot(key, entry, snapshot),
+				(error: unknown) => {
+					if (this._resyncErrors.length < MAX_RESYNC_ERRORS) {
+						this._resyncErrors.push(classifyError(error));
+					}
+				},
+			)
+			.finally(() => {
+				entry.resyncing = false;
+				this.inFlight.delete(request);
+			});
+		this.inFlight.add(request);
+	}
+
+	/** Applies a fetched snapshot and replays the updates that arrived after it. */
+	private installSnapshot(key: string, entry: BookEntry, snapshot: OrderbookSnapshot): void {
+		// The book was evicted, removed or revalidated by a snapshot message meanwhile
+		if (this.books.get(key) !== entry || entry.invalid === null) return;
+
+		entry.book = applyDelta(emptyBook(snapshot.timestampMs), snapshot);
+		entry.sequence = null;
+		entry.invalid = null;
+		const replay = entry.buffered.filter((u) => u.timestampMs > snapshot.timestampMs);
+		entry.buffered = [];
+		this.verify(key, entry, null);
+		for (const update of replay) {
+			if (entry.invalid !== null) break;
+			entry.book = { ...applyDelta(entry.book, toDelta(update)), timestampMs: update.timestampMs };
+			entry.sequence = update.sequence ?? entry.sequence;
+			this.verify(key, entry, update);
+		}
+	}
+}
+
+function newEntry(
+	cid: ConditionId,
+	tokenId: MarketTokenId | null,
+	book: OrderbookSnapshot,
+	sequence: number | null,
+): BookEntry {
+	return {
+		conditionId: cid,
+		tokenId,
+		book,
+		sequence,
+		invalid: null,
+		buffered: [],
+		resyncing: false,
+		lastResyncAtMs: null,
+	};
 }
 
 function emptyBook(timestampMs: number): OrderbookSnapshot {
@@ -104,7 +442,7 @@ function parseLevel(raw: { readonly price: string; readonly size: string }): Ord
 	return { price: Decimal.from(raw.price), size: Decimal.from(raw.size) };
 }
 
-function toDelta(update: BookUpdate): OrderbookDelta {
+function toDelta(update: BookUpdate | BookSnapshot): OrderbookDelta {
 	return {
 		bids: update.bids.map(parseLevel),
 		asks: update.asks.map(parseLevel),
@@ -1,10 +1,12 @@
 import { describe, expect, it } from "vitest";
 import type { WsState } from "../lib/websocket/types.js";
+import { Decimal } from "../shared/decimal.js";
 import type { TradingError } from "../shared/errors.js";
-import { conditionId } from "../shared/identifiers.js";
+import { conditionId, marketTokenId } from "../shared/identifiers.js";
 import type { Result } from "../shared/result.js";
 import { ok } from "../shared/result.js";
 import { MultiMarketManager } from "./multi-market.js";
+import { PolymarketProtocol } from "./polymarket-protocol.js";
 import { WsManager } from "./ws-manager.js";
 
 class StubWsClient {
@@ -72,6 +74,32 @@ describe("MultiMarketManager", () => {
 		expect(msg).toEqual({ action: "subscribe", channel: "book", assets: ["cond-1"] });
 	});
 
+	it("replaces a market's book on a Polymarket book snapshot", async () => {
+		const client = new StubWsClient();
+		const wsManager = new WsManager(client, { protocol: PolymarketProtocol.create() });
+		await wsManager.connect();
+		const mmManager = new MultiMarketManager(wsManager);
+		mmManager.addMarket(conditionId("cond-1"));
+		const book = (bids: { price: string; size: string }[], timestamp: string) =>
+			JSON.stringify({
+				event_type: "book",
+				asset_id: "1",
+				market: "cond-1",
+				bids,
+				asks: [],
+				timestamp,
+				hash: "0x0",
+			});
+
+		client.simulateMessage(book([{ price: "0.50", size: "100" }], "1757908892000"));
+		client.simulateMessage(book([{ price: "0.48", size: "30" }], "1757908893000"));
+		mmManager.processUpdates();
+
+		const held = mmManager.getBook(conditionId("cond-1"));
+		expect(held?.bids.map((l) => l.price.toString())).toEqual(["0.48"]);
+		expect(held?.timestampMs).toBe(1757908893000);
+	});
+
 	it("removeMarket only unsubscribes when no markets remain", async () => {
 		const client = new StubWsClient();
 		const wsManager = new WsManager(client);
@@ -366,4 +394,113 @@ describe("MultiMarketManager", () => {
 		// Double drain is empty
 		expect(mmManager.drainParseErrors()).toHaveLength(0);
 	});
+
+	describe("token-level markets", () => {
+		const market = {
+			conditionId: conditionId("cond-1"),
+			yesTokenId: marketTokenId("tok-yes"),
+			noTokenId: marketTokenId("tok-no"),
+		};
+
+		function tokenUpdateJson(assetId: string, bid: string, ask: string): string {
+			return JSON.stringify({
+				type: "book_update",
+				conditionId: "cond-1",
+				assetId,
+				bids: [{ price: bid, size: "10" }],
+				asks: [{ price: ask, size: "10" }],
+				timestampMs: 1000,
+			});
+		}
+
+		it("subscribes to both tokens and holds a book per token", async () => {
+			const client = new StubWsClient();
+			const wsManager = new WsManager(client);
+			await wsManager.connect();
+			const mmManager = new MultiMarketManager(wsManager);
+
+			mmManager.addMarket(market);
+			client.simulateMessage(tokenUpdateJson("tok-yes", "0.48", "0.52"));
+			client.simulateMessage(tokenUpdateJson("tok-no", "0.47", "0.53"));
+			mmManager.processUpdates();
+
+			expect(JSON.parse(client.sent[0] ?? "")).toEqual({
+				action: "subscribe",
+				channel: "book",
+				assets: ["tok-yes", "tok-no"],
+			});
+			const books = mmManager.getMarketBooks(market.conditionId);
+			expect(books?.yes?.bids[0]?.price.toString()).toBe("0.48");
+			expect(books?.no?.bids[0]?.price.toString()).toBe("0.47");
+			expect(mmManager.getBook(market.conditionId)).toBe(books?.yes);
+			expect(mmManager.getTokenBook(market.noTokenId)).toBe(books?.no);
+		});
+
+		it("keeps the tokens' books apart for a market added by condition id", async () => {
+			const client = new StubWsClient();
+			const wsManager = new WsManager(client);
+			await wsManager.connect();
+			const mmManager = new MultiMarketManager(wsManager);
+
+			mmManager.addMarket(market.conditionId);
+			client.simulateMessage(tokenUpdateJson("tok-yes", "0.48", "0.52"));
+			client.simulateMessage(tokenUpdateJson("tok-no", "0.47", "0.53"));
+			mmManager.processUpdates();
+
+			const book = mmManager.getBook(market.conditionId);
+			expect(book?.bids.map((l) => l.price.toString())).toEqual(["0.48"]);
+			expect(book?.asks.map((l) => l.price.toString())).toEqual(["0.52"]);
+			expect(mmManager.getTokenBook(market.noTokenId)?.bids[0]?.price.toString()).toBe("0.47");
+
+			mmManager.removeMarket(market.conditionId);
+			expect(mmManager.getTokenBook(market.noTokenId)).toBeNull();
+		});
+
+		it("mirrors the missing side when enabled", async () => {
+			const client = new StubWsClient();
+			const wsManager = new WsManager(client);
+			await wsManager.connect();
+			const mmManager = new MultiMarketManager(wsManager, { mirror: true });
+
+			mmManager.addMarket(market);
+			client.simulateMessage(tokenUpdateJson("tok-yes", "0.48", "0.52"));
+			mmManager.processUpdates();
+
+			const no = mmManager.getMarketBooks(market.conditionId)?.no;
+			expect(no?.bids.map((l) => l.price.toString())).toEqual(["0.48"]);
+			expect(no?.asks.map((l) => l.price.toString())).toEqual(["0.52"]);
+		});
+
+		it("reports the books invalid while they disagree beyond maxDisagreement", async () => {
+			const client = new StubWsClient();
+			const wsManager = new WsManager(client);
+			await wsManager.connect();
+			const mmManager = new MultiMarketManager(wsManager, {
+				maxDisagreement: Decimal.from("0.02"),
+			});
+
+			mmManager.addMarket(market);
+			client.simulateMessage(tokenUpdateJson("tok-yes", "0.48", "0.52"));
+			client.simulateMessage(tokenUpdateJson("tok-no", "0.40", "0.60"));
+			mmManager.processUpdates();
+
+			expect(mmManager.disagreement(market.conditionId)?.toString()).toBe("0.08");
+			expect(mmManager.isBookValid(market.conditionId)).toBe(false);
+		});
+
+		it("drops the token books with the market", async () => {
+			const client = new StubWsClient();
+			const wsManager = new WsManager(client);
+			await wsManager.connect();
+			const mmManager = new MultiMarketManager(wsManager);
+			mmManager.addMarket(market);
+			client.simulateMessage(tokenUpdateJson("tok-yes", "0.48", "0.52"));
+			mmManager.processUpdates();
+
+			mmManager.removeMarket(market.conditionId);
+
+			expect(mmManager.getTokenBook(market.yesTokenId)).toBeNull();
+			expect(mmManager.getMarketBooks(market.conditionId)).toBeNull();
+		});
+	});
 });
@@ -1,30 +1,68 @@
-import { applyDelta as canonicalApplyDelta } from "../market/orderbook.js";
-import type { OrderbookSnapshot } from "../market/types.js";
+import type { TokenInfo } from "../ctf/types.js";
+import { bookDisagreement, applyDelta as canonicalApplyDelta } from "../market/orderbook.js";
+import { TokenBookIndex } from "../market/token-books.js";
+import type { MarketBooks, OrderbookSnapshot } from "../market/types.js";
 import { Decimal } from "../shared/decimal.js";
 import type { TradingError } from "../shared/errors.js";
-import type { ConditionId } from "../shared/identifiers.js";
+import type { ConditionId, MarketTokenId } from "../shared/identifiers.js";
 import type { Result } from "../shared/result.js";
 import { ok } from "../shared/result.js";
-import type { BookUpdate } from "./types.js";
+import type { BookSnapshot, BookUpdate } from "./types.js";
 import type { WsManager } from "./ws-manager.js";
 
+export interface MultiMarketManagerConfig {
+	/** Derive a missing side of a token-level market from the other side. Default: false */
+	mirror?: boolean;
+	/**
+	 * A token-level market reports isBookValid() false while its NO book strays
+	 * further than this from the mirrored YES book. Default: not checked
+	 */
+	maxDisagreement?: Decimal;
+}
+
+/**
+ * Holds books for a set of markets fed by one WsManager.
+ *
+ * Books are held per token, keyed by each message's assetId; messages without
+ * one update a single book for the condition. A market added with its TokenInfo
+ * subscribes to both tokens, read through getMarketBooks() or getTokenBook(),
+ * and getBook() serves its YES side. For a market added by condition id the
+ * sides are unknown, so getBook() serves the book received first.
+ */
 export class MultiMarketManager {
-	private readonly books: Map<ConditionId, OrderbookSnapshot> = new Map();
+	private readonly books: Map<string, OrderbookSnapshot> = new Map();
 	private readonly markets: Set<ConditionId> = new Set();
+	/** Book keys held per market, in the order their first message arrived. */
+	private readonly keys: Map<string, string[]> = new Map();
 	private readonly _parseErrors: Error[] = [];
+	private readonly tokens: TokenBookIndex;
+	private readonly maxDisagreement: Decimal | null;
+
+	constructor(
+		private readonly wsManager: WsManager,
+		config: MultiMarketManagerConfig = {},
+	) {
+		this.tokens = new TokenBookIndex(config.mirror ?? false);
+		this.maxDisagreement = config.maxDisagreement ?? null;
+	}
 
-	constructor(private readonly wsManager: WsManager) {}
-
-	addMarket(conditionId: ConditionId): Result<void, TradingError> {
+	addMarket(market: ConditionId | TokenInfo): Result<void, TradingError> {
+		const conditionId = typeof market === "string" ? market : market.conditionId;
 		if (this.markets.has(conditionId)) {
 			return ok(undefined);
 		}
 
 		this.markets.add(conditionId);
+		if (typeof market !== "string") {
+			this.tokens.register(market);
+		}
 
 		return this.wsManager.subscribe({
 			channel: "book",
-			assets: [conditionId as string],
+			assets:
+				typeof market === "string"
+					? [conditionId as string]
+					: [market.yesTokenId as string, market.noTokenId as string],
 		});
 	}
 
@@ -34,7 +72,11 @@ export class MultiMarketManager {
 		}
 
 		this.markets.delete(conditionId);
-		this.books.delete(conditionId);
+		for (const key of this.keys.get(conditionId) ?? []) {
+			this.books.delete(key);
+		}
+		this.keys.delete(conditionId);
+		this.tokens.unregister(conditionId);
 
 		// Only unsubscribe from the book channel if no markets remain
 		if (this.markets.size === 0) {
@@ -43,22 +85,49 @@ export class MultiMarketManager {
 	}
 
 	getBook(conditionId: ConditionId): OrderbookSnapshot | null {
-		const book = this.books.get(conditionId);
-		if (!book || book.timestampMs === 0) {
-			return null;
-		}
-		return book;
+		const market = this.getMarketBooks(conditionId);
+		if (market !== null) return market.yes;
+		const first = this.keys.get(conditionId)?.[0];
+		return first === undefined ? null : this.read(first);
+	}
+
+	/** The book of a token-level market's token, or null before any data. */
+	getTokenBook(tokenId: MarketTokenId): OrderbookSnapshot | null {
+		return this.read(tokenId);
+	}
+
+	/** Both sides of a token-level market, or null for markets added by condition id. */
+	getMarketBooks(conditionId: ConditionId): MarketBooks | null {
+		return this.tokens.marketBooks(conditionId, (tokenId) => this.read(tokenId));
+	}
+
+	/**
+	 * How far the NO book strays from the mirrored YES book (see bookDisagreement),
+	 * or null unless both token books of a token-level market are held.
+	 */
+	disagreement(conditionId: ConditionId): Decimal | null {
+		const info = this.tokens.tokensOf(conditionId);
+		if (info === null) return null;
+		const yes = this.read(info.yesTokenId);
+		const no = this.read(info.noTokenId);
+		return yes === null || no === null ? null : bookDisagreement(yes, no);
+	}
+
+	/** False while a token-level market's books disagree beyond maxDisagreement. */
+	isBookValid(conditionId: ConditionId): boolean {
+		if (this.maxDisagreement === null) return true;
+		const disagreement = this.disagreement(conditionId);
+		return disagreement === null || disagreement.lte(this.maxDisagreement);
 	}
 
 	processUpdates(): void {
 		const messages = this.wsManager.drain();
 
 		for (const msg of messages) {
-			if (msg.type !== "book_update") continue;
+			if (msg.type !== "book_update" && msg.type !== "book_snapshot") continue;
 
-			const bookUpdate = msg as BookUpdate;
 			try {
-				this.applyBookUpdate(bookUpdate);
+				this.applyBookUpdate(msg);
 			} catch (e: unknown) {
 				if (e instanceof Error && this._parseErrors.length < 100) {
 					this._parseErrors.push(e);
@@ -78,15 +147,30 @@ export class MultiMarketManager {
 		return [...this.markets];
 	}
 
-	private applyBookUpdate(update: BookUpdate): void {
+	private read(key: string): OrderbookSnapshot | null {
+		const book = this.books.get(key);
+		if (!book || book.timestampMs === 0) {
+			return null;
+		}
+		return book;
+	}
+
+	/** Applies a delta to the held book; a snapshot is applied to an empty one. */
+	private applyBookUpdate(update: BookUpdate | BookSnapshot): void {
 		if (!this.markets.has(update.conditionId)) {
 			return;
 		}
 
-		let book = this.books.get(update.conditionId);
+		const key = (update.assetId ?? update.conditionId) as string;
+		const keys = this.keys.get(update.conditionId) ?? [];
+		if (!keys.includes(key)) {
+			keys.push(key);
+			this.keys.set(update.conditionId, keys);
+		}
+		let book = update.type === "book_snapshot" ? undefined : this.books.get(key);
 		if (!book) {
 			book = { bids: [], asks: [], timestampMs: 0 };
-			this.books.set(update.conditionId, book);
+			this.books.set(key, book);
 		}
 
 		const delta = {
@@ -102,6 +186,6 @@ export class MultiMarketManager {
 
 		const applied = canonicalApplyDelta(book, delta);
 		const updatedBook = { ...applied, timestampMs: update.timestampMs };
-		this.books.set(update.conditionId, updatedBook);
+		this.books.set(key, updatedBook);
 	}
 }
@@ -0,0 +1,267 @@
+import { describe, expect, it } from "vitest";
+import { ValidationError } from "../lib/validation/index.js";
+import { FakeClock } from "../shared/time.js";
+import { PolymarketProtocol } from "./polymarket-protocol.js";
+import type { WsMessage } from "./types.js";
+
+const MARKET = "0xbd31dc8a20211944f6b70f31557f1001557b59905b7738480ca09bd4532f84af";
+const YES = "52114319501245915516055106046884209969926127482827954674443846427813813222426";
+const NO = "60487116984468020978247225474488676749601001829886755968952521846780452448915";
+
+function parsed(protocol: PolymarketProtocol, payload: unknown): readonly WsMessage[] {
+	const result = protocol.parse(typeof payload === "string" ? payload : JSON.stringify(payload));
+	if (!result.ok) throw result.error;
+	return result.value;
+}
+
+describe("PolymarketProtocol", () => {
+	const protocol = PolymarketProtocol.create();
+
+	describe("market channel", () => {
+		it("parses a book into a snapshot keyed by asset", () => {
+			const messages = parsed(protocol, {
+				event_type: "book",
+				asset_id: YES,
+				market: MARKET,
+				bids: [
+					{ price: "0.48", size: "30" },
+					{ price: "0.49", size: "20" },
+				],
+				asks: [{ price: "0.52", size: "25" }],
+				timestamp: "1757908892351",
+				hash: "0x0ab3",
+			});
+
+			expect(messages).toEqual([
+				{
+					type: "book_snapshot",
+					conditionId: MARKET,
+					assetId: YES,
+					bids: [
+						{ price: "0.48", size: "30" },
+						{ price: "0.49", size: "20" },
+					],
+					asks: [{ price: "0.52", size: "25" }],
+					timestampMs: 1757908892351,
+					hash: "0x0ab3",
+				},
+			]);
+		});
+
+		it("splits a price_change into one book update per asset", () => {
+			const messages = parsed(protocol, {
+				event_type: "price_change",
+				market: MARKET,
+				price_changes: [
+					{ asset_id: YES, price: "0.5", size: "200", side: "BUY", hash: "h1", best_bid: "0.5" },
+					{ asset_id: NO, price: "0.5", size: "200", side: "SELL", hash: "h2" },
+					{ asset_id: YES, price: "0.53", size: "0", side: "SELL", hash: "h3" },
+				],
+				timestamp: "1757908892351",
+			});
+
+			expect(messages).toEqual([
+				{
+					type: "book_update",
+					conditionId: MARKET,
+					assetId: YES,
+					bids: [{ price: "0.5", size: "200" }],
+					asks: [{ price: "0.53", size: "0" }],
+					timestampMs: 1757908892351,
+					hash: "h3",
+				},
+				{
+					type: "book_update",
+					conditionId: MARKET,
+					assetId: NO,
+					bids: [],
+					asks: [{ price: "0.5", size: "200" }],
+					timestampMs: 1757908892351,
+					hash: "h2",
+				},
+			]);
+		});
+
+		it("parses last trade prices and tick size changes", () => {
+			const messages = parsed(protocol, [
+				{
+					event_type: "last_trade_price",
+					asset_id: YES,
+					market: MARKET,
+					fee_rate_bps: "0",
+					price: "0.456",
+					side: "SELL",
+					size: "219.217767",
+					timestamp: "1750428146322",
+				},
+				{
+					event_type: "tick_size_change",
+					asset_id: YES,
+					market: MARKET,
+					old_tick_size: "0.01",
+					new_tick_size: "0.001",
+					timestamp: "1750428146400",
+				},
+			]);
+
+			expect(messages).toEqual([
+				{
+					type: "trade",
+					conditionId: MARKET,
+					assetId: YES,
+					side: "sell",
+					price: "0.456",
+					size: "219.217767",
+					timestampMs: 1750428146322,
+				},
+				{
+					type: "tick_size_change",
+					conditionId: MARKET,
+					assetId: YES,
+					oldTickSize: "0.01",
+					newTickSize: "0.001",
+					timestampMs: 1750428146400,
+				},
+			]);
+		});
+
+		it("skips event types it does not model", () => {
+			expect(parsed(protocol, { event_type: "best_bid_ask", market: MARKET })).toEqual([]);
+		});
+
+		it("turns PONG into a heartbeat", () => {
+			const clock = new FakeClock(5_000);
+
+			expect(parsed(PolymarketProtocol.create({ clock }), "PONG")).toEqual([
+				{ type: "heartbeat", timestampMs: 5_000 },
+			]);
+		});
+	});
+
+	describe("user channel", () => {
+		const trade = {
+			event_type: "trade",
+			id: "28c4d2eb-bbea-40e7-a9f0-b2fdb56b2c2e",
+			asset_id: YES,
+			market: MARKET,
+			status: "MATCHED",
+			side: "BUY",
+			price: "0.57",
+			size: "10",
+			taker_order_id: "0x06bc",
+			trade_owner: "key-taker",
+			owner: "key-taker",
+			maker_orders: [
+				{ order_id: "0xff35", matched_amount: "6", price: "0.57", owner: "key-maker" },
+				{ order_id: "0xaa01", matched_amount: "4", price: "0.56", owner: "key-other" },
+			],
+			timestamp: "1672290701",
+		};
+
+		it("turns a matched trade into fills for every order in it", () => {
+			expect(parsed(protocol, trade)).toEqual([
+				{
+					type: "user_fill",
+					orderId: "0x06bc",
+					filledSize: "10",
+					fillPrice: "0.57",
+					timestampMs: 1672290701000,
+				},
+				{
+					type: "user_fill",
+					orderId: "0xff35",
+					filledSize: "6",
+					fillPrice: "0.57",
+					timestampMs: 1672290701000,
+				},
+				{
+					type: "user_fill",
+					orderId: "0xaa01",
+					filledSize: "4",
+					fillPrice: "0.56",
+					timestampMs: 1672290701000,
+				},
+			]);
+		});
+
+		it("only reports the owner's orders when an owner is configured", () => {
+			const messages = parsed(PolymarketProtocol.create({ owner: "key-maker" }), trade);
+
+			expect(messages.map((m) => m.type === "user_fill" && m.orderId)).toEqual(["0xff35"]);
+		});
+
+		it("does not report a trade again as it is mined and confirmed", () => {
+			expect(parsed(protocol, { ...trade, status: "MINED" })).toEqual([]);
+			expect(parsed(protocol, { ...trade, status: "CONFIRMED" })).toEqual([]);
+		});
+
+		it("maps order events to order status", () => {
+			const order = (type: string) => ({
+				event_type: "order",
+				id: "0xff35",
+				asset_id: YES,
+				market: MARKET,
+				type,
+				price: "0.57",
+				original_size: "10",
+				size_matched: "0",
+				timestamp: "1672290687",
+			});
+
+			const messages = parsed(protocol, [
+				order("PLACEMENT"),
+				order("UPDATE"),
+				order("CANCELLATION"),
+			]);
+
+			expect(messages.map((m) => m.type === "user_order_status" && m.status)).toEqual([
+				"live",
+				"matched",
+				"cancelled",
+			]);
+			expect(messages[0]).toMatchObject({ orderId: "0xff35", timestampMs: 1672290687000 });
+		});
+	});
+
+	describe("validation", () => {
+		it("rejects frames that are not JSON", () => {
+			const result = protocol.parse("not json");
+
+			expect(!result.ok && result.error).toBeInstanceOf(ValidationError);
+		});
+
+		it("rejects the whole frame when one event is malformed", () => {
+			const result = protocol.parse(
+				JSON.stringify([
+					{
+						event_type: "tick_size_change",
+						asset_id: YES,
+						market: MARKET,
+						old_tick_size: "0.01",
+						new_tick_size: "0.001",
+						timestamp: "1",
+					},
+					{ event_type: "book", asset_id: YES, market: MARKET, bids: "none", timestamp: "1" },
+				]),
+			);
+
+			expect(result.ok).toBe(false);
+			expect(!result.ok && result.error.issues.map((i) => i.path[0])).toContain("bids");
+		});
+
+		it("rejects unknown sides and non-numeric timestamps", () => {
+			const trade = {
+				event_type: "last_trade_price",
+				asset_id: YES,
+				market: MARKET,
+				price: "0.5",
+				size: "1",
+				side: "BUY",
+				timestamp: "1750428146322",
+			};
+
+			expect(protocol.parse(JSON.stringify({ ...trade, side: "HOLD" })).ok).toBe(false);
+			expect(protocol.parse(JSON.stringify({ ...trade, timestamp: "soon" })).ok).toBe(false);
+		});
+	});
+});
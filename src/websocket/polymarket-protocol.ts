@@ -0,0 +1,274 @@
+/**
+ * PolymarketProtocol — parses Polymarket WebSocket payloads into WsMessages.
+ *
+ * The market channel sends `book` snapshots, `price_change` deltas,
+ * `last_trade_price` prints and `tick_size_change` notices, each keyed by
+ * asset (token) id. The user channel sends `trade` and `order` events for the
+ * account's orders. Frames may carry one event or an array of them; the
+ * server answers pings with a bare `PONG`.
+ */
+
+import { ValidationError, validate, z } from "../lib/validation/index.js";
+import { conditionId, exchangeOrderId, marketTokenId } from "../shared/identifiers.js";
+import { type Result, err, map, ok } from "../shared/result.js";
+import { SystemClock } from "../shared/time.js";
+import type { Clock } from "../shared/time.js";
+import { OrderDirection } from "../signal/types.js";
+import type { BookUpdate, UserFill, WsMessage } from "./types.js";
+import type { WsProtocol } from "./ws-manager.js";
+
+/** Configuration for PolymarketProtocol. */
+export interface PolymarketProtocolConfig {
+	/** Stamps heartbeats. Default: SystemClock */
+	readonly clock?: Clock | undefined;
+	/**
+	 * API key of the account. When set, user-channel trades only yield fills for
+	 * this account's orders; otherwise every order in a trade yields a fill.
+	 */
+	readonly owner?: string | undefined;
+}
+
+/** Epoch values below this are seconds; the user channel reports seconds, the market channel ms. */
+const MS_THRESHOLD = 1e12;
+
+const timestamp = z
+	.union([z.string().regex(/^\d+$/), z.number().nonnegative()])
+	.transform((value) => {
+		const n = Number(value);
+		return n < MS_THRESHOLD ? n * 1000 : n;
+	});
+
+const side = z
+	.enum(["BUY", "SELL"])
+	.transform((s) => (s === "BUY" ? OrderDirection.Buy : OrderDirection.Sell));
+
+const level = z.object({ price: z.string(), size: z.string() });
+
+const bookSchema = z.object({
+	asset_id: z.string().min(1),
+	market: z.string().min(1),
+	bids: z.array(level),
+	asks: z.array(level),
+	timestamp,
+	hash: z.string(),
+});
+
+const priceChangeSchema = z.object({
+	market: z.string().min(1),
+	price_changes: z.array(
+		z.object({
+			asset_id: z.string().min(1),
+			price: z.string(),
+			size: z.string(),
+			side,
+			hash: z.string().optional(),
+		}),
+	),
+	timestamp,
+});
+
+const lastTradeSchema = z.object({
+	asset_id: z.string().min(1),
+	market: z.string().min(1),
+	price: z.string(),
+	size: z.string(),
+	side,
+	timestamp,
+});
+
+const tickSizeSchema = z.object({
+	asset_id: z.string().min(1),
+	market: z.string().min(1),
+	old_tick_size: z.string(),
+	new_tick_size: z.string(),
+	timestamp,
+});
+
+const userTradeSchema = z.object({
+	status: z.string(),
+	price: z.string(),
+	size: z.string(),
+	taker_order_id: z.string().min(1),
+	trade_owner: z.string().optional(),
+	maker_orders: z.array(
+		z.object({
+			order_id: z.string().min(1),
+			matched_amount: z.string(),
+			price: z.string(),
+			owner: z.string().optional(),
+		}),
+	),
+	timestamp,
+});
+
+const userOrderSchema = z.object({
+	id: z.string().min(1),
+	type: z.enum(["PLACEMENT", "UPDATE", "CANCELLATION"]),
+	timestamp,
+});
+
+const eventSchema = z.object({ event_type: z.string() });
+
+type Level = BookUpdate["bids"][number];
+
+/** Order event types mapped to the status strings order trackers understand. */
+const ORDER_STATUS = {
+	PLACEMENT: "live",
+	UPDATE: "matched",
+	CANCELLATION: "cancelled",
+} as const;
+
+/**
+ * WsProtocol for the Polymarket market and user channels.
+ *
+ * A frame parses all-or-nothing: if any event in it fails validation the
+ * whole frame is rejected. Event types it does not model are skipped.
+ *
+ * @example
+ * ```ts
+ * const ws = new WsManager(client, { protocol: PolymarketProtocol.create() });
+ * ```
+ */
+export class PolymarketProtocol implements WsProtocol {
+	private readonly clock: Clock;
+	private readonly owner: string | undefined;
+
+	private constructor(config: PolymarketProtocolConfig) {
+		this.clock = config.clock ?? SystemClock;
+		this.owner = config.owner;
+	}
+
+	/** Creates a protocol adapter. */
+	static create(config: PolymarketProtocolConfig = {}): PolymarketProtocol {
+		return new PolymarketProtocol(config);
+	}
+
+	parse(data: string): Result<readonly WsMessage[], ValidationError> {
+		if (data.trim() === "PONG") {
+			return ok([{ type: "heartbeat", timestampMs: this.clock.now() }]);
+		}
+		let payload: unknown;
+		try {
+			payload = JSON.parse(data);
+		} catch {
+			return err(new ValidationError("Frame is not JSON", [{ path: [], message: "Invalid JSON" }]));
+		}
+
+		const messages: WsMessage[] = [];
+		for (const event of Array.isArray(payload) ? payload : [payload]) {
+			const parsed = this.parseEvent(event);
+			if (!parsed.ok) return parsed;
+			messages.push(...parsed.value);
+		}
+		return ok(messages);
+	}
+
+	private parseEvent(event: unknown): Result<readonly WsMessage[], ValidationError> {
+		const envelope = validate(eventSchema, event);
+		if (!envelope.ok) return envelope;
+
+		switch (envelope.value.event_type) {
+			case "book":
+				return map(validate(bookSchema, event), (book): WsMessage[] => [
+					{
+						type: "book_snapshot",
+						conditionId: conditionId(book.market),
+						assetId: marketTokenId(book.asset_id),
+						bids: book.bids,
+						asks: book.asks,
+						timestampMs: book.timestamp,
+						hash: book.hash,
+					},
+				]);
+			case "price_change":
+				return map(validate(priceChangeSchema, event), toBookUpdates);
+			case "last_trade_price":
+				return map(validate(lastTradeSchema, event), (trade): WsMessage[] => [
+					{
+						type: "trade",
+						conditionId: conditionId(trade.market),
+						assetId: marketTokenId(trade.asset_id),
+						side: trade.side,
+						price: trade.price,
+						size: trade.size,
+						timestampMs: trade.timestamp,
+					},
+				]);
+			case "tick_size_change":
+				return map(validate(tickSizeSchema, event), (change): WsMessage[] => [
+					{
+						type: "tick_size_change",
+						conditionId: conditionId(change.market),
+						assetId: marketTokenId(change.asset_id),
+						oldTickSize: change.old_tick_size,
+						newTickSize: change.new_tick_size,
+						timestampMs: change.timestamp,
+					},
+				]);
+			case "trade":
+				return map(validate(userTradeSchema, event), (trade) => this.toFills(trade));
+			case "order":
+				return map(validate(userOrderSchema, event), (order): WsMessage[] => [
+					{
+						type: "user_order_status",
+						orderId: exchangeOrderId(order.id),
+						status: ORDER_STATUS[order.type],
+						timestampMs: order.timestamp,
+					},
+				]);
+			default:
+				return ok([]);
+		}
+	}
+
+	/**
+	 * A trade is reported again as it is mined and confirmed; only the initial
+	 * match yields fills so they are not counted twice.
+	 */
+	private toFills(trade: z.infer<typeof userTradeSchema>): UserFill[] {
+		if (trade.status.toUpperCase() !== "MATCHED") return [];
+		const mine = (owner: string | undefined) => this.owner === undefined || owner === this.owner;
+		const fills: UserFill[] = [];
+		if (mine(trade.trade_owner)) {
+			fills.push({
+				type: "user_fill",
+				orderId: exchangeOrderId(trade.taker_order_id),
+				filledSize: trade.size,
+				fillPrice: trade.price,
+				timestampMs: trade.timestamp,
+			});
+		}
+		for (const maker of trade.maker_orders) {
+			if (!mine(maker.owner)) continue;
+			fills.push({
+				type: "user_fill",
+				orderId: exchangeOrderId(maker.order_id),
+				filledSize: maker.matched_amount,
+				fillPrice: maker.price,
+				timestampMs: trade.timestamp,
+			});
+		}
+		return fills;
+	}
+}
+
+/** Groups a price_change event's level changes into one BookUpdate per token. */
+function toBookUpdates(event: z.infer<typeof priceChangeSchema>): BookUpdate[] {
+	const updates = new Map<string, { bids: Level[]; asks: Level[]; hash: string | undefined }>();
+	for (const change of event.price_changes) {
+		const update = updates.get(change.asset_id) ?? { bids: [], asks: [], hash: undefined };
+		const level = { price: change.price, size: change.size };
+		(change.side === OrderDirection.Buy ? update.bids : update.asks).push(level);
+		update.hash = change.hash ?? update.hash;
+		updates.set(change.asset_id, update);
+	}
+	return [...updates].map(([assetId, update]) => ({
+		type: "book_update",
+		conditionId: conditionId(event.market),
+		assetId: marketTokenId(assetId),
+		bids: update.bids,
+		asks: update.asks,
+		timestampMs: event.timestamp,
+		...(update.hash !== undefined && { hash: update.hash }),
+	}));
+}
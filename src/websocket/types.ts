@@ -1,18 +1,67 @@
-import type { ConditionId, ExchangeOrderId } from "../shared/identifiers.js";
+import type { ConditionId, ExchangeOrderId, MarketTokenId } from "../shared/identifiers.js";
+import type { OrderDirection } from "../signal/types.js";
 
 export interface Subscription {
 	readonly channel: string;
 	readonly assets: readonly string[];
 }
 
-export type WsMessage = BookUpdate | UserFill | UserOrderStatus | Heartbeat;
+export type WsMessage =
+	| BookUpdate
+	| BookSnapshot
+	| MarketTrade
+	| TickSizeChange
+	| UserFill
+	| UserOrderStatus
+	| Heartbeat;
 
+/** Level changes to apply to a book; a level with size "0" is removed. */
 export interface BookUpdate {
 	readonly type: "book_update";
 	readonly conditionId: ConditionId;
 	readonly bids: readonly { readonly price: string; readonly size: string }[];
 	readonly asks: readonly { readonly price: string; readonly size: string }[];
 	readonly timestampMs: number;
+	/** Token whose book changed, when the feed reports it */
+	readonly assetId?: MarketTokenId | undefined;
+	/** Exchange hash of the book after the change, when the feed reports it */
+	readonly hash?: string | undefined;
+	/** Per-book sequence number, when the feed numbers its messages */
+	readonly sequence?: number | undefined;
+}
+
+/** A token's full book, replacing whatever was held for it. */
+export interface BookSnapshot {
+	readonly type: "book_snapshot";
+	readonly conditionId: ConditionId;
+	readonly assetId: MarketTokenId;
+	readonly bids: readonly { readonly price: string; readonly size: string }[];
+	readonly asks: readonly { readonly price: string; readonly size: string }[];
+	readonly timestampMs: number;
+	readonly hash: string;
+	/** Sequence number the next BookUpdate continues from, when the feed numbers its messages */
+	readonly sequence?: number | undefined;
+}
+
+/** A trade printed in a market; `side` is the taker's. */
+export interface MarketTrade {
+	readonly type: "trade";
+	readonly conditionId: ConditionId;
+	readonly assetId: MarketTokenId;
+	readonly side: OrderDirection;
+	readonly price: string;
+	readonly size: string;
+	readonly timestampMs: number;
+}
+
+/** The minimum price increment of a token changed. */
+export interface TickSizeChange {
+	readonly type: "tick_size_change";
+	readonly conditionId: ConditionId;
+	readonly assetId: MarketTokenId;
+	readonly oldTickSize: string;
+	readonly newTickSize: string;
+	readonly timestampMs: number;
 }
 
 export interface UserFill {
@@ -5,6 +5,7 @@ import type { TradingError } from "../shared/errors.js";
 import type { Result } from "../shared/result.js";
 import { err, ok } from "../shared/result.js";
 import { FakeClock } from "../shared/time.js";
+import { PolymarketProtocol } from "./polymarket-protocol.js";
 import { ReconnectionPolicy } from "./reconnection.js";
 import { WsManager } from "./ws-manager.js";
 
@@ -103,6 +104,18 @@ describe("WsManager", () => {
 		expect(manager.drain()).toHaveLength(0);
 	});
 
+	it("close closes the client and discards buffered messages", async () => {
+		const client = new StubWsClient();
+		const manager = new WsManager(client);
+		await manager.connect();
+
+		client.simulateMessage(bookUpdateJson());
+		manager.close();
+
+		expect(client.getState()).toBe("closed");
+		expect(manager.drain()).toEqual([]);
+	});
+
 	it("drain returns empty array when no messages", async () => {
 		const client = new StubWsClient();
 		const manager = new WsManager(client);
@@ -223,6 +236,64 @@ describe("WsManager", () => {
 		expect(manager.drain()).toHaveLength(0);
 	});
 
+	describe("protocol", () => {
+		it("buffers every message a frame parses into", async () => {
+			const client = new StubWsClient();
+			const manager = new WsManager(client, { protocol: PolymarketProtocol.create() });
+			await manager.connect();
+
+			client.simulateMessage(
+				JSON.stringify({
+					event_type: "price_change",
+					market: "cond-1",
+					price_changes: [
+						{ asset_id: "1", price: "0.5", size: "10", side: "BUY" },
+						{ asset_id: "2", price: "0.5", size: "10", side: "SELL" },
+					],
+					timestamp: "1757908892351",
+				}),
+			);
+
+			expect(manager.drain().map((m) => m.type === "book_update" && m.assetId)).toEqual(["1", "2"]);
+		});
+
+		it("collects rejected frames and keeps them out of the buffer and heartbeat", async () => {
+			const client = new StubWsClient();
+			const clock = new FakeClock(1000);
+			const manager = new WsManager(client, {
+				protocol: PolymarketProtocol.create({ clock }),
+				heartbeatTimeoutMs: 60_000,
+				clock,
+			});
+			await manager.connect();
+			clock.advance(61_000);
+
+			client.simulateMessage(JSON.stringify({ event_type: "book", market: "cond-1" }));
+
+			expect(manager.drain()).toHaveLength(0);
+			expect(manager.checkHeartbeat()).toBe("stale");
+			expect(manager.drainParseErrors()).toHaveLength(1);
+			expect(manager.drainParseErrors()).toHaveLength(0);
+		});
+
+		it("counts frames without modelled messages as liveness", async () => {
+			const client = new StubWsClient();
+			const clock = new FakeClock(1000);
+			const manager = new WsManager(client, {
+				protocol: PolymarketProtocol.create({ clock }),
+				heartbeatTimeoutMs: 60_000,
+				clock,
+			});
+			await manager.connect();
+			clock.advance(61_000);
+
+			client.simulateMessage(JSON.stringify({ event_type: "best_bid_ask" }));
+
+			expect(manager.drain()).toHaveLength(0);
+			expect(manager.checkHeartbeat()).toBe("healthy");
+		});
+	});
+
 	describe("subscription key collision", () => {
 		it("multiple assets on same channel are all preserved", async () => {
 			const client = new StubWsClient();
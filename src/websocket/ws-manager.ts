@@ -1,3 +1,4 @@
+import type { ValidationError } from "../lib/validation/index.js";
 import type { WsState } from "../lib/websocket/types.js";
 import type { TradingError } from "../shared/errors.js";
 import type { Result } from "../shared/result.js";
@@ -12,8 +13,21 @@ export interface WsManagerConfig {
 	maxBufferSize?: number;
 	clock?: Clock;
 	reconnectionPolicy?: ReconnectionPolicy;
+	/** Parses incoming frames. Default: the SDK's own message shape, invalid frames dropped */
+	protocol?: WsProtocol;
 }
 
+/**
+ * Translates raw frames from a venue's WebSocket into WsMessages.
+ * A frame may carry any number of messages, including none.
+ */
+export interface WsProtocol {
+	parse(data: string): Result<readonly WsMessage[], ValidationError>;
+}
+
+/** Maximum number of parse errors kept until drained. */
+const MAX_PARSE_ERRORS = 100;
+
 /**
  * Minimal interface for the underlying WebSocket client.
  * Allows injection of stubs for testing.
@@ -52,6 +66,8 @@ export class WsManager {
 	private lastMessageAtMs: number | null = null;
 	private _replayErrors: TradingError[] = [];
 	private readonly reconnectionPolicy: ReconnectionPolicy | undefined;
+	private readonly protocol: WsProtocol | undefined;
+	private readonly _parseErrors: ValidationError[] = [];
 
 	constructor(client: WsClientLike, config: WsManagerConfig = {}) {
 		this.client = client;
@@ -59,6 +75,7 @@ export class WsManager {
 		this.maxBufferSize = config.maxBufferSize ?? -1;
 		this.clock = config.clock ?? SystemClock;
 		this.reconnectionPolicy = config.reconnectionPolicy ?? undefined;
+		this.protocol = config.protocol;
 		this.client.onMessage((data) => this.handleMessage(data));
 	}
 
@@ -71,6 +88,11 @@ export class WsManager {
 		return this._replayErrors;
 	}
 
+	/** Drains and returns frames the protocol rejected, clearing the internal list. */
+	drainParseErrors(): ValidationError[] {
+		return this._parseErrors.splice(0);
+	}
+
 	/** Returns true if no message has been received within the heartbeat timeout. */
 	isHeartbeatStale(): boolean {
 		if (this.heartbeatTimeoutMs < 0) {
@@ -139,6 +161,12 @@ export class WsManager {
 		return messages.map((m) => m.message);
 	}
 
+	/** Closes the underlying connection and discards buffered messages. Subscriptions are kept. */
+	close(): void {
+		this.client.close();
+		this.buffer = [];
+	}
+
 	/** Closes the connection, clears buffers, reconnects, and replays subscriptions. */
 	async reconnect(): Promise<void> {
 		const policy = this.reconnectionPolicy;
@@ -177,15 +205,30 @@ export class WsManager {
 	}
 
 	private handleMessage(data: string): void {
-		const parsed = parseMessage(data);
-		if (parsed !== null) {
-			this.buffer.push({ message: parsed, generation: this._generation });
-			if (this.maxBufferSize > 0 && this.buffer.length > this.maxBufferSize) {
-				const dropCount = this.buffer.length - this.maxBufferSize;
-				this.buffer.splice(0, dropCount);
-			}
-			this.lastMessageAtMs = this.clock.now();
+		const messages = this.parse(data);
+		if (messages === null) return;
+		for (const message of messages) {
+			this.buffer.push({ message, generation: this._generation });
+		}
+		if (this.maxBufferSize > 0 && this.buffer.length > this.maxBufferSize) {
+			const dropCount = this.buffer.length - this.maxBufferSize;
+			this.buffer.splice(0, dropCount);
 		}
+		this.lastMessageAtMs = this.clock.now();
+	}
+
+	/** Messages in a frame, or null when the frame is invalid. */
+	private parse(data: string): readonly WsMessage[] | null {
+		if (this.protocol === undefined) {
+			const parsed = parseMessage(data);
+			return parsed === null ? null : [parsed];
+		}
+		const parsed = this.protocol.parse(data);
+		if (parsed.ok) return parsed.value;
+		if (this._parseErrors.length < MAX_PARSE_ERRORS) {
+			this._parseErrors.push(parsed.error);
+		}
+		return null;
 	}
 
 	private collectReplayErrors(): TradingError[] {